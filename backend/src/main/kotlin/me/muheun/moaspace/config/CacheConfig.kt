@@ -15,6 +15,7 @@ import org.springframework.context.annotation.Configuration
  *
  * **Cache Names**:
  * - `vectorConfig`: VectorConfig 엔티티 설정 캐시
+ * - `relatedPosts`: 게시글별 관련 게시글 (재인덱싱 시 해당 게시글만 무효화)
  *
  * **Cache Provider**:
  * - Phase 1: Spring Simple (in-memory)
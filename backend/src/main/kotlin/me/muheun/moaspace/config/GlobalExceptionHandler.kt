@@ -8,6 +8,7 @@ import org.springframework.validation.FieldError
 import org.springframework.web.bind.MethodArgumentNotValidException
 import org.springframework.web.bind.annotation.ExceptionHandler
 import org.springframework.web.bind.annotation.RestControllerAdvice
+import org.springframework.web.multipart.MaxUploadSizeExceededException
 import java.time.LocalDateTime
 
 /**
@@ -70,6 +71,21 @@ class GlobalExceptionHandler {
         return ResponseEntity.status(HttpStatus.BAD_REQUEST).body(errorResponse)
     }
 
+    /**
+     * 업로드 파일이 spring.servlet.multipart.max-file-size 초과: 413 Payload Too Large
+     */
+    @ExceptionHandler(MaxUploadSizeExceededException::class)
+    fun handleMaxUploadSizeExceededException(ex: MaxUploadSizeExceededException): ResponseEntity<ErrorResponse> {
+        logger.warn("업로드 크기 초과: ${ex.message}")
+
+        val errorResponse = ErrorResponse(
+            status = HttpStatus.PAYLOAD_TOO_LARGE.value(),
+            error = "Payload Too Large",
+            message = "파일 크기가 너무 큽니다"
+        )
+        return ResponseEntity.status(HttpStatus.PAYLOAD_TOO_LARGE).body(errorResponse)
+    }
+
     @ExceptionHandler(AccessDeniedException::class)
     fun handleAccessDeniedException(ex: AccessDeniedException): ResponseEntity<ErrorResponse> {
         logger.warn("권한 거부: ${ex.message}")
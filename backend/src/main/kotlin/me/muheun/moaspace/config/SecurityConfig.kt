@@ -1,14 +1,26 @@
 package me.muheun.moaspace.config
 
+import me.muheun.moaspace.domain.user.UserRole
+import me.muheun.moaspace.security.AuthCookieManager
+import me.muheun.moaspace.security.CookieBearerTokenResolver
+import me.muheun.moaspace.security.CsrfCookieFilter
+import me.muheun.moaspace.security.ReturnToAuthorizationRequestResolver
 import me.muheun.moaspace.service.JwtTokenService
 import org.springframework.context.annotation.Bean
 import org.springframework.context.annotation.Configuration
 import org.springframework.context.annotation.Profile
+import org.springframework.http.HttpMethod
 import org.springframework.security.config.annotation.web.builders.HttpSecurity
 import org.springframework.security.config.annotation.web.configuration.EnableWebSecurity
 import org.springframework.security.config.http.SessionCreationPolicy
+import org.springframework.security.oauth2.client.registration.ClientRegistrationRepository
 import org.springframework.security.oauth2.jwt.JwtDecoder
+import org.springframework.security.oauth2.server.resource.authentication.JwtAuthenticationConverter
+import org.springframework.security.oauth2.server.resource.authentication.JwtGrantedAuthoritiesConverter
 import org.springframework.security.web.SecurityFilterChain
+import org.springframework.security.web.authentication.www.BasicAuthenticationFilter
+import org.springframework.security.web.csrf.CsrfTokenRequestAttributeHandler
+import org.springframework.security.web.util.matcher.RequestMatcher
 import org.springframework.web.cors.CorsConfiguration
 import org.springframework.web.cors.CorsConfigurationSource
 import org.springframework.web.cors.UrlBasedCorsConfigurationSource
@@ -23,23 +35,37 @@ class SecurityConfig(
     private val oauth2SuccessHandler: me.muheun.moaspace.security.OAuth2SuccessHandler,
     private val oauth2FailureHandler: me.muheun.moaspace.security.OAuth2FailureHandler,
     private val restAuthenticationEntryPoint: me.muheun.moaspace.security.RestAuthenticationEntryPoint,
+    private val restAccessDeniedHandler: me.muheun.moaspace.security.RestAccessDeniedHandler,
+    private val cookieBearerTokenResolver: CookieBearerTokenResolver,
+    private val authCookieManager: AuthCookieManager,
+    private val clientRegistrationRepository: ClientRegistrationRepository,
     private val jwtTokenService: JwtTokenService
 ) {
 
     @Bean
     fun securityFilterChain(http: HttpSecurity): SecurityFilterChain {
         http
-            .csrf { it.disable() }
+            // Double Submit CSRF: XSRF-TOKEN Cookie == X-XSRF-TOKEN 헤더 (Cookie 인증 요청만 검증)
+            .csrf { csrf ->
+                csrf
+                    .csrfTokenRepository(authCookieManager.createCsrfTokenRepository())
+                    .csrfTokenRequestHandler(CsrfTokenRequestAttributeHandler())
+                    .requireCsrfProtectionMatcher(RequestMatcher { CookieBearerTokenResolver.requiresCsrfProtection(it) })
+            }
+            .addFilterAfter(CsrfCookieFilter(), BasicAuthenticationFilter::class.java)
             .cors { it.configurationSource(corsConfigurationSource()) }
             .sessionManagement { session ->
                 session.sessionCreationPolicy(SessionCreationPolicy.STATELESS)
             }
             .exceptionHandling { exception ->
                 exception.authenticationEntryPoint(restAuthenticationEntryPoint)
+                exception.accessDeniedHandler(restAccessDeniedHandler)
             }
             .oauth2ResourceServer { oauth2 ->
+                oauth2.bearerTokenResolver(cookieBearerTokenResolver)
                 oauth2.jwt { jwt ->
                     jwt.decoder(jwtDecoder())
+                    jwt.jwtAuthenticationConverter(jwtAuthenticationConverter())
                 }
             }
             .authorizeHttpRequests { auth ->
@@ -49,16 +75,31 @@ class SecurityConfig(
                         "/error",
                         "/api/health",
                         "/api/auth/logout",
+                        "/api/auth/csrf",
+                        "/api/auth/refresh",
                         "/login/**",
-                        "/oauth2/**"
+                        "/oauth2/**",
+                        "/uploads/**"
                     ).permitAll()
                     .requestMatchers("/api/auth/me").authenticated()
                     .requestMatchers("/api/posts/**").authenticated()
+                    .requestMatchers("/api/uploads/**").authenticated()
+                    .requestMatchers("/api/drafts/**").authenticated()
+                    .requestMatchers(HttpMethod.GET, "/api/tags/trending").permitAll()
+                    .requestMatchers("/api/tags/**").authenticated()
+                    .requestMatchers("/api/vector-configs/**").hasRole(UserRole.ADMIN.name)
+                    .requestMatchers("/api/admin/tags/**").hasAnyRole(UserRole.MODERATOR.name, UserRole.ADMIN.name)
                     .requestMatchers("/api/**").permitAll()
                     .anyRequest().authenticated()
             }
             .oauth2Login { oauth2 ->
                 oauth2
+                    .authorizationEndpoint { authorization ->
+                        // ?returnTo= 를 OAuth state에 담아 로그인 후 원래 페이지로 복귀
+                        authorization.authorizationRequestResolver(
+                            ReturnToAuthorizationRequestResolver(clientRegistrationRepository)
+                        )
+                    }
                     .redirectionEndpoint { redirection ->
                         redirection.baseUri("/login/oauth2/code/*")
                     }
@@ -69,6 +110,21 @@ class SecurityConfig(
         return http.build()
     }
 
+    /**
+     * JWT role 클레임 → Spring Security 권한 매핑 (ADMIN → ROLE_ADMIN)
+     */
+    @Bean
+    fun jwtAuthenticationConverter(): JwtAuthenticationConverter {
+        val authoritiesConverter = JwtGrantedAuthoritiesConverter().apply {
+            setAuthoritiesClaimName(JwtTokenService.CLAIM_ROLE)
+            setAuthorityPrefix("ROLE_")
+        }
+
+        return JwtAuthenticationConverter().apply {
+            setJwtGrantedAuthoritiesConverter(authoritiesConverter)
+        }
+    }
+
     /**
      * JWT Decoder 설정
      *
@@ -87,6 +143,11 @@ class SecurityConfig(
                     .parseSignedClaims(token)
                     .payload
 
+                // Refresh Token을 Bearer 토큰으로 사용하는 것을 차단
+                if (claims["type"] != JwtTokenService.TOKEN_TYPE_ACCESS) {
+                    throw IllegalArgumentException("Access Token이 아닙니다: type=${claims["type"]}")
+                }
+
                 val headers = mutableMapOf<String, Any>("alg" to "HS256", "typ" to "JWT")
                 val claimsMap = claims.mapValues { it.value as Any }.toMutableMap()
 
@@ -123,7 +184,8 @@ class SecurityConfig(
                 "Content-Type",
                 "Accept",
                 "Origin",
-                "X-Requested-With"
+                "X-Requested-With",
+                AuthCookieManager.CSRF_HEADER
             )
             allowCredentials = true
             maxAge = 3600L
@@ -0,0 +1,51 @@
+package me.muheun.moaspace.config
+
+import org.springframework.boot.context.properties.ConfigurationProperties
+import org.springframework.stereotype.Component
+
+/**
+ * 이미지 업로드 설정
+ *
+ * application.yml에서 다음과 같이 설정:
+ * ```yaml
+ * upload:
+ *   storage: local
+ *   public-path: /uploads
+ *   local:
+ *     directory: ./uploads
+ * ```
+ *
+ * storage 값으로 ImageStorage 구현체를 선택합니다 (현재 local만 제공).
+ */
+@Component
+@ConfigurationProperties(prefix = "upload")
+data class UploadProperties(
+    /**
+     * 저장소 종류 (ImageStorage 구현체 선택)
+     * 기본값: "local"
+     */
+    var storage: String = "local",
+
+    /**
+     * 업로드 파일을 제공하는 공개 URL 경로 (Backend origin 기준)
+     */
+    var publicPath: String = "/uploads",
+
+    /**
+     * 이미지 최대 크기 (바이트)
+     * 클라이언트가 리사이즈 후 업로드하므로 원본보다 훨씬 작음
+     */
+    var maxImageBytes: Long = 10 * 1024 * 1024,
+
+    /**
+     * 로컬 디스크 저장소 설정
+     */
+    var local: Local = Local()
+) {
+    data class Local(
+        /**
+         * 저장 디렉토리 (환경변수 UPLOAD_DIR로 오버라이드)
+         */
+        var directory: String = "./uploads"
+    )
+}
@@ -8,12 +8,16 @@ import org.springframework.context.annotation.Bean
 import org.springframework.context.annotation.Configuration
 import org.springframework.web.filter.OncePerRequestFilter
 import org.springframework.web.servlet.config.annotation.CorsRegistry
+import org.springframework.web.servlet.config.annotation.ResourceHandlerRegistry
 import org.springframework.web.servlet.config.annotation.WebMvcConfigurer
+import java.nio.file.Paths
 import java.util.UUID
 
-// CORS 및 요청 추적(MDC) 설정
+// CORS, 업로드 파일 제공 및 요청 추적(MDC) 설정
 @Configuration
-class WebConfig : WebMvcConfigurer {
+class WebConfig(
+    private val uploadProperties: UploadProperties
+) : WebMvcConfigurer {
 
     override fun addCorsMappings(registry: CorsRegistry) {
         registry.addMapping("/api/**")  // /api/** 경로에 대해 CORS 허용
@@ -24,6 +28,16 @@ class WebConfig : WebMvcConfigurer {
             .maxAge(3600)  // preflight 요청 캐시 시간 (1시간)
     }
 
+    // 로컬 디스크 저장소의 업로드 이미지 제공 (upload.public-path → upload.local.directory)
+    override fun addResourceHandlers(registry: ResourceHandlerRegistry) {
+        if (uploadProperties.storage != "local") return
+
+        val location = Paths.get(uploadProperties.local.directory).toAbsolutePath().normalize().toUri().toString()
+        registry.addResourceHandler("${uploadProperties.publicPath.trimEnd('/')}/**")
+            .addResourceLocations(if (location.endsWith("/")) location else "$location/")
+            .setCachePeriod(60 * 60 * 24 * 365)  // 파일명이 UUID라 내용이 바뀌지 않으므로 장기 캐시
+    }
+
     // 요청 추적용 MDC 필터 - requestId, remoteIp, userAgent, method, uri 자동 설정
     @Bean
     fun mdcFilter() = object : OncePerRequestFilter() {
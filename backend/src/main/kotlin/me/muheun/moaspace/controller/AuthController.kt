@@ -1,8 +1,12 @@
 package me.muheun.moaspace.controller
 
+import me.muheun.moaspace.dto.TokenRefreshResponse
 import me.muheun.moaspace.dto.UserResponse
+import me.muheun.moaspace.security.AuthCookieManager
+import me.muheun.moaspace.service.JwtTokenService
 import me.muheun.moaspace.service.UserService
 import org.slf4j.LoggerFactory
+import org.springframework.http.HttpHeaders
 import org.springframework.http.HttpStatus
 import org.springframework.http.ResponseEntity
 import org.springframework.security.core.annotation.AuthenticationPrincipal
@@ -12,7 +16,9 @@ import org.springframework.web.bind.annotation.*
 @RestController
 @RequestMapping("/api/auth")
 class AuthController(
-    private val userService: UserService
+    private val userService: UserService,
+    private val jwtTokenService: JwtTokenService,
+    private val authCookieManager: AuthCookieManager
 ) {
 
     private val logger = LoggerFactory.getLogger(AuthController::class.java)
@@ -34,15 +40,76 @@ class AuthController(
         return ResponseEntity.ok(response)
     }
 
+    /**
+     * Access Token 재발급
+     *
+     * httpOnly refresh_token Cookie를 검증하여 새 Access Token을 httpOnly Cookie로 발급하고,
+     * Refresh Token도 함께 교체(rotation)합니다. 토큰 값은 응답 본문에 포함하지 않습니다.
+     * Cookie가 없거나 유효하지 않으면 401 INVALID_REFRESH_TOKEN을 반환합니다.
+     */
+    @PostMapping("/refresh")
+    fun refresh(
+        @CookieValue(name = AuthCookieManager.REFRESH_TOKEN_COOKIE, required = false) refreshToken: String?
+    ): ResponseEntity<Any> {
+        val userId = refreshToken?.let { jwtTokenService.getUserIdFromRefreshToken(it) }
+            ?: return invalidRefreshToken("유효하지 않은 Refresh Token입니다")
+
+        val user = try {
+            userService.getUserById(userId)
+        } catch (e: NoSuchElementException) {
+            return invalidRefreshToken("사용자를 찾을 수 없습니다")
+        }
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email, user.role)
+        val rotatedRefreshToken = jwtTokenService.generateRefreshToken(user.id!!)
+
+        logger.info("Access Token 재발급 완료: userId=$userId")
+
+        return ResponseEntity.ok()
+            .header(HttpHeaders.SET_COOKIE, authCookieManager.createAccessTokenCookie(accessToken).toString())
+            .header(HttpHeaders.SET_COOKIE, authCookieManager.createRefreshTokenCookie(rotatedRefreshToken).toString())
+            .body(TokenRefreshResponse(expiresIn = jwtTokenService.getAccessTokenExpirationSeconds()))
+    }
+
+    /**
+     * CSRF 토큰 발급
+     *
+     * CsrfCookieFilter가 XSRF-TOKEN Cookie를 응답에 포함하므로 본문 없이 204를 반환합니다.
+     * 브라우저 재시작 등으로 XSRF-TOKEN(세션 Cookie)이 사라진 경우 프론트엔드가 변경 요청 전에 호출합니다.
+     */
+    @GetMapping("/csrf")
+    fun csrf(): ResponseEntity<Void> {
+        return ResponseEntity.noContent().build()
+    }
+
     
     @PostMapping("/logout")
     fun logout(): ResponseEntity<Void> {
-        logger.info("로그아웃 요청 (클라이언트 측 JWT 토큰 삭제)")
+        logger.info("로그아웃 요청 (인증 Cookie 삭제)")
+
+        // Access/Refresh Token 모두 httpOnly Cookie이므로 서버에서 만료 처리
+
+        return ResponseEntity.status(HttpStatus.NO_CONTENT)
+            .header(HttpHeaders.SET_COOKIE, authCookieManager.clearAccessTokenCookie().toString())
+            .header(HttpHeaders.SET_COOKIE, authCookieManager.clearRefreshTokenCookie().toString())
+            .build()
+    }
+
+    private fun invalidRefreshToken(message: String): ResponseEntity<Any> {
+        logger.warn("Access Token 재발급 실패: $message")
 
-        // Stateless JWT 방식: 서버 측 처리 불필요
-        // 프론트엔드에서 localStorage.removeItem('access_token') 호출
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "INVALID_REFRESH_TOKEN",
+                "message" to message,
+                "timestamp" to java.time.LocalDateTime.now()
+            )
+        )
 
-        return ResponseEntity.status(HttpStatus.NO_CONTENT).build()
+        return ResponseEntity.status(HttpStatus.UNAUTHORIZED)
+            .header(HttpHeaders.SET_COOKIE, authCookieManager.clearAccessTokenCookie().toString())
+            .header(HttpHeaders.SET_COOKIE, authCookieManager.clearRefreshTokenCookie().toString())
+            .body(errorResponse)
     }
 
     /**
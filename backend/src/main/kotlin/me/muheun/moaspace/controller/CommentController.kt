@@ -0,0 +1,123 @@
+package me.muheun.moaspace.controller
+
+import jakarta.validation.Valid
+import me.muheun.moaspace.dto.CommentResponse
+import me.muheun.moaspace.dto.CreateCommentRequest
+import me.muheun.moaspace.dto.UpdateCommentRequest
+import me.muheun.moaspace.service.CommentService
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.security.core.annotation.AuthenticationPrincipal
+import org.springframework.security.oauth2.jwt.Jwt
+import org.springframework.web.bind.annotation.*
+import java.time.LocalDateTime
+
+/**
+ * 게시글 댓글 API
+ *
+ * /api/posts/** 하위 경로이므로 SecurityConfig에서 인증 필수
+ */
+@RestController
+@RequestMapping("/api/posts/{postId}/comments")
+class CommentController(
+    private val commentService: CommentService
+) {
+
+    private val logger = LoggerFactory.getLogger(CommentController::class.java)
+
+    @GetMapping
+    fun getComments(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long
+    ): ResponseEntity<List<CommentResponse>> {
+        logger.info("댓글 목록 조회 요청: postId=$postId")
+
+        val comments = commentService.getComments(postId)
+
+        return ResponseEntity.ok(comments.map { CommentResponse.from(it) })
+    }
+
+    @PostMapping
+    fun createComment(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long,
+        @Valid @RequestBody request: CreateCommentRequest
+    ): ResponseEntity<CommentResponse> {
+        val userId = jwt.subject.toLong()
+
+        logger.info("댓글 생성 요청: postId=$postId, userId=$userId, parentId=${request.parentId}")
+
+        val comment = commentService.createComment(postId, request, userId)
+
+        logger.info("댓글 생성 완료: commentId=${comment.id}, userId=$userId")
+
+        return ResponseEntity.status(HttpStatus.CREATED).body(CommentResponse.from(comment))
+    }
+
+    @PutMapping("/{commentId}")
+    fun updateComment(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long,
+        @PathVariable commentId: Long,
+        @Valid @RequestBody request: UpdateCommentRequest
+    ): ResponseEntity<CommentResponse> {
+        val userId = jwt.subject.toLong()
+
+        logger.info("댓글 수정 요청: commentId=$commentId, userId=$userId")
+
+        val comment = commentService.updateComment(postId, commentId, request, userId)
+
+        return ResponseEntity.ok(CommentResponse.from(comment))
+    }
+
+    @DeleteMapping("/{commentId}")
+    fun deleteComment(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long,
+        @PathVariable commentId: Long
+    ): ResponseEntity<Void> {
+        val userId = jwt.subject.toLong()
+
+        logger.info("댓글 삭제 요청: commentId=$commentId, userId=$userId")
+
+        commentService.deleteComment(postId, commentId, userId)
+
+        return ResponseEntity.noContent().build()
+    }
+
+    /**
+     * 예외 처리: 권한 오류 (403 Forbidden) 및 리소스 없음 (404 Not Found)
+     *
+     * PostController와 동일한 중첩 에러 형식({ error: { code, message, timestamp } }) 사용
+     */
+    @ExceptionHandler(IllegalArgumentException::class)
+    fun handleBusinessException(ex: IllegalArgumentException): ResponseEntity<Map<String, Any>> {
+        logger.error("비즈니스 로직 오류: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "FORBIDDEN",
+                "message" to (ex.message ?: "권한이 없습니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.FORBIDDEN).body(errorResponse)
+    }
+
+    @ExceptionHandler(NoSuchElementException::class)
+    fun handleCommentNotFoundException(ex: NoSuchElementException): ResponseEntity<Map<String, Any>> {
+        logger.error("리소스 없음: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "COMMENT_NOT_FOUND",
+                "message" to (ex.message ?: "댓글을 찾을 수 없습니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.NOT_FOUND).body(errorResponse)
+    }
+}
@@ -0,0 +1,112 @@
+package me.muheun.moaspace.controller
+
+import jakarta.validation.Valid
+import me.muheun.moaspace.dto.DraftResponse
+import me.muheun.moaspace.dto.DraftSummaryResponse
+import me.muheun.moaspace.dto.SaveDraftRequest
+import me.muheun.moaspace.service.DraftService
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.security.core.annotation.AuthenticationPrincipal
+import org.springframework.security.oauth2.jwt.Jwt
+import org.springframework.web.bind.annotation.*
+import java.time.LocalDateTime
+
+/**
+ * 게시글 초안 자동 저장 API
+ *
+ * 모든 요청은 로그인 사용자 본인의 초안으로 한정 (SecurityConfig에서 인증 필수)
+ */
+@RestController
+@RequestMapping("/api/drafts")
+class DraftController(
+    private val draftService: DraftService
+) {
+
+    private val logger = LoggerFactory.getLogger(DraftController::class.java)
+
+    @GetMapping
+    fun getDrafts(
+        @AuthenticationPrincipal jwt: Jwt
+    ): ResponseEntity<List<DraftSummaryResponse>> {
+        val userId = jwt.subject.toLong()
+
+        val drafts = draftService.getDrafts(userId)
+
+        return ResponseEntity.ok(drafts.map { DraftSummaryResponse.from(it) })
+    }
+
+    @GetMapping("/{draftKey}")
+    fun getDraft(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable draftKey: String
+    ): ResponseEntity<DraftResponse> {
+        val userId = jwt.subject.toLong()
+
+        val draft = draftService.getDraft(draftKey, userId)
+
+        return ResponseEntity.ok(DraftResponse.from(draft))
+    }
+
+    // 자동 저장 (upsert)
+    @PutMapping("/{draftKey}")
+    fun saveDraft(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable draftKey: String,
+        @Valid @RequestBody request: SaveDraftRequest
+    ): ResponseEntity<DraftResponse> {
+        val userId = jwt.subject.toLong()
+
+        val draft = draftService.saveDraft(draftKey, request, userId)
+
+        return ResponseEntity.ok(DraftResponse.from(draft))
+    }
+
+    @DeleteMapping("/{draftKey}")
+    fun deleteDraft(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable draftKey: String
+    ): ResponseEntity<Void> {
+        val userId = jwt.subject.toLong()
+
+        draftService.deleteDraft(draftKey, userId)
+
+        return ResponseEntity.noContent().build()
+    }
+
+    /**
+     * 예외 처리: 권한 오류 (403 Forbidden) 및 리소스 없음 (404 Not Found)
+     *
+     * PostController와 동일한 중첩 에러 형식({ error: { code, message, timestamp } }) 사용
+     */
+    @ExceptionHandler(IllegalArgumentException::class)
+    fun handleBusinessException(ex: IllegalArgumentException): ResponseEntity<Map<String, Any>> {
+        logger.error("비즈니스 로직 오류: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "FORBIDDEN",
+                "message" to (ex.message ?: "권한이 없습니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.FORBIDDEN).body(errorResponse)
+    }
+
+    @ExceptionHandler(NoSuchElementException::class)
+    fun handleDraftNotFoundException(ex: NoSuchElementException): ResponseEntity<Map<String, Any>> {
+        logger.warn("리소스 없음: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "DRAFT_NOT_FOUND",
+                "message" to (ex.message ?: "초안을 찾을 수 없습니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.NOT_FOUND).body(errorResponse)
+    }
+}
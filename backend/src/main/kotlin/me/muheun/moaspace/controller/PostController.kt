@@ -1,10 +1,11 @@
 package me.muheun.moaspace.controller
 
 import jakarta.validation.Valid
-import me.muheun.moaspace.config.VectorProperties
-import me.muheun.moaspace.domain.vector.VectorEntityType
 import me.muheun.moaspace.dto.*
+import me.muheun.moaspace.query.dto.HashtagFilter
+import me.muheun.moaspace.service.PostSearchService
 import me.muheun.moaspace.service.PostService
+import me.muheun.moaspace.service.RelatedPostService
 import org.slf4j.LoggerFactory
 import org.springframework.data.domain.PageRequest
 import org.springframework.data.domain.Sort
@@ -19,10 +20,8 @@ import java.time.LocalDateTime
 @RequestMapping("/api/posts")
 class PostController(
     private val postService: PostService,
-    private val vectorProperties: VectorProperties,
-    private val vectorChunkRepository: me.muheun.moaspace.repository.VectorChunkRepository,
-    private val postRepository: me.muheun.moaspace.repository.PostRepository,
-    private val vectorEmbeddingService: me.muheun.moaspace.service.VectorEmbeddingService
+    private val postSearchService: PostSearchService,
+    private val relatedPostService: RelatedPostService
 ) {
 
     private val logger = LoggerFactory.getLogger(PostController::class.java)
@@ -51,14 +50,21 @@ class PostController(
         @AuthenticationPrincipal jwt: Jwt,
         @RequestParam(defaultValue = "0") page: Int,
         @RequestParam(defaultValue = "20") size: Int,
-        @RequestParam(required = false) hashtag: String?
-    ): ResponseEntity<PostListResponse> {
+        @RequestParam(required = false) hashtag: String?,
+        @RequestParam(required = false) hashtags: List<String>?,
+        @RequestParam(required = false) match: String?
+    ): ResponseEntity<Any> {
         val pageSize = minOf(size, 100)
         val pageable = PageRequest.of(page, pageSize, Sort.by(Sort.Direction.DESC, "createdAt"))
+        val hashtagFilter = try {
+            HashtagFilter.of(hashtag, hashtags, match)
+        } catch (ex: IllegalArgumentException) {
+            return invalidHashtagFilter(ex)
+        }
 
-        logger.info("게시글 목록 조회 요청: page=$page, size=$pageSize, hashtag=$hashtag")
+        logger.info("게시글 목록 조회 요청: page=$page, size=$pageSize, hashtagFilter=$hashtagFilter")
 
-        val postPage = postService.getAllPosts(pageable, hashtag)
+        val postPage = postService.getAllPosts(pageable, hashtagFilter)
         val response = PostListResponse.from(postPage)
 
         logger.info("게시글 목록 조회 완료: totalElements=${postPage.totalElements}, totalPages=${postPage.totalPages}")
@@ -66,6 +72,74 @@ class PostController(
         return ResponseEntity.ok(response)
     }
 
+    /**
+     * 게시글 피드 조회 (커서 기반 무한 스크롤)
+     *
+     * 첫 요청은 cursor 없이, 이후에는 응답의 nextCursor를 전달
+     * OFFSET 스캔이 없어 깊은 페이지도 일정한 속도이며, 새 글이 추가돼도 페이지가 밀리지 않음
+     */
+    @GetMapping("/feed")
+    fun getPostFeed(
+        @AuthenticationPrincipal jwt: Jwt,
+        @RequestParam(required = false) cursor: String?,
+        @RequestParam(defaultValue = "20") size: Int,
+        @RequestParam(required = false) hashtag: String?,
+        @RequestParam(required = false) hashtags: List<String>?,
+        @RequestParam(required = false) match: String?
+    ): ResponseEntity<Any> {
+        val pageSize = size.coerceIn(1, 100)
+        val decodedCursor = cursor?.let {
+            PostCursor.decodeOrNull(it) ?: return invalidCursor(it)
+        }
+        val hashtagFilter = try {
+            HashtagFilter.of(hashtag, hashtags, match)
+        } catch (ex: IllegalArgumentException) {
+            return invalidHashtagFilter(ex)
+        }
+
+        logger.info("게시글 피드 조회 요청: cursor=$decodedCursor, size=$pageSize, hashtagFilter=$hashtagFilter")
+
+        val posts = postService.getPostFeed(decodedCursor, pageSize, hashtagFilter)
+        val response = PostFeedResponse.of(posts, pageSize)
+
+        logger.info("게시글 피드 조회 완료: count=${response.posts.size}, hasNext=${response.nextCursor != null}")
+
+        return ResponseEntity.ok(response)
+    }
+
+    private fun invalidCursor(cursor: String): ResponseEntity<Any> {
+        logger.warn("잘못된 피드 커서: $cursor")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "VALIDATION_ERROR",
+                "message" to "잘못된 커서입니다",
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.BAD_REQUEST).body(errorResponse)
+    }
+
+    /**
+     * 잘못된 해시태그 필터 (match 값, 태그 개수 초과)
+     *
+     * IllegalArgumentException은 이 컨트롤러에서 403(권한)으로 처리되므로 필터 검증 오류는 여기서 400으로 응답
+     */
+    private fun invalidHashtagFilter(ex: IllegalArgumentException): ResponseEntity<Any> {
+        logger.warn("잘못된 해시태그 필터: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "VALIDATION_ERROR",
+                "message" to (ex.message ?: "잘못된 해시태그 필터입니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.BAD_REQUEST).body(errorResponse)
+    }
+
     
     @GetMapping("/{id}")
     fun getPostById(
@@ -80,6 +154,26 @@ class PostController(
         return ResponseEntity.ok(response)
     }
 
+    /**
+     * 관련 게시글 조회 (게시글 벡터 기준 최근접, 자기 자신 제외)
+     *
+     * 게시글별로 캐시되며 해당 게시글이 재인덱싱되면 무효화 (RelatedPostService)
+     */
+    @GetMapping("/{id}/related")
+    fun getRelatedPosts(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable id: Long,
+        @RequestParam(defaultValue = "5") limit: Int
+    ): ResponseEntity<VectorSearchResponse> {
+        val relatedLimit = limit.coerceIn(1, RelatedPostService.MAX_RELATED_POSTS)
+
+        logger.info("관련 게시글 조회 요청: postId=$id, limit=$relatedLimit")
+
+        val results = relatedPostService.findRelatedPosts(id).take(relatedLimit)
+
+        return ResponseEntity.ok(VectorSearchResponse(results = results))
+    }
+
     
     @PutMapping("/{id}")
     fun updatePost(
@@ -105,35 +199,14 @@ class PostController(
         @AuthenticationPrincipal jwt: Jwt,
         @Valid @RequestBody request: PostSearchRequest
     ): ResponseEntity<VectorSearchResponse> {
-        logger.info("벡터 검색 요청: query=${request.query.take(50)}, threshold=${request.threshold}, limit=${request.limit}")
-
-        // 1. 쿼리 벡터화
-        val queryVector = vectorEmbeddingService.generateEmbedding(request.query).toArray()
-
-        // 2. VectorChunk 기반 레코드별 유사도 검색
-        val recordScores = vectorChunkRepository.findSimilarRecords(
-            queryVector = queryVector,
-            namespace = vectorProperties.namespace,
-            entity = VectorEntityType.POST.typeName,
-            limit = request.limit
-        )
+        logger.info("게시글 검색 요청: mode=${request.mode}, query=${request.query.take(50)}, threshold=${request.threshold}, limit=${request.limit}")
 
-        // 3. threshold 필터링 및 Post 조회
-        val results = recordScores
-            .filter { it.score >= request.threshold }
-            .mapNotNull { scoreDto ->
-                val postId = scoreDto.recordKey.toLongOrNull() ?: return@mapNotNull null
-                postRepository.findById(postId).map { post ->
-                    SearchResult(
-                        post = PostSummary.from(post),
-                        similarity = scoreDto.score
-                    )
-                }.orElse(null)
-            }
+        // keyword / semantic / hybrid (PostSearchService)
+        val results = postSearchService.search(request)
 
         val response = VectorSearchResponse(results = results)
 
-        logger.info("벡터 검색 완료: 결과 수=${response.results.size}")
+        logger.info("게시글 검색 완료: 결과 수=${response.results.size}")
 
         return ResponseEntity.ok(response)
     }
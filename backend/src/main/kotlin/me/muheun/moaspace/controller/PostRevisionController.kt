@@ -0,0 +1,100 @@
+package me.muheun.moaspace.controller
+
+import me.muheun.moaspace.dto.PostResponse
+import me.muheun.moaspace.dto.PostRevisionResponse
+import me.muheun.moaspace.service.PostRevisionService
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.security.core.annotation.AuthenticationPrincipal
+import org.springframework.security.oauth2.jwt.Jwt
+import org.springframework.web.bind.annotation.*
+import java.time.LocalDateTime
+
+/**
+ * 게시글 수정 이력 API
+ *
+ * /api/posts/** 하위 경로이므로 SecurityConfig에서 인증 필수
+ */
+@RestController
+@RequestMapping("/api/posts/{postId}/revisions")
+class PostRevisionController(
+    private val postRevisionService: PostRevisionService
+) {
+
+    private val logger = LoggerFactory.getLogger(PostRevisionController::class.java)
+
+    // 리비전 목록 (최신순, 본문 제외)
+    @GetMapping
+    fun getRevisions(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long
+    ): ResponseEntity<List<PostRevisionResponse>> {
+        logger.info("리비전 목록 조회 요청: postId=$postId")
+
+        val revisions = postRevisionService.getRevisions(postId)
+
+        return ResponseEntity.ok(revisions.map { PostRevisionResponse.summary(it) })
+    }
+
+    @GetMapping("/{revisionId}")
+    fun getRevision(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long,
+        @PathVariable revisionId: Long
+    ): ResponseEntity<PostRevisionResponse> {
+        val revision = postRevisionService.getRevision(postId, revisionId)
+
+        return ResponseEntity.ok(PostRevisionResponse.from(revision))
+    }
+
+    @PostMapping("/{revisionId}/restore")
+    fun restoreRevision(
+        @AuthenticationPrincipal jwt: Jwt,
+        @PathVariable postId: Long,
+        @PathVariable revisionId: Long
+    ): ResponseEntity<PostResponse> {
+        val userId = jwt.subject.toLong()
+
+        logger.info("리비전 복원 요청: postId=$postId, revisionId=$revisionId, userId=$userId")
+
+        val restoredPost = postRevisionService.restoreRevision(postId, revisionId, userId)
+
+        return ResponseEntity.ok(PostResponse.from(restoredPost))
+    }
+
+    /**
+     * 예외 처리: 권한 오류 (403 Forbidden) 및 리소스 없음 (404 Not Found)
+     *
+     * PostController와 동일한 중첩 에러 형식({ error: { code, message, timestamp } }) 사용
+     */
+    @ExceptionHandler(IllegalArgumentException::class)
+    fun handleBusinessException(ex: IllegalArgumentException): ResponseEntity<Map<String, Any>> {
+        logger.error("비즈니스 로직 오류: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "FORBIDDEN",
+                "message" to (ex.message ?: "권한이 없습니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.FORBIDDEN).body(errorResponse)
+    }
+
+    @ExceptionHandler(NoSuchElementException::class)
+    fun handleRevisionNotFoundException(ex: NoSuchElementException): ResponseEntity<Map<String, Any>> {
+        logger.error("리소스 없음: ${ex.message}")
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to "REVISION_NOT_FOUND",
+                "message" to (ex.message ?: "리비전을 찾을 수 없습니다"),
+                "timestamp" to LocalDateTime.now()
+            )
+        )
+
+        return ResponseEntity.status(HttpStatus.NOT_FOUND).body(errorResponse)
+    }
+}
@@ -0,0 +1,84 @@
+package me.muheun.moaspace.controller
+
+import jakarta.validation.Valid
+import me.muheun.moaspace.dto.TagMergeRequest
+import me.muheun.moaspace.dto.TagMergeResponse
+import me.muheun.moaspace.dto.TagRenameRequest
+import me.muheun.moaspace.dto.TagSynonymListResponse
+import me.muheun.moaspace.dto.TagSynonymRequest
+import me.muheun.moaspace.dto.TagSynonymResponse
+import me.muheun.moaspace.service.TagAdminService
+import me.muheun.moaspace.service.TagSynonymService
+import org.springframework.http.HttpStatus
+import org.springframework.http.ResponseEntity
+import org.springframework.security.core.annotation.AuthenticationPrincipal
+import org.springframework.security.oauth2.jwt.Jwt
+import org.springframework.web.bind.annotation.*
+
+/**
+ * 해시태그 관리 API (MODERATOR 이상, SecurityConfig)
+ */
+@RestController
+@RequestMapping("/api/admin/tags")
+class TagAdminController(
+    private val tagAdminService: TagAdminService,
+    private val tagSynonymService: TagSynonymService
+) {
+
+    /**
+     * 태그 이름 변경 (from이 달린 모든 게시글, 리비전 기록 + 재인덱싱)
+     *
+     * @throws NoSuchElementException from이 달린 게시글이 없는 경우 (404)
+     */
+    @PostMapping("/rename")
+    fun renameTag(
+        @AuthenticationPrincipal jwt: Jwt,
+        @Valid @RequestBody request: TagRenameRequest
+    ): ResponseEntity<TagMergeResponse> {
+        val result = tagAdminService.renameTag(request.from, request.to, jwt.subject.toLong())
+
+        return ResponseEntity.ok(result)
+    }
+
+    /**
+     * 여러 태그를 하나로 병합 (addSynonyms이면 병합한 태그를 동의어로 등록)
+     */
+    @PostMapping("/merge")
+    fun mergeTags(
+        @AuthenticationPrincipal jwt: Jwt,
+        @Valid @RequestBody request: TagMergeRequest
+    ): ResponseEntity<TagMergeResponse> {
+        val result = tagAdminService.mergeTags(request.sources, request.target, request.addSynonyms, jwt.subject.toLong())
+
+        return ResponseEntity.ok(result)
+    }
+
+    /**
+     * 동의어 목록 (대표 태그, 동의어 순)
+     */
+    @GetMapping("/synonyms")
+    fun getSynonyms(): ResponseEntity<TagSynonymListResponse> {
+        val synonyms = tagSynonymService.getSynonyms().map { TagSynonymResponse.from(it) }
+
+        return ResponseEntity.ok(TagSynonymListResponse(synonyms = synonyms))
+    }
+
+    /**
+     * 동의어 등록 (목록 필터와 키워드 검색에서 대표 태그와 함께 찾음)
+     */
+    @PostMapping("/synonyms")
+    fun createSynonym(
+        @Valid @RequestBody request: TagSynonymRequest
+    ): ResponseEntity<TagSynonymResponse> {
+        val synonym = tagSynonymService.createSynonym(request)
+
+        return ResponseEntity.status(HttpStatus.CREATED).body(TagSynonymResponse.from(synonym))
+    }
+
+    @DeleteMapping("/synonyms/{id}")
+    fun deleteSynonym(@PathVariable id: Long): ResponseEntity<Void> {
+        tagSynonymService.deleteSynonym(id)
+
+        return ResponseEntity.noContent().build()
+    }
+}
@@ -0,0 +1,98 @@
+package me.muheun.moaspace.controller
+
+import jakarta.validation.Valid
+import me.muheun.moaspace.dto.TagDetailResponse
+import me.muheun.moaspace.dto.TagDirectoryResponse
+import me.muheun.moaspace.dto.TagRecommendationRequest
+import me.muheun.moaspace.dto.TagRecommendationResponse
+import me.muheun.moaspace.dto.TagSuggestionResponse
+import me.muheun.moaspace.dto.TrendingTagsResponse
+import me.muheun.moaspace.service.TagService
+import org.springframework.http.ResponseEntity
+import org.springframework.security.core.annotation.AuthenticationPrincipal
+import org.springframework.security.oauth2.jwt.Jwt
+import org.springframework.web.bind.annotation.*
+
+/**
+ * 해시태그 API
+ */
+@RestController
+@RequestMapping("/api/tags")
+class TagController(
+    private val tagService: TagService
+) {
+
+    /**
+     * 해시태그 목록 (사용 게시글 수 내림차순, 최근 90일 일자별 활동 포함)
+     */
+    @GetMapping
+    fun getTagDirectory(
+        @AuthenticationPrincipal jwt: Jwt
+    ): ResponseEntity<TagDirectoryResponse> {
+        val tags = tagService.getTagDirectory()
+
+        return ResponseEntity.ok(TagDirectoryResponse(tags = tags))
+    }
+
+    /**
+     * 이번 주 인기 급상승 해시태그 (최근 7일 vs 이전 주 평균)
+     *
+     * 메인 페이지(공개)에서도 표시하므로 인증 불필요 (SecurityConfig)
+     */
+    @GetMapping("/trending")
+    fun getTrendingTags(
+        @RequestParam(defaultValue = "10") limit: Int
+    ): ResponseEntity<TrendingTagsResponse> {
+        val tags = tagService.getTrendingTags(limit)
+
+        return ResponseEntity.ok(TrendingTagsResponse(tags = tags))
+    }
+
+    /**
+     * 해시태그 상세 (게시글 수, 최근 90일 활동, 함께 쓰인 태그)
+     *
+     * 태그에 '/' 등이 들어갈 수 있어 경로 대신 쿼리 파라미터로 받음
+     * 게시글이 없는 태그는 404
+     */
+    @GetMapping("/detail")
+    fun getTagDetail(
+        @AuthenticationPrincipal jwt: Jwt,
+        @RequestParam tag: String,
+        @RequestParam(defaultValue = "10") relatedLimit: Int
+    ): ResponseEntity<TagDetailResponse> {
+        val detail = tagService.getTagDetail(tag.trim(), relatedLimit)
+
+        return ResponseEntity.ok(detail)
+    }
+
+    /**
+     * 해시태그 자동완성 (기존 태그를 사용 빈도순으로)
+     *
+     * q는 대소문자·공백·문장부호를 무시하고 접두어 매칭 ("nextjs" → "Next.js")
+     */
+    @GetMapping("/suggest")
+    fun suggestTags(
+        @AuthenticationPrincipal jwt: Jwt,
+        @RequestParam(required = false) q: String?,
+        @RequestParam(defaultValue = "10") limit: Int
+    ): ResponseEntity<TagSuggestionResponse> {
+        val tags = tagService.suggestTags(q, limit)
+
+        return ResponseEntity.ok(TagSuggestionResponse(tags = tags))
+    }
+
+    /**
+     * 작성 중인 글의 해시태그 추천 (가까운 게시글들의 태그 기반, 신뢰도 포함)
+     *
+     * 저장 전 내용으로 계산하므로 POST (본문이 쿼리스트링에 담기기엔 김)
+     */
+    @PostMapping("/recommend")
+    fun recommendTags(
+        @AuthenticationPrincipal jwt: Jwt,
+        @Valid @RequestBody request: TagRecommendationRequest
+    ): ResponseEntity<TagRecommendationResponse> {
+        val suggestions = tagService.recommendTags(request)
+
+        return ResponseEntity.ok(TagRecommendationResponse(suggestions = suggestions))
+    }
+}
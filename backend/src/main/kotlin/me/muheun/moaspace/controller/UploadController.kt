@@ -0,0 +1,44 @@
+package me.muheun.moaspace.controller
+
+import me.muheun.moaspace.dto.ImageUploadResponse
+import me.muheun.moaspace.service.ImageUploadService
+import org.slf4j.LoggerFactory
+import org.springframework.http.HttpStatus
+import org.springframework.http.MediaType
+import org.springframework.http.ResponseEntity
+import org.springframework.security.core.annotation.AuthenticationPrincipal
+import org.springframework.security.oauth2.jwt.Jwt
+import org.springframework.web.bind.annotation.PostMapping
+import org.springframework.web.bind.annotation.RequestMapping
+import org.springframework.web.bind.annotation.RequestParam
+import org.springframework.web.bind.annotation.RestController
+import org.springframework.web.multipart.MultipartFile
+
+/**
+ * 에디터 이미지 업로드 API
+ *
+ * 업로드된 파일은 upload.public-path(기본 /uploads) 경로로 공개 제공됩니다.
+ * 잘못된 형식/크기는 GlobalExceptionHandler가 400/413으로 응답합니다.
+ */
+@RestController
+@RequestMapping("/api/uploads")
+class UploadController(
+    private val imageUploadService: ImageUploadService
+) {
+
+    private val logger = LoggerFactory.getLogger(UploadController::class.java)
+
+    @PostMapping("/images", consumes = [MediaType.MULTIPART_FORM_DATA_VALUE])
+    fun uploadImage(
+        @AuthenticationPrincipal jwt: Jwt,
+        @RequestParam("file") file: MultipartFile
+    ): ResponseEntity<ImageUploadResponse> {
+        val userId = jwt.subject.toLong()
+
+        logger.info("이미지 업로드 요청: userId=$userId, size=${file.size}")
+
+        val response = imageUploadService.uploadImage(file, userId)
+
+        return ResponseEntity.status(HttpStatus.CREATED).body(response)
+    }
+}
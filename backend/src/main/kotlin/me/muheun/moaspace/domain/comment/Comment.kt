@@ -0,0 +1,54 @@
+package me.muheun.moaspace.domain.comment
+
+import jakarta.persistence.*
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import java.time.LocalDateTime
+
+/**
+ * 게시글 댓글 (대댓글 포함)
+ *
+ * - parent가 null이면 게시글에 직접 단 댓글, 있으면 해당 댓글에 대한 답글
+ * - content는 Markdown 원본 (MarkdownViewer로 렌더링)
+ * - 삭제는 소프트 삭제: 답글 스레드 유지를 위해 행은 남기고 내용만 숨김
+ */
+@Entity
+@Table(name = "comments")
+class Comment(
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    val id: Long? = null,
+
+    @ManyToOne(fetch = FetchType.LAZY, optional = false)
+    @JoinColumn(name = "post_id", nullable = false, updatable = false)
+    val post: Post,
+
+    @ManyToOne(fetch = FetchType.LAZY)
+    @JoinColumn(name = "parent_id", updatable = false)
+    val parent: Comment? = null,
+
+    @ManyToOne(fetch = FetchType.LAZY, optional = false)
+    @JoinColumn(name = "author_id", nullable = false, updatable = false)
+    val author: User,
+
+    @Column(nullable = false, columnDefinition = "TEXT")
+    var content: String,
+
+    @Column(nullable = false)
+    var deleted: Boolean = false,
+
+    @Column(name = "created_at", nullable = false, updatable = false)
+    val createdAt: LocalDateTime = LocalDateTime.now(),
+
+    @Column(name = "updated_at")
+    var updatedAt: LocalDateTime? = null
+) {
+    @PreUpdate
+    fun preUpdate() {
+        updatedAt = LocalDateTime.now()
+    }
+
+    override fun toString(): String {
+        return "Comment(id=$id, postId=${post.id}, parentId=${parent?.id}, createdAt=$createdAt)"
+    }
+}
@@ -0,0 +1,64 @@
+package me.muheun.moaspace.domain.draft
+
+import jakarta.persistence.*
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import org.hibernate.annotations.JdbcTypeCode
+import org.hibernate.type.SqlTypes
+import java.time.LocalDateTime
+
+/**
+ * 게시글 작성/수정 중 자동 저장된 초안
+ *
+ * - draftKey는 Frontend가 생성하는 식별자 (IndexedDB 로컬 초안과 같은 키 사용)
+ *   새 글: UUID, 기존 글 수정: "post-{postId}"
+ * - (author, draftKey) 단위로 upsert되며, 게시글 발행 시 Frontend가 삭제
+ * - 발행 전 상태이므로 벡터화하지 않음
+ */
+@Entity
+@Table(
+    name = "drafts",
+    uniqueConstraints = [UniqueConstraint(name = "uk_drafts_author_key", columnNames = ["author_id", "draft_key"])]
+)
+class Draft(
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    val id: Long? = null,
+
+    @ManyToOne(fetch = FetchType.LAZY, optional = false)
+    @JoinColumn(name = "author_id", nullable = false, updatable = false)
+    val author: User,
+
+    @Column(name = "draft_key", nullable = false, length = 64, updatable = false)
+    val draftKey: String,
+
+    // 기존 게시글 수정 초안이면 대상 게시글, 새 글이면 null
+    @ManyToOne(fetch = FetchType.LAZY)
+    @JoinColumn(name = "post_id", updatable = false)
+    val post: Post? = null,
+
+    @Column(nullable = false, length = 200)
+    var title: String,
+
+    @Column(name = "content_html", nullable = false, columnDefinition = "TEXT")
+    var contentHtml: String,
+
+    @JdbcTypeCode(SqlTypes.ARRAY)
+    @Column(columnDefinition = "TEXT[]")
+    var hashtags: Array<String> = emptyArray(),
+
+    @Column(name = "created_at", nullable = false, updatable = false)
+    val createdAt: LocalDateTime = LocalDateTime.now(),
+
+    @Column(name = "updated_at", nullable = false)
+    var updatedAt: LocalDateTime = LocalDateTime.now()
+) {
+    @PreUpdate
+    fun preUpdate() {
+        updatedAt = LocalDateTime.now()
+    }
+
+    override fun toString(): String {
+        return "Draft(id=$id, draftKey='$draftKey', postId=${post?.id}, updatedAt=$updatedAt)"
+    }
+}
@@ -0,0 +1,57 @@
+package me.muheun.moaspace.domain.post
+
+import jakarta.persistence.*
+import me.muheun.moaspace.domain.user.User
+import org.hibernate.annotations.JdbcTypeCode
+import org.hibernate.type.SqlTypes
+import java.time.LocalDateTime
+
+/**
+ * 게시글 수정 이력 스냅샷
+ *
+ * - 게시글 생성/수정 시마다 저장 후 상태를 그대로 기록 (가장 큰 revisionNumber가 현재 내용)
+ * - 이력 도입 이전 게시글은 첫 수정 시 원본을 1번 리비전으로 함께 기록
+ * - 리비전은 불변이며 복원은 일반 수정 경로(PostService.updatePost)로 새 리비전을 만듦
+ */
+@Entity
+@Table(
+    name = "post_revisions",
+    uniqueConstraints = [UniqueConstraint(name = "uk_post_revisions_number", columnNames = ["post_id", "revision_number"])]
+)
+class PostRevision(
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    val id: Long? = null,
+
+    @ManyToOne(fetch = FetchType.LAZY, optional = false)
+    @JoinColumn(name = "post_id", nullable = false, updatable = false)
+    val post: Post,
+
+    @Column(name = "revision_number", nullable = false, updatable = false)
+    val revisionNumber: Int,
+
+    @Column(nullable = false, length = 200, updatable = false)
+    val title: String,
+
+    @Column(name = "content_markdown", nullable = false, columnDefinition = "TEXT", updatable = false)
+    val contentMarkdown: String,
+
+    @Column(name = "content_html", nullable = false, columnDefinition = "TEXT", updatable = false)
+    val contentHtml: String,
+
+    @JdbcTypeCode(SqlTypes.ARRAY)
+    @Column(columnDefinition = "TEXT[]", updatable = false)
+    val hashtags: Array<String> = emptyArray(),
+
+    // 이 리비전을 만든 사용자 (현재는 항상 게시글 작성자)
+    @ManyToOne(fetch = FetchType.LAZY, optional = false)
+    @JoinColumn(name = "editor_id", nullable = false, updatable = false)
+    val editor: User,
+
+    @Column(name = "created_at", nullable = false, updatable = false)
+    val createdAt: LocalDateTime = LocalDateTime.now()
+) {
+    override fun toString(): String {
+        return "PostRevision(id=$id, postId=${post.id}, revisionNumber=$revisionNumber, createdAt=$createdAt)"
+    }
+}
@@ -0,0 +1,39 @@
+package me.muheun.moaspace.domain.tag
+
+import jakarta.persistence.*
+import java.time.LocalDateTime
+
+/**
+ * 해시태그 동의어 (synonym → canonical)
+ *
+ * - 게시글 태그는 그대로 두고, 목록 필터와 키워드 검색에서 같은 그룹의 태그로 확장
+ * - synonymKey(정규화 키) 단위로 하나만 등록 ("리액트", "리 액트"는 같은 동의어)
+ * - 동의어끼리 연결하지 않음 (canonical은 다른 동의어의 synonym이 될 수 없음, TagSynonymService에서 검사)
+ */
+@Entity
+@Table(
+    name = "tag_synonyms",
+    uniqueConstraints = [UniqueConstraint(name = "uk_tag_synonyms_synonym_key", columnNames = ["synonym_key"])]
+)
+class TagSynonym(
+    @Id
+    @GeneratedValue(strategy = GenerationType.IDENTITY)
+    val id: Long? = null,
+
+    @Column(nullable = false, length = 50, updatable = false)
+    val synonym: String,
+
+    @Column(name = "synonym_key", nullable = false, length = 50, updatable = false)
+    val synonymKey: String,
+
+    // 태그 이름 변경/병합 시 함께 변경
+    @Column(nullable = false, length = 50)
+    var canonical: String,
+
+    @Column(name = "created_at", nullable = false, updatable = false)
+    val createdAt: LocalDateTime = LocalDateTime.now()
+) {
+    override fun toString(): String {
+        return "TagSynonym(id=$id, synonym='$synonym', canonical='$canonical')"
+    }
+}
@@ -19,6 +19,10 @@ class User(
     @Column(name = "profile_image_url")
     val profileImageUrl: String? = null,
 
+    @Enumerated(EnumType.STRING)
+    @Column(nullable = false, length = 20)
+    var role: UserRole = UserRole.USER,
+
     @Column(name = "created_at", nullable = false, updatable = false)
     val createdAt: LocalDateTime = LocalDateTime.now()
 )
@@ -0,0 +1,29 @@
+package me.muheun.moaspace.domain.user
+
+/**
+ * 사용자 역할 (권한 수준 오름차순)
+ *
+ * JWT access token의 role 클레임과 프론트엔드 AUTH_CONFIG.roles에서 동일한 이름을 사용합니다.
+ * Spring Security 권한명은 ROLE_ 접두사를 붙여 매핑됩니다 (예: ADMIN → ROLE_ADMIN).
+ */
+enum class UserRole {
+    /**
+     * 일반 사용자 (기본값)
+     */
+    USER,
+
+    /**
+     * 운영자 (게시글/태그 관리)
+     */
+    MODERATOR,
+
+    /**
+     * 관리자 (벡터 설정, 재인덱싱 등 전체 관리)
+     */
+    ADMIN;
+
+    /**
+     * 요구 역할 이상의 권한을 가졌는지 확인 (ADMIN ⊃ MODERATOR ⊃ USER)
+     */
+    fun satisfies(required: UserRole): Boolean = ordinal >= required.ordinal
+}
@@ -1,5 +1,6 @@
 package me.muheun.moaspace.domain.vector
 
+import me.muheun.moaspace.domain.comment.Comment
 import me.muheun.moaspace.domain.post.Post
 import me.muheun.moaspace.domain.user.User
 import kotlin.reflect.KClass
@@ -27,6 +28,11 @@ enum class VectorEntityType(val entityClass: KClass<*>) {
      */
     POST(Post::class),
 
+    /**
+     * 댓글 엔티티
+     */
+    COMMENT(Comment::class),
+
     /**
      * 사용자 엔티티
      */
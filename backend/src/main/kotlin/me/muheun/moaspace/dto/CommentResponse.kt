@@ -0,0 +1,40 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.domain.comment.Comment
+import java.time.LocalDateTime
+
+/**
+ * 댓글 응답 DTO
+ *
+ * 게시글의 댓글을 평면 목록으로 전달하고, Frontend가 parentId로 스레드를 구성합니다.
+ * 삭제된 댓글은 답글 스레드 유지를 위해 포함하되 content/author를 숨깁니다.
+ */
+data class CommentResponse(
+    val id: Long,
+    val postId: Long,
+    val parentId: Long?,
+    val content: String,
+    val author: AuthorInfo?,
+    val deleted: Boolean,
+    val createdAt: LocalDateTime,
+    val updatedAt: LocalDateTime?
+) {
+    companion object {
+        fun from(comment: Comment): CommentResponse {
+            return CommentResponse(
+                id = comment.id!!,
+                postId = comment.post.id!!,
+                parentId = comment.parent?.id,
+                content = if (comment.deleted) "" else comment.content,
+                author = if (comment.deleted) null else AuthorInfo(
+                    id = comment.author.id!!,
+                    name = comment.author.name,
+                    profileImageUrl = comment.author.profileImageUrl
+                ),
+                deleted = comment.deleted,
+                createdAt = comment.createdAt,
+                updatedAt = comment.updatedAt
+            )
+        }
+    }
+}
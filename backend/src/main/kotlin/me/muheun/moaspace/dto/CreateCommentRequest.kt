@@ -0,0 +1,13 @@
+package me.muheun.moaspace.dto
+
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.Size
+
+data class CreateCommentRequest(
+    @field:NotBlank(message = "댓글 내용은 필수입니다")
+    @field:Size(max = 5000, message = "댓글은 최대 5000자입니다")
+    val content: String,
+
+    // 답글인 경우 부모 댓글 ID (같은 게시글의 댓글만 허용)
+    val parentId: Long? = null
+)
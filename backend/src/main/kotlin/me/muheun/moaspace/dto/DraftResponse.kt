@@ -0,0 +1,31 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.domain.draft.Draft
+import java.time.LocalDateTime
+
+/**
+ * 초안 응답 DTO (본문 포함, 초안 복원용)
+ */
+data class DraftResponse(
+    val draftKey: String,
+    val postId: Long?,
+    val title: String,
+    val contentHtml: String,
+    val hashtags: List<String>,
+    val createdAt: LocalDateTime,
+    val updatedAt: LocalDateTime
+) {
+    companion object {
+        fun from(draft: Draft): DraftResponse {
+            return DraftResponse(
+                draftKey = draft.draftKey,
+                postId = draft.post?.id,
+                title = draft.title,
+                contentHtml = draft.contentHtml,
+                hashtags = draft.hashtags.toList(),
+                createdAt = draft.createdAt,
+                updatedAt = draft.updatedAt
+            )
+        }
+    }
+}
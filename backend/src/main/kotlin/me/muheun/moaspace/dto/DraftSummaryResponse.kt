@@ -0,0 +1,30 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.domain.draft.Draft
+import org.jsoup.Jsoup
+import java.time.LocalDateTime
+
+/**
+ * 초안 목록 항목 DTO (본문 대신 미리보기 텍스트만 전달)
+ */
+data class DraftSummaryResponse(
+    val draftKey: String,
+    val postId: Long?,
+    val title: String,
+    val excerpt: String,
+    val updatedAt: LocalDateTime
+) {
+    companion object {
+        private const val EXCERPT_LENGTH = 120
+
+        fun from(draft: Draft): DraftSummaryResponse {
+            return DraftSummaryResponse(
+                draftKey = draft.draftKey,
+                postId = draft.post?.id,
+                title = draft.title,
+                excerpt = Jsoup.parse(draft.contentHtml).text().take(EXCERPT_LENGTH),
+                updatedAt = draft.updatedAt
+            )
+        }
+    }
+}
@@ -0,0 +1,13 @@
+package me.muheun.moaspace.dto
+
+/**
+ * 이미지 업로드 응답 DTO
+ *
+ * url은 Backend origin 기준 공개 경로 (예: "/uploads/2026/10/uuid.webp")
+ * Frontend가 NEXT_PUBLIC_API_URL과 결합하여 절대 URL로 사용합니다.
+ */
+data class ImageUploadResponse(
+    val url: String,
+    val contentType: String,
+    val size: Long
+)
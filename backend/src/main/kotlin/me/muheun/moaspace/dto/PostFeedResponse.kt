@@ -0,0 +1,59 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.domain.post.Post
+import java.nio.charset.StandardCharsets
+import java.time.LocalDateTime
+import java.util.Base64
+
+/**
+ * 게시글 피드 응답 (커서 기반 페이지네이션)
+ *
+ * nextCursor가 null이면 마지막 페이지
+ */
+data class PostFeedResponse(
+    val posts: List<PostSummary>,
+    val nextCursor: String?
+) {
+    companion object {
+        /**
+         * @param posts size + 1개까지 조회한 결과 (초과분이 있으면 다음 페이지 존재)
+         */
+        fun of(posts: List<Post>, size: Int): PostFeedResponse {
+            val page = posts.take(size)
+            val nextCursor = if (posts.size > size) page.lastOrNull()?.let { PostCursor.of(it).encode() } else null
+
+            return PostFeedResponse(
+                posts = page.map { PostSummary.from(it) },
+                nextCursor = nextCursor
+            )
+        }
+    }
+}
+
+/**
+ * 피드 커서 (마지막으로 본 게시글의 created_at, id)
+ *
+ * (created_at DESC, id DESC) 키셋 정렬 기준이므로 같은 시각에 작성된 글도 누락/중복 없음
+ * 클라이언트에는 불투명 문자열(Base64 URL)로 전달
+ */
+data class PostCursor(
+    val createdAt: LocalDateTime,
+    val id: Long
+) {
+    fun encode(): String =
+        Base64.getUrlEncoder().withoutPadding()
+            .encodeToString("$createdAt|$id".toByteArray(StandardCharsets.UTF_8))
+
+    companion object {
+        fun of(post: Post): PostCursor = PostCursor(post.createdAt, post.id!!)
+
+        /**
+         * @return 형식이 잘못된 커서면 null
+         */
+        fun decodeOrNull(value: String): PostCursor? = runCatching {
+            val decoded = String(Base64.getUrlDecoder().decode(value), StandardCharsets.UTF_8)
+            val (createdAt, id) = decoded.split("|", limit = 2)
+            PostCursor(LocalDateTime.parse(createdAt), id.toLong())
+        }.getOrNull()
+    }
+}
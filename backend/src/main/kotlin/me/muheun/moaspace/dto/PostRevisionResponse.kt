@@ -0,0 +1,43 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.domain.post.PostRevision
+import java.time.LocalDateTime
+
+/**
+ * 게시글 리비전 응답 DTO
+ *
+ * 목록 조회에서는 본문을 제외하고(summary), 단건 조회에서만 contentMarkdown/contentHtml을 포함합니다.
+ */
+data class PostRevisionResponse(
+    val id: Long,
+    val postId: Long,
+    val revisionNumber: Int,
+    val title: String,
+    val contentMarkdown: String?,
+    val contentHtml: String?,
+    val hashtags: List<String>,
+    val editor: AuthorInfo,
+    val createdAt: LocalDateTime
+) {
+    companion object {
+        fun summary(revision: PostRevision): PostRevisionResponse = from(revision, includeContent = false)
+
+        fun from(revision: PostRevision, includeContent: Boolean = true): PostRevisionResponse {
+            return PostRevisionResponse(
+                id = revision.id!!,
+                postId = revision.post.id!!,
+                revisionNumber = revision.revisionNumber,
+                title = revision.title,
+                contentMarkdown = if (includeContent) revision.contentMarkdown else null,
+                contentHtml = if (includeContent) revision.contentHtml else null,
+                hashtags = revision.hashtags.toList(),
+                editor = AuthorInfo(
+                    id = revision.editor.id!!,
+                    name = revision.editor.name,
+                    profileImageUrl = revision.editor.profileImageUrl
+                ),
+                createdAt = revision.createdAt
+            )
+        }
+    }
+}
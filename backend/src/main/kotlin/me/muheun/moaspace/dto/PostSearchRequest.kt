@@ -1,5 +1,6 @@
 package me.muheun.moaspace.dto
 
+import com.fasterxml.jackson.annotation.JsonProperty
 import jakarta.validation.constraints.Max
 import jakarta.validation.constraints.Min
 
@@ -10,9 +11,24 @@ data class PostSearchRequest(
     val threshold: Double = 0.6, // 유사도 임계값 (0.0~1.0, 기본값 0.6)
 
     @field:Min(1) @field:Max(100)
-    val limit: Int = 20 // 최대 결과 수 (1~100, 기본값 20)
+    val limit: Int = 20, // 최대 결과 수 (1~100, 기본값 20)
+
+    val mode: SearchMode = SearchMode.SEMANTIC // 검색 방식 (기본값 semantic, 기존 벡터 검색과 동일)
 ) {
     init {
         require(query.isNotBlank()) { "검색 쿼리는 비어있을 수 없습니다" }
     }
 }
+
+/**
+ * 게시글 검색 방식
+ *
+ * - keyword: PostgreSQL 전문 검색(tsvector) + 제목 trigram 유사도 (에러 코드, 함수명 등 정확한 식별자에 강함)
+ * - semantic: pgvector 임베딩 유사도 (threshold 적용)
+ * - hybrid: 두 순위를 Reciprocal Rank Fusion으로 결합
+ */
+enum class SearchMode {
+    @JsonProperty("keyword") KEYWORD,
+    @JsonProperty("semantic") SEMANTIC,
+    @JsonProperty("hybrid") HYBRID
+}
@@ -0,0 +1,19 @@
+package me.muheun.moaspace.dto
+
+import jakarta.validation.constraints.Size
+
+/**
+ * 초안 저장 요청 (자동 저장이므로 제목/본문이 비어 있어도 허용)
+ */
+data class SaveDraftRequest(
+    // 기존 게시글 수정 초안이면 대상 게시글 ID (작성자 본인 게시글만 허용)
+    val postId: Long? = null,
+
+    @field:Size(max = 200, message = "제목은 최대 200자입니다")
+    val title: String = "",
+
+    val contentHtml: String = "",
+
+    @field:Size(max = 10, message = "해시태그는 최대 10개입니다")
+    val hashtags: List<@Size(max = 50, message = "해시태그는 최대 50자입니다") String> = emptyList()
+)
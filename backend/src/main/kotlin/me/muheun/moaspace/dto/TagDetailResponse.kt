@@ -0,0 +1,18 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.query.dto.TagUsage
+
+/**
+ * 해시태그 상세 응답 (태그 페이지)
+ *
+ * @property tag 태그 (저장된 표기)
+ * @property postCount 사용 게시글 수 (삭제 게시글 제외)
+ * @property activity 최근 90일 일자별 작성 게시글 수 (오래된 날 → 오늘)
+ * @property relatedTags 함께 쓰인 게시글 수 내림차순 다른 태그
+ */
+data class TagDetailResponse(
+    val tag: String,
+    val postCount: Long,
+    val activity: List<Int>,
+    val relatedTags: List<TagUsage>
+)
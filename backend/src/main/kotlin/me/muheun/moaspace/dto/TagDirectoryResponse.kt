@@ -0,0 +1,23 @@
+package me.muheun.moaspace.dto
+
+/**
+ * 해시태그 목록 응답
+ *
+ * @property tags 사용 게시글 수 내림차순
+ */
+data class TagDirectoryResponse(
+    val tags: List<TagStats>
+)
+
+/**
+ * 해시태그 사용 현황
+ *
+ * @property tag 태그 (저장된 표기)
+ * @property postCount 사용 게시글 수 (전체 기간, 삭제 게시글 제외)
+ * @property activity 최근 90일 일자별 작성 게시글 수 (오래된 날 → 오늘)
+ */
+data class TagStats(
+    val tag: String,
+    val postCount: Long,
+    val activity: List<Int>
+)
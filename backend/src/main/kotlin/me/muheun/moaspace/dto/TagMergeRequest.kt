@@ -0,0 +1,33 @@
+package me.muheun.moaspace.dto
+
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.NotEmpty
+import jakarta.validation.constraints.Size
+
+/**
+ * 해시태그 이름 변경 요청 (from이 달린 모든 게시글에서 to로 교체)
+ */
+data class TagRenameRequest(
+    @field:NotBlank(message = "변경할 태그는 필수입니다")
+    val from: String,
+
+    @field:NotBlank(message = "새 태그 이름은 필수입니다")
+    @field:Size(max = 50, message = "해시태그는 최대 50자입니다")
+    val to: String
+)
+
+/**
+ * 해시태그 병합 요청 (sources가 달린 모든 게시글에서 target 하나로 교체)
+ */
+data class TagMergeRequest(
+    @field:NotEmpty(message = "병합할 태그를 하나 이상 지정해야 합니다")
+    @field:Size(max = 20, message = "한 번에 최대 20개 태그까지 병합할 수 있습니다")
+    val sources: List<String>,
+
+    @field:NotBlank(message = "대상 태그는 필수입니다")
+    @field:Size(max = 50, message = "해시태그는 최대 50자입니다")
+    val target: String,
+
+    // 병합한 태그를 target의 동의어로 등록 (기존 표기로 필터/검색해도 target 게시글이 나오도록)
+    val addSynonyms: Boolean = false
+)
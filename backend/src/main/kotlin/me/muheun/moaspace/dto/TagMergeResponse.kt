@@ -0,0 +1,16 @@
+package me.muheun.moaspace.dto
+
+/**
+ * 해시태그 이름 변경/병합 결과
+ *
+ * @property target 최종 태그
+ * @property sources 교체된 태그
+ * @property updatedPostCount 태그를 교체하고 재인덱싱한 게시글 수
+ * @property addedSynonyms 새로 등록된 동의어
+ */
+data class TagMergeResponse(
+    val target: String,
+    val sources: List<String>,
+    val updatedPostCount: Int,
+    val addedSynonyms: List<String> = emptyList()
+)
@@ -0,0 +1,22 @@
+package me.muheun.moaspace.dto
+
+import jakarta.validation.constraints.Max
+import jakarta.validation.constraints.Min
+import jakarta.validation.constraints.Size
+
+/**
+ * 작성 중인 글의 해시태그 추천 요청 (저장 전 내용 기준)
+ */
+data class TagRecommendationRequest(
+    @field:Size(max = 200, message = "제목은 최대 200자입니다")
+    val title: String = "",
+
+    val contentHtml: String = "",
+
+    // 수정 중인 게시글 ID (자기 자신은 이웃에서 제외)
+    val excludePostId: Long? = null,
+
+    @field:Min(value = 1, message = "limit은 1 이상이어야 합니다")
+    @field:Max(value = 10, message = "limit은 10 이하여야 합니다")
+    val limit: Int = 5
+)
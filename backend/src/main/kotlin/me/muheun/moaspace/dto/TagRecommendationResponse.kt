@@ -0,0 +1,23 @@
+package me.muheun.moaspace.dto
+
+/**
+ * 해시태그 추천 응답
+ *
+ * @property suggestions 신뢰도 내림차순 추천 태그
+ */
+data class TagRecommendationResponse(
+    val suggestions: List<TagRecommendation>
+)
+
+/**
+ * 추천 해시태그
+ *
+ * @property tag 태그 (이웃 게시글에 저장된 표기)
+ * @property confidence 신뢰도 (0.0~1.0, 이 태그를 가진 이웃 유사도 합 / 전체 이웃 유사도 합)
+ * @property postCount 이 태그를 가진 이웃 게시글 수
+ */
+data class TagRecommendation(
+    val tag: String,
+    val confidence: Double,
+    val postCount: Int
+)
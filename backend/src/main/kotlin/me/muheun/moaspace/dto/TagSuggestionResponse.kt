@@ -0,0 +1,12 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.query.dto.TagUsage
+
+/**
+ * 해시태그 자동완성 응답
+ *
+ * @property tags 사용 게시글 수 내림차순 기존 해시태그
+ */
+data class TagSuggestionResponse(
+    val tags: List<TagUsage>
+)
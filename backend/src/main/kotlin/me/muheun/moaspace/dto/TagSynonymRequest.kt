@@ -0,0 +1,17 @@
+package me.muheun.moaspace.dto
+
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.Size
+
+/**
+ * 해시태그 동의어 등록 요청 (synonym으로 찾으면 canonical도 함께 찾음)
+ */
+data class TagSynonymRequest(
+    @field:NotBlank(message = "동의어는 필수입니다")
+    @field:Size(max = 50, message = "동의어는 최대 50자입니다")
+    val synonym: String,
+
+    @field:NotBlank(message = "대표 태그는 필수입니다")
+    @field:Size(max = 50, message = "대표 태그는 최대 50자입니다")
+    val canonical: String
+)
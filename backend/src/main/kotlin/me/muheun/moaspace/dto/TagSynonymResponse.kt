@@ -0,0 +1,34 @@
+package me.muheun.moaspace.dto
+
+import me.muheun.moaspace.domain.tag.TagSynonym
+import java.time.LocalDateTime
+
+/**
+ * 해시태그 동의어 응답 DTO
+ */
+data class TagSynonymResponse(
+    val id: Long,
+    val synonym: String,
+    val canonical: String,
+    val createdAt: LocalDateTime
+) {
+    companion object {
+        fun from(synonym: TagSynonym): TagSynonymResponse {
+            return TagSynonymResponse(
+                id = synonym.id!!,
+                synonym = synonym.synonym,
+                canonical = synonym.canonical,
+                createdAt = synonym.createdAt
+            )
+        }
+    }
+}
+
+/**
+ * 해시태그 동의어 목록 응답
+ *
+ * @property synonyms 대표 태그, 동의어 순
+ */
+data class TagSynonymListResponse(
+    val synonyms: List<TagSynonymResponse>
+)
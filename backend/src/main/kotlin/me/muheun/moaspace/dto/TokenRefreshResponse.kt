@@ -0,0 +1,12 @@
+package me.muheun.moaspace.dto
+
+/**
+ * Access Token 재발급 응답 DTO
+ *
+ * 토큰 값은 httpOnly Cookie로만 전달되며 본문에는 만료 시간만 포함합니다.
+ *
+ * @property expiresIn Access Token 만료까지 남은 시간 (초)
+ */
+data class TokenRefreshResponse(
+    val expiresIn: Long
+)
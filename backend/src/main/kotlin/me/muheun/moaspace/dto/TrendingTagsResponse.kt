@@ -0,0 +1,25 @@
+package me.muheun.moaspace.dto
+
+/**
+ * 이번 주 인기 급상승 해시태그 응답
+ *
+ * @property tags 증가폭 내림차순
+ */
+data class TrendingTagsResponse(
+    val tags: List<TrendingTag>
+)
+
+/**
+ * 인기 급상승 해시태그
+ *
+ * @property tag 태그 (저장된 표기)
+ * @property recentCount 최근 7일 작성 게시글 수
+ * @property weeklyAverage 그 이전 기간(최근 90일 중 나머지)의 주 평균 게시글 수
+ * @property growth 증가폭 점수 ((recentCount - weeklyAverage) / √(weeklyAverage + 1))
+ */
+data class TrendingTag(
+    val tag: String,
+    val recentCount: Int,
+    val weeklyAverage: Double,
+    val growth: Double
+)
@@ -0,0 +1,10 @@
+package me.muheun.moaspace.dto
+
+import jakarta.validation.constraints.NotBlank
+import jakarta.validation.constraints.Size
+
+data class UpdateCommentRequest(
+    @field:NotBlank(message = "댓글 내용은 필수입니다")
+    @field:Size(max = 5000, message = "댓글은 최대 5000자입니다")
+    val content: String
+)
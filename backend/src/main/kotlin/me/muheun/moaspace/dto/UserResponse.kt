@@ -1,6 +1,7 @@
 package me.muheun.moaspace.dto
 
 import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.domain.user.UserRole
 import java.time.LocalDateTime
 
 data class UserResponse(
@@ -8,6 +9,7 @@ data class UserResponse(
     val email: String,
     val name: String,
     val profileImageUrl: String?,
+    val role: UserRole,
     val createdAt: LocalDateTime
 ) {
     companion object {
@@ -20,6 +22,7 @@ data class UserResponse(
                 email = user.email,
                 name = user.name,
                 profileImageUrl = user.profileImageUrl,
+                role = user.role,
                 createdAt = user.createdAt
             )
         }
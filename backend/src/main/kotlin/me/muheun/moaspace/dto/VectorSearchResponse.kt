@@ -1,7 +1,8 @@
 package me.muheun.moaspace.dto
 
 data class VectorSearchResponse(
-    val results: List<SearchResult>
+    val results: List<SearchResult>,
+    val totalResults: Int = results.size
 )
 
 /**
@@ -9,8 +10,39 @@ data class VectorSearchResponse(
  * 게시글 정보 + 유사도 점수 포함
  *
  * PostSummary는 PostListResponse.kt에 정의되어 있음
+ *
+ * @property similarity 레코드 최대 유사도 (필드 구분 없음)
+ * @property totalScore vector_configs 가중치·임계값을 적용한 필드별 스코어 합
+ * @property fieldScores 필드별 원본 유사도 (가중치 미적용, 클라이언트 가중치 재계산용)
+ * @property keywordRank 키워드 검색 순위 (1부터, 키워드 결과에 없으면 null)
+ * @property keywordScore 키워드 관련도 (ts_rank_cd + 제목 trigram 유사도)
+ * @property semanticRank 의미 검색 순위 (1부터, 임계값 미달 또는 semantic 미사용 시 null)
+ * @property fusedScore Reciprocal Rank Fusion 점수 (hybrid 모드에서만)
+ * @property snippet 본문에서 가장 잘 맞는 청크 (본문 청크가 없으면 null)
  */
 data class SearchResult(
     val post: PostSummary,
-    val similarity: Double
+    val similarity: Double,
+    val totalScore: Double = similarity,
+    val fieldScores: Map<String, Double> = emptyMap(),
+    val keywordRank: Int? = null,
+    val keywordScore: Double? = null,
+    val semanticRank: Int? = null,
+    val fusedScore: Double? = null,
+    val snippet: SearchSnippet? = null
+)
+
+/**
+ * 검색 결과 스니펫 (최적 청크)
+ *
+ * @property text 청크 원문
+ * @property chunkIndex 청크 순서 (0부터)
+ * @property startPosition 본문 텍스트(contentText) 기준 시작 위치
+ * @property endPosition 본문 텍스트(contentText) 기준 끝 위치
+ */
+data class SearchSnippet(
+    val text: String,
+    val chunkIndex: Int,
+    val startPosition: Int,
+    val endPosition: Int
 )
@@ -0,0 +1,10 @@
+package me.muheun.moaspace.event
+
+import org.springframework.context.ApplicationEvent
+
+// 레코드 벡터 인덱스 변경 이벤트 (재인덱싱/삭제, 레코드 기준 캐시 무효화용)
+class VectorIndexChangedEvent(
+    val namespace: String,
+    val entity: String,
+    val recordKey: String
+) : ApplicationEvent("VectorIndexingService")
@@ -1,8 +1,12 @@
 package me.muheun.moaspace.mapper
 
 import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.query.dto.KeywordScore
+import me.muheun.moaspace.query.dto.TagDailyCount
+import me.muheun.moaspace.query.dto.TagUsage
 import org.apache.ibatis.annotations.Mapper
 import org.apache.ibatis.annotations.Param
+import java.time.LocalDateTime
 
 @Mapper
 interface PostMapper {
@@ -31,4 +35,73 @@ interface PostMapper {
         @Param("hashtag") hashtag: String,
         @Param("deleted") deleted: Boolean
     ): Long
+
+    /**
+     * 여러 해시태그로 게시글 ID 조회 (최신순)
+     * matchAll이면 태그 그룹마다 하나 이상 포함, 아니면 전체 그룹 중 하나 이상 포함
+     *
+     * @param tagGroups 요청 태그별 그룹 (요청 태그 + 동의어, HashtagFilter.tagGroups)
+     * @param cursorCreatedAt 피드 커서 (null이면 첫 페이지, offset과 함께 쓰지 않음)
+     */
+    fun findIdsByHashtags(
+        @Param("tagGroups") tagGroups: List<List<String>>,
+        @Param("matchAll") matchAll: Boolean,
+        @Param("cursorCreatedAt") cursorCreatedAt: LocalDateTime?,
+        @Param("cursorId") cursorId: Long?,
+        @Param("limit") limit: Int,
+        @Param("offset") offset: Long
+    ): List<Long>
+
+    /**
+     * 여러 해시태그 게시글 전체 개수
+     */
+    fun countByHashtags(
+        @Param("tagGroups") tagGroups: List<List<String>>,
+        @Param("matchAll") matchAll: Boolean
+    ): Long
+
+    /**
+     * 해시태그 중 하나 이상 달린 게시글 ID (삭제 제외, ID 오름차순, 태그 이름 변경/병합 대상)
+     */
+    fun findIdsWithAnyHashtag(@Param("hashtags") hashtags: List<String>): List<Long>
+
+    /**
+     * 키워드 검색 스코어 (관련도 내림차순)
+     * 전문 검색(search_vector) 일치 또는 제목 trigram 유사 게시글
+     *
+     * @param queries 원래 검색어 + 동의어 치환 검색어 (하나라도 일치하면 포함, 게시글별 최고 점수)
+     */
+    fun findKeywordScores(
+        @Param("queries") queries: List<String>,
+        @Param("limit") limit: Int
+    ): List<KeywordScore>
+
+    /**
+     * 해시태그 사용 빈도 (사용 게시글 수 내림차순)
+     * 대소문자·공백·문장부호를 무시한 정규화 키로 접두어 매칭 ("nextjs" → "Next.js")
+     *
+     * @param normalizedPrefix 정규화된 접두어 (null이면 전체)
+     */
+    fun findTagUsage(
+        @Param("normalizedPrefix") normalizedPrefix: String?,
+        @Param("limit") limit: Int
+    ): List<TagUsage>
+
+    /**
+     * 해시태그별 일자별 작성 게시글 수 (since 이후)
+     *
+     * @param tag 특정 태그만 (null이면 전체)
+     */
+    fun findTagDailyCounts(
+        @Param("since") since: LocalDateTime,
+        @Param("tag") tag: String?
+    ): List<TagDailyCount>
+
+    /**
+     * 함께 쓰인 해시태그 (같은 게시글에 달린 다른 태그, 게시글 수 내림차순)
+     */
+    fun findCooccurringTags(
+        @Param("tag") tag: String,
+        @Param("limit") limit: Int
+    ): List<TagUsage>
 }
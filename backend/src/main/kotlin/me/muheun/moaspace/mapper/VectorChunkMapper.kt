@@ -1,6 +1,8 @@
 package me.muheun.moaspace.mapper
 
 import me.muheun.moaspace.query.dto.ChunkDetail
+import me.muheun.moaspace.query.dto.ChunkSnippet
+import me.muheun.moaspace.query.dto.FieldSimilarityScore
 import me.muheun.moaspace.query.dto.RecordSimilarityScore
 import me.muheun.moaspace.query.dto.WeightedScore
 import org.apache.ibatis.annotations.Mapper
@@ -67,6 +69,84 @@ interface VectorChunkMapper {
         @Param("limit") limit: Int
     ): List<WeightedScore>
 
+    /**
+     * 지정한 레코드들의 필드별 원본 유사도 조회
+     *
+     * findByWeightedFieldScore와 달리 vector_configs 가중치/임계값을 적용하지 않은
+     * 필드별 최대 유사도를 반환합니다. (클라이언트에서 가중치 재계산용)
+     *
+     * @param queryVector 검색 벡터
+     * @param namespace 네임스페이스 필터 (nullable)
+     * @param entity 엔티티 필터 (nullable)
+     * @param recordKeys 조회 대상 레코드 키 목록 (비어있으면 안 됨)
+     * @return 레코드·필드별 최대 유사도 목록
+     */
+    fun findFieldScoresByRecords(
+        @Param("queryVector") queryVector: FloatArray,
+        @Param("namespace") namespace: String?,
+        @Param("entity") entity: String?,
+        @Param("recordKeys") recordKeys: List<String>
+    ): List<FieldSimilarityScore>
+
+    /**
+     * 지정한 레코드들의 최고 유사도 청크 조회 (검색 결과 스니펫)
+     *
+     * DISTINCT ON으로 레코드별 1개 청크만 추출 (동점이면 앞쪽 청크 우선)
+     *
+     * @param queryVector 검색 벡터
+     * @param namespace 네임스페이스 필터 (nullable)
+     * @param entity 엔티티 필터 (nullable)
+     * @param fieldName 필드명 필터 (nullable)
+     * @param recordKeys 조회 대상 레코드 키 목록 (비어있으면 안 됨)
+     * @return 레코드별 최고 유사도 청크 목록
+     */
+    fun findBestChunksByRecords(
+        @Param("queryVector") queryVector: FloatArray,
+        @Param("namespace") namespace: String?,
+        @Param("entity") entity: String?,
+        @Param("fieldName") fieldName: String?,
+        @Param("recordKeys") recordKeys: List<String>
+    ): List<ChunkSnippet>
+
+    /**
+     * 지정한 레코드들의 키워드 최적 청크 조회 (keyword 모드 스니펫)
+     *
+     * 청크 텍스트의 ts_rank_cd 순으로 레코드별 1개 청크 추출
+     * 일치하는 청크가 없으면(제목으로만 매칭 등) 첫 번째 청크 반환
+     *
+     * @param query 검색어 (websearch_to_tsquery 문법)
+     * @param namespace 네임스페이스 필터 (nullable)
+     * @param entity 엔티티 필터 (nullable)
+     * @param fieldName 필드명 필터 (nullable)
+     * @param recordKeys 조회 대상 레코드 키 목록 (비어있으면 안 됨)
+     * @return 레코드별 키워드 최적 청크 목록
+     */
+    fun findKeywordChunksByRecords(
+        @Param("query") query: String,
+        @Param("namespace") namespace: String?,
+        @Param("entity") entity: String?,
+        @Param("fieldName") fieldName: String?,
+        @Param("recordKeys") recordKeys: List<String>
+    ): List<ChunkSnippet>
+
+    /**
+     * 기준 레코드와 가까운 레코드 조회 (관련 게시글)
+     *
+     * 기준 레코드 청크 벡터의 평균(centroid)과 다른 레코드 청크의 최대 유사도로 순위
+     *
+     * @param namespace 네임스페이스
+     * @param entity 엔티티
+     * @param recordKey 기준 레코드 키 (결과에서 제외)
+     * @param limit 결과 개수 제한
+     * @return 레코드별 최대 유사도 스코어 목록 (기준 레코드 청크가 없으면 빈 목록)
+     */
+    fun findNearestRecords(
+        @Param("namespace") namespace: String,
+        @Param("entity") entity: String,
+        @Param("recordKey") recordKey: String,
+        @Param("limit") limit: Int
+    ): List<RecordSimilarityScore>
+
     
     fun deleteByFilters(
         @Param("namespace") namespace: String,
@@ -0,0 +1,12 @@
+package me.muheun.moaspace.query.dto
+
+// 레코드별 최적 청크 (검색 결과 스니펫용, 위치는 필드 원문 기준)
+data class ChunkSnippet(
+    val recordKey: String,
+    val fieldName: String,
+    val chunkIndex: Int,
+    val chunkText: String,
+    val startPosition: Int,
+    val endPosition: Int,
+    val score: Double
+)
@@ -0,0 +1,8 @@
+package me.muheun.moaspace.query.dto
+
+// 레코드의 필드별 최대 유사도 스코어 (가중치 미적용)
+data class FieldSimilarityScore(
+    val recordKey: String,
+    val fieldName: String,
+    val score: Double
+)
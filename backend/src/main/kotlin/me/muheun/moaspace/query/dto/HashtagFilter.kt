@@ -0,0 +1,57 @@
+package me.muheun.moaspace.query.dto
+
+// 게시글 목록/피드 해시태그 필터 (ALL: 모든 태그 포함, ANY: 하나 이상 포함)
+// tagGroups: 요청 태그별로 함께 찾을 태그 (동의어 확장 전에는 태그 하나씩, ALL은 그룹마다 하나 이상 포함)
+data class HashtagFilter(
+    val hashtags: List<String>,
+    val match: HashtagMatch = HashtagMatch.ALL,
+    val tagGroups: List<List<String>> = hashtags.map { listOf(it) }
+) {
+    val matchAll: Boolean get() = match == HashtagMatch.ALL
+
+    /**
+     * 태그별 동의어를 더한 필터 (hashtags는 요청 그대로 유지)
+     *
+     * @param alternativesOf 태그 → 함께 찾을 태그 (없으면 빈 목록)
+     */
+    fun expandedWith(alternativesOf: (String) -> List<String>): HashtagFilter =
+        copy(tagGroups = hashtags.map { tag -> (listOf(tag) + alternativesOf(tag)).distinct() })
+
+    companion object {
+        // 한 번에 조합할 수 있는 최대 태그 수 (게시글당 해시태그 최대 개수와 동일)
+        const val MAX_HASHTAGS = 10
+
+        /**
+         * 요청 파라미터로 필터 생성
+         *
+         * hashtag(단일, 기존 링크 호환)와 hashtags(쉼표 구분 또는 반복)를 합쳐 중복 제거
+         *
+         * @return 태그가 없으면 null (필터 없음)
+         * @throws IllegalArgumentException match 값이 잘못됐거나 태그가 MAX_HASHTAGS개 초과
+         */
+        fun of(hashtag: String?, hashtags: List<String>?, match: String?): HashtagFilter? {
+            val tags = (listOfNotNull(hashtag) + hashtags.orEmpty())
+                .map { it.trim() }
+                .filter { it.isNotEmpty() }
+                .distinct()
+
+            val hashtagMatch = match?.let {
+                requireNotNull(HashtagMatch.fromParam(it)) { "match는 all 또는 any여야 합니다: $it" }
+            } ?: HashtagMatch.ALL
+
+            require(tags.size <= MAX_HASHTAGS) { "해시태그 필터는 최대 ${MAX_HASHTAGS}개까지 지정할 수 있습니다" }
+
+            return if (tags.isEmpty()) null else HashtagFilter(tags, hashtagMatch)
+        }
+    }
+}
+
+enum class HashtagMatch {
+    ALL,
+    ANY;
+
+    companion object {
+        // 쿼리 파라미터 값 변환 (대소문자 무시, 알 수 없는 값은 null)
+        fun fromParam(value: String): HashtagMatch? = entries.find { it.name.equals(value.trim(), ignoreCase = true) }
+    }
+}
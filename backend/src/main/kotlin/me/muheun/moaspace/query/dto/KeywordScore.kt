@@ -0,0 +1,7 @@
+package me.muheun.moaspace.query.dto
+
+// 게시글 키워드 검색 스코어 (전문 검색 순위 + 제목 trigram 유사도)
+data class KeywordScore(
+    val postId: Long,
+    val score: Double
+)
@@ -0,0 +1,10 @@
+package me.muheun.moaspace.query.dto
+
+import java.time.LocalDate
+
+// 해시태그별 일자별 작성 게시글 수 (삭제되지 않은 게시글 기준)
+data class TagDailyCount(
+    val tag: String,
+    val day: LocalDate,
+    val count: Long
+)
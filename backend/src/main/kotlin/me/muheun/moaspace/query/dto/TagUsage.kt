@@ -0,0 +1,7 @@
+package me.muheun.moaspace.query.dto
+
+// 해시태그별 사용 게시글 수 (삭제되지 않은 게시글 기준)
+data class TagUsage(
+    val tag: String,
+    val count: Long
+)
@@ -0,0 +1,37 @@
+package me.muheun.moaspace.repository
+
+import me.muheun.moaspace.domain.comment.Comment
+import org.springframework.data.jpa.repository.JpaRepository
+import org.springframework.data.jpa.repository.Query
+import org.springframework.data.repository.query.Param
+import org.springframework.stereotype.Repository
+
+/**
+ * Comment Repository
+ */
+@Repository
+interface CommentRepository : JpaRepository<Comment, Long> {
+
+    /**
+     * 게시글의 모든 댓글 조회 (작성순, 삭제된 댓글 포함)
+     * 삭제된 댓글도 답글 스레드 구성을 위해 함께 조회하며, 내용은 응답 DTO에서 숨김
+     * @param postId 게시글 ID
+     * @return 댓글 목록 (작성자 fetch join)
+     */
+    @Query(
+        """
+            SELECT c FROM Comment c
+            JOIN FETCH c.author
+            WHERE c.post.id = :postId
+            ORDER BY c.createdAt ASC, c.id ASC
+        """
+    )
+    fun findAllByPostIdWithAuthor(@Param("postId") postId: Long): List<Comment>
+
+    /**
+     * 게시글의 삭제되지 않은 댓글 수
+     * @param postId 게시글 ID
+     * @return 댓글 수
+     */
+    fun countByPostIdAndDeletedFalse(postId: Long): Long
+}
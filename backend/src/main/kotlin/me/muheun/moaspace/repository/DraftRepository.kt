@@ -0,0 +1,27 @@
+package me.muheun.moaspace.repository
+
+import me.muheun.moaspace.domain.draft.Draft
+import org.springframework.data.jpa.repository.JpaRepository
+import org.springframework.stereotype.Repository
+
+/**
+ * Draft Repository
+ */
+@Repository
+interface DraftRepository : JpaRepository<Draft, Long> {
+
+    /**
+     * 사용자의 초안 목록 (최근 수정순)
+     * @param authorId 작성자 ID
+     * @return 초안 목록
+     */
+    fun findAllByAuthorIdOrderByUpdatedAtDesc(authorId: Long): List<Draft>
+
+    /**
+     * 사용자의 특정 초안 조회
+     * @param authorId 작성자 ID
+     * @param draftKey Frontend 생성 초안 키
+     * @return 초안 (없으면 null)
+     */
+    fun findByAuthorIdAndDraftKey(authorId: Long, draftKey: String): Draft?
+}
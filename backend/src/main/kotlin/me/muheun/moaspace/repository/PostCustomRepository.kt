@@ -1,6 +1,8 @@
 package me.muheun.moaspace.repository
 
 import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.dto.PostCursor
+import me.muheun.moaspace.query.dto.HashtagFilter
 import me.muheun.moaspace.query.dto.PostSearchFilter
 import org.springframework.data.domain.Page
 import org.springframework.data.domain.Pageable
@@ -24,4 +26,26 @@ interface PostCustomRepository {
      * PostgreSQL ANY 배열 연산자 (Expressions.template)
      */
     fun countByHashtag(hashtag: String): Long
+
+    /**
+     * 게시글 피드 조회 (키셋 페이지네이션)
+     * (createdAt, id) 내림차순으로 커서 이후 게시글을 limit개 조회
+     */
+    fun findFeed(cursor: PostCursor?, limit: Int): List<Post>
+
+    /**
+     * 여러 해시태그로 게시글 조회 (최신순, 오프셋 페이지네이션)
+     * PostgreSQL 배열 연산자 @> / && (MyBatis)
+     */
+    fun findByHashtags(filter: HashtagFilter, limit: Int, offset: Long): List<Post>
+
+    /**
+     * 여러 해시태그 게시글 개수
+     */
+    fun countByHashtags(filter: HashtagFilter): Long
+
+    /**
+     * 여러 해시태그 게시글 피드 (키셋 페이지네이션)
+     */
+    fun findFeedByHashtags(filter: HashtagFilter, cursor: PostCursor?, limit: Int): List<Post>
 }
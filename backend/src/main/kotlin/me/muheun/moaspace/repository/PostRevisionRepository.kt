@@ -0,0 +1,36 @@
+package me.muheun.moaspace.repository
+
+import me.muheun.moaspace.domain.post.PostRevision
+import org.springframework.data.jpa.repository.JpaRepository
+import org.springframework.data.jpa.repository.Query
+import org.springframework.data.repository.query.Param
+import org.springframework.stereotype.Repository
+
+/**
+ * PostRevision Repository
+ */
+@Repository
+interface PostRevisionRepository : JpaRepository<PostRevision, Long> {
+
+    /**
+     * 게시글의 수정 이력 (최신순)
+     * @param postId 게시글 ID
+     * @return 리비전 목록 (편집자 fetch join)
+     */
+    @Query(
+        """
+            SELECT r FROM PostRevision r
+            JOIN FETCH r.editor
+            WHERE r.post.id = :postId
+            ORDER BY r.revisionNumber DESC
+        """
+    )
+    fun findAllByPostIdWithEditor(@Param("postId") postId: Long): List<PostRevision>
+
+    /**
+     * 게시글의 마지막 리비전 번호 (이력이 없으면 null)
+     * @param postId 게시글 ID
+     */
+    @Query("SELECT MAX(r.revisionNumber) FROM PostRevision r WHERE r.post.id = :postId")
+    fun findMaxRevisionNumber(@Param("postId") postId: Long): Int?
+}
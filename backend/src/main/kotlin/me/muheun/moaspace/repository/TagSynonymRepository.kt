@@ -0,0 +1,32 @@
+package me.muheun.moaspace.repository
+
+import me.muheun.moaspace.domain.tag.TagSynonym
+import org.springframework.data.jpa.repository.JpaRepository
+import org.springframework.stereotype.Repository
+
+/**
+ * TagSynonym Repository
+ */
+@Repository
+interface TagSynonymRepository : JpaRepository<TagSynonym, Long> {
+
+    /**
+     * 전체 동의어 (대표 태그, 동의어 순)
+     * @return 동의어 목록
+     */
+    fun findAllByOrderByCanonicalAscSynonymAsc(): List<TagSynonym>
+
+    /**
+     * 정규화 키로 동의어 조회
+     * @param synonymKey TagService.normalizeKey 결과
+     * @return 동의어 (없으면 null)
+     */
+    fun findBySynonymKey(synonymKey: String): TagSynonym?
+
+    /**
+     * 대표 태그의 동의어 목록
+     * @param canonicals 대표 태그 표기 (정확히 일치)
+     * @return 동의어 목록
+     */
+    fun findAllByCanonicalIn(canonicals: Collection<String>): List<TagSynonym>
+}
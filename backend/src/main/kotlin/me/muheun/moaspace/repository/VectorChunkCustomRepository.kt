@@ -1,6 +1,8 @@
 package me.muheun.moaspace.repository
 
 import me.muheun.moaspace.query.dto.ChunkDetail
+import me.muheun.moaspace.query.dto.ChunkSnippet
+import me.muheun.moaspace.query.dto.FieldSimilarityScore
 import me.muheun.moaspace.query.dto.RecordSimilarityScore
 import me.muheun.moaspace.query.dto.WeightedScore
 
@@ -54,6 +56,74 @@ interface VectorChunkCustomRepository {
         limit: Int
     ): List<WeightedScore>
 
+    /**
+     * 레코드별 필드 원본 유사도 조회 (가중치 미적용)
+     *
+     * @param queryVector 검색 벡터 (768차원)
+     * @param namespace 네임스페이스 필터 (nullable)
+     * @param entity 엔티티 필터 (nullable)
+     * @param recordKeys 조회 대상 레코드 키 목록
+     * @return 레코드·필드별 최대 유사도 목록 (recordKeys가 비어있으면 빈 목록)
+     */
+    fun findFieldScoresByRecords(
+        queryVector: FloatArray,
+        namespace: String?,
+        entity: String?,
+        recordKeys: List<String>
+    ): List<FieldSimilarityScore>
+
+    /**
+     * 레코드별 최고 유사도 청크 조회 (검색 결과 스니펫)
+     *
+     * @param queryVector 검색 벡터 (768차원)
+     * @param namespace 네임스페이스 필터 (nullable)
+     * @param entity 엔티티 필터 (nullable)
+     * @param fieldName 필드명 필터 (nullable, null이면 모든 필드)
+     * @param recordKeys 조회 대상 레코드 키 목록
+     * @return 레코드별 최고 유사도 청크 (recordKeys가 비어있으면 빈 목록)
+     */
+    fun findBestChunksByRecords(
+        queryVector: FloatArray,
+        namespace: String?,
+        entity: String?,
+        fieldName: String?,
+        recordKeys: List<String>
+    ): List<ChunkSnippet>
+
+    /**
+     * 레코드별 키워드 최적 청크 조회 (keyword 모드 스니펫)
+     *
+     * @param query 검색어
+     * @param namespace 네임스페이스 필터 (nullable)
+     * @param entity 엔티티 필터 (nullable)
+     * @param fieldName 필드명 필터 (nullable, null이면 모든 필드)
+     * @param recordKeys 조회 대상 레코드 키 목록
+     * @return 레코드별 키워드 최적 청크 (recordKeys가 비어있으면 빈 목록)
+     */
+    fun findKeywordChunksByRecords(
+        query: String,
+        namespace: String?,
+        entity: String?,
+        fieldName: String?,
+        recordKeys: List<String>
+    ): List<ChunkSnippet>
+
+    /**
+     * 기준 레코드와 가까운 레코드 조회 (관련 게시글)
+     *
+     * @param namespace 네임스페이스
+     * @param entity 엔티티
+     * @param recordKey 기준 레코드 키 (결과에서 제외)
+     * @param limit 결과 개수 제한
+     * @return 레코드별 최대 유사도 스코어 목록 (기준 레코드 청크가 없으면 빈 목록)
+     */
+    fun findNearestRecords(
+        namespace: String,
+        entity: String,
+        recordKey: String,
+        limit: Int
+    ): List<RecordSimilarityScore>
+
     /**
      * 동적 조건 조합 삭제
      *
@@ -6,7 +6,9 @@ import com.querydsl.jpa.impl.JPAQueryFactory
 import me.muheun.moaspace.domain.post.Post
 import me.muheun.moaspace.domain.post.QPost
 import me.muheun.moaspace.domain.user.QUser
+import me.muheun.moaspace.dto.PostCursor
 import me.muheun.moaspace.mapper.PostMapper
+import me.muheun.moaspace.query.dto.HashtagFilter
 import me.muheun.moaspace.query.dto.PostSearchFilter
 import me.muheun.moaspace.repository.PostCustomRepository
 import org.slf4j.LoggerFactory
@@ -133,4 +135,78 @@ class PostCustomRepositoryImpl(
 
         return count
     }
+
+    // 게시글 피드 조회 (키셋 페이지네이션, OFFSET 없이 커서 이후만 조회)
+    override fun findFeed(cursor: PostCursor?, limit: Int): List<Post> {
+        logger.debug("findFeed 호출: cursor={}, limit={}", cursor, limit)
+
+        val builder = BooleanBuilder(post.deleted.isFalse)
+
+        // (createdAt, id) < (cursor.createdAt, cursor.id)
+        cursor?.let {
+            builder.and(
+                post.createdAt.lt(it.createdAt)
+                    .or(post.createdAt.eq(it.createdAt).and(post.id.lt(it.id)))
+            )
+        }
+
+        return jpaQueryFactory
+            .selectFrom(post)
+            .leftJoin(post.author, author).fetchJoin()
+            .where(builder)
+            .orderBy(post.createdAt.desc(), post.id.desc())
+            .limit(limit.toLong())
+            .fetch()
+    }
+
+    // 여러 해시태그로 게시글 조회 (ID는 MyBatis 배열 연산, 엔티티는 작성자와 함께 로드)
+    override fun findByHashtags(filter: HashtagFilter, limit: Int, offset: Long): List<Post> {
+        logger.debug("findByHashtags 호출: filter={}, limit={}, offset={}", filter, limit, offset)
+
+        val ids = postMapper.findIdsByHashtags(
+            tagGroups = filter.tagGroups,
+            matchAll = filter.matchAll,
+            cursorCreatedAt = null,
+            cursorId = null,
+            limit = limit,
+            offset = offset
+        )
+
+        return fetchInOrder(ids)
+    }
+
+    // 여러 해시태그 게시글 개수 (MyBatis)
+    override fun countByHashtags(filter: HashtagFilter): Long {
+        return postMapper.countByHashtags(filter.tagGroups, filter.matchAll)
+    }
+
+    // 여러 해시태그 게시글 피드 (키셋 페이지네이션)
+    override fun findFeedByHashtags(filter: HashtagFilter, cursor: PostCursor?, limit: Int): List<Post> {
+        logger.debug("findFeedByHashtags 호출: filter={}, cursor={}, limit={}", filter, cursor, limit)
+
+        val ids = postMapper.findIdsByHashtags(
+            tagGroups = filter.tagGroups,
+            matchAll = filter.matchAll,
+            cursorCreatedAt = cursor?.createdAt,
+            cursorId = cursor?.id,
+            limit = limit,
+            offset = 0
+        )
+
+        return fetchInOrder(ids)
+    }
+
+    // ID 순서를 유지하며 게시글 로드 (IN 조회는 순서를 보장하지 않음)
+    private fun fetchInOrder(ids: List<Long>): List<Post> {
+        if (ids.isEmpty()) return emptyList()
+
+        val postsById = jpaQueryFactory
+            .selectFrom(post)
+            .leftJoin(post.author, author).fetchJoin()
+            .where(post.id.`in`(ids))
+            .fetch()
+            .associateBy { it.id }
+
+        return ids.mapNotNull { postsById[it] }
+    }
 }
@@ -4,6 +4,8 @@ import com.querydsl.jpa.impl.JPAQueryFactory
 import jakarta.persistence.EntityManager
 import me.muheun.moaspace.mapper.VectorChunkMapper
 import me.muheun.moaspace.query.dto.ChunkDetail
+import me.muheun.moaspace.query.dto.ChunkSnippet
+import me.muheun.moaspace.query.dto.FieldSimilarityScore
 import me.muheun.moaspace.query.dto.RecordSimilarityScore
 import me.muheun.moaspace.query.dto.WeightedScore
 import me.muheun.moaspace.repository.VectorChunkCustomRepository
@@ -79,6 +81,85 @@ class VectorChunkCustomRepositoryImpl(
         return results
     }
 
+    override fun findFieldScoresByRecords(
+        queryVector: FloatArray,
+        namespace: String?,
+        entity: String?,
+        recordKeys: List<String>
+    ): List<FieldSimilarityScore> {
+        if (recordKeys.isEmpty()) {
+            return emptyList()
+        }
+
+        logger.debug("findFieldScoresByRecords 호출: vectorSize={}, namespace={}, entity={}, recordKeys={}",
+            queryVector.size, namespace, entity, recordKeys.size)
+
+        val results = vectorChunkMapper.findFieldScoresByRecords(queryVector, namespace, entity, recordKeys)
+
+        logger.info("findFieldScoresByRecords 완료: 조회된 필드 스코어 수={}", results.size)
+
+        return results
+    }
+
+    override fun findBestChunksByRecords(
+        queryVector: FloatArray,
+        namespace: String?,
+        entity: String?,
+        fieldName: String?,
+        recordKeys: List<String>
+    ): List<ChunkSnippet> {
+        if (recordKeys.isEmpty()) {
+            return emptyList()
+        }
+
+        logger.debug("findBestChunksByRecords 호출: vectorSize={}, namespace={}, entity={}, fieldName={}, recordKeys={}",
+            queryVector.size, namespace, entity, fieldName, recordKeys.size)
+
+        val results = vectorChunkMapper.findBestChunksByRecords(queryVector, namespace, entity, fieldName, recordKeys)
+
+        logger.info("findBestChunksByRecords 완료: 조회된 청크 수={}", results.size)
+
+        return results
+    }
+
+    override fun findKeywordChunksByRecords(
+        query: String,
+        namespace: String?,
+        entity: String?,
+        fieldName: String?,
+        recordKeys: List<String>
+    ): List<ChunkSnippet> {
+        if (recordKeys.isEmpty()) {
+            return emptyList()
+        }
+
+        logger.debug("findKeywordChunksByRecords 호출: namespace={}, entity={}, fieldName={}, recordKeys={}",
+            namespace, entity, fieldName, recordKeys.size)
+
+        val results = vectorChunkMapper.findKeywordChunksByRecords(query, namespace, entity, fieldName, recordKeys)
+
+        logger.info("findKeywordChunksByRecords 완료: 조회된 청크 수={}", results.size)
+
+        return results
+    }
+
+    override fun findNearestRecords(
+        namespace: String,
+        entity: String,
+        recordKey: String,
+        limit: Int
+    ): List<RecordSimilarityScore> {
+        logger.debug("findNearestRecords 호출: namespace={}, entity={}, recordKey={}, limit={}",
+            namespace, entity, recordKey, limit)
+
+        val results = vectorChunkMapper.findNearestRecords(namespace, entity, recordKey, limit)
+
+        logger.info("findNearestRecords 완료: 검색된 레코드 수={}, 상위 스코어={}",
+            results.size, results.firstOrNull()?.score)
+
+        return results
+    }
+
     override fun deleteByFilters(
         namespace: String,
         entity: String,
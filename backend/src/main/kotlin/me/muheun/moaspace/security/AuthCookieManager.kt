@@ -0,0 +1,77 @@
+package me.muheun.moaspace.security
+
+import me.muheun.moaspace.service.JwtTokenService
+import org.springframework.beans.factory.annotation.Value
+import org.springframework.http.ResponseCookie
+import org.springframework.security.web.csrf.CookieCsrfTokenRepository
+import org.springframework.stereotype.Component
+
+/**
+ * 인증 Cookie 생성/삭제
+ *
+ * Access Token과 Refresh Token은 JavaScript에서 접근할 수 없도록 httpOnly Cookie로만 전달합니다.
+ * - access_token: Path=/ (API 요청 + Next.js Middleware 인증 확인)
+ * - refresh_token: Path=/api/auth (refresh/logout 요청에만 전송)
+ * - XSRF-TOKEN: httpOnly=false (Double Submit CSRF, 프론트엔드가 읽어 X-XSRF-TOKEN 헤더로 전송)
+ *
+ * 프론트엔드와 백엔드가 다른 호스트인 경우 auth.cookie.domain으로 공통 상위 도메인을 지정합니다.
+ */
+@Component
+class AuthCookieManager(
+    private val jwtTokenService: JwtTokenService,
+    @Value("\${auth.cookie.secure:false}") private val secure: Boolean,
+    @Value("\${auth.cookie.domain:}") private val domain: String
+) {
+
+    fun createAccessTokenCookie(accessToken: String): ResponseCookie {
+        return buildCookie(ACCESS_TOKEN_COOKIE, accessToken, ACCESS_TOKEN_PATH, jwtTokenService.getAccessTokenExpirationSeconds())
+    }
+
+    fun clearAccessTokenCookie(): ResponseCookie {
+        return buildCookie(ACCESS_TOKEN_COOKIE, "", ACCESS_TOKEN_PATH, 0)
+    }
+
+    fun createRefreshTokenCookie(refreshToken: String): ResponseCookie {
+        return buildCookie(REFRESH_TOKEN_COOKIE, refreshToken, REFRESH_TOKEN_PATH, jwtTokenService.getRefreshTokenExpirationSeconds())
+    }
+
+    fun clearRefreshTokenCookie(): ResponseCookie {
+        return buildCookie(REFRESH_TOKEN_COOKIE, "", REFRESH_TOKEN_PATH, 0)
+    }
+
+    /**
+     * Double Submit CSRF 토큰 저장소
+     *
+     * XSRF-TOKEN Cookie 값과 X-XSRF-TOKEN 헤더 값이 일치하는지 Spring Security가 검증합니다.
+     */
+    fun createCsrfTokenRepository(): CookieCsrfTokenRepository {
+        return CookieCsrfTokenRepository.withHttpOnlyFalse().apply {
+            setCookiePath("/")
+            setCookieCustomizer { cookie ->
+                cookie.secure(secure).sameSite("Lax")
+                if (domain.isNotBlank()) cookie.domain(domain)
+            }
+        }
+    }
+
+    private fun buildCookie(name: String, value: String, path: String, maxAgeSeconds: Long): ResponseCookie {
+        val builder = ResponseCookie.from(name, value)
+            .httpOnly(true)
+            .secure(secure)
+            .sameSite("Lax")
+            .path(path)
+            .maxAge(maxAgeSeconds)
+
+        if (domain.isNotBlank()) builder.domain(domain)
+
+        return builder.build()
+    }
+
+    companion object {
+        const val ACCESS_TOKEN_COOKIE = "access_token"
+        const val ACCESS_TOKEN_PATH = "/"
+        const val REFRESH_TOKEN_COOKIE = "refresh_token"
+        const val REFRESH_TOKEN_PATH = "/api/auth"
+        const val CSRF_HEADER = "X-XSRF-TOKEN"
+    }
+}
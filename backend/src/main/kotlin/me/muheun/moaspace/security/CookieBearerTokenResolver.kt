@@ -0,0 +1,52 @@
+package me.muheun.moaspace.security
+
+import jakarta.servlet.http.HttpServletRequest
+import org.springframework.http.HttpHeaders
+import org.springframework.security.oauth2.server.resource.web.BearerTokenResolver
+import org.springframework.security.oauth2.server.resource.web.DefaultBearerTokenResolver
+import org.springframework.stereotype.Component
+
+/**
+ * Access Token 추출 (Authorization 헤더 → httpOnly Cookie 순서)
+ *
+ * 브라우저는 JavaScript로 토큰을 다루지 않고 access_token Cookie로만 인증합니다.
+ * 헤더 방식은 API 클라이언트와 테스트 호환을 위해 유지합니다.
+ */
+@Component
+class CookieBearerTokenResolver : BearerTokenResolver {
+
+    private val headerResolver = DefaultBearerTokenResolver()
+
+    override fun resolve(request: HttpServletRequest): String? {
+        headerResolver.resolve(request)?.let { return it }
+
+        // 만료된 access_token Cookie 때문에 OAuth2 로그인, 재발급/로그아웃 요청이 401로 막히지 않도록
+        // Cookie는 /api/** 요청(재발급/로그아웃 제외)에서만 사용
+        val uri = request.requestURI
+        if (!uri.startsWith("/api/") || uri in COOKIE_EXCLUDED_PATHS) return null
+
+        return request.cookies
+            ?.firstOrNull { it.name == AuthCookieManager.ACCESS_TOKEN_COOKIE }
+            ?.value
+            ?.takeIf { it.isNotBlank() }
+    }
+
+    companion object {
+        /**
+         * CSRF 검증 대상 요청 판별
+         *
+         * Cookie는 브라우저가 자동으로 전송하므로 인증 Cookie를 가진 요청만 CSRF 공격 대상이 됩니다.
+         * Authorization 헤더로 인증하는 요청은 공격자가 헤더를 위조할 수 없으므로 제외하고,
+         * 인증 Cookie가 없는 요청은 그대로 인증 단계에서 401로 처리됩니다.
+         */
+        fun requiresCsrfProtection(request: HttpServletRequest): Boolean {
+            if (request.method in SAFE_METHODS) return false
+            if (!request.getHeader(HttpHeaders.AUTHORIZATION).isNullOrBlank()) return false
+            return request.cookies?.any { it.name in AUTH_COOKIES } ?: false
+        }
+
+        private val SAFE_METHODS = setOf("GET", "HEAD", "TRACE", "OPTIONS")
+        private val AUTH_COOKIES = setOf(AuthCookieManager.ACCESS_TOKEN_COOKIE, AuthCookieManager.REFRESH_TOKEN_COOKIE)
+        private val COOKIE_EXCLUDED_PATHS = setOf("/api/auth/refresh", "/api/auth/logout")
+    }
+}
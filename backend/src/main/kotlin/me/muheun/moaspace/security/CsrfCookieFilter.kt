@@ -0,0 +1,27 @@
+package me.muheun.moaspace.security
+
+import jakarta.servlet.FilterChain
+import jakarta.servlet.http.HttpServletRequest
+import jakarta.servlet.http.HttpServletResponse
+import org.springframework.security.web.csrf.CsrfToken
+import org.springframework.web.filter.OncePerRequestFilter
+
+/**
+ * XSRF-TOKEN Cookie 발급 필터
+ *
+ * Spring Security 6는 CSRF 토큰을 지연 로딩하므로, 토큰을 읽지 않으면 Cookie가 생성되지 않습니다.
+ * 모든 요청에서 토큰을 로딩하여 프론트엔드가 첫 변경 요청 전에 XSRF-TOKEN Cookie를 받도록 합니다.
+ */
+class CsrfCookieFilter : OncePerRequestFilter() {
+
+    override fun doFilterInternal(
+        request: HttpServletRequest,
+        response: HttpServletResponse,
+        filterChain: FilterChain
+    ) {
+        val csrfToken = request.getAttribute(CsrfToken::class.java.name) as? CsrfToken
+        csrfToken?.token
+
+        filterChain.doFilter(request, response)
+    }
+}
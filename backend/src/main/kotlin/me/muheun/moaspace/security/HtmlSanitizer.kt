@@ -0,0 +1,141 @@
+package me.muheun.moaspace.security
+
+import org.jsoup.Jsoup
+import org.jsoup.nodes.Document
+import org.jsoup.nodes.Element
+import org.jsoup.safety.Safelist
+import java.net.URI
+import java.net.URISyntaxException
+
+/**
+ * 게시글 HTML 허용 목록(Allow-list) 정제
+ *
+ * RichTextEditor(Tiptap)가 생성할 수 있는 노드/마크만 허용합니다.
+ * - StarterKit: 문단, 제목(h1~h3), 목록, 인용, 코드, 구분선, 굵게/기울임/취소선
+ * - Link, Image, Underline, Highlight(mark), Color/TextStyle(span), Sub/Superscript
+ * - Table(colgroup/col 포함), CodeBlockLowlight(pre > code.language-*), Youtube(iframe)
+ *
+ * jsoup Safelist로 태그/속성/URL 프로토콜을 제한한 뒤,
+ * Safelist로 표현할 수 없는 style 값과 iframe 호스트를 추가로 검증합니다.
+ *
+ * Constitution Principle IX: 프론트엔드 lib/html/sanitize.ts(HTML_ALLOWLIST)와 수동 동기화 필요
+ */
+object HtmlSanitizer {
+
+    private val ALLOWED_TAGS = arrayOf(
+        "p", "br", "h1", "h2", "h3", "blockquote", "hr",
+        "ul", "ol", "li",
+        "strong", "b", "em", "i", "s", "u", "code", "pre", "mark", "span", "sub", "sup",
+        "a", "img",
+        "table", "colgroup", "col", "thead", "tbody", "tr", "th", "td",
+        "div", "iframe"
+    )
+
+    /** iframe은 YouTube 임베드만 허용 */
+    private val IFRAME_HOSTNAMES = setOf(
+        "www.youtube.com", "youtube.com", "www.youtube-nocookie.com", "youtube-nocookie.com"
+    )
+
+    /** style 속성은 TextAlign, Color, Highlight, 표 너비에 필요한 속성만 허용 */
+    private val ALLOWED_STYLES = mapOf(
+        "text-align" to Regex("^(left|right|center|justify)$"),
+        "color" to Regex("^(#[0-9a-fA-F]{3,8}|rgba?\\([\\d\\s.,%]+\\))$"),
+        "background-color" to Regex("^(#[0-9a-fA-F]{3,8}|rgba?\\([\\d\\s.,%]+\\))$"),
+        "width" to Regex("^\\d+(\\.\\d+)?(px|%)$"),
+        "min-width" to Regex("^\\d+(\\.\\d+)?(px|%)$")
+    )
+
+    /**
+     * 상대 경로 링크(/posts/1 등)를 보존하기 위한 가상 기준 URI
+     * (jsoup은 기준 URI 없이는 상대 경로의 프로토콜을 판별할 수 없어 제거함)
+     */
+    private const val RELATIVE_BASE_URI = "https://moaspace.invalid/"
+
+    /** 제어 문자/공백을 제거한 뒤의 URL 스킴 (java\tscript: 같은 우회 입력 판별용) */
+    private val URL_SCHEME = Regex("^([a-z][a-z0-9+.-]*):")
+    private val URL_IGNORED_CHARS = Regex("[\\s\\p{Cntrl}]")
+    private val ALLOWED_SCHEMES = setOf("http", "https", "mailto")
+
+    private const val BLANK_TARGET_REL = "noopener noreferrer nofollow"
+
+    private val SAFELIST: Safelist = Safelist()
+        .addTags(*ALLOWED_TAGS)
+        .addAttributes(":all", "class", "style")
+        .addAttributes("a", "href", "target", "rel")
+        .addAttributes("img", "src", "alt", "title", "width", "height")
+        .addAttributes("ol", "start", "type")
+        .addAttributes("mark", "data-color")
+        .addAttributes("th", "colspan", "rowspan", "colwidth")
+        .addAttributes("td", "colspan", "rowspan", "colwidth")
+        .addAttributes("div", "data-youtube-video")
+        .addAttributes("iframe", "src", "width", "height", "allowfullscreen", "frameborder")
+        .addProtocols("a", "href", "http", "https", "mailto")
+        .addProtocols("img", "src", "http", "https")
+        .addProtocols("iframe", "src", "https")
+        .preserveRelativeLinks(true)
+
+    // pre 블록 공백/줄바꿈 보존을 위해 pretty print 비활성화
+    private val OUTPUT_SETTINGS = Document.OutputSettings().prettyPrint(false)
+
+    /**
+     * 게시글 HTML 정제
+     *
+     * @param html RichTextEditor 출력 (클라이언트 입력이므로 신뢰하지 않음)
+     * @return 허용 목록 밖의 태그/속성/URL/style이 제거된 HTML
+     */
+    fun sanitize(html: String): String {
+        val cleaned = Jsoup.clean(html, RELATIVE_BASE_URI, SAFELIST, OUTPUT_SETTINGS)
+        val document = Jsoup.parseBodyFragment(cleaned)
+        document.outputSettings(OUTPUT_SETTINGS)
+
+        // preserveRelativeLinks로 보존된 원본 값에 허용되지 않은 스킴이 남지 않도록 재검증
+        document.select("[href], [src]").forEach { element ->
+            listOf("href", "src").filter { element.hasAttr(it) && !isAllowedUrl(element.attr(it)) }
+                .forEach { element.removeAttr(it) }
+        }
+        document.select("[style]").forEach { sanitizeStyle(it) }
+        document.select("iframe").forEach { iframe ->
+            if (!isAllowedIframeSrc(iframe.attr("src"))) iframe.remove()
+        }
+        // 새 창 링크는 opener 접근 차단
+        document.select("a[target]").forEach { link ->
+            if (link.attr("target") == "_blank") link.attr("rel", BLANK_TARGET_REL)
+        }
+
+        return document.body().html()
+    }
+
+    private fun sanitizeStyle(element: Element) {
+        val declarations = element.attr("style")
+            .split(";")
+            .mapNotNull { declaration ->
+                val property = declaration.substringBefore(":", "").trim().lowercase()
+                val value = declaration.substringAfter(":", "").trim()
+                val pattern = ALLOWED_STYLES[property] ?: return@mapNotNull null
+                if (pattern.matches(value)) "$property: $value" else null
+            }
+
+        if (declarations.isEmpty()) {
+            element.removeAttr("style")
+        } else {
+            element.attr("style", declarations.joinToString("; "))
+        }
+    }
+
+    private fun isAllowedUrl(url: String): Boolean {
+        val normalized = url.replace(URL_IGNORED_CHARS, "").replace('\\', '/').lowercase()
+        // 프로토콜 상대 URL(//evil.com)은 외부 출처이므로 거부
+        if (normalized.startsWith("//")) return false
+        val scheme = URL_SCHEME.find(normalized)?.groupValues?.get(1) ?: return true
+        return scheme in ALLOWED_SCHEMES
+    }
+
+    private fun isAllowedIframeSrc(src: String): Boolean {
+        val uri = try {
+            URI(src)
+        } catch (e: URISyntaxException) {
+            return false
+        }
+        return uri.scheme == "https" && uri.host in IFRAME_HOSTNAMES
+    }
+}
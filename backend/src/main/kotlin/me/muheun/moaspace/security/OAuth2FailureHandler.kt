@@ -47,11 +47,15 @@ class OAuth2FailureHandler(
         logger.error("OAuth2 인증 실패: ${exception.message}", exception)
 
         // 프론트엔드 콜백 페이지로 리다이렉트 (에러 정보 포함)
+        // returnTo는 재로그인 시에도 유지되도록 함께 전달
+        val returnTo = OAuth2ReturnToState.decode(request.getParameter("state"))
         val targetUrl = UriComponentsBuilder.fromUriString(frontendUrl)
             .path("/callback")
             .queryParam("error", "authentication_failed")
             .queryParam("message", "로그인 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.")
-            .build()
+            .apply { returnTo?.let { queryParam(OAuth2ReturnToState.RETURN_TO_PARAMETER, "{returnTo}") } }
+            .encode()
+            .buildAndExpand(mapOf("returnTo" to returnTo))
             .toUriString()
 
         logger.info("프론트엔드 에러 페이지로 리다이렉트: $targetUrl")
@@ -0,0 +1,59 @@
+package me.muheun.moaspace.security
+
+import java.nio.charset.StandardCharsets
+import java.util.Base64
+
+/**
+ * OAuth2 state 파라미터에 로그인 후 복귀 경로(returnTo) 인코딩/복원
+ *
+ * state = "{Spring 생성 랜덤 state}.{Base64URL(returnTo)}"
+ * Spring Security가 콜백 시 저장된 state와 정확히 일치하는지 검증하므로 중간 변조가 불가능합니다.
+ *
+ * returnTo는 같은 origin의 상대 경로만 허용합니다 (오픈 리다이렉트 방지).
+ * 프론트엔드가 AUTH_CONFIG 경로와 대조하여 한 번 더 검증합니다.
+ */
+object OAuth2ReturnToState {
+
+    const val RETURN_TO_PARAMETER = "returnTo"
+
+    private const val SEPARATOR = "."
+    private const val MAX_LENGTH = 512
+    private val EXCLUDED_PATHS = setOf("/login", "/callback", "/clear-auth")
+
+    fun encode(state: String, returnTo: String): String {
+        val encoded = Base64.getUrlEncoder().withoutPadding()
+            .encodeToString(returnTo.toByteArray(StandardCharsets.UTF_8))
+        return "$state$SEPARATOR$encoded"
+    }
+
+    /**
+     * state에서 returnTo 복원
+     *
+     * @return 검증된 returnTo (없거나 유효하지 않으면 null)
+     */
+    fun decode(state: String?): String? {
+        val encoded = state?.substringAfter(SEPARATOR, "")?.takeIf { it.isNotEmpty() } ?: return null
+
+        val returnTo = try {
+            String(Base64.getUrlDecoder().decode(encoded), StandardCharsets.UTF_8)
+        } catch (e: IllegalArgumentException) {
+            return null
+        }
+
+        return sanitize(returnTo)
+    }
+
+    /**
+     * 상대 경로 검증: '/'로 시작, '//'·역슬래시·제어 문자 금지, 인증 흐름 경로 제외
+     */
+    fun sanitize(returnTo: String?): String? {
+        if (returnTo.isNullOrBlank() || returnTo.length > MAX_LENGTH) return null
+        if (!returnTo.startsWith("/") || returnTo.startsWith("//") || returnTo.contains('\\')) return null
+        if (returnTo.any { it.isISOControl() }) return null
+
+        val path = returnTo.substringBefore('?').substringBefore('#')
+        if (path in EXCLUDED_PATHS) return null
+
+        return returnTo
+    }
+}
@@ -7,6 +7,7 @@ import me.muheun.moaspace.service.JwtTokenService
 import me.muheun.moaspace.service.UserService
 import org.slf4j.LoggerFactory
 import org.springframework.beans.factory.annotation.Value
+import org.springframework.http.HttpHeaders
 import org.springframework.security.core.Authentication
 import org.springframework.security.oauth2.core.user.OAuth2User
 import org.springframework.security.web.authentication.SimpleUrlAuthenticationSuccessHandler
@@ -18,6 +19,7 @@ import org.springframework.web.util.UriComponentsBuilder
 class OAuth2SuccessHandler(
     private val userService: UserService,
     private val jwtTokenService: JwtTokenService,
+    private val authCookieManager: AuthCookieManager,
     @Value("\${frontend.url:http://localhost:3000}") private val frontendUrl: String
 ) : SimpleUrlAuthenticationSuccessHandler() {
 
@@ -47,16 +49,31 @@ class OAuth2SuccessHandler(
         // JWT 액세스 토큰 생성
         val accessToken = jwtTokenService.generateAccessToken(
             userId = user.id!!,
-            email = user.email
+            email = user.email,
+            role = user.role
+        )
+
+        // Access/Refresh Token은 httpOnly Cookie로만 전달 (URL·JavaScript 노출 방지)
+        val refreshToken = jwtTokenService.generateRefreshToken(user.id!!)
+        response.addHeader(
+            HttpHeaders.SET_COOKIE,
+            authCookieManager.createAccessTokenCookie(accessToken).toString()
+        )
+        response.addHeader(
+            HttpHeaders.SET_COOKIE,
+            authCookieManager.createRefreshTokenCookie(refreshToken).toString()
         )
 
         logger.info("JWT 토큰 발급 완료: userId=${user.id}")
 
-        // 프론트엔드 콜백 페이지로 리다이렉트 (JWT 토큰 포함)
+        // 프론트엔드 콜백 페이지로 리다이렉트 (토큰은 Cookie로 전달되므로 URL에 포함하지 않음)
+        // OAuth state에 담아 왕복시킨 returnTo가 있으면 함께 전달
+        val returnTo = OAuth2ReturnToState.decode(request.getParameter("state"))
         val targetUrl = UriComponentsBuilder.fromUriString(frontendUrl)
             .path("/callback")
-            .queryParam("token", accessToken)
-            .build()
+            .apply { returnTo?.let { queryParam(OAuth2ReturnToState.RETURN_TO_PARAMETER, "{returnTo}") } }
+            .encode()
+            .buildAndExpand(mapOf("returnTo" to returnTo))
             .toUriString()
 
         logger.info("프론트엔드로 리다이렉트: $targetUrl")
@@ -0,0 +1,47 @@
+package me.muheun.moaspace.security
+
+import com.fasterxml.jackson.databind.ObjectMapper
+import jakarta.servlet.http.HttpServletRequest
+import jakarta.servlet.http.HttpServletResponse
+import org.slf4j.LoggerFactory
+import org.springframework.security.access.AccessDeniedException
+import org.springframework.security.web.access.AccessDeniedHandler
+import org.springframework.security.web.csrf.CsrfException
+import org.springframework.stereotype.Component
+import java.time.LocalDateTime
+
+/**
+ * 접근 거부(403) 응답을 프론트엔드 에러 형식({ error: { code } })으로 변환
+ *
+ * CSRF 토큰 누락/불일치는 INVALID_CSRF_TOKEN, 그 외는 FORBIDDEN
+ */
+@Component
+class RestAccessDeniedHandler(
+    private val objectMapper: ObjectMapper
+) : AccessDeniedHandler {
+
+    private val logger = LoggerFactory.getLogger(RestAccessDeniedHandler::class.java)
+
+    override fun handle(
+        request: HttpServletRequest,
+        response: HttpServletResponse,
+        accessDeniedException: AccessDeniedException
+    ) {
+        val isCsrfFailure = accessDeniedException is CsrfException
+
+        logger.warn("접근 거부: ${request.method} ${request.requestURI} (csrf=$isCsrfFailure)")
+
+        response.status = HttpServletResponse.SC_FORBIDDEN
+        response.contentType = "application/json;charset=UTF-8"
+
+        val errorResponse = mapOf(
+            "error" to mapOf(
+                "code" to if (isCsrfFailure) "INVALID_CSRF_TOKEN" else "FORBIDDEN",
+                "message" to if (isCsrfFailure) "보안 토큰이 유효하지 않습니다. 페이지를 새로고침해주세요." else "접근 권한이 없습니다.",
+                "timestamp" to LocalDateTime.now().toString()
+            )
+        )
+
+        objectMapper.writeValue(response.writer, errorResponse)
+    }
+}
@@ -0,0 +1,44 @@
+package me.muheun.moaspace.security
+
+import jakarta.servlet.http.HttpServletRequest
+import org.springframework.security.oauth2.client.registration.ClientRegistrationRepository
+import org.springframework.security.oauth2.client.web.DefaultOAuth2AuthorizationRequestResolver
+import org.springframework.security.oauth2.client.web.OAuth2AuthorizationRequestRedirectFilter
+import org.springframework.security.oauth2.client.web.OAuth2AuthorizationRequestResolver
+import org.springframework.security.oauth2.core.endpoint.OAuth2AuthorizationRequest
+
+/**
+ * OAuth2 인가 요청에 returnTo를 실어 보내는 Resolver
+ *
+ * /oauth2/authorization/google?returnTo=/posts/123 요청 시
+ * returnTo를 state에 인코딩하여 Google 왕복 후 OAuth2SuccessHandler에서 복원합니다.
+ */
+class ReturnToAuthorizationRequestResolver(
+    clientRegistrationRepository: ClientRegistrationRepository
+) : OAuth2AuthorizationRequestResolver {
+
+    private val delegate = DefaultOAuth2AuthorizationRequestResolver(
+        clientRegistrationRepository,
+        OAuth2AuthorizationRequestRedirectFilter.DEFAULT_AUTHORIZATION_REQUEST_BASE_URI
+    )
+
+    override fun resolve(request: HttpServletRequest): OAuth2AuthorizationRequest? {
+        return delegate.resolve(request)?.let { withReturnTo(request, it) }
+    }
+
+    override fun resolve(request: HttpServletRequest, clientRegistrationId: String): OAuth2AuthorizationRequest? {
+        return delegate.resolve(request, clientRegistrationId)?.let { withReturnTo(request, it) }
+    }
+
+    private fun withReturnTo(
+        request: HttpServletRequest,
+        authorizationRequest: OAuth2AuthorizationRequest
+    ): OAuth2AuthorizationRequest {
+        val returnTo = OAuth2ReturnToState.sanitize(request.getParameter(OAuth2ReturnToState.RETURN_TO_PARAMETER))
+            ?: return authorizationRequest
+
+        return OAuth2AuthorizationRequest.from(authorizationRequest)
+            .state(OAuth2ReturnToState.encode(authorizationRequest.state, returnTo))
+            .build()
+    }
+}
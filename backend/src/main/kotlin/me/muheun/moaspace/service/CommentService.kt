@@ -0,0 +1,155 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.domain.comment.Comment
+import me.muheun.moaspace.domain.vector.VectorEntityType
+import me.muheun.moaspace.dto.CreateCommentRequest
+import me.muheun.moaspace.dto.UpdateCommentRequest
+import me.muheun.moaspace.repository.CommentRepository
+import me.muheun.moaspace.repository.UserRepository
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * 게시글 댓글 서비스
+ *
+ * Constitution Principle I: 댓글도 VectorConfig(entity_type=Comment) 기반으로 벡터화
+ * (활성화된 설정이 없으면 벡터화를 건너뜀)
+ */
+@Service
+@Transactional(readOnly = true)
+class CommentService(
+    private val commentRepository: CommentRepository,
+    private val userRepository: UserRepository,
+    private val postService: PostService,
+    private val vectorIndexingService: VectorIndexingService
+) {
+
+    private val logger = LoggerFactory.getLogger(CommentService::class.java)
+
+    // 게시글의 댓글 목록 (작성순, 삭제된 댓글 포함)
+    fun getComments(postId: Long): List<Comment> {
+        logger.debug("댓글 목록 조회: postId=$postId")
+
+        postService.getPostById(postId)
+
+        return commentRepository.findAllByPostIdWithAuthor(postId)
+    }
+
+    @Transactional
+    fun createComment(postId: Long, request: CreateCommentRequest, userId: Long): Comment {
+        logger.info("댓글 생성 시작: postId=$postId, userId=$userId, parentId=${request.parentId}")
+
+        val post = postService.getPostById(postId)
+        val author = userRepository.findById(userId)
+            .orElseThrow { NoSuchElementException("작성자를 찾을 수 없습니다: userId=$userId") }
+
+        val parent = request.parentId?.let { parentId ->
+            val parent = getCommentById(parentId)
+            if (parent.post.id != postId) {
+                throw NoSuchElementException("댓글을 찾을 수 없습니다: commentId=$parentId")
+            }
+            parent
+        }
+
+        val comment = Comment(
+            post = post,
+            parent = parent,
+            author = author,
+            content = request.content.trim()
+        )
+
+        val savedComment = commentRepository.save(comment)
+        logger.info("댓글 저장 완료: commentId=${savedComment.id}")
+
+        val vectorFields = vectorIndexingService.extractVectorFields(
+            entity = savedComment,
+            entityType = VectorEntityType.COMMENT.typeName
+        )
+        vectorIndexingService.indexEntity(
+            entityType = VectorEntityType.COMMENT.typeName,
+            recordKey = savedComment.id.toString(),
+            fields = vectorFields
+        )
+        logger.info("댓글 벡터화 완료: commentId=${savedComment.id}")
+
+        return savedComment
+    }
+
+    @Transactional
+    fun updateComment(postId: Long, commentId: Long, request: UpdateCommentRequest, userId: Long): Comment {
+        logger.info("댓글 수정 시작: commentId=$commentId, userId=$userId")
+
+        val comment = getCommentOfPost(postId, commentId)
+
+        if (comment.author.id != userId) {
+            logger.warn("댓글 수정 권한 없음: commentId=$commentId, authorId=${comment.author.id}, requestUserId=$userId")
+            throw IllegalArgumentException("댓글을 수정할 권한이 없습니다")
+        }
+
+        comment.content = request.content.trim()
+
+        val updatedComment = commentRepository.save(comment)
+        logger.info("댓글 업데이트 완료: commentId=$commentId")
+
+        val vectorFields = vectorIndexingService.extractVectorFields(
+            entity = updatedComment,
+            entityType = VectorEntityType.COMMENT.typeName
+        )
+        vectorIndexingService.reindexEntity(
+            entityType = VectorEntityType.COMMENT.typeName,
+            recordKey = updatedComment.id.toString(),
+            fields = vectorFields
+        )
+        logger.info("댓글 벡터 재생성 완료: commentId=$commentId")
+
+        return updatedComment
+    }
+
+    @Transactional
+    fun deleteComment(postId: Long, commentId: Long, userId: Long) {
+        logger.info("댓글 삭제 시작: commentId=$commentId, userId=$userId")
+
+        val comment = getCommentOfPost(postId, commentId)
+
+        if (comment.author.id != userId) {
+            logger.warn("댓글 삭제 권한 없음: commentId=$commentId, authorId=${comment.author.id}, requestUserId=$userId")
+            throw IllegalArgumentException("댓글을 삭제할 권한이 없습니다")
+        }
+
+        comment.deleted = true
+        commentRepository.save(comment)
+
+        // 삭제된 댓글이 검색 결과에 노출되지 않도록 벡터 제거
+        vectorIndexingService.deleteEntityIndex(
+            entityType = VectorEntityType.COMMENT.typeName,
+            recordKey = commentId.toString()
+        )
+
+        logger.info("댓글 소프트 삭제 완료: commentId=$commentId (deleted=true)")
+    }
+
+    // 댓글 조회 (삭제되지 않은 댓글만 반환)
+    private fun getCommentById(commentId: Long): Comment {
+        val comment = commentRepository.findById(commentId)
+            .orElseThrow { NoSuchElementException("댓글을 찾을 수 없습니다: commentId=$commentId") }
+
+        if (comment.deleted) {
+            logger.warn("삭제된 댓글 접근 시도: commentId=$commentId")
+            throw NoSuchElementException("댓글을 찾을 수 없습니다: commentId=$commentId")
+        }
+
+        return comment
+    }
+
+    // URL의 postId와 댓글이 속한 게시글이 일치하는지 함께 검증
+    private fun getCommentOfPost(postId: Long, commentId: Long): Comment {
+        val comment = getCommentById(commentId)
+
+        if (comment.post.id != postId) {
+            throw NoSuchElementException("댓글을 찾을 수 없습니다: commentId=$commentId")
+        }
+
+        return comment
+    }
+}
@@ -0,0 +1,114 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.domain.draft.Draft
+import me.muheun.moaspace.dto.SaveDraftRequest
+import me.muheun.moaspace.repository.DraftRepository
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.security.HtmlSanitizer
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * 게시글 초안 자동 저장 서비스
+ *
+ * 초안은 항상 (작성자, draftKey)로 조회하므로 다른 사용자의 초안에는 접근할 수 없음
+ * 본문은 게시글과 동일하게 HtmlSanitizer로 정제 후 저장 (복원 시 에디터에 그대로 주입)
+ */
+@Service
+@Transactional(readOnly = true)
+class DraftService(
+    private val draftRepository: DraftRepository,
+    private val userRepository: UserRepository,
+    private val postService: PostService
+) {
+
+    private val logger = LoggerFactory.getLogger(DraftService::class.java)
+
+    companion object {
+        // Frontend 생성 키 형식 (UUID 또는 post-{postId})
+        private val DRAFT_KEY_PATTERN = Regex("^[A-Za-z0-9-]{1,64}$")
+    }
+
+    // 사용자의 초안 목록 (최근 수정순)
+    fun getDrafts(userId: Long): List<Draft> {
+        logger.debug("초안 목록 조회: userId=$userId")
+
+        return draftRepository.findAllByAuthorIdOrderByUpdatedAtDesc(userId)
+    }
+
+    fun getDraft(draftKey: String, userId: Long): Draft {
+        logger.debug("초안 조회: draftKey=$draftKey, userId=$userId")
+
+        return findDraft(draftKey, userId)
+            ?: throw NoSuchElementException("초안을 찾을 수 없습니다: draftKey=$draftKey")
+    }
+
+    /**
+     * 초안 저장 (없으면 생성, 있으면 덮어쓰기)
+     *
+     * 수정 초안의 대상 게시글은 최초 저장 시에만 지정되며, 작성자 본인 게시글만 허용
+     */
+    @Transactional
+    fun saveDraft(draftKey: String, request: SaveDraftRequest, userId: Long): Draft {
+        logger.debug("초안 저장: draftKey=$draftKey, userId=$userId, postId=${request.postId}")
+
+        val title = request.title.replace(Regex("<[^>]*>"), "").trim()
+        val contentHtml = HtmlSanitizer.sanitize(request.contentHtml)
+        val hashtags = request.hashtags
+            .map { it.replace(Regex("<[^>]*>"), "").trim() }
+            .filter { it.isNotEmpty() }
+            .toTypedArray()
+
+        val existing = findDraft(draftKey, userId)
+        if (existing != null) {
+            existing.title = title
+            existing.contentHtml = contentHtml
+            existing.hashtags = hashtags
+            return draftRepository.save(existing)
+        }
+
+        val author = userRepository.findById(userId)
+            .orElseThrow { NoSuchElementException("작성자를 찾을 수 없습니다: userId=$userId") }
+
+        val post = request.postId?.let { postId ->
+            val post = postService.getPostById(postId)
+            if (post.author.id != userId) {
+                logger.warn("초안 저장 권한 없음: postId=$postId, authorId=${post.author.id}, requestUserId=$userId")
+                throw IllegalArgumentException("게시글을 수정할 권한이 없습니다")
+            }
+            post
+        }
+
+        val savedDraft = draftRepository.save(
+            Draft(
+                author = author,
+                draftKey = draftKey,
+                post = post,
+                title = title,
+                contentHtml = contentHtml,
+                hashtags = hashtags
+            )
+        )
+        logger.info("초안 생성 완료: draftId=${savedDraft.id}, draftKey=$draftKey")
+
+        return savedDraft
+    }
+
+    @Transactional
+    fun deleteDraft(draftKey: String, userId: Long) {
+        logger.info("초안 삭제: draftKey=$draftKey, userId=$userId")
+
+        val draft = getDraft(draftKey, userId)
+        draftRepository.delete(draft)
+    }
+
+    // 키 형식이 잘못된 초안은 존재할 수 없으므로 조회 실패(404)로 처리
+    private fun findDraft(draftKey: String, userId: Long): Draft? {
+        if (!DRAFT_KEY_PATTERN.matches(draftKey)) {
+            throw NoSuchElementException("초안을 찾을 수 없습니다: draftKey=$draftKey")
+        }
+
+        return draftRepository.findByAuthorIdAndDraftKey(userId, draftKey)
+    }
+}
@@ -0,0 +1,82 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.config.UploadProperties
+import me.muheun.moaspace.dto.ImageUploadResponse
+import me.muheun.moaspace.storage.ImageStorage
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.web.multipart.MultipartFile
+import java.time.LocalDate
+import java.util.UUID
+
+/**
+ * 에디터 이미지 업로드 서비스
+ *
+ * 클라이언트가 보낸 Content-Type/파일명은 신뢰하지 않고 파일 시그니처(magic bytes)로 형식을 판별합니다.
+ * 저장 파일명은 UUID로 생성하여 원본 파일명에 의한 경로 조작을 차단합니다.
+ */
+@Service
+class ImageUploadService(
+    private val imageStorage: ImageStorage,
+    private val uploadProperties: UploadProperties
+) {
+
+    private val logger = LoggerFactory.getLogger(ImageUploadService::class.java)
+
+    fun uploadImage(file: MultipartFile, userId: Long): ImageUploadResponse {
+        logger.info("이미지 업로드 시작: userId=$userId, originalName=${file.originalFilename}, size=${file.size}")
+
+        require(!file.isEmpty) { "빈 파일은 업로드할 수 없습니다" }
+        require(file.size <= uploadProperties.maxImageBytes) {
+            "이미지는 최대 ${uploadProperties.maxImageBytes / (1024 * 1024)}MB까지 업로드할 수 있습니다"
+        }
+
+        val content = file.bytes
+        val format = ImageFormat.detect(content)
+            ?: throw IllegalArgumentException("지원하지 않는 이미지 형식입니다 (PNG, JPEG, GIF, WebP만 가능)")
+
+        val today = LocalDate.now()
+        val key = "%d/%02d/%s.%s".format(today.year, today.monthValue, UUID.randomUUID(), format.extension)
+
+        val url = imageStorage.store(key, content, format.contentType)
+
+        logger.info("이미지 업로드 완료: userId=$userId, url=$url")
+
+        return ImageUploadResponse(
+            url = url,
+            contentType = format.contentType,
+            size = content.size.toLong()
+        )
+    }
+
+    /**
+     * 허용 이미지 형식 (파일 시그니처 기반 판별)
+     */
+    internal enum class ImageFormat(val contentType: String, val extension: String) {
+        PNG("image/png", "png"),
+        JPEG("image/jpeg", "jpg"),
+        GIF("image/gif", "gif"),
+        WEBP("image/webp", "webp");
+
+        companion object {
+            private val PNG_SIGNATURE = byteArrayOf(0x89.toByte(), 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A)
+            private val JPEG_SIGNATURE = byteArrayOf(0xFF.toByte(), 0xD8.toByte(), 0xFF.toByte())
+            private val GIF_SIGNATURE = "GIF8".toByteArray(Charsets.US_ASCII)
+            private val RIFF_SIGNATURE = "RIFF".toByteArray(Charsets.US_ASCII)
+            private val WEBP_SIGNATURE = "WEBP".toByteArray(Charsets.US_ASCII)
+
+            fun detect(content: ByteArray): ImageFormat? = when {
+                content.startsWith(PNG_SIGNATURE) -> PNG
+                content.startsWith(JPEG_SIGNATURE) -> JPEG
+                content.startsWith(GIF_SIGNATURE) -> GIF
+                content.startsWith(RIFF_SIGNATURE) && content.startsWith(WEBP_SIGNATURE, offset = 8) -> WEBP
+                else -> null
+            }
+
+            private fun ByteArray.startsWith(prefix: ByteArray, offset: Int = 0): Boolean {
+                if (size < offset + prefix.size) return false
+                return prefix.indices.all { this[offset + it] == prefix[it] }
+            }
+        }
+    }
+}
@@ -3,6 +3,7 @@ package me.muheun.moaspace.service
 import io.jsonwebtoken.Claims
 import io.jsonwebtoken.Jwts
 import io.jsonwebtoken.security.Keys
+import me.muheun.moaspace.domain.user.UserRole
 import org.springframework.beans.factory.annotation.Value
 import org.springframework.stereotype.Service
 import java.nio.charset.StandardCharsets
@@ -20,14 +21,20 @@ class JwtTokenService(
         Keys.hmacShaKeyFor(jwtSecret.toByteArray(StandardCharsets.UTF_8))
     }
 
-    fun generateAccessToken(userId: Long, email: String): String {
+    /**
+     * Access Token 생성
+     *
+     * role 클레임은 Spring Security 권한(ROLE_*)과 Next.js Middleware 경로별 역할 검사에 사용됩니다.
+     */
+    fun generateAccessToken(userId: Long, email: String, role: UserRole = UserRole.USER): String {
         val now = Date()
         val expiryDate = Date(now.time + accessTokenExpiration)
 
         return Jwts.builder()
             .subject(userId.toString())
             .claim("email", email)
-            .claim("type", "access")
+            .claim(CLAIM_ROLE, role.name)
+            .claim("type", TOKEN_TYPE_ACCESS)
             .issuedAt(now)
             .expiration(expiryDate)
             .signWith(secretKey)
@@ -40,13 +47,41 @@ class JwtTokenService(
 
         return Jwts.builder()
             .subject(userId.toString())
-            .claim("type", "refresh")
+            .claim("type", TOKEN_TYPE_REFRESH)
             .issuedAt(now)
             .expiration(expiryDate)
             .signWith(secretKey)
             .compact()
     }
 
+    /**
+     * Refresh Token 검증 후 사용자 ID 반환
+     *
+     * 서명·만료 검증에 더해 type=refresh 클레임을 확인하여
+     * Access Token을 Refresh Token으로 재사용하는 것을 방지합니다.
+     *
+     * @param token Refresh Token
+     * @return 사용자 ID (유효하지 않으면 null)
+     */
+    fun getUserIdFromRefreshToken(token: String): Long? {
+        return try {
+            val claims = parseToken(token)
+            if (claims["type"] != TOKEN_TYPE_REFRESH) null else claims.subject.toLong()
+        } catch (e: Exception) {
+            null
+        }
+    }
+
+    /**
+     * Access Token 만료 시간 (초)
+     */
+    fun getAccessTokenExpirationSeconds(): Long = accessTokenExpiration / 1000
+
+    /**
+     * Refresh Token 만료 시간 (초) - Cookie Max-Age에 사용
+     */
+    fun getRefreshTokenExpirationSeconds(): Long = refreshTokenExpiration / 1000
+
     fun getUserIdFromToken(token: String): Long {
         val claims = parseToken(token)
         return claims.subject.toLong()
@@ -88,4 +123,10 @@ class JwtTokenService(
     fun getSecretKeyBytes(): ByteArray {
         return jwtSecret.toByteArray(StandardCharsets.UTF_8)
     }
+
+    companion object {
+        const val TOKEN_TYPE_ACCESS = "access"
+        const val TOKEN_TYPE_REFRESH = "refresh"
+        const val CLAIM_ROLE = "role"
+    }
 }
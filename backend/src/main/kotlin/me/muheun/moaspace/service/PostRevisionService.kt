@@ -0,0 +1,75 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.post.PostRevision
+import me.muheun.moaspace.dto.UpdatePostRequest
+import me.muheun.moaspace.repository.PostRevisionRepository
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * 게시글 수정 이력 조회/복원 서비스
+ *
+ * 리비전 기록은 PostService.createPost/updatePost에서 수행하고,
+ * 복원은 PostService.updatePost를 그대로 호출하여 정제/벡터 재생성/새 리비전 기록을 동일하게 적용
+ */
+@Service
+@Transactional(readOnly = true)
+class PostRevisionService(
+    private val postRevisionRepository: PostRevisionRepository,
+    private val postService: PostService
+) {
+
+    private val logger = LoggerFactory.getLogger(PostRevisionService::class.java)
+
+    // 게시글 수정 이력 (최신순)
+    fun getRevisions(postId: Long): List<PostRevision> {
+        logger.debug("리비전 목록 조회: postId=$postId")
+
+        postService.getPostById(postId)
+
+        return postRevisionRepository.findAllByPostIdWithEditor(postId)
+    }
+
+    fun getRevision(postId: Long, revisionId: Long): PostRevision {
+        logger.debug("리비전 조회: postId=$postId, revisionId=$revisionId")
+
+        postService.getPostById(postId)
+
+        val revision = postRevisionRepository.findById(revisionId)
+            .orElseThrow { NoSuchElementException("리비전을 찾을 수 없습니다: revisionId=$revisionId") }
+
+        if (revision.post.id != postId) {
+            throw NoSuchElementException("리비전을 찾을 수 없습니다: revisionId=$revisionId")
+        }
+
+        return revision
+    }
+
+    /**
+     * 이전 리비전으로 복원 (작성자만)
+     *
+     * 복원 결과도 새 리비전으로 기록되므로 복원 자체를 다시 되돌릴 수 있음
+     */
+    @Transactional
+    fun restoreRevision(postId: Long, revisionId: Long, userId: Long): Post {
+        logger.info("리비전 복원 시작: postId=$postId, revisionId=$revisionId, userId=$userId")
+
+        val revision = getRevision(postId, revisionId)
+
+        val restoredPost = postService.updatePost(
+            postId = postId,
+            request = UpdatePostRequest(
+                title = revision.title,
+                contentHtml = revision.contentHtml,
+                hashtags = revision.hashtags.toList()
+            ),
+            userId = userId
+        )
+
+        logger.info("리비전 복원 완료: postId=$postId, revisionNumber=${revision.revisionNumber}")
+
+        return restoredPost
+    }
+}
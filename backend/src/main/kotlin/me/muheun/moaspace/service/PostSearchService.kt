@@ -0,0 +1,235 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.config.VectorProperties
+import me.muheun.moaspace.domain.vector.VectorEntityType
+import me.muheun.moaspace.dto.PostSearchRequest
+import me.muheun.moaspace.dto.PostSummary
+import me.muheun.moaspace.dto.SearchMode
+import me.muheun.moaspace.dto.SearchResult
+import me.muheun.moaspace.dto.SearchSnippet
+import me.muheun.moaspace.mapper.PostMapper
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.VectorChunkRepository
+import me.muheun.moaspace.repository.VectorConfigRepository
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * 게시글 검색 (keyword / semantic / hybrid)
+ *
+ * hybrid는 키워드 순위와 의미 순위를 Reciprocal Rank Fusion으로 결합
+ * - 점수 척도가 다른 두 신호(ts_rank vs 코사인 유사도)를 정규화 없이 순위만으로 합산
+ * - 한쪽 신호에만 있는 결과도 포함 (에러 코드처럼 키워드로만 잡히는 글)
+ */
+@Service
+@Transactional(readOnly = true)
+class PostSearchService(
+    private val vectorProperties: VectorProperties,
+    private val vectorEmbeddingService: VectorEmbeddingService,
+    private val vectorChunkRepository: VectorChunkRepository,
+    private val vectorConfigRepository: VectorConfigRepository,
+    private val postRepository: PostRepository,
+    private val postMapper: PostMapper,
+    private val tagSynonymService: TagSynonymService
+) {
+
+    companion object {
+        private val logger = LoggerFactory.getLogger(PostSearchService::class.java)
+
+        // RRF 상수 (원 논문 기본값, 상위 순위 간 점수 차이 완화)
+        const val RRF_K = 60
+
+        // hybrid 모드에서 각 신호별로 가져올 후보 배수 (융합 후 limit개로 자름)
+        private const val HYBRID_CANDIDATE_MULTIPLIER = 2
+
+        // 스니펫을 뽑을 필드 (Post.contentText 청크)
+        private const val SNIPPET_FIELD = "contentText"
+
+        /**
+         * Reciprocal Rank Fusion
+         *
+         * @param rankings 신호별 순위 목록 (앞쪽일수록 상위)
+         * @return key → Σ 1 / (k + rank), 점수 내림차순
+         */
+        fun <K> reciprocalRankFusion(rankings: List<List<K>>, k: Int = RRF_K): List<Pair<K, Double>> {
+            val scores = linkedMapOf<K, Double>()
+
+            rankings.forEach { ranking ->
+                ranking.forEachIndexed { index, key ->
+                    scores[key] = (scores[key] ?: 0.0) + 1.0 / (k + index + 1)
+                }
+            }
+
+            return scores.entries
+                .sortedByDescending { it.value }
+                .map { it.key to it.value }
+        }
+    }
+
+    /**
+     * 의미 검색 신호 (레코드별 최대 유사도 + 필드별 원본 유사도 + 가중 totalScore)
+     */
+    private data class SemanticHit(
+        val similarity: Double,
+        val totalScore: Double,
+        val fieldScores: Map<String, Double>
+    )
+
+    fun search(request: PostSearchRequest): List<SearchResult> {
+        logger.info("게시글 검색 시작: mode=${request.mode}, query=${request.query.take(50)}, limit=${request.limit}")
+
+        val candidateLimit = if (request.mode == SearchMode.HYBRID) {
+            request.limit * HYBRID_CANDIDATE_MULTIPLIER
+        } else {
+            request.limit
+        }
+
+        // 키워드 신호는 해시태그 동의어로 바꾼 검색어도 함께 검색 (의미 신호는 임베딩이 표기 차이를 흡수)
+        val keywordHits = if (request.mode != SearchMode.SEMANTIC) {
+            postMapper.findKeywordScores(tagSynonymService.expandQuery(request.query), candidateLimit)
+                .associate { it.postId to it.score }
+        } else {
+            emptyMap()
+        }
+
+        // keyword 모드는 임베딩 생성 생략
+        val queryVector = if (request.mode != SearchMode.KEYWORD) {
+            vectorEmbeddingService.generateEmbedding(request.query).toArray()
+        } else {
+            null
+        }
+
+        val semanticHits = if (queryVector != null) {
+            semanticSearch(queryVector, request.threshold, candidateLimit)
+        } else {
+            emptyMap()
+        }
+
+        val keywordRanks = keywordHits.keys.withIndex().associate { (index, postId) -> postId to index + 1 }
+        val semanticRanks = semanticHits.keys.withIndex().associate { (index, postId) -> postId to index + 1 }
+
+        val ordered: List<Pair<Long, Double?>> = when (request.mode) {
+            SearchMode.KEYWORD -> keywordHits.keys.map { it to null }
+            SearchMode.SEMANTIC -> semanticHits.keys.map { it to null }
+            SearchMode.HYBRID -> reciprocalRankFusion(listOf(keywordHits.keys.toList(), semanticHits.keys.toList()))
+                .take(request.limit)
+                .map { (postId, fused) -> postId to fused }
+        }
+
+        val posts = postRepository.findAllById(ordered.map { it.first })
+            .filter { !it.deleted }
+            .associateBy { it.id!! }
+
+        val snippets = findSnippets(request.query, queryVector, posts.keys.toList())
+
+        val results = ordered.mapNotNull { (postId, fusedScore) ->
+            val post = posts[postId] ?: return@mapNotNull null
+            val semantic = semanticHits[postId]
+            val keywordScore = keywordHits[postId]
+
+            SearchResult(
+                post = PostSummary.from(post),
+                similarity = semantic?.similarity ?: 0.0,
+                totalScore = fusedScore ?: semantic?.totalScore ?: keywordScore ?: 0.0,
+                fieldScores = semantic?.fieldScores.orEmpty(),
+                keywordRank = keywordRanks[postId],
+                keywordScore = keywordScore,
+                semanticRank = semanticRanks[postId],
+                fusedScore = fusedScore,
+                snippet = snippets[postId]
+            )
+        }
+
+        logger.info("게시글 검색 완료: mode=${request.mode}, keyword=${keywordHits.size}, semantic=${semanticHits.size}, 결과 수=${results.size}")
+
+        return results
+    }
+
+    /**
+     * 의미 검색 (임계값 이상 레코드를 유사도 순으로)
+     *
+     * @return postId → SemanticHit (유사도 내림차순 유지)
+     */
+    private fun semanticSearch(queryVector: FloatArray, threshold: Double, limit: Int): Map<Long, SemanticHit> {
+        // 1. VectorChunk 기반 레코드별 유사도 검색
+        val matchedScores = vectorChunkRepository.findSimilarRecords(
+            queryVector = queryVector,
+            namespace = vectorProperties.namespace,
+            entity = VectorEntityType.POST.typeName,
+            limit = limit
+        ).filter { it.score >= threshold }
+
+        // 2. 필드별 원본 유사도 조회 (가중치 미적용)
+        val fieldScoresByRecord = vectorChunkRepository.findFieldScoresByRecords(
+            queryVector = queryVector,
+            namespace = vectorProperties.namespace,
+            entity = VectorEntityType.POST.typeName,
+            recordKeys = matchedScores.map { it.recordKey }
+        ).groupBy({ it.recordKey }, { it.fieldName to it.score })
+            .mapValues { (_, scores) -> scores.toMap() }
+
+        // 3. 현재 vector_configs 가중치·임계값으로 totalScore 계산
+        val enabledConfigs = vectorConfigRepository.findByNamespaceAndEntityTypeAndEnabled(
+            namespace = vectorProperties.namespace,
+            entityType = VectorEntityType.POST.typeName,
+            enabled = true
+        )
+
+        val hits = linkedMapOf<Long, SemanticHit>()
+        matchedScores.forEach { scoreDto ->
+            val postId = scoreDto.recordKey.toLongOrNull() ?: return@forEach
+            val fieldScores = fieldScoresByRecord[scoreDto.recordKey].orEmpty()
+            val totalScore = enabledConfigs
+                .mapNotNull { config ->
+                    fieldScores[config.fieldName]
+                        ?.takeIf { it >= config.threshold }
+                        ?.let { it * config.weight }
+                }
+                .sum()
+
+            hits[postId] = SemanticHit(scoreDto.score, totalScore, fieldScores)
+        }
+        return hits
+    }
+
+    /**
+     * 결과 게시글별 스니펫 (본문 최적 청크)
+     *
+     * 쿼리 벡터가 있으면(semantic/hybrid) 의미상 가장 가까운 청크,
+     * 없으면(keyword) 검색어가 가장 많이 걸리는 청크
+     *
+     * @return postId → SearchSnippet
+     */
+    private fun findSnippets(query: String, queryVector: FloatArray?, postIds: List<Long>): Map<Long, SearchSnippet> {
+        val recordKeys = postIds.map { it.toString() }
+
+        val chunks = if (queryVector != null) {
+            vectorChunkRepository.findBestChunksByRecords(
+                queryVector = queryVector,
+                namespace = vectorProperties.namespace,
+                entity = VectorEntityType.POST.typeName,
+                fieldName = SNIPPET_FIELD,
+                recordKeys = recordKeys
+            )
+        } else {
+            vectorChunkRepository.findKeywordChunksByRecords(
+                query = query,
+                namespace = vectorProperties.namespace,
+                entity = VectorEntityType.POST.typeName,
+                fieldName = SNIPPET_FIELD,
+                recordKeys = recordKeys
+            )
+        }
+
+        return chunks.mapNotNull { chunk ->
+            val postId = chunk.recordKey.toLongOrNull() ?: return@mapNotNull null
+            postId to SearchSnippet(
+                text = chunk.chunkText,
+                chunkIndex = chunk.chunkIndex,
+                startPosition = chunk.startPosition,
+                endPosition = chunk.endPosition
+            )
+        }.toMap()
+    }
+}
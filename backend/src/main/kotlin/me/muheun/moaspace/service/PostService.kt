@@ -2,13 +2,19 @@ package me.muheun.moaspace.service
 
 import me.muheun.moaspace.config.VectorProperties
 import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.post.PostRevision
+import me.muheun.moaspace.domain.user.User
 import me.muheun.moaspace.domain.vector.VectorEntityType
 import me.muheun.moaspace.dto.CreatePostRequest
+import me.muheun.moaspace.dto.PostCursor
 import me.muheun.moaspace.dto.PostSearchRequest
 import me.muheun.moaspace.dto.UpdatePostRequest
 import me.muheun.moaspace.dto.VectorSearchRequest
+import me.muheun.moaspace.query.dto.HashtagFilter
 import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.PostRevisionRepository
 import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.security.HtmlSanitizer
 import org.jsoup.Jsoup
 import org.jsoup.nodes.Element
 import org.jsoup.nodes.TextNode
@@ -22,10 +28,12 @@ import org.springframework.transaction.annotation.Transactional
 @Transactional(readOnly = true)
 class PostService(
     private val postRepository: PostRepository,
+    private val postRevisionRepository: PostRevisionRepository,
     private val userRepository: UserRepository,
     private val vectorProperties: VectorProperties,
     private val vectorIndexingService: VectorIndexingService,
-    private val vectorSearchService: VectorSearchService
+    private val vectorSearchService: VectorSearchService,
+    private val tagSynonymService: TagSynonymService
 ) {
 
     private val logger = LoggerFactory.getLogger(PostService::class.java)
@@ -55,6 +63,8 @@ class PostService(
         val savedPost = postRepository.save(post)
         logger.info("게시글 저장 완료: postId=${savedPost.id}")
 
+        recordRevision(savedPost, author)
+
         val vectorFields = vectorIndexingService.extractVectorFields(
             entity = savedPost,
             entityType = VectorEntityType.POST.typeName
@@ -69,6 +79,25 @@ class PostService(
         return savedPost
     }
 
+    // 현재 게시글 상태를 다음 번호의 리비전으로 기록
+    private fun recordRevision(post: Post, editor: User) {
+        val postId = post.id!!
+        val revisionNumber = (postRevisionRepository.findMaxRevisionNumber(postId) ?: 0) + 1
+
+        postRevisionRepository.save(
+            PostRevision(
+                post = post,
+                revisionNumber = revisionNumber,
+                title = post.title,
+                contentMarkdown = post.contentMarkdown,
+                contentHtml = post.contentHtml,
+                hashtags = post.hashtags.copyOf(),
+                editor = editor
+            )
+        )
+        logger.debug("게시글 리비전 기록: postId=$postId, revisionNumber=$revisionNumber")
+    }
+
     private fun sanitizeTitle(title: String): String {
         return title.replace(Regex("<[^>]*>"), "").trim()
     }
@@ -156,12 +185,7 @@ class PostService(
     }
 
     private fun sanitizeHtml(html: String): String {
-        val policy = org.owasp.html.Sanitizers.FORMATTING
-            .and(org.owasp.html.Sanitizers.BLOCKS)
-            .and(org.owasp.html.Sanitizers.LINKS)
-            .and(org.owasp.html.Sanitizers.IMAGES)
-            .and(org.owasp.html.Sanitizers.TABLES)
-        return policy.sanitize(html)
+        return HtmlSanitizer.sanitize(html)
     }
 
     private fun extractPlainText(html: String): String {
@@ -205,6 +229,11 @@ class PostService(
             throw IllegalArgumentException("게시글을 수정할 권한이 없습니다")
         }
 
+        // 이력 도입 이전 게시글은 수정 전 원본을 첫 리비전으로 보존
+        if (postRevisionRepository.findMaxRevisionNumber(postId) == null) {
+            recordRevision(post, post.author)
+        }
+
         val sanitizedTitle = sanitizeTitle(request.title)
         val sanitizedHashtags = request.hashtags.map { sanitizeHashtag(it) }.toTypedArray()
         val sanitizedHtml = sanitizeHtml(request.contentHtml)
@@ -220,39 +249,92 @@ class PostService(
         val updatedPost = postRepository.save(post)
         logger.info("게시글 업데이트 완료: postId=$postId")
 
+        recordRevision(updatedPost, updatedPost.author)
+        reindexPost(updatedPost)
+
+        return updatedPost
+    }
+
+    /**
+     * 해시태그만 교체 (운영자 태그 이름 변경/병합)
+     *
+     * 작성자 수정과 같이 리비전을 남기고 벡터를 재생성 (hashtags 필드가 현재 VectorConfig 가중치로 다시 반영됨)
+     * 권한은 호출 측에서 확인 (운영자 API)
+     *
+     * @param editor 변경한 운영자 (리비전 작성자로 기록)
+     */
+    @Transactional
+    fun replaceHashtags(postId: Long, hashtags: List<String>, editor: User): Post {
+        val post = getPostById(postId)
+
+        if (postRevisionRepository.findMaxRevisionNumber(postId) == null) {
+            recordRevision(post, post.author)
+        }
+
+        post.hashtags = hashtags.map { sanitizeHashtag(it) }.toTypedArray()
+
+        val updatedPost = postRepository.save(post)
+        logger.info("게시글 해시태그 교체 완료: postId=$postId, hashtags=${hashtags}, editorId=${editor.id}")
+
+        recordRevision(updatedPost, editor)
+        reindexPost(updatedPost)
+
+        return updatedPost
+    }
+
+    // 수정된 게시글 벡터 재생성 (현재 활성 VectorConfig 필드 기준)
+    private fun reindexPost(post: Post) {
         val vectorFields = vectorIndexingService.extractVectorFields(
-            entity = updatedPost,
+            entity = post,
             entityType = VectorEntityType.POST.typeName
         )
         vectorIndexingService.reindexEntity(
             entityType = VectorEntityType.POST.typeName,
-            recordKey = updatedPost.id.toString(),
+            recordKey = post.id.toString(),
             fields = vectorFields
         )
-        logger.info("게시글 벡터 재생성 완료: postId=$postId")
-
-        return updatedPost
+        logger.info("게시글 벡터 재생성 완료: postId=${post.id}")
     }
 
     
-    fun getAllPosts(pageable: Pageable, hashtag: String?): Page<Post> {
-        logger.debug("게시글 목록 조회: page=${pageable.pageNumber}, size=${pageable.pageSize}, hashtag=$hashtag")
+    fun getAllPosts(pageable: Pageable, hashtagFilter: HashtagFilter?): Page<Post> {
+        logger.debug("게시글 목록 조회: page=${pageable.pageNumber}, size=${pageable.pageSize}, hashtagFilter=$hashtagFilter")
 
-        return if (hashtag.isNullOrBlank()) {
+        return if (hashtagFilter == null || hashtagFilter.hashtags.isEmpty()) {
             postRepository.findByDeletedFalse(pageable)
         } else {
+            // 동의어로 등록된 태그도 함께 조회
+            val expandedFilter = tagSynonymService.expandFilter(hashtagFilter)
+
             // Native Query는 Pageable의 Sort를 올바르게 처리하지 못하므로
             // List와 Count를 분리해서 조회 후 수동으로 Page 생성
-            val content = postRepository.findByHashtag(
-                hashtag = hashtag,
+            val content = postRepository.findByHashtags(
+                filter = expandedFilter,
                 limit = pageable.pageSize,
                 offset = pageable.offset
             )
-            val total = postRepository.countByHashtag(hashtag)
+            val total = postRepository.countByHashtags(expandedFilter)
             org.springframework.data.domain.PageImpl(content, pageable, total)
         }
     }
 
+    /**
+     * 게시글 피드 조회 (커서 기반)
+     *
+     * 다음 페이지 존재 여부 확인을 위해 size + 1개까지 조회 (count 쿼리 없음)
+     */
+    fun getPostFeed(cursor: PostCursor?, size: Int, hashtagFilter: HashtagFilter?): List<Post> {
+        logger.debug("게시글 피드 조회: cursor=$cursor, size=$size, hashtagFilter=$hashtagFilter")
+
+        val limit = size + 1
+
+        return if (hashtagFilter == null || hashtagFilter.hashtags.isEmpty()) {
+            postRepository.findFeed(cursor, limit)
+        } else {
+            postRepository.findFeedByHashtags(tagSynonymService.expandFilter(hashtagFilter), cursor, limit)
+        }
+    }
+
     
     @Transactional
     fun deletePost(postId: Long, userId: Long) {
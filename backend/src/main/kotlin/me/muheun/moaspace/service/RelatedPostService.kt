@@ -0,0 +1,93 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.config.VectorProperties
+import me.muheun.moaspace.domain.vector.VectorEntityType
+import me.muheun.moaspace.dto.PostSummary
+import me.muheun.moaspace.dto.SearchResult
+import me.muheun.moaspace.event.VectorIndexChangedEvent
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.VectorChunkRepository
+import org.slf4j.LoggerFactory
+import org.springframework.cache.annotation.CacheEvict
+import org.springframework.cache.annotation.Cacheable
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+import org.springframework.transaction.event.TransactionalEventListener
+
+/**
+ * 관련 게시글 추천 (게시글 벡터 centroid 기준 최근접 게시글)
+ *
+ * 게시글별로 상위 MAX_RELATED_POSTS개를 캐시 (relatedPosts, key = postId)
+ * - 해당 게시글이 재인덱싱/인덱스 삭제되면 VectorIndexChangedEvent로 무효화
+ * - 다른 게시글 변경은 캐시 TTL(application.yml)이 지나면 반영
+ */
+@Service
+@Transactional(readOnly = true)
+class RelatedPostService(
+    private val vectorProperties: VectorProperties,
+    private val vectorChunkRepository: VectorChunkRepository,
+    private val postRepository: PostRepository
+) {
+
+    companion object {
+        private val logger = LoggerFactory.getLogger(RelatedPostService::class.java)
+
+        const val CACHE_NAME = "relatedPosts"
+
+        // 게시글별 캐시 개수 (요청 limit은 이 안에서 자름)
+        const val MAX_RELATED_POSTS = 10
+
+        // 삭제된 게시글 제외를 고려한 후보 배수
+        private const val CANDIDATE_MULTIPLIER = 2
+    }
+
+    /**
+     * 관련 게시글 조회
+     *
+     * @param postId 기준 게시글 ID
+     * @return 유사도 내림차순 최대 MAX_RELATED_POSTS개 (기준 게시글 벡터가 없으면 빈 목록)
+     * @throws NoSuchElementException 게시글이 없거나 삭제된 경우
+     */
+    @Cacheable(cacheNames = [CACHE_NAME], key = "#postId.toString()")
+    fun findRelatedPosts(postId: Long): List<SearchResult> {
+        val post = postRepository.findById(postId)
+            .filter { !it.deleted }
+            .orElseThrow { NoSuchElementException("게시글을 찾을 수 없습니다: postId=$postId") }
+
+        val scores = vectorChunkRepository.findNearestRecords(
+            namespace = vectorProperties.namespace,
+            entity = VectorEntityType.POST.typeName,
+            recordKey = post.id.toString(),
+            limit = MAX_RELATED_POSTS * CANDIDATE_MULTIPLIER
+        )
+
+        val postsById = postRepository.findAllById(scores.mapNotNull { it.recordKey.toLongOrNull() })
+            .filter { !it.deleted }
+            .associateBy { it.id!! }
+
+        val results = scores
+            .mapNotNull { score ->
+                val related = score.recordKey.toLongOrNull()?.let { postsById[it] } ?: return@mapNotNull null
+                SearchResult(post = PostSummary.from(related), similarity = score.score)
+            }
+            .take(MAX_RELATED_POSTS)
+
+        logger.info("관련 게시글 계산 완료: postId=$postId, 결과 수=${results.size}")
+
+        return results
+    }
+
+    /**
+     * 게시글 인덱스 변경 시 해당 게시글의 관련 게시글 캐시 무효화
+     *
+     * 트랜잭션 커밋 후 실행 (커밋 전 무효화 시 이전 청크로 다시 캐시되는 것 방지)
+     */
+    @TransactionalEventListener(
+        condition = "#event.entity == T(me.muheun.moaspace.domain.vector.VectorEntityType).POST.typeName",
+        fallbackExecution = true
+    )
+    @CacheEvict(cacheNames = [CACHE_NAME], key = "#event.recordKey")
+    fun evictOnIndexChanged(event: VectorIndexChangedEvent) {
+        logger.debug("관련 게시글 캐시 무효화: postId=${event.recordKey}")
+    }
+}
@@ -0,0 +1,98 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.dto.TagMergeResponse
+import me.muheun.moaspace.mapper.PostMapper
+import me.muheun.moaspace.repository.UserRepository
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * 해시태그 관리 (운영자: 이름 변경, 병합)
+ *
+ * 게시글 해시태그를 직접 교체하고 PostService.replaceHashtags로 리비전 기록 + 벡터 재생성
+ * 권한(MODERATOR 이상)은 SecurityConfig에서 확인
+ */
+@Service
+@Transactional(readOnly = true)
+class TagAdminService(
+    private val postMapper: PostMapper,
+    private val postService: PostService,
+    private val tagSynonymService: TagSynonymService,
+    private val userRepository: UserRepository
+) {
+
+    companion object {
+        private val logger = LoggerFactory.getLogger(TagAdminService::class.java)
+
+        /**
+         * 게시글 태그 목록에서 sources를 target으로 교체
+         *
+         * - 첫 번째 source 위치에 target을 두고 나머지 source는 제거 (태그 순서 유지)
+         * - target과 키가 같은 태그가 이미 있으면 중복되지 않도록 하나만 남김
+         *
+         * 예: ["react", "Hooks", "리액트"] (react, 리액트 → React) → ["React", "Hooks"]
+         */
+        fun retag(tags: List<String>, sources: Set<String>, target: String): List<String> {
+            val targetKey = TagService.normalizeKey(target)
+
+            return tags
+                .map { tag -> if (tag in sources || TagService.normalizeKey(tag) == targetKey) target else tag }
+                .distinct()
+        }
+    }
+
+    /**
+     * 태그 이름 변경 (from → to)
+     */
+    @Transactional
+    fun renameTag(from: String, to: String, editorId: Long): TagMergeResponse =
+        mergeTags(listOf(from), to, addSynonyms = false, editorId = editorId)
+
+    /**
+     * 여러 태그를 하나로 병합
+     *
+     * sources가 달린 게시글(삭제 제외)마다 태그를 교체하고 재인덱싱, 동의어도 target 기준으로 정리
+     *
+     * @param sources 교체할 태그 (저장된 표기와 정확히 일치, 대소문자 구분)
+     * @param addSynonyms sources를 target의 동의어로 등록
+     * @throws IllegalArgumentException sources가 비었거나 target과 같은 경우, target이 올바른 태그가 아닌 경우
+     * @throws NoSuchElementException sources가 달린 게시글이 없는 경우
+     */
+    @Transactional
+    fun mergeTags(sources: List<String>, target: String, addSynonyms: Boolean, editorId: Long): TagMergeResponse {
+        val normalizedTarget = TagService.normalizeTag(target)
+        val sourceTags = sources.map { it.trim().trimStart('#') }
+            .filter { it.isNotEmpty() && it != normalizedTarget }
+            .distinct()
+
+        require(sourceTags.isNotEmpty()) { "병합할 태그가 대상 태그와 같습니다: #$normalizedTarget" }
+
+        val postIds = postMapper.findIdsWithAnyHashtag(sourceTags)
+        if (postIds.isEmpty()) {
+            throw NoSuchElementException("해시태그를 사용한 게시글이 없습니다: ${sourceTags.joinToString { "#$it" }}")
+        }
+
+        val editor = userRepository.findById(editorId)
+            .orElseThrow { NoSuchElementException("사용자를 찾을 수 없습니다: userId=$editorId") }
+
+        logger.info("해시태그 병합 시작: sources=$sourceTags, target=$normalizedTarget, 대상 게시글 수=${postIds.size}, editorId=$editorId")
+
+        val sourceSet = sourceTags.toSet()
+        postIds.forEach { postId ->
+            val post = postService.getPostById(postId)
+            postService.replaceHashtags(postId, retag(post.hashtags.toList(), sourceSet, normalizedTarget), editor)
+        }
+
+        val addedSynonyms = tagSynonymService.retarget(sourceTags, normalizedTarget, addSynonyms)
+
+        logger.info("해시태그 병합 완료: target=$normalizedTarget, 게시글 수=${postIds.size}, 추가된 동의어=$addedSynonyms")
+
+        return TagMergeResponse(
+            target = normalizedTarget,
+            sources = sourceTags,
+            updatedPostCount = postIds.size,
+            addedSynonyms = addedSynonyms
+        )
+    }
+}
@@ -0,0 +1,273 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.config.VectorProperties
+import me.muheun.moaspace.domain.vector.VectorEntityType
+import me.muheun.moaspace.dto.TagDetailResponse
+import me.muheun.moaspace.dto.TagRecommendation
+import me.muheun.moaspace.dto.TagRecommendationRequest
+import me.muheun.moaspace.dto.TagStats
+import me.muheun.moaspace.dto.TrendingTag
+import me.muheun.moaspace.mapper.PostMapper
+import me.muheun.moaspace.query.dto.TagUsage
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.VectorChunkRepository
+import org.jsoup.Jsoup
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+import java.time.LocalDate
+import kotlin.math.sqrt
+
+/**
+ * 해시태그 조회 (자동완성, 작성 중 추천, 목록/인기 급상승/태그 페이지)
+ *
+ * 태그는 게시글(posts.hashtags)에만 저장되므로 사용 빈도는 배열을 펼쳐 집계
+ */
+@Service
+@Transactional(readOnly = true)
+class TagService(
+    private val postMapper: PostMapper,
+    private val vectorProperties: VectorProperties,
+    private val vectorEmbeddingService: VectorEmbeddingService,
+    private val vectorChunkRepository: VectorChunkRepository,
+    private val postRepository: PostRepository
+) {
+
+    companion object {
+        private val logger = LoggerFactory.getLogger(TagService::class.java)
+
+        const val MAX_SUGGESTIONS = 20
+
+        // PostgreSQL [[:space:][:punct:]]과 같은 범위 (PostMapper.xml findTagUsage)
+        private val IGNORED_CHARS = Regex("[\\s\\p{Punct}]")
+
+        /**
+         * 중복 판단용 정규화 키 (대소문자·공백·문장부호 무시)
+         *
+         * 예: "Next.js", "nextjs", "next-js" → "nextjs"
+         */
+        fun normalizeKey(tag: String): String = tag.lowercase().replace(IGNORED_CHARS, "")
+
+        // 태그 최대 길이 (CreatePostRequest.hashtags와 동일)
+        const val MAX_TAG_LENGTH = 50
+
+        /**
+         * 관리 화면 입력값을 저장할 태그 표기로 정리 (앞의 '#', HTML 태그, 공백 제거)
+         *
+         * @throws IllegalArgumentException 문자나 숫자가 없거나 MAX_TAG_LENGTH자 초과
+         */
+        fun normalizeTag(input: String): String {
+            val tag = input.replace(Regex("<[^>]*>"), "").trim().trimStart('#').replace(Regex("\\s+"), "")
+
+            require(normalizeKey(tag).isNotEmpty()) { "해시태그에는 문자나 숫자가 포함되어야 합니다: $input" }
+            require(tag.length <= MAX_TAG_LENGTH) { "해시태그는 최대 ${MAX_TAG_LENGTH}자입니다: $input" }
+
+            return tag
+        }
+
+        // 추천에 참고할 이웃 게시글 수
+        private const val NEIGHBOUR_COUNT = 10
+
+        // 추천 기준 텍스트 최대 길이 (임베딩 모델 입력 한도 고려, 앞부분이 주제를 가장 잘 드러냄)
+        private const val MAX_SOURCE_LENGTH = 1000
+
+        // 이 값 미만의 태그는 추천하지 않음 (이웃 한두 개에만 우연히 붙은 태그 제외)
+        const val MIN_CONFIDENCE = 0.15
+
+        /**
+         * 이웃 게시글 태그를 유사도 가중치로 집계
+         *
+         * 같은 키의 태그는 하나로 묶고 가장 많이 쓰인 표기를 사용
+         *
+         * @param neighbours 이웃 게시글별 (해시태그, 유사도)
+         * @return 신뢰도 내림차순 (신뢰도 = 태그를 가진 이웃 유사도 합 / 전체 이웃 유사도 합)
+         */
+        fun aggregateTagConfidence(neighbours: List<Pair<List<String>, Double>>): List<TagRecommendation> {
+            val totalWeight = neighbours.sumOf { (_, similarity) -> similarity.coerceAtLeast(0.0) }
+            if (totalWeight <= 0.0) return emptyList()
+
+            return neighbours
+                .flatMap { (tags, similarity) ->
+                    tags.distinctBy { normalizeKey(it) }.map { tag -> Triple(normalizeKey(tag), tag, similarity.coerceAtLeast(0.0)) }
+                }
+                .filter { (key, _, _) -> key.isNotEmpty() }
+                .groupBy { (key, _, _) -> key }
+                .map { (_, entries) ->
+                    TagRecommendation(
+                        tag = entries.groupingBy { it.second }.eachCount().maxBy { it.value }.key,
+                        confidence = entries.sumOf { it.third } / totalWeight,
+                        postCount = entries.size
+                    )
+                }
+                .sortedWith(compareByDescending<TagRecommendation> { it.confidence }.thenBy { it.tag })
+        }
+
+        // 활동 그래프 기간 (일)
+        const val ACTIVITY_DAYS = 90
+
+        // 인기 급상승 비교 구간 (최근 7일 vs 그 이전 주 평균)
+        const val TRENDING_WINDOW_DAYS = 7
+
+        // 최근 구간 게시글이 이보다 적으면 급상승으로 보지 않음 (1건 증가로 순위가 요동치는 것 방지)
+        const val MIN_TRENDING_POSTS = 2
+
+        const val MAX_TRENDING_TAGS = 20
+        const val MAX_RELATED_TAGS = 20
+        private const val MAX_DIRECTORY_TAGS = 500
+
+        /**
+         * 일자별 게시글 수를 today까지 days일 연속 배열로 변환 (없는 날은 0)
+         *
+         * @return 오래된 날 → today 순서
+         */
+        fun dailySeries(counts: Map<LocalDate, Long>, today: LocalDate, days: Int = ACTIVITY_DAYS): List<Int> =
+            (days - 1 downTo 0).map { offset -> counts[today.minusDays(offset.toLong())]?.toInt() ?: 0 }
+
+        /**
+         * 일자별 활동에서 인기 급상승 여부 계산
+         *
+         * 최근 TRENDING_WINDOW_DAYS일 게시글 수를 그 이전 기간의 주 평균과 비교
+         * 증가폭을 √(평균 + 1)로 나눠, 원래 많이 쓰이던 태그보다 새로 늘어난 태그가 앞서도록 함
+         *
+         * @param series dailySeries 결과 (오래된 날 → 오늘)
+         * @return 최근 게시글이 MIN_TRENDING_POSTS 이상이고 평균보다 늘었으면 TrendingTag, 아니면 null
+         */
+        fun trendOf(tag: String, series: List<Int>): TrendingTag? {
+            val recentCount = series.takeLast(TRENDING_WINDOW_DAYS).sum()
+            if (recentCount < MIN_TRENDING_POSTS) return null
+
+            val previous = series.dropLast(TRENDING_WINDOW_DAYS)
+            val weeklyAverage = if (previous.isEmpty()) 0.0 else previous.sum().toDouble() / previous.size * TRENDING_WINDOW_DAYS
+            val growth = (recentCount - weeklyAverage) / sqrt(weeklyAverage + 1.0)
+
+            return if (growth > 0) TrendingTag(tag, recentCount, weeklyAverage, growth) else null
+        }
+    }
+
+    /**
+     * 입력 중인 태그와 정규화 키 접두어가 같은 기존 태그 (사용 게시글 수 내림차순)
+     *
+     * @param query 입력값 (비어 있으면 전체 인기 태그)
+     * @param limit 최대 개수 (1~MAX_SUGGESTIONS)
+     */
+    fun suggestTags(query: String?, limit: Int): List<TagUsage> {
+        val prefix = query?.removePrefix("#")?.let { normalizeKey(it) }?.takeIf { it.isNotEmpty() }
+
+        val tags = postMapper.findTagUsage(prefix, limit.coerceIn(1, MAX_SUGGESTIONS))
+
+        logger.debug("해시태그 자동완성: query=$query, prefix=$prefix, 결과 수=${tags.size}")
+
+        return tags
+    }
+
+    /**
+     * 작성 중인 글과 가까운 게시글들의 태그로 해시태그 추천
+     *
+     * 제목 + 본문 앞부분을 벡터화해 이웃 게시글을 찾고, 이웃 태그를 유사도 가중치로 집계
+     *
+     * @return 신뢰도 MIN_CONFIDENCE 이상, 최대 request.limit개 (내용이 비어 있으면 빈 목록)
+     */
+    fun recommendTags(request: TagRecommendationRequest): List<TagRecommendation> {
+        val source = listOf(request.title.trim(), Jsoup.parse(request.contentHtml).text().trim())
+            .filter { it.isNotEmpty() }
+            .joinToString("\n")
+            .take(MAX_SOURCE_LENGTH)
+
+        if (source.isBlank()) return emptyList()
+
+        val queryVector = vectorEmbeddingService.generateEmbedding(source).toArray()
+
+        // 자기 자신이 이웃에 포함될 수 있으므로 1개 더 조회
+        val scores = vectorChunkRepository.findSimilarRecords(
+            queryVector = queryVector,
+            namespace = vectorProperties.namespace,
+            entity = VectorEntityType.POST.typeName,
+            limit = NEIGHBOUR_COUNT + 1
+        ).filter { it.recordKey != request.excludePostId?.toString() }
+            .take(NEIGHBOUR_COUNT)
+
+        val postsById = postRepository.findAllById(scores.mapNotNull { it.recordKey.toLongOrNull() })
+            .filter { !it.deleted }
+            .associateBy { it.id!! }
+
+        val neighbours = scores.mapNotNull { score ->
+            val post = score.recordKey.toLongOrNull()?.let { postsById[it] } ?: return@mapNotNull null
+            post.hashtags.toList() to score.score
+        }
+
+        val recommendations = aggregateTagConfidence(neighbours)
+            .filter { it.confidence >= MIN_CONFIDENCE }
+            .take(request.limit)
+
+        logger.info("해시태그 추천: 이웃 수=${neighbours.size}, 추천 수=${recommendations.size}")
+
+        return recommendations
+    }
+
+    /**
+     * 해시태그 목록 (사용 게시글 수 내림차순, 최근 90일 활동 포함)
+     */
+    fun getTagDirectory(): List<TagStats> {
+        val usages = postMapper.findTagUsage(null, MAX_DIRECTORY_TAGS)
+        val activity = loadActivity(LocalDate.now(), tag = null)
+        val emptySeries = List(ACTIVITY_DAYS) { 0 }
+
+        return usages.map { usage ->
+            TagStats(
+                tag = usage.tag,
+                postCount = usage.count,
+                activity = activity[usage.tag] ?: emptySeries
+            )
+        }
+    }
+
+    /**
+     * 이번 주 인기 급상승 해시태그 (증가폭 내림차순)
+     *
+     * @param limit 최대 개수 (1~MAX_TRENDING_TAGS)
+     */
+    fun getTrendingTags(limit: Int): List<TrendingTag> {
+        val trending = loadActivity(LocalDate.now(), tag = null)
+            .mapNotNull { (tag, series) -> trendOf(tag, series) }
+            .sortedWith(
+                compareByDescending<TrendingTag> { it.growth }
+                    .thenByDescending { it.recentCount }
+                    .thenBy { it.tag }
+            )
+            .take(limit.coerceIn(1, MAX_TRENDING_TAGS))
+
+        logger.debug("인기 급상승 해시태그: ${trending.map { it.tag }}")
+
+        return trending
+    }
+
+    /**
+     * 해시태그 상세 (태그 페이지: 게시글 수, 최근 90일 활동, 함께 쓰인 태그)
+     *
+     * @throws NoSuchElementException 이 태그가 달린 게시글이 없는 경우
+     */
+    fun getTagDetail(tag: String, relatedLimit: Int): TagDetailResponse {
+        val postCount = postMapper.countByHashtag(tag)
+        if (postCount == 0L) {
+            throw NoSuchElementException("해시태그를 찾을 수 없습니다: $tag")
+        }
+
+        val today = LocalDate.now()
+
+        return TagDetailResponse(
+            tag = tag,
+            postCount = postCount,
+            activity = loadActivity(today, tag)[tag] ?: dailySeries(emptyMap(), today),
+            relatedTags = postMapper.findCooccurringTags(tag, relatedLimit.coerceIn(1, MAX_RELATED_TAGS))
+        )
+    }
+
+    // 최근 ACTIVITY_DAYS일 태그별 일자 배열
+    private fun loadActivity(today: LocalDate, tag: String?): Map<String, List<Int>> {
+        val since = today.minusDays(ACTIVITY_DAYS - 1L).atStartOfDay()
+
+        return postMapper.findTagDailyCounts(since, tag)
+            .groupBy { it.tag }
+            .mapValues { (_, rows) -> dailySeries(rows.associate { it.day to it.count }, today) }
+    }
+}
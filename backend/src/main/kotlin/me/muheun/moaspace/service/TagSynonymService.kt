@@ -0,0 +1,179 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.domain.tag.TagSynonym
+import me.muheun.moaspace.dto.TagSynonymRequest
+import me.muheun.moaspace.query.dto.HashtagFilter
+import me.muheun.moaspace.repository.TagSynonymRepository
+import org.slf4j.LoggerFactory
+import org.springframework.stereotype.Service
+import org.springframework.transaction.annotation.Transactional
+
+/**
+ * 해시태그 동의어 관리 및 확장 (목록 필터, 키워드 검색)
+ *
+ * 같은 대표 태그에 연결된 태그(대표 태그 + 동의어)를 하나의 그룹으로 보고,
+ * 그룹의 어느 태그로 찾든 그룹 전체를 찾음 (정규화 키 기준, 대소문자·문장부호 무시)
+ *
+ * 동의어는 수십 개 수준이므로 요청마다 전체를 읽어 그룹을 만듦
+ */
+@Service
+@Transactional(readOnly = true)
+class TagSynonymService(
+    private val tagSynonymRepository: TagSynonymRepository
+) {
+
+    companion object {
+        private val logger = LoggerFactory.getLogger(TagSynonymService::class.java)
+
+        // 동의어 치환으로 만드는 키워드 검색어 최대 개수 (원래 검색어 포함)
+        const val MAX_QUERY_VARIANTS = 8
+
+        /**
+         * 동의어 목록을 정규화 키 → 그룹(대표 태그 + 동의어)으로 변환
+         *
+         * 예: 리액트 → React, ReactJS → React 이면 "react", "리액트", "reactjs" 모두 [React, ReactJS, 리액트]
+         */
+        fun groupsByKey(synonyms: List<TagSynonym>): Map<String, List<String>> {
+            val groups = mutableMapOf<String, MutableSet<String>>()
+
+            synonyms.groupBy({ it.canonical }, { it.synonym }).forEach { (canonical, members) ->
+                val group = listOf(canonical) + members.sorted()
+                group.forEach { tag ->
+                    groups.getOrPut(TagService.normalizeKey(tag)) { linkedSetOf() }.addAll(group)
+                }
+            }
+
+            return groups.mapValues { (_, tags) -> tags.toList() }
+        }
+
+        /**
+         * 검색어의 단어를 같은 그룹의 태그로 하나씩 바꾼 검색어 목록
+         *
+         * 구문 검색("...")과 제외어(-단어)는 의미가 바뀌지 않도록 바꾸지 않음
+         *
+         * 예: "리액트 상태관리" (리액트 → React) → ["리액트 상태관리", "React 상태관리"]
+         *
+         * @return 원래 검색어가 첫 번째, 최대 MAX_QUERY_VARIANTS개
+         */
+        fun queryVariants(query: String, groups: Map<String, List<String>>): List<String> {
+            val words = query.trim().split(Regex("\\s+"))
+
+            val variants = words.flatMapIndexed { index, word ->
+                if (word.contains('"') || word.startsWith("-")) return@flatMapIndexed emptyList()
+
+                val term = word.trimStart('#')
+                groups[TagService.normalizeKey(term)].orEmpty()
+                    .filterNot { it.equals(term, ignoreCase = true) }
+                    .map { alternative -> words.toMutableList().also { it[index] = alternative }.joinToString(" ") }
+            }
+
+            return (listOf(query) + variants).distinct().take(MAX_QUERY_VARIANTS)
+        }
+    }
+
+    fun getSynonyms(): List<TagSynonym> = tagSynonymRepository.findAllByOrderByCanonicalAscSynonymAsc()
+
+    /**
+     * 동의어 등록
+     *
+     * @throws IllegalArgumentException 대표 태그와 키가 같거나, 이미 등록된 동의어이거나,
+     *   동의어끼리 연결되는 경우 (대표 태그가 다른 동의어이거나 동의어가 다른 그룹의 대표 태그)
+     */
+    @Transactional
+    fun createSynonym(request: TagSynonymRequest): TagSynonym {
+        val synonym = TagService.normalizeTag(request.synonym)
+        val canonical = TagService.normalizeTag(request.canonical)
+        val synonymKey = TagService.normalizeKey(synonym)
+
+        require(synonymKey != TagService.normalizeKey(canonical)) {
+            "동의어와 대표 태그가 같은 태그입니다: #$synonym, #$canonical"
+        }
+
+        tagSynonymRepository.findBySynonymKey(synonymKey)?.let {
+            throw IllegalArgumentException("이미 등록된 동의어입니다: #${it.synonym} → #${it.canonical}")
+        }
+
+        tagSynonymRepository.findBySynonymKey(TagService.normalizeKey(canonical))?.let {
+            throw IllegalArgumentException("#$canonical 은(는) #${it.canonical}의 동의어입니다. #${it.canonical}을(를) 대표 태그로 지정하세요")
+        }
+
+        require(tagSynonymRepository.findAll().none { TagService.normalizeKey(it.canonical) == synonymKey }) {
+            "#$synonym 은(는) 다른 동의어의 대표 태그입니다"
+        }
+
+        val saved = tagSynonymRepository.save(
+            TagSynonym(synonym = synonym, synonymKey = synonymKey, canonical = canonical)
+        )
+        logger.info("해시태그 동의어 등록: #$synonym → #$canonical")
+
+        return saved
+    }
+
+    @Transactional
+    fun deleteSynonym(id: Long) {
+        val synonym = tagSynonymRepository.findById(id)
+            .orElseThrow { NoSuchElementException("동의어를 찾을 수 없습니다: id=$id") }
+
+        tagSynonymRepository.delete(synonym)
+        logger.info("해시태그 동의어 삭제: #${synonym.synonym} → #${synonym.canonical}")
+    }
+
+    /**
+     * 태그 이름 변경/병합에 맞춰 동의어 정리 (TagAdminService.mergeTags와 같은 트랜잭션)
+     *
+     * - sources가 대표 태그인 동의어는 target으로 연결
+     * - target과 키가 같은 동의어는 삭제 (target이 실제 태그가 되므로)
+     * - addSynonyms이면 target과 키가 다른 source를 target의 동의어로 등록 (이미 있으면 target으로 연결)
+     *
+     * @return 새로 등록된 동의어
+     */
+    @Transactional
+    fun retarget(sources: List<String>, target: String, addSynonyms: Boolean): List<String> {
+        val targetKey = TagService.normalizeKey(target)
+
+        tagSynonymRepository.findAllByCanonicalIn(sources).forEach { it.canonical = target }
+        tagSynonymRepository.findBySynonymKey(targetKey)?.let { tagSynonymRepository.delete(it) }
+
+        if (!addSynonyms) return emptyList()
+
+        return sources
+            .filter { TagService.normalizeKey(it) != targetKey }
+            .distinctBy { TagService.normalizeKey(it) }
+            .mapNotNull { source ->
+                val existing = tagSynonymRepository.findBySynonymKey(TagService.normalizeKey(source))
+                if (existing != null) {
+                    existing.canonical = target
+                    null
+                } else {
+                    tagSynonymRepository.save(
+                        TagSynonym(synonym = source, synonymKey = TagService.normalizeKey(source), canonical = target)
+                    ).synonym
+                }
+            }
+    }
+
+    /**
+     * 목록/피드 필터의 태그별 그룹에 동의어 추가
+     */
+    fun expandFilter(filter: HashtagFilter): HashtagFilter {
+        val groups = groupsByKey(tagSynonymRepository.findAll())
+        if (groups.isEmpty()) return filter
+
+        return filter.expandedWith { tag -> groups[TagService.normalizeKey(tag)].orEmpty() }
+    }
+
+    /**
+     * 키워드 검색어 확장 (원래 검색어 + 동의어 치환 검색어)
+     */
+    fun expandQuery(query: String): List<String> {
+        val groups = groupsByKey(tagSynonymRepository.findAll())
+        if (groups.isEmpty()) return listOf(query)
+
+        val variants = queryVariants(query, groups)
+        if (variants.size > 1) {
+            logger.debug("검색어 동의어 확장: query=$query, variants=$variants")
+        }
+
+        return variants
+    }
+}
@@ -3,6 +3,7 @@ package me.muheun.moaspace.service
 import me.muheun.moaspace.dto.VectorIndexRequest
 import me.muheun.moaspace.dto.VectorSearchRequest
 import me.muheun.moaspace.dto.VectorSearchResult
+import me.muheun.moaspace.event.VectorIndexChangedEvent
 import me.muheun.moaspace.event.VectorIndexingRequestedEvent
 import me.muheun.moaspace.query.dto.ChunkDetail
 import me.muheun.moaspace.repository.VectorChunkRepository
@@ -48,6 +49,7 @@ class UniversalVectorIndexingService(
     fun deleteEntity(namespace: String, entity: String, recordKey: String) {
         // MyBatis deleteByFilters() 사용 (fieldName=null → 모든 필드 삭제)
         vectorChunkRepository.deleteByFilters(namespace, entity, recordKey, null)
+        eventPublisher.publishEvent(VectorIndexChangedEvent(namespace, entity, recordKey))
     }
 
     /**
@@ -1,9 +1,11 @@
 package me.muheun.moaspace.service
 
 import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.domain.user.UserRole
 import me.muheun.moaspace.domain.vector.VectorEntityType
 import me.muheun.moaspace.repository.UserRepository
 import org.slf4j.LoggerFactory
+import org.springframework.beans.factory.annotation.Value
 import org.springframework.stereotype.Service
 import org.springframework.transaction.annotation.Transactional
 
@@ -11,7 +13,8 @@ import org.springframework.transaction.annotation.Transactional
 @Transactional(readOnly = true)
 class UserService(
     private val userRepository: UserRepository,
-    private val vectorIndexingService: VectorIndexingService
+    private val vectorIndexingService: VectorIndexingService,
+    @Value("\${auth.admin-emails:}") private val adminEmails: List<String> = emptyList()
 ) {
 
     private val logger = LoggerFactory.getLogger(javaClass)
@@ -73,9 +76,21 @@ class UserService(
         name: String,
         profileImageUrl: String? = null
     ): User {
-        return userRepository.findByEmail(email).orElseGet {
+        val user = userRepository.findByEmail(email).orElseGet {
             saveAndVectorize(email, name, profileImageUrl)
         }
+
+        // auth.admin-emails에 등록된 계정은 로그인 시 ADMIN으로 승격 (초기 관리자 부트스트랩)
+        if (isAdminEmail(email) && user.role != UserRole.ADMIN) {
+            user.role = UserRole.ADMIN
+            logger.info("관리자 역할 부여: userId=${user.id}")
+        }
+
+        return user
+    }
+
+    private fun isAdminEmail(email: String): Boolean {
+        return adminEmails.any { it.isNotBlank() && it.trim().equals(email, ignoreCase = true) }
     }
 
     fun existsByEmail(email: String): Boolean {
@@ -2,9 +2,11 @@ package me.muheun.moaspace.service
 
 import me.muheun.moaspace.config.VectorProperties
 import me.muheun.moaspace.domain.vector.VectorChunk
+import me.muheun.moaspace.event.VectorIndexChangedEvent
 import me.muheun.moaspace.repository.VectorChunkRepository
 import me.muheun.moaspace.repository.VectorConfigRepository
 import org.slf4j.LoggerFactory
+import org.springframework.context.ApplicationEventPublisher
 import org.springframework.stereotype.Service
 import org.springframework.transaction.annotation.Transactional
 import kotlin.reflect.full.memberProperties
@@ -24,7 +26,8 @@ class VectorIndexingService(
     private val vectorConfigRepository: VectorConfigRepository,
     private val chunkingService: ChunkingService,
     private val embeddingService: VectorEmbeddingService,
-    private val vectorChunkRepository: VectorChunkRepository
+    private val vectorChunkRepository: VectorChunkRepository,
+    private val eventPublisher: ApplicationEventPublisher
 ) {
 
     private val logger = LoggerFactory.getLogger(javaClass)
@@ -217,6 +220,8 @@ class VectorIndexingService(
         val createdCount = indexEntity(entityType, recordKey, fields, ns)
 
         logger.info("재인덱싱 완료: 삭제=${deletedCount}개, 생성=${createdCount}개")
+
+        eventPublisher.publishEvent(VectorIndexChangedEvent(ns, entityType, recordKey))
         return createdCount
     }
 
@@ -245,6 +250,8 @@ class VectorIndexingService(
         )
 
         logger.info("벡터 인덱스 삭제 완료: ${deletedCount}개 청크 삭제")
+
+        eventPublisher.publishEvent(VectorIndexChangedEvent(ns, entityType, recordKey))
         return deletedCount
     }
 
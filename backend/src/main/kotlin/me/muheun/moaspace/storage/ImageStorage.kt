@@ -0,0 +1,20 @@
+package me.muheun.moaspace.storage
+
+/**
+ * 업로드 이미지 저장소 (교체 가능한 저장 계층)
+ *
+ * upload.storage 설정으로 구현체를 선택합니다.
+ * 로컬 디스크 외 S3 등 외부 저장소는 이 인터페이스를 구현하여 추가합니다.
+ */
+interface ImageStorage {
+
+    /**
+     * 이미지 저장
+     *
+     * @param key 저장 키 (예: "2026/10/uuid.webp", 경로 구분자는 '/')
+     * @param content 이미지 바이트
+     * @param contentType MIME 타입
+     * @return 브라우저가 접근할 수 있는 공개 경로 (예: "/uploads/2026/10/uuid.webp")
+     */
+    fun store(key: String, content: ByteArray, contentType: String): String
+}
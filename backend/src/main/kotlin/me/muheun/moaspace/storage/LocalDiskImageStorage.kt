@@ -0,0 +1,40 @@
+package me.muheun.moaspace.storage
+
+import me.muheun.moaspace.config.UploadProperties
+import org.slf4j.LoggerFactory
+import org.springframework.boot.autoconfigure.condition.ConditionalOnProperty
+import org.springframework.stereotype.Component
+import java.nio.file.Files
+import java.nio.file.Path
+import java.nio.file.Paths
+
+/**
+ * 로컬 디스크 이미지 저장소 (기본 구현)
+ *
+ * upload.local.directory 아래에 저장하고, WebConfig의 정적 리소스 핸들러가
+ * upload.public-path 경로로 제공합니다.
+ */
+@Component
+@ConditionalOnProperty(prefix = "upload", name = ["storage"], havingValue = "local", matchIfMissing = true)
+class LocalDiskImageStorage(
+    private val uploadProperties: UploadProperties
+) : ImageStorage {
+
+    private val logger = LoggerFactory.getLogger(LocalDiskImageStorage::class.java)
+
+    private val rootDirectory: Path = Paths.get(uploadProperties.local.directory).toAbsolutePath().normalize()
+
+    override fun store(key: String, content: ByteArray, contentType: String): String {
+        val target = rootDirectory.resolve(key).normalize()
+
+        // 키 조작으로 저장 디렉토리 밖에 쓰는 것 방지
+        require(target.startsWith(rootDirectory)) { "잘못된 저장 경로입니다: $key" }
+
+        Files.createDirectories(target.parent)
+        Files.write(target, content)
+
+        logger.info("이미지 저장 완료: path=$target, size=${content.size}, contentType=$contentType")
+
+        return "${uploadProperties.publicPath.trimEnd('/')}/$key"
+    }
+}
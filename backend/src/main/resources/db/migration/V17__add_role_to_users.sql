@@ -0,0 +1,11 @@
+-- V17: users 테이블에 role 컬럼 추가 (역할 기반 접근 제어)
+-- 목적: 벡터 설정 관리, 재인덱싱 등 관리자 전용 기능 보호
+
+-- 1. role 컬럼 추가 (기존 사용자는 USER로 설정)
+ALTER TABLE users
+ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'USER';
+
+-- 2. 허용 값 제약조건 (UserRole enum과 동기화)
+ALTER TABLE users
+ADD CONSTRAINT chk_users_role
+CHECK (role IN ('USER', 'MODERATOR', 'ADMIN'));
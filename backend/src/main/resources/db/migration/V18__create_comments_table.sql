@@ -0,0 +1,22 @@
+-- V18: comments 테이블 생성 (게시글 댓글 + 대댓글)
+-- 목적: 게시글별 스레드형 토론, 작성자 수정/소프트 삭제
+
+-- 1. comments 테이블
+CREATE TABLE comments (
+    id BIGSERIAL PRIMARY KEY,
+    post_id BIGINT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    parent_id BIGINT REFERENCES comments(id) ON DELETE CASCADE,
+    author_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,                      -- Markdown 원본 (벡터화 대상)
+    deleted BOOLEAN NOT NULL DEFAULT FALSE,     -- 소프트 삭제 (답글 스레드 유지)
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP
+);
+
+-- 2. 인덱스 (게시글별 작성순 조회)
+CREATE INDEX idx_comments_post_created_at ON comments(post_id, created_at);
+CREATE INDEX idx_comments_parent ON comments(parent_id);
+CREATE INDEX idx_comments_author ON comments(author_id);
+
+COMMENT ON TABLE comments IS '게시글 댓글 (parent_id로 대댓글 스레드 구성)';
+COMMENT ON COLUMN comments.content IS 'Markdown 원본 (화면 표시: MarkdownViewer, 벡터화: VectorConfig entity_type=Comment)';
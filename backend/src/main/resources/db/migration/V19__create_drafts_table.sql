@@ -0,0 +1,22 @@
+-- V19: drafts 테이블 생성 (게시글 자동 저장 초안)
+-- 목적: 새로고침/브라우저 종료/세션 만료 시에도 작성 중인 글 보존 (IndexedDB 로컬 초안의 서버 사본)
+
+-- 1. drafts 테이블
+CREATE TABLE drafts (
+    id BIGSERIAL PRIMARY KEY,
+    author_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    draft_key VARCHAR(64) NOT NULL,             -- Frontend 생성 키 (새 글: UUID, 수정: post-{postId})
+    post_id BIGINT REFERENCES posts(id) ON DELETE CASCADE,  -- 수정 초안 대상 게시글 (새 글이면 NULL)
+    title VARCHAR(200) NOT NULL DEFAULT '',
+    content_html TEXT NOT NULL DEFAULT '',
+    hashtags TEXT[],
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT uk_drafts_author_key UNIQUE (author_id, draft_key)
+);
+
+-- 2. 인덱스 (사용자별 최근 수정순 조회)
+CREATE INDEX idx_drafts_author_updated_at ON drafts(author_id, updated_at DESC);
+
+COMMENT ON TABLE drafts IS '게시글 작성/수정 자동 저장 초안 (발행 시 삭제)';
+COMMENT ON COLUMN drafts.draft_key IS 'Frontend IndexedDB 로컬 초안과 동일한 키 (author_id와 함께 upsert 기준)';
@@ -0,0 +1,18 @@
+-- V20: post_revisions 테이블 생성 (게시글 수정 이력)
+-- 목적: 수정 내용 비교(diff) 및 이전 버전 복원
+
+-- 1. post_revisions 테이블
+CREATE TABLE post_revisions (
+    id BIGSERIAL PRIMARY KEY,
+    post_id BIGINT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,           -- 게시글별 1부터 증가
+    title VARCHAR(200) NOT NULL,
+    content_markdown TEXT NOT NULL,             -- diff 비교 대상
+    content_html TEXT NOT NULL,                 -- 복원 시 UpdatePostRequest.contentHtml로 사용
+    hashtags TEXT[],
+    editor_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT uk_post_revisions_number UNIQUE (post_id, revision_number)
+);
+
+COMMENT ON TABLE post_revisions IS '게시글 생성/수정 시점의 스냅샷 (가장 큰 revision_number가 현재 내용)';
@@ -0,0 +1,4 @@
+-- V21: 게시글 피드 키셋 페이지네이션 인덱스
+-- 목적: (created_at, id) < (커서) 조건 + ORDER BY created_at DESC, id DESC를 인덱스만으로 처리 (깊은 OFFSET 스캔 제거)
+
+CREATE INDEX idx_posts_feed ON posts(created_at DESC, id DESC) WHERE deleted = FALSE;
@@ -0,0 +1,20 @@
+-- V22: 게시글 키워드 검색 (전문 검색 + trigram)
+-- 목적: 벡터 검색만으로는 순위가 낮은 에러 코드/함수명 등 정확한 식별자 검색 지원 (hybrid 검색의 키워드 신호)
+
+-- 1. trigram 확장 (제목 부분/오타 일치)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 2. 전문 검색 벡터 (제목 A 가중치, 본문 B 가중치)
+-- 한국어 형태소 사전이 없으므로 'simple' 설정 사용 (소문자화 + 공백/구두점 분리)
+ALTER TABLE posts
+    ADD COLUMN search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(content_text, '')), 'B')
+    ) STORED;
+
+-- 3. 인덱스
+CREATE INDEX idx_posts_search_vector ON posts USING GIN(search_vector);
+CREATE INDEX idx_posts_title_trgm ON posts USING GIN(title gin_trgm_ops);
+
+COMMENT ON COLUMN posts.search_vector IS '키워드 검색용 tsvector (title, content_text에서 자동 생성, JPA 매핑 없음)';
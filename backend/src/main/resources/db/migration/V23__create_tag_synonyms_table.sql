@@ -0,0 +1,18 @@
+-- V23: tag_synonyms 테이블 생성 (해시태그 동의어)
+-- 목적: 표기가 다른 같은 주제의 태그("리액트" → "React")를 목록 필터/키워드 검색에서 함께 찾기
+
+-- 1. tag_synonyms 테이블
+CREATE TABLE tag_synonyms (
+    id BIGSERIAL PRIMARY KEY,
+    synonym VARCHAR(50) NOT NULL,
+    synonym_key VARCHAR(50) NOT NULL,           -- 정규화 키 (TagService.normalizeKey, 대소문자·공백·문장부호 무시)
+    canonical VARCHAR(50) NOT NULL,             -- 대표 태그 표기 (게시글에 저장되는 표기)
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT uk_tag_synonyms_synonym_key UNIQUE (synonym_key)
+);
+
+-- 2. 인덱스 (대표 태그 이름 변경/병합 시 조회)
+CREATE INDEX idx_tag_synonyms_canonical ON tag_synonyms(canonical);
+
+COMMENT ON TABLE tag_synonyms IS '해시태그 동의어 (운영자 관리, 목록 필터/키워드 검색 확장)';
+COMMENT ON COLUMN tag_synonyms.synonym_key IS '같은 키의 동의어는 하나만 등록 가능';
@@ -1,14 +1,24 @@
 package me.muheun.moaspace.config
 
+import me.muheun.moaspace.domain.user.UserRole
+import me.muheun.moaspace.security.AuthCookieManager
+import me.muheun.moaspace.security.CookieBearerTokenResolver
+import me.muheun.moaspace.security.CsrfCookieFilter
 import me.muheun.moaspace.service.JwtTokenService
 import org.springframework.context.annotation.Bean
 import org.springframework.context.annotation.Configuration
 import org.springframework.context.annotation.Profile
+import org.springframework.http.HttpMethod
 import org.springframework.security.config.annotation.web.builders.HttpSecurity
 import org.springframework.security.config.annotation.web.configuration.EnableWebSecurity
 import org.springframework.security.config.http.SessionCreationPolicy
 import org.springframework.security.oauth2.jwt.JwtDecoder
+import org.springframework.security.oauth2.server.resource.authentication.JwtAuthenticationConverter
+import org.springframework.security.oauth2.server.resource.authentication.JwtGrantedAuthoritiesConverter
 import org.springframework.security.web.SecurityFilterChain
+import org.springframework.security.web.authentication.www.BasicAuthenticationFilter
+import org.springframework.security.web.csrf.CsrfTokenRequestAttributeHandler
+import org.springframework.security.web.util.matcher.RequestMatcher
 import javax.crypto.SecretKey
 import javax.crypto.spec.SecretKeySpec
 
@@ -16,31 +26,47 @@ import javax.crypto.spec.SecretKeySpec
 @Profile("test")
 @EnableWebSecurity
 class TestSecurityConfig(
-    private val jwtTokenService: JwtTokenService
+    private val jwtTokenService: JwtTokenService,
+    private val authCookieManager: AuthCookieManager,
+    private val cookieBearerTokenResolver: CookieBearerTokenResolver,
+    private val restAccessDeniedHandler: me.muheun.moaspace.security.RestAccessDeniedHandler
 ) {
 
     /**
      * 테스트용 Security Filter Chain
      *
-     * JWT 인증만 활성화하고 OAuth2, CORS는 비활성화합니다.
+     * JWT 인증(헤더 + httpOnly Cookie)과 CSRF 검증만 활성화하고 OAuth2, CORS는 비활성화합니다.
      * 실제 환경과 동일한 JWT 검증 로직을 사용하여
      * 인증 테스트의 정확성을 보장합니다.
      */
     @Bean
     fun securityFilterChain(http: HttpSecurity): SecurityFilterChain {
         http
-            // CSRF 비활성화 (JWT 사용)
-            .csrf { it.disable() }
+            // Double Submit CSRF (Cookie 인증 요청만 검증, 실제 설정과 동일)
+            .csrf { csrf ->
+                csrf
+                    .csrfTokenRepository(authCookieManager.createCsrfTokenRepository())
+                    .csrfTokenRequestHandler(CsrfTokenRequestAttributeHandler())
+                    .requireCsrfProtectionMatcher(RequestMatcher { CookieBearerTokenResolver.requiresCsrfProtection(it) })
+            }
+            .addFilterAfter(CsrfCookieFilter(), BasicAuthenticationFilter::class.java)
 
             // 세션 관리 - Stateless (JWT 사용)
             .sessionManagement { session ->
                 session.sessionCreationPolicy(SessionCreationPolicy.STATELESS)
             }
 
+            // CSRF 실패 등 403 응답 형식
+            .exceptionHandling { exception ->
+                exception.accessDeniedHandler(restAccessDeniedHandler)
+            }
+
             // OAuth2 Resource Server 설정 (JWT 자동 검증)
             .oauth2ResourceServer { oauth2 ->
+                oauth2.bearerTokenResolver(cookieBearerTokenResolver)
                 oauth2.jwt { jwt ->
                     jwt.decoder(jwtDecoder())
+                    jwt.jwtAuthenticationConverter(jwtAuthenticationConverter())
                 }
             }
 
@@ -53,14 +79,26 @@ class TestSecurityConfig(
                         "/error",
                         "/api/health",
                         "/api/auth/login",
-                        "/api/auth/logout"
+                        "/api/auth/logout",
+                        "/api/auth/csrf",
+                        "/api/auth/refresh",
+                        "/uploads/**"
                     ).permitAll()
 
                     // 인증 필요 엔드포인트
                     .requestMatchers("/api/auth/me").authenticated()
                     .requestMatchers("/api/posts/**").authenticated()
+                    .requestMatchers("/api/uploads/**").authenticated()
+                    .requestMatchers("/api/drafts/**").authenticated()
+
+                    // 인기 급상승 태그는 메인 페이지(공개)에서 사용, 나머지 태그 API는 인증 필요
+                    .requestMatchers(HttpMethod.GET, "/api/tags/trending").permitAll()
+                    .requestMatchers("/api/tags/**").authenticated()
 
-                    // 벡터 설정 API (인증 불필요 - 테스트용)
+                    // 해시태그 관리 API (운영자 이상, 운영 환경과 동일)
+                    .requestMatchers("/api/admin/tags/**").hasAnyRole(UserRole.MODERATOR.name, UserRole.ADMIN.name)
+
+                    // 벡터 설정 API (인증 불필요 - 테스트용, 실제 환경은 ADMIN 역할 필요)
                     .requestMatchers("/api/vector-configs/**").permitAll()
 
                     // 나머지 API 엔드포인트 (기본 허용)
@@ -73,6 +111,21 @@ class TestSecurityConfig(
         return http.build()
     }
 
+    /**
+     * JWT role 클레임 → Spring Security 권한 매핑 (ADMIN → ROLE_ADMIN)
+     */
+    @Bean
+    fun jwtAuthenticationConverter(): JwtAuthenticationConverter {
+        val authoritiesConverter = JwtGrantedAuthoritiesConverter().apply {
+            setAuthoritiesClaimName(JwtTokenService.CLAIM_ROLE)
+            setAuthorityPrefix("ROLE_")
+        }
+
+        return JwtAuthenticationConverter().apply {
+            setJwtGrantedAuthoritiesConverter(authoritiesConverter)
+        }
+    }
+
     /**
      * JWT Decoder 설정
      *
@@ -96,6 +149,11 @@ class TestSecurityConfig(
                     .parseSignedClaims(token)
                     .payload
 
+                // Refresh Token을 Bearer 토큰으로 사용하는 것을 차단
+                if (claims["type"] != JwtTokenService.TOKEN_TYPE_ACCESS) {
+                    throw IllegalArgumentException("Access Token이 아닙니다: type=${claims["type"]}")
+                }
+
                 // Spring Security Jwt 객체로 변환
                 val headers = mutableMapOf<String, Any>("alg" to "HS256", "typ" to "JWT")
                 val claimsMap = claims.mapValues { it.value as Any }.toMutableMap()
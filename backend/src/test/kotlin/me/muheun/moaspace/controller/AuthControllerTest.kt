@@ -1,7 +1,9 @@
 package me.muheun.moaspace.controller
 
 import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.domain.user.UserRole
 import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.security.AuthCookieManager
 import me.muheun.moaspace.service.JwtTokenService
 import org.junit.jupiter.api.BeforeEach
 import org.junit.jupiter.api.DisplayName
@@ -11,12 +13,15 @@ import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMock
 import org.springframework.boot.test.context.SpringBootTest
 import org.springframework.test.context.ActiveProfiles
 import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockHttpServletRequestBuilder
 import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.get
 import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.post
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.cookie
 import org.springframework.test.web.servlet.result.MockMvcResultMatchers.jsonPath
 import org.springframework.test.web.servlet.result.MockMvcResultMatchers.status
 import org.springframework.transaction.annotation.Transactional
 import jakarta.persistence.EntityManager
+import jakarta.servlet.http.Cookie
 
 @SpringBootTest
 @ActiveProfiles("test")
@@ -70,9 +75,32 @@ class AuthControllerTest {
             .andExpect(jsonPath("$.email").value(user.email))
             .andExpect(jsonPath("$.name").value(user.name))
             .andExpect(jsonPath("$.profileImageUrl").value(user.profileImageUrl))
+            .andExpect(jsonPath("$.role").value("USER"))
             .andExpect(jsonPath("$.createdAt").exists())
     }
 
+    @Test
+    @DisplayName("관리자 사용자 정보 조회 시 ADMIN 역할을 반환한다")
+    fun testGetAdminUserInfo() {
+        val user = userRepository.save(
+            User(
+                email = "admin@example.com",
+                name = "관리자",
+                profileImageUrl = null,
+                role = UserRole.ADMIN
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email, user.role)
+
+        mockMvc.perform(
+            get("/api/auth/me")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.role").value("ADMIN"))
+    }
+
     @Test
     @DisplayName("잘못된 JWT 토큰 사용 시 401 오류를 반환한다")
     fun testGetUserInfoInvalidToken() {
@@ -113,7 +141,7 @@ class AuthControllerTest {
     @Test
     @DisplayName("로그아웃 시 204 No Content를 반환한다")
     fun testLogout() {
-        mockMvc.perform(post("/api/auth/logout"))
+        mockMvc.perform(post("/api/auth/logout").withCsrf())
             .andExpect(status().isNoContent)
     }
 
@@ -169,4 +197,171 @@ class AuthControllerTest {
         assert(extractedEmail == email) { "이메일이 일치하지 않습니다" }
         assert(isValid) { "JWT 토큰이 유효하지 않습니다" }
     }
+
+    @Test
+    @DisplayName("유효한 Refresh Token Cookie로 Access Token을 재발급하고 Refresh Token을 교체한다")
+    fun testRefreshAccessToken() {
+        val user = userRepository.save(
+            User(
+                email = "refresh@example.com",
+                name = "재발급 사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val refreshToken = jwtTokenService.generateRefreshToken(user.id!!)
+
+        val result = mockMvc.perform(
+            post("/api/auth/refresh")
+                .cookie(Cookie(AuthCookieManager.REFRESH_TOKEN_COOKIE, refreshToken))
+                .withCsrf()
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.accessToken").doesNotExist())
+            .andExpect(jsonPath("$.expiresIn").isNumber)
+            .andExpect(cookie().httpOnly(AuthCookieManager.ACCESS_TOKEN_COOKIE, true))
+            .andExpect(cookie().path(AuthCookieManager.ACCESS_TOKEN_COOKIE, AuthCookieManager.ACCESS_TOKEN_PATH))
+            .andExpect(cookie().exists(AuthCookieManager.REFRESH_TOKEN_COOKIE))
+            .andExpect(cookie().httpOnly(AuthCookieManager.REFRESH_TOKEN_COOKIE, true))
+            .andExpect(cookie().path(AuthCookieManager.REFRESH_TOKEN_COOKIE, AuthCookieManager.REFRESH_TOKEN_PATH))
+            .andReturn()
+
+        // 재발급된 Access Token Cookie로 인증 API 호출 가능
+        val accessToken = result.response.getCookie(AuthCookieManager.ACCESS_TOKEN_COOKIE)!!.value
+
+        mockMvc.perform(
+            get("/api/auth/me")
+                .cookie(Cookie(AuthCookieManager.ACCESS_TOKEN_COOKIE, accessToken))
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.id").value(user.id!!))
+    }
+
+    @Test
+    @DisplayName("Refresh Token Cookie 없이 재발급 요청 시 401 INVALID_REFRESH_TOKEN을 반환한다")
+    fun testRefreshWithoutCookie() {
+        mockMvc.perform(post("/api/auth/refresh").withCsrf())
+            .andExpect(status().isUnauthorized)
+            .andExpect(jsonPath("$.error.code").value("INVALID_REFRESH_TOKEN"))
+    }
+
+    @Test
+    @DisplayName("Access Token을 Refresh Token으로 사용하면 401을 반환한다")
+    fun testRefreshWithAccessToken() {
+        val user = userRepository.save(
+            User(
+                email = "refresh@example.com",
+                name = "재발급 사용자",
+                profileImageUrl = null
+            )
+        )
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            post("/api/auth/refresh")
+                .cookie(Cookie(AuthCookieManager.REFRESH_TOKEN_COOKIE, accessToken))
+                .withCsrf()
+        )
+            .andExpect(status().isUnauthorized)
+            .andExpect(jsonPath("$.error.code").value("INVALID_REFRESH_TOKEN"))
+    }
+
+    @Test
+    @DisplayName("Refresh Token을 Bearer 토큰으로 사용하면 401을 반환한다")
+    fun testRefreshTokenRejectedAsBearer() {
+        val user = userRepository.save(
+            User(
+                email = "refresh@example.com",
+                name = "재발급 사용자",
+                profileImageUrl = null
+            )
+        )
+        val refreshToken = jwtTokenService.generateRefreshToken(user.id!!)
+
+        mockMvc.perform(
+            get("/api/auth/me")
+                .header("Authorization", "Bearer $refreshToken")
+        )
+            .andExpect(status().isUnauthorized)
+    }
+
+    @Test
+    @DisplayName("로그아웃 시 Access/Refresh Token Cookie를 만료시킨다")
+    fun testLogoutClearsRefreshCookie() {
+        mockMvc.perform(post("/api/auth/logout").withCsrf())
+            .andExpect(status().isNoContent)
+            .andExpect(cookie().maxAge(AuthCookieManager.ACCESS_TOKEN_COOKIE, 0))
+            .andExpect(cookie().maxAge(AuthCookieManager.REFRESH_TOKEN_COOKIE, 0))
+    }
+
+    @Test
+    @DisplayName("httpOnly access_token Cookie만으로 사용자 정보를 조회한다")
+    fun testGetUserInfoWithAccessTokenCookie() {
+        val user = userRepository.save(
+            User(
+                email = "cookie@example.com",
+                name = "Cookie 사용자",
+                profileImageUrl = null
+            )
+        )
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            get("/api/auth/me")
+                .cookie(Cookie(AuthCookieManager.ACCESS_TOKEN_COOKIE, accessToken))
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.email").value("cookie@example.com"))
+    }
+
+    @Test
+    @DisplayName("Cookie 인증 변경 요청에 CSRF 토큰이 없으면 403 INVALID_CSRF_TOKEN을 반환한다")
+    fun testCookieRequestWithoutCsrfToken() {
+        val refreshToken = jwtTokenService.generateRefreshToken(1L)
+
+        mockMvc.perform(
+            post("/api/auth/logout")
+                .cookie(Cookie(AuthCookieManager.REFRESH_TOKEN_COOKIE, refreshToken))
+        )
+            .andExpect(status().isForbidden)
+            .andExpect(jsonPath("$.error.code").value("INVALID_CSRF_TOKEN"))
+    }
+
+    @Test
+    @DisplayName("XSRF-TOKEN Cookie와 헤더 값이 다르면 403을 반환한다")
+    fun testCookieRequestWithMismatchedCsrfToken() {
+        val refreshToken = jwtTokenService.generateRefreshToken(1L)
+
+        mockMvc.perform(
+            post("/api/auth/logout")
+                .cookie(Cookie(AuthCookieManager.REFRESH_TOKEN_COOKIE, refreshToken))
+                .cookie(Cookie(CSRF_COOKIE, CSRF_TOKEN))
+                .header(AuthCookieManager.CSRF_HEADER, "other-token")
+        )
+            .andExpect(status().isForbidden)
+            .andExpect(jsonPath("$.error.code").value("INVALID_CSRF_TOKEN"))
+    }
+
+    @Test
+    @DisplayName("CSRF 토큰 발급 시 JavaScript에서 읽을 수 있는 XSRF-TOKEN Cookie를 반환한다")
+    fun testIssueCsrfToken() {
+        mockMvc.perform(get("/api/auth/csrf"))
+            .andExpect(status().isNoContent)
+            .andExpect(cookie().exists(CSRF_COOKIE))
+            .andExpect(cookie().httpOnly(CSRF_COOKIE, false))
+            .andExpect(cookie().path(CSRF_COOKIE, "/"))
+    }
+
+    /**
+     * Double Submit CSRF: 동일한 값을 XSRF-TOKEN Cookie와 X-XSRF-TOKEN 헤더로 전송
+     */
+    private fun MockHttpServletRequestBuilder.withCsrf(): MockHttpServletRequestBuilder {
+        return cookie(Cookie(CSRF_COOKIE, CSRF_TOKEN))
+            .header(AuthCookieManager.CSRF_HEADER, CSRF_TOKEN)
+    }
+
+    companion object {
+        private const val CSRF_COOKIE = "XSRF-TOKEN"
+        private const val CSRF_TOKEN = "test-csrf-token"
+    }
 }
@@ -0,0 +1,267 @@
+package me.muheun.moaspace.controller
+
+import com.fasterxml.jackson.databind.ObjectMapper
+import me.muheun.moaspace.domain.comment.Comment
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.domain.vector.VectorConfig
+import me.muheun.moaspace.domain.vector.VectorEntityType
+import me.muheun.moaspace.dto.CreateCommentRequest
+import me.muheun.moaspace.dto.UpdateCommentRequest
+import me.muheun.moaspace.helper.VectorTestHelper
+import me.muheun.moaspace.repository.CommentRepository
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.repository.VectorChunkRepository
+import me.muheun.moaspace.repository.VectorConfigRepository
+import me.muheun.moaspace.service.JwtTokenService
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.http.MediaType
+import org.springframework.test.context.ActiveProfiles
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.*
+import org.springframework.transaction.annotation.Transactional
+import jakarta.persistence.EntityManager
+
+@SpringBootTest
+@ActiveProfiles("test")
+@AutoConfigureMockMvc  // Security 필터 활성화 (TestSecurityConfig 사용)
+@Transactional
+class CommentControllerTest {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var userRepository: UserRepository
+
+    @Autowired
+    private lateinit var postRepository: PostRepository
+
+    @Autowired
+    private lateinit var commentRepository: CommentRepository
+
+    @Autowired
+    private lateinit var vectorConfigRepository: VectorConfigRepository
+
+    @Autowired
+    private lateinit var vectorChunkRepository: VectorChunkRepository
+
+    @Autowired
+    private lateinit var vectorTestHelper: VectorTestHelper
+
+    @Autowired
+    private lateinit var jwtTokenService: JwtTokenService
+
+    @Autowired
+    private lateinit var objectMapper: ObjectMapper
+
+    @Autowired
+    private lateinit var entityManager: EntityManager
+
+    @Autowired
+    private lateinit var cacheManager: org.springframework.cache.CacheManager
+
+    private lateinit var author: User
+    private lateinit var post: Post
+
+    @BeforeEach
+    fun setUp() {
+        cacheManager.cacheNames.forEach { cacheName ->
+            cacheManager.getCache(cacheName)?.clear()
+        }
+
+        entityManager.createNativeQuery("TRUNCATE TABLE comments, posts, vector_chunks, users, vector_configs RESTART IDENTITY CASCADE").executeUpdate()
+        entityManager.flush()
+        entityManager.clear()
+
+        // 댓글 벡터화 설정 (namespace는 엔티티 기본값 "moaspace" 사용)
+        vectorConfigRepository.save(
+            VectorConfig(entityType = VectorEntityType.COMMENT.typeName, fieldName = "content", weight = 1.0, threshold = 0.0, enabled = true)
+        )
+
+        author = userRepository.save(
+            User(
+                email = "author@example.com",
+                name = "댓글 작성자",
+                profileImageUrl = null
+            )
+        )
+
+        post = postRepository.save(
+            Post(
+                title = "댓글 테스트 게시글",
+                contentMarkdown = "본문",
+                contentHtml = "<p>본문</p>",
+                contentText = "본문",
+                author = author
+            )
+        )
+        entityManager.flush()
+    }
+
+    @Test
+    @DisplayName("댓글을 생성하고 자동으로 벡터화한다")
+    fun testCreateComment() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+        val request = CreateCommentRequest(content = "**좋은 글** 감사합니다")
+
+        val result = mockMvc.perform(
+            post("/api/posts/${post.id}/comments")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(request))
+        )
+            .andExpect(status().isCreated)
+            .andExpect(jsonPath("$.id").exists())
+            .andExpect(jsonPath("$.postId").value(post.id!!))
+            .andExpect(jsonPath("$.parentId").isEmpty)
+            .andExpect(jsonPath("$.content").value(request.content))
+            .andExpect(jsonPath("$.author.id").value(author.id!!))
+            .andExpect(jsonPath("$.deleted").value(false))
+            .andReturn()
+
+        val commentId = (objectMapper.readValue(result.response.contentAsString, Map::class.java)["id"] as Number).toLong()
+
+        val chunks = vectorChunkRepository.findByNamespaceAndEntityAndRecordKeyOrderByChunkIndexAsc(
+            namespace = vectorTestHelper.defaultNamespace,
+            entity = VectorEntityType.COMMENT.typeName,
+            recordKey = commentId.toString()
+        )
+        assert(chunks.isNotEmpty()) { "댓글 VectorChunk가 자동 생성되지 않았습니다" }
+    }
+
+    @Test
+    @DisplayName("답글을 생성하면 parentId가 설정된다")
+    fun testCreateReply() {
+        val parent = commentRepository.save(Comment(post = post, author = author, content = "부모 댓글"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            post("/api/posts/${post.id}/comments")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(CreateCommentRequest(content = "답글", parentId = parent.id)))
+        )
+            .andExpect(status().isCreated)
+            .andExpect(jsonPath("$.parentId").value(parent.id!!))
+    }
+
+    @Test
+    @DisplayName("다른 게시글의 댓글에는 답글을 달 수 없다")
+    fun testCreateReplyToOtherPostComment() {
+        val otherPost = postRepository.save(
+            Post(
+                title = "다른 게시글",
+                contentMarkdown = "본문",
+                contentHtml = "<p>본문</p>",
+                contentText = "본문",
+                author = author
+            )
+        )
+        val otherComment = commentRepository.save(Comment(post = otherPost, author = author, content = "다른 글의 댓글"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            post("/api/posts/${post.id}/comments")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(CreateCommentRequest(content = "답글", parentId = otherComment.id)))
+        )
+            .andExpect(status().isNotFound)
+            .andExpect(jsonPath("$.error.code").value("COMMENT_NOT_FOUND"))
+    }
+
+    @Test
+    @DisplayName("댓글 목록은 작성순이며 삭제된 댓글은 내용과 작성자를 숨긴다")
+    fun testGetCommentsHidesDeletedContent() {
+        val parent = commentRepository.save(Comment(post = post, author = author, content = "삭제될 댓글", deleted = true))
+        commentRepository.save(Comment(post = post, parent = parent, author = author, content = "남아있는 답글"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/posts/${post.id}/comments")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.length()").value(2))
+            .andExpect(jsonPath("$[0].deleted").value(true))
+            .andExpect(jsonPath("$[0].content").value(""))
+            .andExpect(jsonPath("$[0].author").isEmpty)
+            .andExpect(jsonPath("$[1].parentId").value(parent.id!!))
+            .andExpect(jsonPath("$[1].content").value("남아있는 답글"))
+    }
+
+    @Test
+    @DisplayName("작성자는 댓글을 수정할 수 있다")
+    fun testUpdateComment() {
+        val comment = commentRepository.save(Comment(post = post, author = author, content = "수정 전"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            put("/api/posts/${post.id}/comments/${comment.id}")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(UpdateCommentRequest(content = "수정 후")))
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.content").value("수정 후"))
+    }
+
+    @Test
+    @DisplayName("작성자가 아닌 경우 댓글 수정 시 403 오류를 반환한다")
+    fun testUpdateCommentForbidden() {
+        val comment = commentRepository.save(Comment(post = post, author = author, content = "작성자의 댓글"))
+        val otherUser = userRepository.save(
+            User(
+                email = "other@example.com",
+                name = "다른 사용자",
+                profileImageUrl = null
+            )
+        )
+        val accessToken = jwtTokenService.generateAccessToken(otherUser.id!!, otherUser.email)
+
+        mockMvc.perform(
+            put("/api/posts/${post.id}/comments/${comment.id}")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(UpdateCommentRequest(content = "변조")))
+        )
+            .andExpect(status().isForbidden)
+            .andExpect(jsonPath("$.error.code").value("FORBIDDEN"))
+            .andExpect(jsonPath("$.error.message").value("댓글을 수정할 권한이 없습니다"))
+    }
+
+    @Test
+    @DisplayName("댓글을 소프트 삭제한다")
+    fun testDeleteComment() {
+        val comment = commentRepository.save(Comment(post = post, author = author, content = "삭제될 댓글"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            delete("/api/posts/${post.id}/comments/${comment.id}")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isNoContent)
+
+        val deletedComment = commentRepository.findById(comment.id!!).get()
+        assert(deletedComment.deleted) { "댓글이 소프트 삭제되지 않았습니다 (deleted=false)" }
+    }
+
+    @Test
+    @DisplayName("인증 없이 댓글 작성 시 401 오류를 반환한다")
+    fun testCreateCommentUnauthorized() {
+        mockMvc.perform(
+            post("/api/posts/${post.id}/comments")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(CreateCommentRequest(content = "익명 댓글")))
+        )
+            .andExpect(status().isUnauthorized)
+    }
+}
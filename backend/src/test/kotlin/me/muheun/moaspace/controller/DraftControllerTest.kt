@@ -0,0 +1,186 @@
+package me.muheun.moaspace.controller
+
+import com.fasterxml.jackson.databind.ObjectMapper
+import me.muheun.moaspace.domain.draft.Draft
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.dto.SaveDraftRequest
+import me.muheun.moaspace.repository.DraftRepository
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.service.JwtTokenService
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.http.MediaType
+import org.springframework.test.context.ActiveProfiles
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.*
+import org.springframework.transaction.annotation.Transactional
+import jakarta.persistence.EntityManager
+
+@SpringBootTest
+@ActiveProfiles("test")
+@AutoConfigureMockMvc  // Security 필터 활성화 (TestSecurityConfig 사용)
+@Transactional
+class DraftControllerTest {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var userRepository: UserRepository
+
+    @Autowired
+    private lateinit var postRepository: PostRepository
+
+    @Autowired
+    private lateinit var draftRepository: DraftRepository
+
+    @Autowired
+    private lateinit var jwtTokenService: JwtTokenService
+
+    @Autowired
+    private lateinit var objectMapper: ObjectMapper
+
+    @Autowired
+    private lateinit var entityManager: EntityManager
+
+    private lateinit var author: User
+    private lateinit var otherUser: User
+
+    @BeforeEach
+    fun setUp() {
+        entityManager.createNativeQuery("TRUNCATE TABLE drafts, comments, posts, users RESTART IDENTITY CASCADE").executeUpdate()
+        entityManager.flush()
+        entityManager.clear()
+
+        author = userRepository.save(User(email = "author@example.com", name = "초안 작성자", profileImageUrl = null))
+        otherUser = userRepository.save(User(email = "other@example.com", name = "다른 사용자", profileImageUrl = null))
+        entityManager.flush()
+    }
+
+    @Test
+    @DisplayName("같은 키로 저장하면 초안을 덮어쓰고 본문은 정제된다")
+    fun testSaveDraftUpserts() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+        val draftKey = "3f1c2b9a-7d4e-4c1a-9b2f-1e5d6c7a8b90"
+
+        mockMvc.perform(
+            put("/api/drafts/$draftKey")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(SaveDraftRequest(title = "첫 저장", contentHtml = "<p>초안</p>")))
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.draftKey").value(draftKey))
+            .andExpect(jsonPath("$.postId").isEmpty)
+
+        mockMvc.perform(
+            put("/api/drafts/$draftKey")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(
+                    objectMapper.writeValueAsString(
+                        SaveDraftRequest(
+                            title = "두 번째 저장",
+                            contentHtml = "<p>수정된 초안</p><script>alert(1)</script>",
+                            hashtags = listOf("kotlin")
+                        )
+                    )
+                )
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.title").value("두 번째 저장"))
+            .andExpect(jsonPath("$.contentHtml").value("<p>수정된 초안</p>"))
+            .andExpect(jsonPath("$.hashtags[0]").value("kotlin"))
+
+        assert(draftRepository.count() == 1L) { "같은 키의 초안이 중복 생성되었습니다" }
+    }
+
+    @Test
+    @DisplayName("초안 목록은 본인 초안만 최근 수정순으로 반환한다")
+    fun testGetDraftsReturnsOwnDraftsOnly() {
+        draftRepository.save(Draft(author = author, draftKey = "draft-a", title = "내 초안", contentHtml = "<p>미리보기 텍스트</p>"))
+        draftRepository.save(Draft(author = otherUser, draftKey = "draft-b", title = "남의 초안", contentHtml = "<p>비공개</p>"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/drafts")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.length()").value(1))
+            .andExpect(jsonPath("$[0].draftKey").value("draft-a"))
+            .andExpect(jsonPath("$[0].excerpt").value("미리보기 텍스트"))
+            .andExpect(jsonPath("$[0].contentHtml").doesNotExist())
+    }
+
+    @Test
+    @DisplayName("다른 사용자의 초안은 조회할 수 없다")
+    fun testGetOtherUsersDraft() {
+        draftRepository.save(Draft(author = otherUser, draftKey = "draft-b", title = "남의 초안", contentHtml = "<p>비공개</p>"))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/drafts/draft-b")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isNotFound)
+            .andExpect(jsonPath("$.error.code").value("DRAFT_NOT_FOUND"))
+    }
+
+    @Test
+    @DisplayName("다른 사용자의 게시글에 대한 수정 초안은 저장할 수 없다")
+    fun testSaveDraftForOtherUsersPost() {
+        val post = postRepository.save(
+            Post(
+                title = "남의 게시글",
+                contentMarkdown = "본문",
+                contentHtml = "<p>본문</p>",
+                contentText = "본문",
+                author = otherUser
+            )
+        )
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            put("/api/drafts/post-${post.id}")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(SaveDraftRequest(postId = post.id, title = "가로채기")))
+        )
+            .andExpect(status().isForbidden)
+            .andExpect(jsonPath("$.error.code").value("FORBIDDEN"))
+    }
+
+    @Test
+    @DisplayName("초안을 삭제한다")
+    fun testDeleteDraft() {
+        draftRepository.save(Draft(author = author, draftKey = "draft-a", title = "삭제할 초안", contentHtml = ""))
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            delete("/api/drafts/draft-a")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isNoContent)
+
+        assert(draftRepository.findByAuthorIdAndDraftKey(author.id!!, "draft-a") == null) { "초안이 삭제되지 않았습니다" }
+    }
+
+    @Test
+    @DisplayName("인증 없이 초안 저장 시 401 오류를 반환한다")
+    fun testSaveDraftUnauthorized() {
+        mockMvc.perform(
+            put("/api/drafts/draft-a")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(SaveDraftRequest(title = "익명 초안")))
+        )
+            .andExpect(status().isUnauthorized)
+    }
+}
@@ -5,9 +5,11 @@ import me.muheun.moaspace.domain.post.Post
 import me.muheun.moaspace.domain.user.User
 import me.muheun.moaspace.dto.CreatePostRequest
 import me.muheun.moaspace.dto.UpdatePostRequest
+import me.muheun.moaspace.domain.vector.VectorChunk
 import me.muheun.moaspace.domain.vector.VectorConfig
 import me.muheun.moaspace.domain.vector.VectorEntityType
 import me.muheun.moaspace.helper.VectorTestHelper
+import me.muheun.moaspace.query.dto.HashtagFilter
 import me.muheun.moaspace.repository.PostRepository
 import me.muheun.moaspace.repository.UserRepository
 import me.muheun.moaspace.repository.VectorChunkRepository
@@ -495,6 +497,125 @@ class PostControllerTest {
             .andExpect(jsonPath("$.pagination.totalElements").value(8))
     }
 
+    @Test
+    @DisplayName("여러 해시태그를 AND/OR 조건으로 필터링한다")
+    fun testFilterPostsByMultipleHashtags() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        listOf(
+            arrayOf("Kotlin", "Spring"),
+            arrayOf("Kotlin"),
+            arrayOf("Spring", "JPA"),
+            arrayOf("React")
+        ).forEachIndexed { index, hashtags ->
+            postRepository.save(
+                Post(
+                    title = "게시글 ${index + 1}",
+                    contentMarkdown = "내용",
+                    contentHtml = "<p>내용</p>",
+                    contentText = "내용",
+                    author = user,
+                    hashtags = hashtags
+                )
+            )
+        }
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        // AND (기본값): 두 태그를 모두 가진 게시글만
+        mockMvc.perform(
+            get("/api/posts")
+                .param("hashtags", "Kotlin,Spring")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.posts.length()").value(1))
+            .andExpect(jsonPath("$.posts[0].title").value("게시글 1"))
+            .andExpect(jsonPath("$.pagination.totalElements").value(1))
+
+        // OR: 하나 이상 가진 게시글
+        mockMvc.perform(
+            get("/api/posts")
+                .param("hashtags", "Kotlin,Spring")
+                .param("match", "any")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.pagination.totalElements").value(3))
+
+        // 피드도 같은 조건 (최신순)
+        mockMvc.perform(
+            get("/api/posts/feed")
+                .param("hashtags", "Kotlin", "Spring")
+                .param("match", "any")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.posts.length()").value(3))
+            .andExpect(jsonPath("$.posts[0].title").value("게시글 3"))
+            .andExpect(jsonPath("$.posts[2].title").value("게시글 1"))
+    }
+
+    @Test
+    @DisplayName("알 수 없는 해시태그 매칭 방식은 400을 반환한다")
+    fun testFilterPostsInvalidMatch() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            get("/api/posts")
+                .param("hashtags", "Kotlin")
+                .param("match", "some")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isBadRequest)
+            .andExpect(jsonPath("$.error.code").value("VALIDATION_ERROR"))
+    }
+
+    @Test
+    @DisplayName("해시태그 필터가 최대 개수를 넘으면 400을 반환한다")
+    fun testFilterPostsTooManyHashtags() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+        val tags = (1..HashtagFilter.MAX_HASHTAGS + 1).joinToString(",") { "tag$it" }
+
+        mockMvc.perform(
+            get("/api/posts")
+                .param("hashtags", tags)
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isBadRequest)
+            .andExpect(jsonPath("$.error.code").value("VALIDATION_ERROR"))
+
+        mockMvc.perform(
+            get("/api/posts/feed")
+                .param("hashtags", tags)
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isBadRequest)
+            .andExpect(jsonPath("$.error.code").value("VALIDATION_ERROR"))
+    }
+
     @Test
     @DisplayName("임계값 기반 벡터 검색으로 유사 게시글을 찾는다")
     fun testSearchPostsWithThreshold() {
@@ -653,6 +774,56 @@ class PostControllerTest {
         }
     }
 
+    @Test
+    @DisplayName("검색 결과에 필드별 원본 스코어와 가중 합산 totalScore가 포함된다")
+    fun testSearchReturnsFieldScores() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            post("/api/posts")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(
+                    CreatePostRequest(
+                        title = "Kotlin 코루틴 입문",
+                        contentHtml = "코루틴으로 비동기 코드를 작성하는 방법을 설명합니다.",
+                        hashtags = listOf("Kotlin")
+                    )
+                ))
+        ).andExpect(status().isCreated)
+
+        val result = mockMvc.perform(
+            post("/api/posts/search")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content("""{"query": "Kotlin 코루틴", "threshold": 0.0, "limit": 20}""")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.totalResults").value(1))
+            .andExpect(jsonPath("$.results[0].fieldScores.title").isNumber)
+            .andExpect(jsonPath("$.results[0].fieldScores.contentText").isNumber)
+            .andExpect(jsonPath("$.results[0].totalScore").isNumber)
+            .andReturn()
+
+        // totalScore = title * 2.0 + contentText * 1.0 (setUp의 VectorConfig 가중치)
+        val responseMap = objectMapper.readValue(result.response.contentAsString, Map::class.java)
+        val item = (responseMap["results"] as List<Map<String, Any>>).first()
+        val fieldScores = item["fieldScores"] as Map<String, Double>
+        val expected = fieldScores.getValue("title") * 2.0 + fieldScores.getValue("contentText") * 1.0
+
+        assert(kotlin.math.abs((item["totalScore"] as Double) - expected) < 1e-6) {
+            "totalScore가 가중 합산과 일치해야 합니다: expected=$expected, actual=${item["totalScore"]}"
+        }
+    }
+
     @Test
     @DisplayName("임계값 이하 결과를 제외한다 (SC-006)")
     fun testSearchWithThresholdBoundary() {
@@ -945,4 +1116,291 @@ class PostControllerTest {
         val notDeletedIds = posts.filter { !it.deleted }.map { it.id }.toSet()
         assert(notDeletedIds.size == 3) { "삭제되지 않은 게시글이 3개가 아닙니다" }
     }
+
+    @Test
+    @DisplayName("keyword 모드는 에러 코드 같은 정확한 식별자를 전문 검색으로 찾는다")
+    fun testKeywordSearchFindsExactIdentifier() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val target = postRepository.save(
+            Post(
+                title = "배포 후 연결 끊김 문제",
+                contentMarkdown = "프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.",
+                contentHtml = "<p>프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.</p>",
+                contentText = "프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.",
+                author = user
+            )
+        )
+        postRepository.save(
+            Post(
+                title = "네트워크 기초",
+                contentMarkdown = "TCP 연결 수립 과정을 정리합니다.",
+                contentHtml = "<p>TCP 연결 수립 과정을 정리합니다.</p>",
+                contentText = "TCP 연결 수립 과정을 정리합니다.",
+                author = user
+            )
+        )
+        entityManager.flush()
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            post("/api/posts/search")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content("""{"query": "ERR_CONN_RESET", "mode": "keyword", "limit": 10}""")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.results.length()").value(1))
+            .andExpect(jsonPath("$.results[0].post.id").value(target.id!!))
+            .andExpect(jsonPath("$.results[0].keywordRank").value(1))
+            .andExpect(jsonPath("$.results[0].semanticRank").doesNotExist())
+            .andExpect(jsonPath("$.results[0].fusedScore").doesNotExist())
+    }
+
+    @Test
+    @DisplayName("검색 결과에 검색어가 포함된 본문 청크를 스니펫으로 포함한다")
+    fun testSearchResultIncludesMatchingChunkSnippet() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val target = postRepository.save(
+            Post(
+                title = "배포 후 연결 끊김 문제",
+                contentMarkdown = "배포 환경 구성을 설명합니다. 프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.",
+                contentHtml = "<p>배포 환경 구성을 설명합니다. 프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.</p>",
+                contentText = "배포 환경 구성을 설명합니다. 프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.",
+                author = user
+            )
+        )
+        listOf("배포 환경 구성을 설명합니다.", "프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다.")
+            .forEachIndexed { index, text ->
+                vectorChunkRepository.save(
+                    VectorChunk(
+                        namespace = vectorTestHelper.defaultNamespace,
+                        entity = VectorEntityType.POST.typeName,
+                        recordKey = target.id.toString(),
+                        fieldName = "contentText",
+                        chunkText = text,
+                        chunkIndex = index,
+                        startPosition = index * 17,
+                        endPosition = index * 17 + text.length
+                    )
+                )
+            }
+        entityManager.flush()
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            post("/api/posts/search")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content("""{"query": "ERR_CONN_RESET", "mode": "keyword", "limit": 10}""")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.results[0].post.id").value(target.id!!))
+            .andExpect(jsonPath("$.results[0].snippet.chunkIndex").value(1))
+            .andExpect(jsonPath("$.results[0].snippet.text").value("프록시 뒤에서 ERR_CONN_RESET 오류가 발생했습니다."))
+            .andExpect(jsonPath("$.results[0].snippet.startPosition").value(17))
+    }
+
+    @Test
+    @DisplayName("관련 게시글은 벡터가 가까운 게시글을 반환하고 자기 자신은 제외한다")
+    fun testGetRelatedPostsExcludesSelf() {
+        val user = userRepository.save(
+            User(
+                email = "author@example.com",
+                name = "게시글 작성자",
+                profileImageUrl = null
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        val postIds = listOf(
+            "Kotlin 코루틴 입문" to "<p>코루틴으로 비동기 코드를 작성하는 방법</p>",
+            "Kotlin Flow 활용" to "<p>Flow로 비동기 스트림을 다루는 방법</p>",
+            "김치찌개 레시피" to "<p>돼지고기와 묵은지로 끓이는 김치찌개</p>"
+        ).map { (title, contentHtml) ->
+            val result = mockMvc.perform(
+                post("/api/posts")
+                    .header("Authorization", "Bearer $accessToken")
+                    .contentType(MediaType.APPLICATION_JSON)
+                    .content(objectMapper.writeValueAsString(CreatePostRequest(title, contentHtml, emptyList())))
+            )
+                .andExpect(status().isCreated)
+                .andReturn()
+
+            (objectMapper.readValue(result.response.contentAsString, Map::class.java)["id"] as Number).toLong()
+        }
+
+        mockMvc.perform(
+            get("/api/posts/${postIds[0]}/related")
+                .header("Authorization", "Bearer $accessToken")
+                .param("limit", "5")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.results.length()").value(2))
+            .andExpect(jsonPath("$.results[?(@.post.id == ${postIds[0]})]").isEmpty)
+            .andExpect(jsonPath("$.results[0].similarity").isNumber)
+    }
+
+    @Test
+    @DisplayName("존재하지 않는 게시글의 관련 게시글 조회 시 404를 반환한다")
+    fun testGetRelatedPostsNotFound() {
+        val user = userRepository.save(
+            User(
+                email = "reader@example.com",
+                name = "독자",
+                profileImageUrl = null
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            get("/api/posts/99999/related")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isNotFound)
+    }
+
+    @Test
+    @DisplayName("피드를 커서로 끝까지 조회하면 모든 게시글이 중복 없이 최신순으로 반환된다")
+    fun testGetPostFeedWithCursor() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val createdAt = java.time.LocalDateTime.of(2025, 1, 1, 12, 0)
+        repeat(25) { index ->
+            postRepository.save(
+                Post(
+                    title = "게시글 ${index + 1}",
+                    contentMarkdown = "내용 ${index + 1}",
+                    contentHtml = "<p>내용 ${index + 1}</p>",
+                    contentText = "내용 ${index + 1}",
+                    author = user,
+                    hashtags = arrayOf("테스트"),
+                    // 같은 시각에 작성된 글이 섞여도 id로 순서가 결정되는지 확인
+                    createdAt = createdAt.plusMinutes((index / 2).toLong())
+                )
+            )
+        }
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        val seenIds = mutableListOf<Long>()
+        var cursor: String? = null
+        var pages = 0
+        do {
+            val request = get("/api/posts/feed")
+                .param("size", "10")
+                .header("Authorization", "Bearer $accessToken")
+            cursor?.let { request.param("cursor", it) }
+
+            val result = mockMvc.perform(request)
+                .andExpect(status().isOk)
+                .andReturn()
+
+            val body = objectMapper.readTree(result.response.contentAsString)
+            body["posts"].forEach { seenIds.add(it["id"].asLong()) }
+            cursor = body["nextCursor"]?.takeUnless { it.isNull }?.asText()
+            pages++
+        } while (cursor != null)
+
+        assert(pages == 3) { "페이지 수가 3이 아닙니다: $pages" }
+        assert(seenIds.size == 25 && seenIds.toSet().size == 25) { "게시글이 누락되거나 중복되었습니다: $seenIds" }
+        assert(seenIds == seenIds.sortedDescending()) { "최신순(같은 시각이면 id 내림차순)이 아닙니다: $seenIds" }
+    }
+
+    @Test
+    @DisplayName("해시태그 피드는 해당 태그 게시글만 커서로 조회한다")
+    fun testGetPostFeedByHashtag() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        repeat(6) { index ->
+            postRepository.save(
+                Post(
+                    title = "게시글 ${index + 1}",
+                    contentMarkdown = "내용",
+                    contentHtml = "<p>내용</p>",
+                    contentText = "내용",
+                    author = user,
+                    hashtags = if (index % 2 == 0) arrayOf("AI") else arrayOf("Backend")
+                )
+            )
+        }
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        val firstPage = mockMvc.perform(
+            get("/api/posts/feed")
+                .param("size", "2")
+                .param("hashtag", "AI")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.posts.length()").value(2))
+            .andExpect(jsonPath("$.nextCursor").isNotEmpty)
+            .andReturn()
+
+        val nextCursor = objectMapper.readTree(firstPage.response.contentAsString)["nextCursor"].asText()
+
+        mockMvc.perform(
+            get("/api/posts/feed")
+                .param("size", "2")
+                .param("hashtag", "AI")
+                .param("cursor", nextCursor)
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.posts.length()").value(1))
+            .andExpect(jsonPath("$.posts[0].hashtags[0]").value("AI"))
+            .andExpect(jsonPath("$.nextCursor").doesNotExist())
+    }
+
+    @Test
+    @DisplayName("형식이 잘못된 피드 커서는 400을 반환한다")
+    fun testGetPostFeedInvalidCursor() {
+        val user = userRepository.save(
+            User(
+                email = "user@example.com",
+                name = "사용자",
+                profileImageUrl = null
+            )
+        )
+
+        val accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+
+        mockMvc.perform(
+            get("/api/posts/feed")
+                .param("cursor", "not-a-cursor")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isBadRequest)
+            .andExpect(jsonPath("$.error.code").value("VALIDATION_ERROR"))
+    }
 }
@@ -0,0 +1,214 @@
+package me.muheun.moaspace.controller
+
+import com.fasterxml.jackson.databind.ObjectMapper
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.domain.vector.VectorConfig
+import me.muheun.moaspace.domain.vector.VectorEntityType
+import me.muheun.moaspace.dto.CreatePostRequest
+import me.muheun.moaspace.dto.UpdatePostRequest
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.PostRevisionRepository
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.repository.VectorConfigRepository
+import me.muheun.moaspace.service.JwtTokenService
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.http.MediaType
+import org.springframework.test.context.ActiveProfiles
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.*
+import org.springframework.transaction.annotation.Transactional
+import jakarta.persistence.EntityManager
+
+@SpringBootTest
+@ActiveProfiles("test")
+@AutoConfigureMockMvc  // Security 필터 활성화 (TestSecurityConfig 사용)
+@Transactional
+class PostRevisionControllerTest {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var userRepository: UserRepository
+
+    @Autowired
+    private lateinit var postRepository: PostRepository
+
+    @Autowired
+    private lateinit var postRevisionRepository: PostRevisionRepository
+
+    @Autowired
+    private lateinit var vectorConfigRepository: VectorConfigRepository
+
+    @Autowired
+    private lateinit var jwtTokenService: JwtTokenService
+
+    @Autowired
+    private lateinit var objectMapper: ObjectMapper
+
+    @Autowired
+    private lateinit var entityManager: EntityManager
+
+    @Autowired
+    private lateinit var cacheManager: org.springframework.cache.CacheManager
+
+    private lateinit var author: User
+    private lateinit var accessToken: String
+
+    @BeforeEach
+    fun setUp() {
+        cacheManager.cacheNames.forEach { cacheName ->
+            cacheManager.getCache(cacheName)?.clear()
+        }
+
+        entityManager.createNativeQuery("TRUNCATE TABLE post_revisions, posts, vector_chunks, users, vector_configs RESTART IDENTITY CASCADE").executeUpdate()
+        entityManager.flush()
+        entityManager.clear()
+
+        // VectorConfig 초기 데이터 생성 (namespace는 엔티티 기본값 "moaspace" 사용)
+        vectorConfigRepository.saveAll(listOf(
+            VectorConfig(entityType = VectorEntityType.POST.typeName, fieldName = "title", weight = 2.0, threshold = 0.0, enabled = true),
+            VectorConfig(entityType = VectorEntityType.POST.typeName, fieldName = "contentText", weight = 1.0, threshold = 0.0, enabled = true)
+        ))
+
+        author = userRepository.save(User(email = "author@example.com", name = "게시글 작성자", profileImageUrl = null))
+        accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+        entityManager.flush()
+    }
+
+    private fun createPost(title: String, contentHtml: String): Long {
+        val result = mockMvc.perform(
+            post("/api/posts")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(CreatePostRequest(title = title, contentHtml = contentHtml)))
+        )
+            .andExpect(status().isCreated)
+            .andReturn()
+
+        return (objectMapper.readValue(result.response.contentAsString, Map::class.java)["id"] as Number).toLong()
+    }
+
+    private fun updatePost(postId: Long, title: String, contentHtml: String) {
+        mockMvc.perform(
+            put("/api/posts/$postId")
+                .header("Authorization", "Bearer $accessToken")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(UpdatePostRequest(title = title, contentHtml = contentHtml)))
+        )
+            .andExpect(status().isOk)
+    }
+
+    @Test
+    @DisplayName("게시글 생성/수정마다 리비전이 기록되고 최신순으로 조회된다")
+    fun testRevisionsRecordedOnCreateAndUpdate() {
+        val postId = createPost("첫 제목", "<p>첫 본문</p>")
+        updatePost(postId, "수정된 제목", "<p>수정된 본문</p>")
+
+        mockMvc.perform(
+            get("/api/posts/$postId/revisions")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.length()").value(2))
+            .andExpect(jsonPath("$[0].revisionNumber").value(2))
+            .andExpect(jsonPath("$[0].title").value("수정된 제목"))
+            .andExpect(jsonPath("$[0].contentMarkdown").isEmpty)
+            .andExpect(jsonPath("$[1].revisionNumber").value(1))
+            .andExpect(jsonPath("$[1].editor.id").value(author.id!!))
+    }
+
+    @Test
+    @DisplayName("이력이 없던 게시글은 첫 수정 시 원본이 1번 리비전으로 보존된다")
+    fun testLegacyPostKeepsOriginalOnFirstUpdate() {
+        val legacyPost = postRepository.save(
+            Post(
+                title = "이력 도입 전 게시글",
+                contentMarkdown = "원본",
+                contentHtml = "<p>원본</p>",
+                contentText = "원본",
+                author = author
+            )
+        )
+        entityManager.flush()
+
+        updatePost(legacyPost.id!!, "수정된 제목", "<p>수정본</p>")
+
+        val revisions = postRevisionRepository.findAllByPostIdWithEditor(legacyPost.id!!)
+        assert(revisions.size == 2) { "리비전 수가 올바르지 않습니다: ${revisions.size}" }
+        assert(revisions.last().title == "이력 도입 전 게시글") { "원본이 1번 리비전으로 보존되지 않았습니다" }
+    }
+
+    @Test
+    @DisplayName("리비전 단건 조회 시 Markdown 본문을 포함한다")
+    fun testGetRevisionIncludesContent() {
+        val postId = createPost("제목", "<p>본문 내용</p>")
+        val revisionId = postRevisionRepository.findAllByPostIdWithEditor(postId).first().id!!
+
+        mockMvc.perform(
+            get("/api/posts/$postId/revisions/$revisionId")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.contentMarkdown").value("본문 내용"))
+            .andExpect(jsonPath("$.contentHtml").value("<p>본문 내용</p>"))
+    }
+
+    @Test
+    @DisplayName("이전 리비전으로 복원하면 게시글이 되돌아가고 새 리비전이 기록된다")
+    fun testRestoreRevision() {
+        val postId = createPost("원래 제목", "<p>원래 본문</p>")
+        updatePost(postId, "잘못된 수정", "<p>잘못된 본문</p>")
+        val firstRevisionId = postRevisionRepository.findAllByPostIdWithEditor(postId).last().id!!
+
+        mockMvc.perform(
+            post("/api/posts/$postId/revisions/$firstRevisionId/restore")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.title").value("원래 제목"))
+            .andExpect(jsonPath("$.contentHtml").value("<p>원래 본문</p>"))
+
+        val revisions = postRevisionRepository.findAllByPostIdWithEditor(postId)
+        assert(revisions.size == 3) { "복원 결과가 새 리비전으로 기록되지 않았습니다" }
+        assert(revisions.first().title == "원래 제목") { "최신 리비전이 복원된 내용이 아닙니다" }
+    }
+
+    @Test
+    @DisplayName("작성자가 아닌 사용자는 리비전을 복원할 수 없다")
+    fun testRestoreRevisionForbidden() {
+        val postId = createPost("제목", "<p>본문</p>")
+        val revisionId = postRevisionRepository.findAllByPostIdWithEditor(postId).first().id!!
+        val otherUser = userRepository.save(User(email = "other@example.com", name = "다른 사용자", profileImageUrl = null))
+        val otherToken = jwtTokenService.generateAccessToken(otherUser.id!!, otherUser.email)
+
+        mockMvc.perform(
+            post("/api/posts/$postId/revisions/$revisionId/restore")
+                .header("Authorization", "Bearer $otherToken")
+        )
+            .andExpect(status().isForbidden)
+            .andExpect(jsonPath("$.error.code").value("FORBIDDEN"))
+    }
+
+    @Test
+    @DisplayName("다른 게시글의 리비전은 조회할 수 없다")
+    fun testGetRevisionOfOtherPost() {
+        val postId = createPost("제목", "<p>본문</p>")
+        val otherPostId = createPost("다른 게시글", "<p>다른 본문</p>")
+        val otherRevisionId = postRevisionRepository.findAllByPostIdWithEditor(otherPostId).first().id!!
+
+        mockMvc.perform(
+            get("/api/posts/$postId/revisions/$otherRevisionId")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isNotFound)
+            .andExpect(jsonPath("$.error.code").value("REVISION_NOT_FOUND"))
+    }
+}
@@ -0,0 +1,217 @@
+package me.muheun.moaspace.controller
+
+import com.fasterxml.jackson.databind.ObjectMapper
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.domain.user.UserRole
+import me.muheun.moaspace.dto.TagMergeRequest
+import me.muheun.moaspace.dto.TagRenameRequest
+import me.muheun.moaspace.dto.TagSynonymRequest
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.PostRevisionRepository
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.service.JwtTokenService
+import org.assertj.core.api.Assertions.assertThat
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.http.MediaType
+import org.springframework.test.context.ActiveProfiles
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.*
+import org.springframework.transaction.annotation.Transactional
+import jakarta.persistence.EntityManager
+
+@SpringBootTest
+@ActiveProfiles("test")
+@AutoConfigureMockMvc  // Security 필터 활성화 (TestSecurityConfig 사용)
+@Transactional
+class TagAdminControllerTest {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var objectMapper: ObjectMapper
+
+    @Autowired
+    private lateinit var userRepository: UserRepository
+
+    @Autowired
+    private lateinit var postRepository: PostRepository
+
+    @Autowired
+    private lateinit var postRevisionRepository: PostRevisionRepository
+
+    @Autowired
+    private lateinit var jwtTokenService: JwtTokenService
+
+    @Autowired
+    private lateinit var entityManager: EntityManager
+
+    private lateinit var author: User
+    private lateinit var moderator: User
+    private lateinit var posts: List<Post>
+
+    @BeforeEach
+    fun setUp() {
+        entityManager.createNativeQuery("TRUNCATE TABLE comments, post_revisions, posts, users, tag_synonyms RESTART IDENTITY CASCADE").executeUpdate()
+        entityManager.flush()
+        entityManager.clear()
+
+        author = userRepository.save(User(email = "author@example.com", name = "작성자", profileImageUrl = null))
+        moderator = userRepository.save(
+            User(email = "moderator@example.com", name = "운영자", profileImageUrl = null, role = UserRole.MODERATOR)
+        )
+
+        posts = listOf(
+            arrayOf("react", "Hooks"),
+            arrayOf("React"),
+            arrayOf("리액트", "react"),
+            arrayOf("Vue")
+        ).mapIndexed { index, hashtags ->
+            postRepository.save(
+                Post(
+                    title = "게시글 $index",
+                    contentMarkdown = "내용",
+                    contentHtml = "<p>내용</p>",
+                    contentText = "내용",
+                    author = author,
+                    hashtags = hashtags
+                )
+            )
+        }
+        entityManager.flush()
+    }
+
+    private fun moderatorToken() = jwtTokenService.generateAccessToken(moderator.id!!, moderator.email, moderator.role)
+
+    @Test
+    @DisplayName("일반 사용자는 해시태그 관리 API에 접근할 수 없다")
+    fun testTagAdminRequiresModerator() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/admin/tags/synonyms")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isForbidden)
+    }
+
+    @Test
+    @DisplayName("태그 이름을 바꾸면 게시글 태그가 교체되고 운영자 이름으로 리비전이 기록된다")
+    fun testRenameTag() {
+        mockMvc.perform(
+            post("/api/admin/tags/rename")
+                .header("Authorization", "Bearer ${moderatorToken()}")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(TagRenameRequest(from = "Vue", to = "#Vue.js")))
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.target").value("Vue.js"))
+            .andExpect(jsonPath("$.updatedPostCount").value(1))
+
+        entityManager.flush()
+        entityManager.clear()
+
+        val renamed = postRepository.findById(posts[3].id!!).get()
+        assertThat(renamed.hashtags).containsExactly("Vue.js")
+
+        val revisions = postRevisionRepository.findAll().filter { it.post.id == renamed.id }
+        assertThat(revisions.maxBy { it.revisionNumber }.editor.id).isEqualTo(moderator.id)
+    }
+
+    @Test
+    @DisplayName("병합하면 태그가 하나로 합쳐지고 키가 다른 태그는 동의어로 등록된다")
+    fun testMergeTagsWithSynonyms() {
+        mockMvc.perform(
+            post("/api/admin/tags/merge")
+                .header("Authorization", "Bearer ${moderatorToken()}")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(
+                    objectMapper.writeValueAsString(
+                        TagMergeRequest(sources = listOf("react", "리액트"), target = "React", addSynonyms = true)
+                    )
+                )
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.updatedPostCount").value(2))
+            // react는 React와 키가 같으므로 동의어로 등록하지 않음
+            .andExpect(jsonPath("$.addedSynonyms.length()").value(1))
+            .andExpect(jsonPath("$.addedSynonyms[0]").value("리액트"))
+
+        entityManager.flush()
+        entityManager.clear()
+
+        assertThat(postRepository.findById(posts[0].id!!).get().hashtags).containsExactly("React", "Hooks")
+        assertThat(postRepository.findById(posts[2].id!!).get().hashtags).containsExactly("React")
+
+        mockMvc.perform(
+            get("/api/admin/tags/synonyms")
+                .header("Authorization", "Bearer ${moderatorToken()}")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.synonyms.length()").value(1))
+            .andExpect(jsonPath("$.synonyms[0].synonym").value("리액트"))
+            .andExpect(jsonPath("$.synonyms[0].canonical").value("React"))
+    }
+
+    @Test
+    @DisplayName("동의어를 등록하면 목록 필터에서 대표 태그와 동의어 게시글을 함께 찾는다")
+    fun testSynonymExpandsHashtagFilter() {
+        mockMvc.perform(
+            post("/api/admin/tags/synonyms")
+                .header("Authorization", "Bearer ${moderatorToken()}")
+                .contentType(MediaType.APPLICATION_JSON)
+                .content(objectMapper.writeValueAsString(TagSynonymRequest(synonym = "리액트", canonical = "React")))
+        )
+            .andExpect(status().isCreated)
+            .andExpect(jsonPath("$.synonym").value("리액트"))
+
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        // "리액트"로 찾아도 React 게시글 포함 (태그 표기는 대소문자 구분이므로 "react" 게시글은 제외)
+        mockMvc.perform(
+            get("/api/posts")
+                .param("hashtags", "리액트")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.pagination.totalElements").value(2))
+
+        // AND: 태그(그룹)마다 하나 이상 포함 → 리액트/React 중 하나와 Hooks를 함께 가진 게시글 없음
+        mockMvc.perform(
+            get("/api/posts")
+                .param("hashtags", "리액트,Hooks")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.posts.length()").value(0))
+    }
+
+    @Test
+    @DisplayName("동의어끼리 연결하거나 이미 등록된 동의어를 다시 등록하면 400을 반환한다")
+    fun testCreateSynonymValidation() {
+        val register = { synonym: String, canonical: String ->
+            mockMvc.perform(
+                post("/api/admin/tags/synonyms")
+                    .header("Authorization", "Bearer ${moderatorToken()}")
+                    .contentType(MediaType.APPLICATION_JSON)
+                    .content(objectMapper.writeValueAsString(TagSynonymRequest(synonym = synonym, canonical = canonical)))
+            )
+        }
+
+        register("리액트", "React").andExpect(status().isCreated)
+
+        // 정규화 키가 같은 동의어
+        register("리 액트", "Vue").andExpect(status().isBadRequest)
+        // 동의어를 대표 태그로 지정
+        register("ReactJS", "리액트").andExpect(status().isBadRequest)
+        // 대표 태그를 다른 태그의 동의어로 지정
+        register("react", "Vue").andExpect(status().isBadRequest)
+    }
+}
@@ -0,0 +1,171 @@
+package me.muheun.moaspace.controller
+
+import me.muheun.moaspace.domain.post.Post
+import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.repository.PostRepository
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.service.JwtTokenService
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.test.context.ActiveProfiles
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.*
+import org.springframework.transaction.annotation.Transactional
+import jakarta.persistence.EntityManager
+
+@SpringBootTest
+@ActiveProfiles("test")
+@AutoConfigureMockMvc  // Security 필터 활성화 (TestSecurityConfig 사용)
+@Transactional
+class TagControllerTest {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var userRepository: UserRepository
+
+    @Autowired
+    private lateinit var postRepository: PostRepository
+
+    @Autowired
+    private lateinit var jwtTokenService: JwtTokenService
+
+    @Autowired
+    private lateinit var entityManager: EntityManager
+
+    private lateinit var author: User
+
+    @BeforeEach
+    fun setUp() {
+        entityManager.createNativeQuery("TRUNCATE TABLE comments, posts, users RESTART IDENTITY CASCADE").executeUpdate()
+        entityManager.flush()
+        entityManager.clear()
+
+        author = userRepository.save(User(email = "author@example.com", name = "작성자", profileImageUrl = null))
+
+        listOf(
+            arrayOf("Next.js", "React"),
+            arrayOf("Next.js", "TypeScript"),
+            arrayOf("Next.js", "React"),
+            arrayOf("nestjs")
+        ).forEachIndexed { index, hashtags ->
+            postRepository.save(
+                Post(
+                    title = "게시글 $index",
+                    contentMarkdown = "내용",
+                    contentHtml = "<p>내용</p>",
+                    contentText = "내용",
+                    author = author,
+                    hashtags = hashtags
+                )
+            )
+        }
+        postRepository.save(
+            Post(
+                title = "삭제된 게시글",
+                contentMarkdown = "내용",
+                contentHtml = "<p>내용</p>",
+                contentText = "내용",
+                author = author,
+                hashtags = arrayOf("nextjs"),
+                deleted = true
+            )
+        )
+        entityManager.flush()
+    }
+
+    @Test
+    @DisplayName("검색어 없이 조회하면 사용 게시글 수 내림차순으로 반환한다")
+    fun testSuggestTagsRankedByUsage() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/tags/suggest")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.tags[0].tag").value("Next.js"))
+            .andExpect(jsonPath("$.tags[0].count").value(3))
+            .andExpect(jsonPath("$.tags[1].tag").value("React"))
+            .andExpect(jsonPath("$.tags[1].count").value(2))
+    }
+
+    @Test
+    @DisplayName("대소문자와 문장부호를 무시하고 접두어로 매칭하며 삭제된 게시글은 제외한다")
+    fun testSuggestTagsMatchesNormalizedPrefix() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/tags/suggest")
+                .header("Authorization", "Bearer $accessToken")
+                .param("q", "nextj")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.tags.length()").value(1))
+            .andExpect(jsonPath("$.tags[0].tag").value("Next.js"))
+    }
+
+    @Test
+    @DisplayName("해시태그 목록은 사용 게시글 수와 최근 90일 일자별 활동을 반환한다")
+    fun testGetTagDirectory() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/tags")
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.tags[0].tag").value("Next.js"))
+            .andExpect(jsonPath("$.tags[0].postCount").value(3))
+            .andExpect(jsonPath("$.tags[0].activity.length()").value(90))
+            // 오늘 작성한 게시글은 마지막 칸에 집계
+            .andExpect(jsonPath("$.tags[0].activity[89]").value(3))
+    }
+
+    @Test
+    @DisplayName("해시태그 상세는 함께 쓰인 태그를 게시글 수 내림차순으로 반환한다")
+    fun testGetTagDetailWithRelatedTags() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/tags/detail")
+                .header("Authorization", "Bearer $accessToken")
+                .param("tag", "Next.js")
+        )
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.postCount").value(3))
+            .andExpect(jsonPath("$.relatedTags.length()").value(2))
+            .andExpect(jsonPath("$.relatedTags[0].tag").value("React"))
+            .andExpect(jsonPath("$.relatedTags[0].count").value(2))
+            .andExpect(jsonPath("$.relatedTags[1].tag").value("TypeScript"))
+    }
+
+    @Test
+    @DisplayName("게시글이 없는 해시태그 상세는 404를 반환한다")
+    fun testGetTagDetailNotFound() {
+        val accessToken = jwtTokenService.generateAccessToken(author.id!!, author.email)
+
+        mockMvc.perform(
+            get("/api/tags/detail")
+                .header("Authorization", "Bearer $accessToken")
+                .param("tag", "nextjs")
+        )
+            .andExpect(status().isNotFound)
+    }
+
+    @Test
+    @DisplayName("인기 급상승 해시태그는 로그인 없이 조회할 수 있다")
+    fun testGetTrendingTagsWithoutLogin() {
+        // 이전 기록 없이 이번 주에만 3건 → 급상승
+        mockMvc.perform(get("/api/tags/trending"))
+            .andExpect(status().isOk)
+            .andExpect(jsonPath("$.tags[0].tag").value("Next.js"))
+            .andExpect(jsonPath("$.tags[0].recentCount").value(3))
+    }
+}
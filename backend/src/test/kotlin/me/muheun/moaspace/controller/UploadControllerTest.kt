@@ -0,0 +1,114 @@
+package me.muheun.moaspace.controller
+
+import me.muheun.moaspace.domain.user.User
+import me.muheun.moaspace.repository.UserRepository
+import me.muheun.moaspace.service.JwtTokenService
+import org.junit.jupiter.api.BeforeEach
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import org.springframework.beans.factory.annotation.Autowired
+import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc
+import org.springframework.boot.test.context.SpringBootTest
+import org.springframework.mock.web.MockMultipartFile
+import org.springframework.test.context.ActiveProfiles
+import org.springframework.test.context.TestPropertySource
+import org.springframework.test.web.servlet.MockMvc
+import org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*
+import org.springframework.test.web.servlet.result.MockMvcResultMatchers.*
+import org.springframework.transaction.annotation.Transactional
+import jakarta.persistence.EntityManager
+import org.hamcrest.Matchers.startsWith
+import com.jayway.jsonpath.JsonPath
+
+@SpringBootTest
+@ActiveProfiles("test")
+@AutoConfigureMockMvc  // Security 필터 활성화 (TestSecurityConfig 사용)
+@Transactional
+@TestPropertySource(properties = ["upload.local.directory=build/test-uploads"])
+class UploadControllerTest {
+
+    @Autowired
+    private lateinit var mockMvc: MockMvc
+
+    @Autowired
+    private lateinit var userRepository: UserRepository
+
+    @Autowired
+    private lateinit var jwtTokenService: JwtTokenService
+
+    @Autowired
+    private lateinit var entityManager: EntityManager
+
+    private lateinit var accessToken: String
+
+    // 1x1 투명 PNG
+    private val pngBytes = byteArrayOf(
+        0x89.toByte(), 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A,
+        0x00, 0x00, 0x00, 0x0D, 0x49, 0x48, 0x44, 0x52,
+        0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01,
+        0x08, 0x06, 0x00, 0x00, 0x00, 0x1F, 0x15, 0xC4.toByte(), 0x89.toByte()
+    )
+
+    @BeforeEach
+    fun setUp() {
+        entityManager.createNativeQuery("TRUNCATE TABLE users RESTART IDENTITY CASCADE").executeUpdate()
+        entityManager.flush()
+        entityManager.clear()
+
+        val user = userRepository.save(
+            User(
+                email = "uploader@example.com",
+                name = "업로더",
+                profileImageUrl = null
+            )
+        )
+        accessToken = jwtTokenService.generateAccessToken(user.id!!, user.email)
+    }
+
+    @Test
+    @DisplayName("이미지를 업로드하면 공개 경로를 반환하고 해당 경로로 제공된다")
+    fun testUploadImage() {
+        val file = MockMultipartFile("file", "screenshot.png", "image/png", pngBytes)
+
+        val result = mockMvc.perform(
+            multipart("/api/uploads/images")
+                .file(file)
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isCreated)
+            .andExpect(jsonPath("$.url").value(startsWith("/uploads/")))
+            .andExpect(jsonPath("$.contentType").value("image/png"))
+            .andExpect(jsonPath("$.size").value(pngBytes.size))
+            .andReturn()
+
+        val url = JsonPath.read<String>(result.response.contentAsString, "$.url")
+
+        // 업로드 파일은 인증 없이 제공
+        mockMvc.perform(get(url))
+            .andExpect(status().isOk)
+            .andExpect(content().bytes(pngBytes))
+    }
+
+    @Test
+    @DisplayName("확장자/Content-Type과 무관하게 이미지 시그니처가 아니면 400 오류를 반환한다")
+    fun testUploadDisguisedFile() {
+        val file = MockMultipartFile("file", "evil.png", "image/png", "<svg onload=alert(1)>".toByteArray())
+
+        mockMvc.perform(
+            multipart("/api/uploads/images")
+                .file(file)
+                .header("Authorization", "Bearer $accessToken")
+        )
+            .andExpect(status().isBadRequest)
+            .andExpect(jsonPath("$.message").value("지원하지 않는 이미지 형식입니다 (PNG, JPEG, GIF, WebP만 가능)"))
+    }
+
+    @Test
+    @DisplayName("인증 없이 업로드 시 401 오류를 반환한다")
+    fun testUploadUnauthorized() {
+        val file = MockMultipartFile("file", "screenshot.png", "image/png", pngBytes)
+
+        mockMvc.perform(multipart("/api/uploads/images").file(file))
+            .andExpect(status().isUnauthorized)
+    }
+}
@@ -0,0 +1,113 @@
+package me.muheun.moaspace.security
+
+import org.assertj.core.api.Assertions.assertThat
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+
+/**
+ * 게시글 HTML 허용 목록 정제 단위 테스트
+ */
+class HtmlSanitizerTest {
+
+    @Test
+    @DisplayName("script 태그는 내용까지 제거한다")
+    fun testRemoveScript() {
+        val result = HtmlSanitizer.sanitize("<p>안녕</p><script>alert('xss')</script><SCRIPT src=\"//evil.com/x.js\"></SCRIPT>")
+
+        assertThat(result).isEqualTo("<p>안녕</p>")
+    }
+
+    @Test
+    @DisplayName("이벤트 핸들러 속성(onerror, onload, onclick)을 제거한다")
+    fun testRemoveEventHandlers() {
+        val result = HtmlSanitizer.sanitize(
+            "<img src=\"https://example.com/a.png\" onerror=\"alert(1)\">" +
+                "<svg onload=\"alert(1)\"><circle/></svg>" +
+                "<p onclick=\"alert(1)\">본문</p>"
+        )
+
+        assertThat(result).doesNotContainIgnoringCase("onerror")
+        assertThat(result).doesNotContainIgnoringCase("onload")
+        assertThat(result).doesNotContainIgnoringCase("onclick")
+        assertThat(result).doesNotContain("<svg")
+        assertThat(result).contains("<img src=\"https://example.com/a.png\">")
+        assertThat(result).contains("<p>본문</p>")
+    }
+
+    @Test
+    @DisplayName("javascript:, data:, vbscript: URL을 제거한다")
+    fun testRemoveDangerousUrls() {
+        val result = HtmlSanitizer.sanitize(
+            "<a href=\"javascript:alert(1)\">a</a>" +
+                "<a href=\"JaVaScRiPt:alert(1)\">b</a>" +
+                "<a href=\"java&#x09;script:alert(1)\">c</a>" +
+                "<a href=\"vbscript:msgbox(1)\">d</a>" +
+                "<img src=\"data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+\">"
+        )
+
+        assertThat(result).doesNotContainIgnoringCase("script:")
+        assertThat(result).doesNotContain("data:")
+        assertThat(result).doesNotContain("href")
+    }
+
+    @Test
+    @DisplayName("허용 목록 밖 태그(iframe 외부 도메인, object, style, form)를 제거한다")
+    fun testRemoveDisallowedTags() {
+        val result = HtmlSanitizer.sanitize(
+            "<iframe src=\"https://evil.com/embed\"></iframe>" +
+                "<iframe src=\"http://www.youtube.com/embed/abc\"></iframe>" +
+                "<object data=\"evil.swf\"></object>" +
+                "<style>body{display:none}</style>" +
+                "<form action=\"https://evil.com\"><input name=\"q\"></form>"
+        )
+
+        assertThat(result).doesNotContain("<iframe")
+        assertThat(result).doesNotContain("<object")
+        assertThat(result).doesNotContain("<style")
+        assertThat(result).doesNotContain("<form")
+        assertThat(result).doesNotContain("<input")
+    }
+
+    @Test
+    @DisplayName("style 속성은 허용된 속성/값만 남긴다")
+    fun testSanitizeStyle() {
+        val result = HtmlSanitizer.sanitize(
+            "<p style=\"text-align: center; position: fixed; background-image: url(javascript:alert(1))\">가운데</p>" +
+                "<span style=\"color: expression(alert(1))\">색상</span>"
+        )
+
+        assertThat(result).contains("<p style=\"text-align: center\">가운데</p>")
+        assertThat(result).contains("<span>색상</span>")
+    }
+
+    @Test
+    @DisplayName("새 창 링크에는 rel=noopener를 강제한다")
+    fun testBlankTargetRel() {
+        val result = HtmlSanitizer.sanitize("<a href=\"https://example.com\" target=\"_blank\" rel=\"opener\">링크</a>")
+
+        assertThat(result).contains("rel=\"noopener noreferrer nofollow\"")
+        assertThat(result).doesNotContain("rel=\"opener\"")
+    }
+
+    @Test
+    @DisplayName("RichTextEditor 노드(표, 코드 블록, YouTube, 하이라이트)는 보존한다")
+    fun testPreserveEditorNodes() {
+        val table = "<table><colgroup><col style=\"min-width: 25px\"></colgroup>" +
+            "<tbody><tr><th colspan=\"1\" rowspan=\"1\"><p>제목</p></th></tr>" +
+            "<tr><td colspan=\"1\" rowspan=\"1\" colwidth=\"120\"><p>값</p></td></tr></tbody></table>"
+        val codeBlock = "<pre><code class=\"language-kotlin\">fun main() {\n    println(\"hi\")\n}</code></pre>"
+        val youtube = "<div data-youtube-video=\"\"><iframe src=\"https://www.youtube-nocookie.com/embed/abc123\" " +
+            "width=\"640\" height=\"480\" allowfullscreen=\"true\"></iframe></div>"
+        val highlight = "<p><mark data-color=\"#fef08a\" style=\"background-color: #fef08a\">강조</mark>" +
+            "<a href=\"/posts/1\">내부 링크</a></p>"
+
+        val result = HtmlSanitizer.sanitize(table + codeBlock + youtube + highlight)
+
+        assertThat(result).contains("<col style=\"min-width: 25px\">")
+        assertThat(result).contains("<td colspan=\"1\" rowspan=\"1\" colwidth=\"120\"><p>값</p></td>")
+        assertThat(result).contains(codeBlock)
+        assertThat(result).contains("<iframe src=\"https://www.youtube-nocookie.com/embed/abc123\"")
+        assertThat(result).contains("<mark data-color=\"#fef08a\" style=\"background-color: #fef08a\">강조</mark>")
+        assertThat(result).contains("<a href=\"/posts/1\">내부 링크</a>")
+    }
+}
@@ -0,0 +1,60 @@
+package me.muheun.moaspace.security
+
+import org.assertj.core.api.Assertions.assertThat
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+
+/**
+ * OAuth2 state returnTo 인코딩/검증 단위 테스트
+ */
+class OAuth2ReturnToStateTest {
+
+    @Test
+    @DisplayName("state에 인코딩한 returnTo를 그대로 복원한다")
+    fun testEncodeAndDecode() {
+        // given
+        val returnTo = "/posts/123?tab=comments"
+
+        // when
+        val state = OAuth2ReturnToState.encode("random-state", returnTo)
+
+        // then
+        assertThat(state).startsWith("random-state.")
+        assertThat(OAuth2ReturnToState.decode(state)).isEqualTo(returnTo)
+    }
+
+    @Test
+    @DisplayName("returnTo가 없는 state는 null을 반환한다")
+    fun testDecodeWithoutReturnTo() {
+        assertThat(OAuth2ReturnToState.decode("random-state")).isNull()
+        assertThat(OAuth2ReturnToState.decode(null)).isNull()
+        assertThat(OAuth2ReturnToState.decode("random-state.!!invalid!!")).isNull()
+    }
+
+    @Test
+    @DisplayName("외부 URL 및 프로토콜 상대 경로는 오픈 리다이렉트로 간주하여 거부한다")
+    fun testRejectOpenRedirect() {
+        assertThat(OAuth2ReturnToState.sanitize("https://evil.com")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("//evil.com")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("/\\evil.com")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("/\t/evil.com")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("posts/1")).isNull()
+    }
+
+    @Test
+    @DisplayName("인증 흐름 경로(/login, /callback)는 복귀 대상에서 제외한다")
+    fun testRejectAuthFlowPaths() {
+        assertThat(OAuth2ReturnToState.sanitize("/login")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("/login?returnTo=/posts")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("/callback")).isNull()
+        assertThat(OAuth2ReturnToState.sanitize("/posts")).isEqualTo("/posts")
+    }
+
+    @Test
+    @DisplayName("변조된 state의 returnTo도 동일하게 검증한다")
+    fun testDecodeRejectsMaliciousReturnTo() {
+        val state = OAuth2ReturnToState.encode("random-state", "//evil.com")
+
+        assertThat(OAuth2ReturnToState.decode(state)).isNull()
+    }
+}
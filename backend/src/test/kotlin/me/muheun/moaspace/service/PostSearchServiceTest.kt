@@ -0,0 +1,42 @@
+package me.muheun.moaspace.service
+
+import org.assertj.core.api.Assertions.assertThat
+import org.assertj.core.api.Assertions.within
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+
+/**
+ * hybrid 검색 Reciprocal Rank Fusion 단위 테스트
+ */
+class PostSearchServiceTest {
+
+    @Test
+    @DisplayName("두 신호 모두에 있는 결과가 한쪽에만 있는 1위보다 앞선다")
+    fun testFusionPrefersAgreement() {
+        val keyword = listOf(1L, 2L, 3L)
+        val semantic = listOf(4L, 2L, 1L)
+
+        val fused = PostSearchService.reciprocalRankFusion(listOf(keyword, semantic))
+
+        assertThat(fused.map { it.first }).containsExactly(1L, 2L, 4L, 3L)
+    }
+
+    @Test
+    @DisplayName("RRF 점수는 신호별 1 / (k + rank)의 합이다")
+    fun testFusionScore() {
+        val fused = PostSearchService.reciprocalRankFusion(listOf(listOf("a", "b"), listOf("b")))
+            .toMap()
+
+        val k = PostSearchService.RRF_K
+        assertThat(fused["a"]).isCloseTo(1.0 / (k + 1), within(1e-12))
+        assertThat(fused["b"]).isCloseTo(1.0 / (k + 2) + 1.0 / (k + 1), within(1e-12))
+    }
+
+    @Test
+    @DisplayName("한쪽 신호가 비어 있으면 다른 신호의 순위를 그대로 유지한다")
+    fun testFusionWithEmptySignal() {
+        val fused = PostSearchService.reciprocalRankFusion(listOf(listOf(3L, 1L, 2L), emptyList()))
+
+        assertThat(fused.map { it.first }).containsExactly(3L, 1L, 2L)
+    }
+}
@@ -0,0 +1,33 @@
+package me.muheun.moaspace.service
+
+import org.assertj.core.api.Assertions.assertThat
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+
+/**
+ * 해시태그 이름 변경/병합 태그 교체 단위 테스트
+ */
+class TagAdminServiceTest {
+
+    @Test
+    @DisplayName("첫 번째 source 위치에 target을 두고 나머지 source는 제거한다")
+    fun testRetagKeepsOrder() {
+        val result = TagAdminService.retag(listOf("Hooks", "react", "Kotlin", "리액트"), setOf("react", "리액트"), "React")
+
+        assertThat(result).containsExactly("Hooks", "React", "Kotlin")
+    }
+
+    @Test
+    @DisplayName("target과 키가 같은 기존 태그는 하나로 합친다")
+    fun testRetagMergesSameKey() {
+        val result = TagAdminService.retag(listOf("REACT", "리액트"), setOf("리액트"), "React")
+
+        assertThat(result).containsExactly("React")
+    }
+
+    @Test
+    @DisplayName("source가 없는 태그 목록은 그대로 둔다")
+    fun testRetagWithoutSources() {
+        assertThat(TagAdminService.retag(listOf("Vue", "Nuxt"), setOf("react"), "React")).containsExactly("Vue", "Nuxt")
+    }
+}
@@ -0,0 +1,90 @@
+package me.muheun.moaspace.service
+
+import org.assertj.core.api.Assertions.assertThat
+import org.assertj.core.api.Assertions.within
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+import java.time.LocalDate
+
+/**
+ * 해시태그 추천 신뢰도 집계 / 활동 배열 / 인기 급상승 계산 단위 테스트
+ */
+class TagServiceTest {
+
+    @Test
+    @DisplayName("신뢰도는 태그를 가진 이웃 유사도 합 / 전체 이웃 유사도 합이다")
+    fun testConfidenceIsSimilarityWeighted() {
+        val neighbours = listOf(
+            listOf("Kotlin", "Spring") to 0.9,
+            listOf("Kotlin") to 0.6,
+            listOf("React") to 0.5
+        )
+
+        val result = TagService.aggregateTagConfidence(neighbours).associateBy { it.tag }
+
+        assertThat(result.keys).containsExactly("Kotlin", "Spring", "React")
+        assertThat(result["Kotlin"]!!.confidence).isCloseTo(1.5 / 2.0, within(1e-12))
+        assertThat(result["Kotlin"]!!.postCount).isEqualTo(2)
+        assertThat(result["Spring"]!!.confidence).isCloseTo(0.9 / 2.0, within(1e-12))
+        assertThat(result["React"]!!.confidence).isCloseTo(0.5 / 2.0, within(1e-12))
+    }
+
+    @Test
+    @DisplayName("키가 같은 태그는 하나로 묶고 가장 많이 쓰인 표기를 사용한다")
+    fun testMergesTagsWithSameKey() {
+        val neighbours = listOf(
+            listOf("Next.js") to 0.8,
+            listOf("nextjs") to 0.7,
+            listOf("Next.js", "NEXTJS") to 0.5
+        )
+
+        val result = TagService.aggregateTagConfidence(neighbours)
+
+        assertThat(result).hasSize(1)
+        assertThat(result[0].tag).isEqualTo("Next.js")
+        assertThat(result[0].postCount).isEqualTo(3)
+        assertThat(result[0].confidence).isCloseTo(1.0, within(1e-12))
+    }
+
+    @Test
+    @DisplayName("이웃이 없으면 빈 목록을 반환한다")
+    fun testNoNeighbours() {
+        assertThat(TagService.aggregateTagConfidence(emptyList())).isEmpty()
+    }
+
+    @Test
+    @DisplayName("일자별 활동 배열은 오늘로 끝나고 기록이 없는 날은 0이다")
+    fun testDailySeries() {
+        val today = LocalDate.of(2026, 3, 10)
+        val counts = mapOf(today to 2L, today.minusDays(2) to 1L, today.minusDays(10) to 5L)
+
+        val series = TagService.dailySeries(counts, today, days = 3)
+
+        assertThat(series).containsExactly(1, 0, 2)
+    }
+
+    @Test
+    @DisplayName("최근 7일 게시글이 이전 주 평균보다 많으면 급상승으로 본다")
+    fun testTrendOfGrowingTag() {
+        // 이전 83일 동안 주 1건 꼴, 최근 7일 4건
+        val previous = List(83) { if (it % 7 == 0) 1 else 0 }
+        val recent = listOf(1, 0, 1, 0, 1, 0, 1)
+
+        val trend = TagService.trendOf("Kotlin", previous + recent)!!
+
+        val weeklyAverage = previous.sum().toDouble() / previous.size * 7
+        assertThat(trend.recentCount).isEqualTo(4)
+        assertThat(trend.weeklyAverage).isCloseTo(weeklyAverage, within(1e-12))
+        assertThat(trend.growth).isCloseTo((4 - weeklyAverage) / Math.sqrt(weeklyAverage + 1), within(1e-12))
+    }
+
+    @Test
+    @DisplayName("평소만큼 쓰였거나 최근 게시글이 너무 적으면 급상승이 아니다")
+    fun testTrendOfSteadyOrSparseTag() {
+        val steady = List(90) { 1 }
+        val sparse = List(89) { 0 } + 1
+
+        assertThat(TagService.trendOf("Steady", steady)).isNull()
+        assertThat(TagService.trendOf("Sparse", sparse)).isNull()
+    }
+}
@@ -0,0 +1,43 @@
+package me.muheun.moaspace.service
+
+import me.muheun.moaspace.domain.tag.TagSynonym
+import org.assertj.core.api.Assertions.assertThat
+import org.junit.jupiter.api.DisplayName
+import org.junit.jupiter.api.Test
+
+/**
+ * 해시태그 동의어 그룹 / 검색어 확장 단위 테스트
+ */
+class TagSynonymServiceTest {
+
+    private fun synonym(synonym: String, canonical: String) =
+        TagSynonym(synonym = synonym, synonymKey = TagService.normalizeKey(synonym), canonical = canonical)
+
+    private val groups = TagSynonymService.groupsByKey(
+        listOf(synonym("리액트", "React"), synonym("ReactJS", "React"), synonym("뷰", "Vue"))
+    )
+
+    @Test
+    @DisplayName("그룹의 어느 태그 키로 찾든 대표 태그와 동의어 전체를 반환한다")
+    fun testGroupsByKey() {
+        assertThat(groups["react"]).containsExactly("React", "ReactJS", "리액트")
+        assertThat(groups["리액트"]).containsExactly("React", "ReactJS", "리액트")
+        assertThat(groups["reactjs"]).containsExactly("React", "ReactJS", "리액트")
+        assertThat(groups["vue"]).containsExactly("Vue", "뷰")
+        assertThat(groups["angular"]).isNull()
+    }
+
+    @Test
+    @DisplayName("검색어 단어를 동의어로 하나씩 바꾸고 원래 검색어를 첫 번째로 둔다")
+    fun testQueryVariants() {
+        val variants = TagSynonymService.queryVariants("리액트 상태관리", groups)
+
+        assertThat(variants).containsExactly("리액트 상태관리", "React 상태관리", "ReactJS 상태관리")
+    }
+
+    @Test
+    @DisplayName("구문 검색과 제외어는 바꾸지 않는다")
+    fun testQueryVariantsKeepsPhraseAndExclusion() {
+        assertThat(TagSynonymService.queryVariants("\"리액트\" -뷰", groups)).containsExactly("\"리액트\" -뷰")
+    }
+}
@@ -14,21 +14,33 @@
 -- - RESTART IDENTITY: PostgreSQL에서 시퀀스를 1로 리셋
 -- - CASCADE: 외래 키 제약 조건이 있어도 삭제 가능
 --
--- 삭제 순서: 외래 키 역순 (posts → users, vector_chunks, vector_configs)
+-- 삭제 순서: 외래 키 역순 (comments, drafts, post_revisions → posts → users, vector_chunks, vector_configs, tag_synonyms)
 -- ========================================
 
--- 1. posts 테이블 초기화 (author_id FK → users)
+-- 1. comments 테이블 초기화 (post_id FK → posts, author_id FK → users)
+TRUNCATE TABLE comments RESTART IDENTITY CASCADE;
+
+-- 2. drafts 테이블 초기화 (post_id FK → posts, author_id FK → users)
+TRUNCATE TABLE drafts RESTART IDENTITY CASCADE;
+
+-- 3. post_revisions 테이블 초기화 (post_id FK → posts, editor_id FK → users)
+TRUNCATE TABLE post_revisions RESTART IDENTITY CASCADE;
+
+-- 4. posts 테이블 초기화 (author_id FK → users)
 TRUNCATE TABLE posts RESTART IDENTITY CASCADE;
 
--- 2. users 테이블 초기화
+-- 5. users 테이블 초기화
 TRUNCATE TABLE users RESTART IDENTITY CASCADE;
 
--- 3. vector_chunks 테이블 초기화
+-- 6. vector_chunks 테이블 초기화
 TRUNCATE TABLE vector_chunks RESTART IDENTITY CASCADE;
 
--- 4. vector_configs 테이블 초기화
+-- 7. vector_configs 테이블 초기화
 TRUNCATE TABLE vector_configs RESTART IDENTITY CASCADE;
 
+-- 8. tag_synonyms 테이블 초기화
+TRUNCATE TABLE tag_synonyms RESTART IDENTITY CASCADE;
+
 -- ========================================
 -- ⚠️ 참고: 필요한 초기 데이터는 각 테스트의 @BeforeEach에서 생성하세요!
 -- ========================================
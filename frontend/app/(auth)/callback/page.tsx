@@ -1,9 +1,11 @@
 'use client';
 
 import { use, useEffect } from 'react';
-import { redirect, useRouter } from 'next/navigation';
+import { useRouter } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import { Skeleton } from '@/components/ui/skeleton';
+import { getCurrentUser } from '@/lib/api/auth';
+import { buildLoginUrl, sanitizeReturnTo } from '@/lib/constants/routes';
 
 /**
  * OAuth 콜백 핸들러 페이지 (React 19 + React Compiler)
@@ -11,15 +13,16 @@ import { Skeleton } from '@/components/ui/skeleton';
  * Google OAuth 인증 성공/실패 후 Backend가 리다이렉트하는 페이지
  *
  * 성공 처리 과정:
- * 1. URL 쿼리 파라미터에서 JWT 토큰 추출 (?token=xxx)
- * 2. localStorage + Cookie에 access_token 저장 (Middleware 인증용)
- * 3. useTransition으로 Server Action 호출 (React 19)
- * 4. 홈 페이지(/)로 리다이렉트
+ * 1. Backend가 리다이렉트 응답에서 access_token/refresh_token httpOnly Cookie 설정
+ *    (토큰은 URL/JavaScript에 노출되지 않음)
+ * 2. /api/auth/me 조회로 Cookie 인증 확인 + 사용자 정보 캐시
+ * 3. 로그인 전 위치(?returnTo=, Backend OAuth state로 왕복) 또는 홈 페이지(/)로 리다이렉트
+ *    returnTo는 AUTH_CONFIG 경로만 허용 (오픈 리다이렉트 방지)
  *
  * 실패 처리 과정:
  * 1. URL 쿼리 파라미터에서 에러 정보 추출 (?error=xxx&message=yyy)
  * 2. 사용자 친화적 에러 메시지 표시
- * 3. 3초 후 /login 페이지로 자동 리다이렉트
+ * 3. 3초 후 /login 페이지로 자동 리다이렉트 (returnTo 유지)
  *
  * React Compiler: 자동 메모이제이션, useMemo/useCallback 불필요
  * React 19: use() API for suspense-aware data fetching
@@ -27,7 +30,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 export default function CallbackPage({
   searchParams
 }: {
-  searchParams: Promise<{ token?: string; error?: string; message?: string }>
+  searchParams: Promise<{ error?: string; message?: string; returnTo?: string }>
 }) {
   const router = useRouter();
   const queryClient = useQueryClient();
@@ -35,35 +38,33 @@ export default function CallbackPage({
   const params = use(searchParams);
 
   useEffect(() => {
-    const { token, error } = params;
+    const { error } = params;
+    const returnTo = sanitizeReturnTo(params.returnTo);
 
     // 에러가 있으면 3초 후 /login으로 리다이렉트
     if (error) {
       const timer = setTimeout(() => {
-        router.push('/login');
+        router.push(buildLoginUrl(returnTo));
       }, 3000);
       return () => clearTimeout(timer);
     }
 
-    // 토큰 없으면 /login으로 리다이렉트
-    if (!token) {
-      redirect('/login');
-      return;
-    }
-
-    // 로그인 처리 (동기식)
+    // 로그인 처리
     (async () => {
-      // JWT 토큰 저장 (localStorage + Cookie 동기 설정)
-      localStorage.setItem('access_token', token);
-
-      // Cookie 동기 설정 (클라이언트 사이드)
-      document.cookie = `access_token=${token}; path=/; max-age=${60*60*24*7}; SameSite=Lax`;
-
-      // TanStack Query 캐시에 사용자 정보 로드 (완료 대기)
-      await queryClient.refetchQueries({ queryKey: ['auth', 'me'] });
+      // TanStack Query 캐시에 사용자 정보 로드 (httpOnly Cookie 인증 확인)
+      try {
+        await queryClient.fetchQuery({
+          queryKey: ['auth', 'me'],
+          queryFn: ({ signal }) => getCurrentUser({ signal }),
+        });
+      } catch {
+        // Cookie가 설정되지 않았으면 (직접 접근 등) /login으로 리다이렉트
+        router.replace(buildLoginUrl(returnTo));
+        return;
+      }
 
-      // 홈 페이지로 리다이렉트 (window.location.href로 강제 새로고침)
-      window.location.href = '/';
+      // 로그인 전 위치 또는 홈 페이지로 리다이렉트 (window.location.href로 강제 새로고침)
+      window.location.href = returnTo ?? '/';
     })();
   }, [params, router, queryClient]);
 
@@ -1,6 +1,9 @@
 'use client';
 
+import { use, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { API_CONFIG, refreshSession } from '@/lib/api/client';
+import { sanitizeReturnTo } from '@/lib/constants/routes';
 
 /**
  * 로그인 페이지
@@ -11,17 +14,38 @@ import { Button } from '@/components/ui/button';
  * - Semantic HTML: <main>, <section>, <h1> 태그 사용
  * - ARIA: aria-label로 버튼 설명 추가
  */
-export default function LoginPage() {
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ returnTo?: string }>
+}) {
+  const { returnTo } = use(searchParams);
+
+  /**
+   * Access Token 만료로 Middleware가 보낸 경우 Refresh Token으로 조용히 재로그인
+   *
+   * refresh_token Cookie(Path=/api/auth)는 Middleware에서 보이지 않으므로 클라이언트에서 시도
+   * 실패하면 (Refresh Token 없음/만료) 로그인 버튼을 그대로 표시
+   */
+  useEffect(() => {
+    refreshSession()
+      .then(() => {
+        window.location.href = sanitizeReturnTo(returnTo) ?? '/posts';
+      })
+      .catch(() => {});
+  }, [returnTo]);
 
   /**
    * Google OAuth 로그인 시작
    *
    * Backend의 /oauth2/authorization/google 엔드포인트로 리다이렉트
    * Spring Security OAuth2 클라이언트가 Google 로그인 화면으로 리다이렉트
+   * returnTo는 Backend가 OAuth state에 담아 왕복시킨 뒤 /callback?returnTo=...로 되돌려줌
    */
   const handleGoogleLogin = () => {
-    const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
-    window.location.href = `${apiUrl}/oauth2/authorization/google`;
+    const safeReturnTo = sanitizeReturnTo(returnTo);
+    const query = safeReturnTo ? `?returnTo=${encodeURIComponent(safeReturnTo)}` : '';
+    window.location.href = `${API_CONFIG.baseURL}/oauth2/authorization/google${query}`;
   };
 
   return (
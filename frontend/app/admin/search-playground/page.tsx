@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { RequireRole } from '@/components/auth/RequireRole';
+import { PostSearchResultItem } from '@/components/posts/PostSearchResultItem';
+import { PostSearchSkeleton } from '@/components/posts/PostSearchSkeleton';
+import { PostSearchErrorBoundary } from '@/components/posts/PostSearchErrorBoundary';
+import { usePostSearch } from '@/lib/hooks/usePosts';
+import { useUpdateVectorConfig, useVectorConfigsByEntity } from '@/lib/hooks/useVectorConfigs';
+import { VECTOR_CONFIG_BOUNDS } from '@/types/api/vectorConfig';
+import type { VectorConfigResponse } from '@/types/api/vectorConfig';
+import type { PostSearchResultItem as SearchItem } from '@/types/api/post';
+
+const ENTITY_TYPE = 'Post';
+
+interface DraftConfig {
+  weight: number;
+  enabled: boolean;
+}
+
+/**
+ * 필드별 원본 스코어에 가중치·임계값을 적용해 totalScore 재계산
+ * (Backend PostSearchService semantic 검색의 totalScore 계산식과 동일)
+ */
+function computeTotalScore(
+  fieldScores: Record<string, number>,
+  configs: VectorConfigResponse[],
+  drafts: Record<number, DraftConfig>
+): number {
+  return configs.reduce((sum, config) => {
+    const { weight, enabled } = drafts[config.id] ?? config;
+    const score = fieldScores[config.fieldName];
+    if (!enabled || score === undefined || score < config.threshold) {
+      return sum;
+    }
+    return sum + score * weight;
+  }, 0);
+}
+
+/**
+ * totalScore 내림차순 정렬 (동점이면 게시글 ID 오름차순)
+ */
+function rankByScore(items: SearchItem[]): SearchItem[] {
+  return [...items].sort((a, b) => b.totalScore - a.totalScore || a.post.id - b.post.id);
+}
+
+/**
+ * 검색 플레이그라운드 페이지
+ *
+ * 하나의 검색어로 /api/posts/search를 실행한 뒤, 필드별 원본 스코어(fieldScores)에
+ * draft 가중치를 적용해 totalScore와 순위를 클라이언트에서 재계산
+ * 저장 전 순위 변동을 미리 확인하고, 확정 시 vector_configs에 반영
+ *
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
+ * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
+ */
+function SearchPlayground() {
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [drafts, setDrafts] = useState<Record<number, DraftConfig>>({});
+
+  const { data: configs, isLoading: isConfigsLoading } = useVectorConfigsByEntity(ENTITY_TYPE);
+  const { mutateAsync: updateConfig, isPending: isSaving } = useUpdateVectorConfig();
+
+  // 가중치 효과를 보기 위해 임계값 없이 검색 (필드별 임계값은 재계산 시 적용)
+  const { data, isLoading, error, refetch } = usePostSearch(
+    { query, threshold: 0, limit: 20 },
+    !!query
+  );
+
+  const entityConfigs = configs ?? [];
+  const baseline = rankByScore(data?.results ?? []);
+  const baselineRank = new Map(baseline.map((item, index) => [item.post.id, index]));
+  const preview = rankByScore(
+    baseline.map((item) => ({
+      ...item,
+      totalScore: computeTotalScore(item.fieldScores, entityConfigs, drafts),
+    }))
+  );
+
+  const dirtyConfigs = entityConfigs.filter((config) => {
+    const draft = drafts[config.id];
+    return draft && (draft.weight !== config.weight || draft.enabled !== config.enabled);
+  });
+
+  const updateDraft = (config: VectorConfigResponse, patch: Partial<DraftConfig>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [config.id]: { ...(prev[config.id] ?? config), ...patch },
+    }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!queryInput.trim()) return;
+    setQuery(queryInput.trim());
+  };
+
+  const handleSave = async () => {
+    try {
+      await Promise.all(
+        dirtyConfigs.map((config) =>
+          updateConfig({ id: config.id, request: { ...drafts[config.id] } })
+        )
+      );
+      setDrafts({});
+      toast.success(`${dirtyConfigs.length}개 필드의 가중치가 저장되었습니다`);
+      if (query) refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '가중치 저장에 실패했습니다.');
+    }
+  };
+
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">검색 플레이그라운드</h1>
+          <p className="text-muted-foreground">
+            가중치를 조정하면 저장 전에 순위 변동을 미리 확인할 수 있습니다.{' '}
+            <Link href="/admin/vector-configs" className="underline">
+              벡터 설정 관리
+            </Link>
+          </p>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex gap-2 mb-8" role="search">
+          <Label htmlFor="playground-query" className="sr-only">
+            검색어
+          </Label>
+          <Input
+            id="playground-query"
+            type="search"
+            value={queryInput}
+            onChange={(e) => setQueryInput(e.target.value)}
+            placeholder="검색어를 입력하세요"
+            className="flex-1"
+          />
+          <Button type="submit" disabled={!queryInput.trim() || isLoading}>
+            <Search className="h-4 w-4 mr-2" aria-hidden="true" />
+            검색
+          </Button>
+        </form>
+
+        <div className="grid gap-8 lg:grid-cols-[320px_1fr]">
+          {/* Draft 가중치 */}
+          <aside aria-label="가중치 조정">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{ENTITY_TYPE} 필드 가중치</CardTitle>
+                <CardDescription>
+                  {VECTOR_CONFIG_BOUNDS.weight.min.toFixed(1)} ~{' '}
+                  {VECTOR_CONFIG_BOUNDS.weight.max.toFixed(1)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {isConfigsLoading && <Skeleton className="h-32 w-full" />}
+
+                {entityConfigs.map((config) => {
+                  const draft = drafts[config.id] ?? config;
+                  const sliderId = `playground-weight-${config.id}`;
+                  return (
+                    <div key={config.id} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={sliderId} className="font-mono">
+                          {config.fieldName}
+                        </Label>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-sm">{draft.weight.toFixed(1)}</span>
+                          <Switch
+                            checked={draft.enabled}
+                            onCheckedChange={(enabled) => updateDraft(config, { enabled })}
+                            aria-label={`${config.fieldName} 활성화`}
+                          />
+                        </div>
+                      </div>
+                      <Slider
+                        id={sliderId}
+                        min={VECTOR_CONFIG_BOUNDS.weight.min}
+                        max={VECTOR_CONFIG_BOUNDS.weight.max}
+                        step={VECTOR_CONFIG_BOUNDS.weight.step}
+                        value={[draft.weight]}
+                        onValueChange={([weight]) => updateDraft(config, { weight })}
+                        disabled={!draft.enabled}
+                        aria-label={`${config.fieldName} 가중치`}
+                      />
+                      {draft.weight !== config.weight && (
+                        <p className="text-xs text-muted-foreground">
+                          저장된 값: {config.weight.toFixed(1)}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDrafts({})}
+                    disabled={dirtyConfigs.length === 0 || isSaving}
+                  >
+                    초기화
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={dirtyConfigs.length === 0 || isSaving}
+                  >
+                    {isSaving ? '저장 중...' : `저장 (${dirtyConfigs.length})`}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </aside>
+
+          {/* 미리보기 결과 */}
+          <section aria-label="미리보기 결과" aria-live="polite">
+            {!query && (
+              <p className="text-center text-muted-foreground py-12">
+                검색어를 입력하면 결과가 표시됩니다.
+              </p>
+            )}
+
+            {isLoading && <PostSearchSkeleton />}
+
+            {error && <PostSearchErrorBoundary error={error} onRetry={() => refetch()} />}
+
+            {data && !isLoading && !error && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold">
+                  미리보기 ({preview.length}건)
+                </h2>
+                {preview.length === 0 && (
+                  <p className="text-muted-foreground">검색 결과가 없습니다.</p>
+                )}
+                {preview.map((item, index) => (
+                  <PostSearchResultItem
+                    key={item.post.id}
+                    item={item}
+                    query={query}
+                    rankChange={(baselineRank.get(item.post.id) ?? index) - index}
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </ErrorBoundary>
+  );
+}
+
+/**
+ * ADMIN 역할만 접근 가능 (AUTH_CONFIG.roles + Middleware와 동일 기준)
+ * 권한 확인 전에는 내부 쿼리가 실행되지 않도록 RequireRole로 감쌈
+ */
+export default function SearchPlaygroundPage() {
+  return (
+    <RequireRole roles={['ADMIN']}>
+      <SearchPlayground />
+    </RequireRole>
+  );
+}
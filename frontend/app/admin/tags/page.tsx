@@ -0,0 +1,67 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { RequireRole } from '@/components/auth/RequireRole';
+import { TagMergeForm } from '@/components/admin/TagMergeForm';
+import { TagSynonymManager } from '@/components/admin/TagSynonymManager';
+
+/**
+ * 태그 관리 페이지
+ *
+ * 태그 이름 변경·병합(/api/admin/tags/merge)과 동의어(/api/admin/tags/synonyms) 관리
+ *
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
+ * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
+ */
+function TagsAdmin() {
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">태그 관리</h1>
+          <p className="text-muted-foreground">
+            표기가 제각각인 태그를 하나로 합치고, 동의어로 검색해도 같은 게시글을 찾도록 설정합니다.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>이름 변경 · 병합</CardTitle>
+              <CardDescription>
+                선택한 태그가 달린 게시글의 태그를 모두 바꿉니다. 게시글 수정 기록에 남습니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TagMergeForm />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>동의어</CardTitle>
+              <CardDescription>
+                동의어로 필터·검색하면 대표 태그가 달린 게시글도 함께 보여줍니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TagSynonymManager />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </ErrorBoundary>
+  );
+}
+
+/**
+ * MODERATOR 이상 접근 가능 (AUTH_CONFIG.roles + Middleware와 동일 기준)
+ */
+export default function TagsAdminPage() {
+  return (
+    <RequireRole roles={['MODERATOR']}>
+      <TagsAdmin />
+    </RequireRole>
+  );
+}
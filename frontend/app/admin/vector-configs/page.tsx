@@ -0,0 +1,139 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { RequireRole } from '@/components/auth/RequireRole';
+import { VectorConfigRow } from '@/components/admin/VectorConfigRow';
+import { useVectorConfigs } from '@/lib/hooks/useVectorConfigs';
+import { VECTOR_CONFIG_BOUNDS } from '@/types/api/vectorConfig';
+import type { VectorConfigResponse } from '@/types/api/vectorConfig';
+
+/**
+ * entityType별로 설정을 그룹화 (필드명 오름차순)
+ */
+function groupByEntityType(configs: VectorConfigResponse[]): [string, VectorConfigResponse[]][] {
+  const groups = new Map<string, VectorConfigResponse[]>();
+  for (const config of configs) {
+    const group = groups.get(config.entityType) ?? [];
+    group.push(config);
+    groups.set(config.entityType, group);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([entityType, group]) => [
+      entityType,
+      group.sort((a, b) => a.fieldName.localeCompare(b.fieldName)),
+    ]);
+}
+
+/**
+ * 벡터 설정 관리 페이지
+ *
+ * /api/vector-configs의 가중치(weight), 임계값(threshold), 활성화(enabled)를
+ * entityType별로 조회하고 인라인으로 수정
+ *
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
+ * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
+ */
+function VectorConfigsAdmin() {
+  const { data: configs, isLoading, error, refetch } = useVectorConfigs();
+
+  const groups = configs ? groupByEntityType(configs) : [];
+
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">벡터 설정 관리</h1>
+          <p className="text-muted-foreground">
+            엔티티 필드별 검색 가중치({VECTOR_CONFIG_BOUNDS.weight.min.toFixed(1)} ~{' '}
+            {VECTOR_CONFIG_BOUNDS.weight.max.toFixed(1)})와 유사도 임계값(
+            {VECTOR_CONFIG_BOUNDS.threshold.min.toFixed(1)} ~{' '}
+            {VECTOR_CONFIG_BOUNDS.threshold.max.toFixed(1)})을 조정합니다.{' '}
+            <Link href="/admin/search-playground" className="underline">
+              검색 플레이그라운드에서 미리보기
+            </Link>
+          </p>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-48 w-full" />
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div
+            className="p-4 bg-red-50 border border-red-200 rounded-md flex items-center justify-between"
+            role="alert"
+            aria-live="polite"
+          >
+            <p className="text-red-800 text-sm">
+              벡터 설정을 불러오지 못했습니다. {error.message}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              다시 시도
+            </Button>
+          </div>
+        )}
+
+        {configs && groups.length === 0 && (
+          <p className="text-center text-muted-foreground py-12">등록된 벡터 설정이 없습니다.</p>
+        )}
+
+        <div className="space-y-6">
+          {groups.map(([entityType, entityConfigs]) => (
+            <Card key={entityType}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {entityType}
+                  <Badge variant="secondary">{entityConfigs.length}개 필드</Badge>
+                </CardTitle>
+                <CardDescription>
+                  활성 필드 {entityConfigs.filter((c) => c.enabled).length}개
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <caption className="sr-only">{entityType} 벡터 설정</caption>
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th scope="col" className="pb-2 pr-4 font-medium">필드</th>
+                      <th scope="col" className="pb-2 pr-4 font-medium">가중치</th>
+                      <th scope="col" className="pb-2 pr-4 font-medium">임계값</th>
+                      <th scope="col" className="pb-2 pr-4 font-medium">활성화</th>
+                      <th scope="col" className="pb-2 font-medium sr-only">작업</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entityConfigs.map((config) => (
+                      <VectorConfigRow key={config.id} config={config} />
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </ErrorBoundary>
+  );
+}
+
+/**
+ * ADMIN 역할만 접근 가능 (AUTH_CONFIG.roles + Middleware와 동일 기준)
+ * 권한 확인 전에는 내부 쿼리가 실행되지 않도록 RequireRole로 감쌈
+ */
+export default function VectorConfigsAdminPage() {
+  return (
+    <RequireRole roles={['ADMIN']}>
+      <VectorConfigsAdmin />
+    </RequireRole>
+  );
+}
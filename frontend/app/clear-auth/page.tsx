@@ -5,13 +5,16 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, XCircle } from 'lucide-react';
+import { logout } from '@/lib/api/auth';
+import { localDraftStore } from '@/lib/drafts/localDraftStore';
 
 /**
  * 인증 정보 완전 삭제 페이지
  *
  * 목적:
- * - Cookie의 access_token 삭제
- * - localStorage의 access_token 삭제
+ * - httpOnly Cookie의 access_token / refresh_token 삭제 (Backend 로그아웃 호출)
+ * - 이전 버전에서 localStorage에 저장된 access_token 정리
+ * - IndexedDB 로컬 초안 삭제
  * - 테스트 및 디버깅용
  */
 export default function ClearAuthPage() {
@@ -23,12 +26,11 @@ export default function ClearAuthPage() {
     const clearAll = async () => {
       const results: string[] = [];
 
-      // 1. localStorage 확인 및 삭제
+      // 1. 이전 버전에서 저장한 localStorage 토큰 정리
       try {
-        const localToken = localStorage.getItem('access_token');
-        if (localToken) {
+        if (localStorage.getItem('access_token')) {
           localStorage.removeItem('access_token');
-          results.push('✅ localStorage의 access_token 삭제됨');
+          results.push('✅ localStorage의 access_token 삭제됨 (이전 버전 잔여)');
         } else {
           results.push('⚪ localStorage에 access_token 없음');
         }
@@ -36,26 +38,20 @@ export default function ClearAuthPage() {
         results.push('❌ localStorage 삭제 실패: ' + error);
       }
 
-      // 2. Cookie 삭제 (서버 액션 호출)
+      // 2. httpOnly Cookie 삭제 (JavaScript로 삭제 불가 → Backend 로그아웃 호출)
       try {
-        const response = await fetch('/api/auth/clear-cookie', {
-          method: 'POST',
-        });
-        if (response.ok) {
-          results.push('✅ Cookie의 access_token 삭제됨');
-        } else {
-          results.push('❌ Cookie 삭제 실패');
-        }
-      } catch {
-        // API가 없어도 클라이언트에서 직접 삭제
-        document.cookie = 'access_token=; Max-Age=0; path=/;';
-        results.push('✅ Cookie 직접 삭제 시도');
+        await logout();
+        results.push('✅ access_token / refresh_token Cookie 만료 처리됨');
+      } catch (error) {
+        results.push('❌ Cookie 삭제 실패: ' + (error instanceof Error ? error.message : error));
       }
 
-      // 3. 모든 쿠키 확인
-      const allCookies = document.cookie;
-      if (allCookies.includes('access_token')) {
-        results.push('⚠️ 경고: Cookie에 아직 access_token이 남아있을 수 있음');
+      // 3. 로컬 초안 삭제 (다른 사용자에게 노출되지 않도록)
+      try {
+        await localDraftStore.clear();
+        results.push('✅ IndexedDB 로컬 초안 삭제됨');
+      } catch (error) {
+        results.push('❌ 로컬 초안 삭제 실패: ' + (error instanceof Error ? error.message : error));
       }
 
       setDetails(results);
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FilePen, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { useDiscardDraft, useDrafts, type DraftListItem } from '@/lib/hooks/useDrafts';
+
+/**
+ * 초안 이어쓰기 경로 (수정 초안은 게시글 수정 페이지, 새 글은 작성 페이지)
+ */
+function getResumeHref(draft: DraftListItem): string {
+  return draft.postId !== null
+    ? `/posts/${draft.postId}/edit`
+    : `/posts/new?draft=${encodeURIComponent(draft.draftKey)}`;
+}
+
+/**
+ * 초안 목록 페이지
+ *
+ * 서버 초안과 이 기기(IndexedDB)에만 남은 초안을 함께 보여주고 이어쓰기/삭제 제공
+ *
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
+ * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
+ */
+export default function DraftsPage() {
+  const { data: drafts, isLoading, error } = useDrafts();
+  const { mutate: discardDraft, isPending: isDiscarding } = useDiscardDraft();
+
+  const [discardTarget, setDiscardTarget] = useState<DraftListItem | null>(null);
+
+  const handleDiscard = () => {
+    if (!discardTarget) return;
+
+    discardDraft(discardTarget.draftKey, {
+      onSuccess: () => {
+        toast.success('초안이 삭제되었습니다');
+        setDiscardTarget(null);
+      },
+      onError: (err) => {
+        toast.error(err instanceof Error ? err.message : '초안 삭제에 실패했습니다.');
+      },
+    });
+  };
+
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">초안</h1>
+          <Button asChild>
+            <Link href="/posts/new">새 글 작성</Link>
+          </Button>
+        </div>
+
+        {isLoading && (
+          <div className="space-y-4" role="status" aria-label="초안 목록 로딩 중">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-24 w-full" />
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>초안 목록을 불러오지 못했습니다</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {drafts && drafts.length === 0 && (
+          <section className="text-center py-16 text-gray-500">
+            <p>저장된 초안이 없습니다.</p>
+            <p className="text-sm mt-2">글을 작성하면 자동으로 초안이 저장됩니다.</p>
+          </section>
+        )}
+
+        {drafts && drafts.length > 0 && (
+          <ul className="space-y-4" aria-label="초안 목록">
+            {drafts.map((draft) => (
+              <li key={draft.draftKey}>
+                <Card>
+                  <CardContent className="flex items-start justify-between gap-4 py-4">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <h2 className="font-semibold truncate">{draft.title || '(제목 없음)'}</h2>
+                        {draft.postId !== null && <Badge variant="secondary">게시글 수정</Badge>}
+                        {draft.hasLocalChanges && <Badge variant="outline">이 기기에만 저장됨</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600 line-clamp-2">{draft.excerpt || '내용 없음'}</p>
+                      <p className="text-xs text-gray-500">
+                        <time dateTime={new Date(draft.updatedAt).toISOString()}>
+                          {format(draft.updatedAt, 'yyyy-MM-dd HH:mm')}
+                        </time>{' '}
+                        저장
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button size="sm" asChild>
+                        <Link href={getResumeHref(draft)} aria-label={`${draft.title || '제목 없는 초안'} 이어쓰기`}>
+                          <FilePen size={16} aria-hidden="true" />
+                          이어쓰기
+                        </Link>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDiscardTarget(draft)}
+                        aria-label={`${draft.title || '제목 없는 초안'} 삭제`}
+                      >
+                        <Trash2 size={16} aria-hidden="true" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <AlertDialog open={discardTarget !== null} onOpenChange={(open) => !open && setDiscardTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>초안 삭제 확인</AlertDialogTitle>
+              <AlertDialogDescription>
+                이 기기와 서버에 저장된 초안이 모두 삭제되며 되돌릴 수 없습니다.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDiscarding}>취소</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDiscard}
+                disabled={isDiscarding}
+                className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+              >
+                {isDiscarding ? '삭제 중...' : '삭제'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,10 @@
+import { ForbiddenNotice } from '@/components/auth/RequireRole';
+
+/**
+ * 접근 권한 없음 페이지
+ *
+ * Middleware가 AUTH_CONFIG.roles 경로에 역할 권한 없이 접근한 사용자를 리다이렉트하는 페이지
+ */
+export default function ForbiddenPage() {
+  return <ForbiddenNotice />;
+}
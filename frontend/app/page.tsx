@@ -1,6 +1,7 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TrendingTags } from '@/components/tags/TrendingTags';
 import { FileText, Search, Zap } from 'lucide-react';
 
 /**
@@ -12,6 +13,7 @@ import { FileText, Search, Zap } from 'lucide-react';
  * 기능:
  * - 프로젝트 소개
  * - 주요 기능 안내
+ * - 이번 주 인기 태그
  * - 게시판으로 이동 CTA
  */
 export default function Home() {
@@ -73,6 +75,13 @@ export default function Home() {
         </Card>
       </div>
 
+      {/* 이번 주 인기 태그 (조회 실패 시 숨김) */}
+      <Card>
+        <CardContent>
+          <TrendingTags limit={5} />
+        </CardContent>
+      </Card>
+
       {/* CTA 버튼 */}
       <div className="flex flex-col items-center gap-4 py-8">
         <div className="flex flex-col sm:flex-row items-center gap-4">
@@ -1,15 +1,30 @@
 'use client';
 
-import { use, useState, useEffect, startTransition } from 'react';
+import { use, useState, useEffect, useMemo, startTransition } from 'react';
 import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { PostFormError } from '@/components/posts/PostFormError';
+import { AutosaveIndicator } from '@/components/drafts/AutosaveIndicator';
+import { DraftRestoreDialog } from '@/components/drafts/DraftRestoreDialog';
 import { usePost, useUpdatePost } from '@/lib/hooks/usePosts';
 import { useAuth } from '@/lib/hooks/useAuth';
+import {
+  draftKeyForPost,
+  useDiscardDraft,
+  useDraftAutosave,
+  useDraftRecovery,
+  type DraftContent,
+  type DraftRecoveryCandidate,
+} from '@/lib/hooks/useDrafts';
+import { HashtagInput } from '@/components/posts/HashtagInput';
+import { HashtagRecommendations } from '@/components/posts/HashtagRecommendations';
+import type { PostDto } from '@/types/api/post';
 import { marked } from 'marked';
 
 /**
@@ -24,10 +39,32 @@ const RichTextEditor = dynamic(
   }
 );
 
+/**
+ * 에디터 초기 HTML
+ *
+ * Backend PostResponse는 항상 contentHtml과 contentMarkdown 모두 제공
+ * - contentHtml 우선 사용 (렌더링된 HTML)
+ * - contentHtml 없으면 contentMarkdown을 HTML로 변환
+ * - contentText는 Backend 응답에 포함되지 않음 (벡터화 전용, DB 내부용)
+ */
+function getInitialHtml(post: PostDto): string {
+  if (post.contentHtml) {
+    return post.contentHtml;
+  }
+  if (post.contentMarkdown) {
+    // Markdown → HTML 변환 (Lexical이 파싱할 수 있도록)
+    return marked.parse(post.contentMarkdown, { async: false }) as string;
+  }
+  // 둘 다 없으면 빈 에디터 (실제로는 Backend가 항상 둘 다 제공하므로 발생하지 않음)
+  return '<p></p>';
+}
+
 /**
  * 게시글 수정 페이지
  * T090: Error Boundary 적용
  *
+ * 수정 중인 내용은 post-{postId} 초안으로 자동 저장 (새로고침/재로그인 후 복원)
+ *
  * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
  * Constitution Principle VIII: content (HTML) + plainContent (Plain Text) 분리 저장
  * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
@@ -45,38 +82,62 @@ export default function EditPostPage({
   const { data: user, isLoading: isAuthLoading } = useAuth();
   const { mutate: updatePost, isPending, error } = useUpdatePost();
 
+  const { mutate: discardDraft } = useDiscardDraft();
+
   const [title, setTitle] = useState('');
   const [contentHtml, setContentHtml] = useState('');
-  const [hashtags, setHashtags] = useState('');
+  const [hashtags, setHashtags] = useState<string[]>([]);
+  const [recoveryResolved, setRecoveryResolved] = useState(false);
+
+  const draftKey = draftKeyForPost(postId);
+  const isAuthor = !!post && !!user && user.id === post.author.id;
+
+  // 게시글 원본 (초안 비교 기준)
+  const original = useMemo<DraftContent | null>(
+    () => (post ? { title: post.title, contentHtml: getInitialHtml(post), hashtags: post.hashtags } : null),
+    [post]
+  );
+
+  const { data: recoveryCandidates, isFetched: isRecoveryFetched } = useDraftRecovery(
+    isAuthor ? draftKey : null,
+    original
+  );
+  const pendingCandidates = recoveryResolved ? [] : recoveryCandidates ?? [];
+
+  const { status: autosaveStatus, lastSavedAt, clear: clearDraft } = useDraftAutosave(
+    isAuthor ? draftKey : null,
+    postId,
+    { title, contentHtml, hashtags },
+    {
+      enabled: isRecoveryFetched && pendingCandidates.length === 0 && !isPending,
+      baseline: original,
+    }
+  );
 
   /**
    * 게시글 데이터 로드 후 폼 초기화
-   *
-   * Backend PostResponse는 항상 contentHtml과 contentMarkdown 모두 제공
-   * - contentHtml 우선 사용 (렌더링된 HTML)
-   * - contentHtml 없으면 contentMarkdown을 HTML로 변환
-   * - contentText는 Backend 응답에 포함되지 않음 (벡터화 전용, DB 내부용)
    */
   useEffect(() => {
-    if (post) {
+    if (original) {
       startTransition(() => {
-        setTitle(post.title);
-        setHashtags(post.hashtags.join(', '));
-
-        // HTML 우선, 없으면 Markdown을 HTML로 변환
-        if (post.contentHtml) {
-          setContentHtml(post.contentHtml);
-        } else if (post.contentMarkdown) {
-          // Markdown → HTML 변환 (Lexical이 파싱할 수 있도록)
-          const html = marked.parse(post.contentMarkdown, { async: false }) as string;
-          setContentHtml(html);
-        } else {
-          // 둘 다 없으면 빈 에디터 (실제로는 Backend가 항상 둘 다 제공하므로 발생하지 않음)
-          setContentHtml('<p></p>');
-        }
+        setTitle(original.title);
+        setHashtags(original.hashtags);
+        setContentHtml(original.contentHtml);
       });
     }
-  }, [post]);
+  }, [original]);
+
+  const handleRestore = (candidate: DraftRecoveryCandidate) => {
+    setTitle(candidate.content.title);
+    setContentHtml(candidate.content.contentHtml);
+    setHashtags(candidate.content.hashtags);
+    setRecoveryResolved(true);
+  };
+
+  const handleDiscard = () => {
+    discardDraft(draftKey);
+    setRecoveryResolved(true);
+  };
 
   /**
    * Tiptap 에디터 내용 변경 시 호출
@@ -114,28 +175,24 @@ export default function EditPostPage({
       return;
     }
 
-    const hashtagArray = hashtags
-      .split(/[\s,]+/)
-      .filter((tag) => tag.trim().length > 0)
-      .slice(0, 10);
-
     updatePost(
       {
         id: postId,
         request: {
           title: title.trim(),
           contentHtml: contentHtml,
-          hashtags: hashtagArray,
+          hashtags,
         },
       },
       {
         onSuccess: () => {
+          void clearDraft();
           toast.success('게시글이 수정되었습니다!');
           router.push(`/posts/${postId}`);
         },
         onError: (err) => {
+          // 실패 안내 토스트는 useUpdatePost 롤백 시 표시
           console.error('게시글 수정 실패:', err);
-          toast.error(err instanceof Error ? err.message : '게시글 수정에 실패했습니다.');
         },
       }
     );
@@ -227,7 +284,21 @@ export default function EditPostPage({
   return (
     <ErrorBoundary>
       <main className="container mx-auto px-4 py-8 max-w-6xl">
-        <h1 className="text-3xl font-bold mb-8">게시글 수정</h1>
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-bold">게시글 수정</h1>
+          <div className="flex items-center gap-4">
+            <AutosaveIndicator status={autosaveStatus} lastSavedAt={lastSavedAt} />
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/drafts">초안 목록</Link>
+            </Button>
+          </div>
+        </div>
+
+        <DraftRestoreDialog
+          candidates={pendingCandidates}
+          onRestore={handleRestore}
+          onDiscard={handleDiscard}
+        />
 
         <form onSubmit={handleSubmit} className="space-y-6">
         <div>
@@ -270,29 +341,27 @@ export default function EditPostPage({
           >
             해시태그 (선택)
           </label>
-          <Input
+          <HashtagInput
             id="hashtags"
-            type="text"
             value={hashtags}
-            onChange={(e) => setHashtags(e.target.value)}
-            placeholder="태그를 입력하세요 (공백 또는 쉼표로 구분, 최대 10개)"
+            onChange={setHashtags}
+            disabled={isPending}
+          />
+          <HashtagRecommendations
+            title={title}
+            contentHtml={contentHtml}
+            value={hashtags}
+            onChange={setHashtags}
+            excludePostId={postId}
             disabled={isPending}
           />
-          <p className="text-sm text-gray-500 mt-1">
-            예: Next.js React TypeScript 또는 Next.js, React, TypeScript
-          </p>
         </div>
 
         {error && (
-          <div
-            className="p-4 bg-red-50 border border-red-200 rounded-md"
-            role="alert"
-            aria-live="polite"
-          >
-            <p className="text-red-800 text-sm">
-              게시글 수정에 실패했습니다. 다시 시도해주세요.
-            </p>
-          </div>
+          <PostFormError
+            error={error}
+            fallbackMessage="게시글 수정에 실패했습니다. 다시 시도해주세요."
+          />
         )}
 
         <div className="flex gap-3 justify-end">
@@ -0,0 +1,260 @@
+'use client';
+
+import { use, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { RevisionDiff, type RevisionDiffMode } from '@/components/posts/RevisionDiff';
+import { usePost } from '@/lib/hooks/usePosts';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { useRestoreRevision, useRevision, useRevisions } from '@/lib/hooks/useRevisions';
+import type { PostRevisionDto } from '@/types/api/revision';
+
+/**
+ * 게시글 수정 기록 페이지
+ *
+ * - 두 리비전을 골라 Markdown diff 비교 (기본: 직전 리비전 ↔ 최신 리비전)
+ * - 작성자는 이전 리비전으로 복원 가능 (일반 수정 경로 → 새 리비전 생성 + 재벡터화)
+ *
+ * Constitution Principle X: select 레이블, 목록 Semantic HTML, 확인 다이얼로그
+ */
+function formatRevisionLabel(revision: PostRevisionDto): string {
+  return `#${revision.revisionNumber} · ${format(new Date(revision.createdAt), 'yyyy.MM.dd HH:mm')} · ${revision.editor.name}`;
+}
+
+export default function PostHistoryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const router = useRouter();
+  const postId = parseInt(id, 10);
+
+  const { data: post } = usePost(postId);
+  const { data: user } = useAuth();
+  const { data: revisions, isLoading, error, refetch } = useRevisions(postId);
+  const restoreMutation = useRestoreRevision(postId);
+
+  const [selectedBaseId, setSelectedBaseId] = useState<number | null>(null);
+  const [selectedTargetId, setSelectedTargetId] = useState<number | null>(null);
+  const [mode, setMode] = useState<RevisionDiffMode>('split');
+  const [restoreTarget, setRestoreTarget] = useState<PostRevisionDto | null>(null);
+
+  // 목록은 최신순: 선택 전에는 직전 리비전(또는 유일한 리비전) ↔ 최신 리비전 비교
+  const baseId = selectedBaseId ?? revisions?.[1]?.id ?? revisions?.[0]?.id ?? null;
+  const targetId = selectedTargetId ?? revisions?.[0]?.id ?? null;
+
+  const { data: base, isLoading: isBaseLoading } = useRevision(postId, baseId);
+  const { data: target, isLoading: isTargetLoading } = useRevision(postId, targetId);
+
+  const isAuthor = !!user && !!post && user.id === post.author.id;
+  const latestId = revisions?.[0]?.id;
+
+  const handleRestoreConfirm = () => {
+    if (!restoreTarget) return;
+
+    restoreMutation.mutate(restoreTarget.id, {
+      onSuccess: () => {
+        toast.success(`리비전 #${restoreTarget.revisionNumber}(으)로 복원되었습니다`);
+        router.push(`/posts/${postId}`);
+      },
+      onError: (error) => {
+        toast.error(error instanceof Error ? error.message : '복원에 실패했습니다');
+        setRestoreTarget(null);
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <main className="container mx-auto px-4 py-8 max-w-6xl" role="status" aria-label="수정 기록 로딩 중">
+        <Skeleton className="h-10 w-1/2 mb-6" />
+        <div className="flex gap-4 mb-6">
+          <Skeleton className="h-9 w-64" />
+          <Skeleton className="h-9 w-64" />
+        </div>
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-5/6" />
+        </div>
+      </main>
+    );
+  }
+
+  if (error || !revisions) {
+    return (
+      <main className="container mx-auto px-4 py-8 max-w-6xl">
+        <section className="text-center py-16" role="alert">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">수정 기록을 불러오지 못했습니다</h1>
+          <p className="text-gray-600 mb-6">{error?.message}</p>
+          <div className="flex gap-2 justify-center">
+            <Button variant="outline" onClick={() => refetch()}>
+              다시 시도
+            </Button>
+            <Button onClick={() => router.push(`/posts/${postId}`)}>게시글로 돌아가기</Button>
+          </div>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-6xl">
+        <header className="mb-6">
+          <h1 className="text-3xl font-bold mb-2">수정 기록</h1>
+          <p className="text-gray-600">
+            <Link href={`/posts/${postId}`} className="underline hover:text-gray-900">
+              {post?.title ?? '게시글'}
+            </Link>
+            {` · 리비전 ${revisions.length}개`}
+          </p>
+        </header>
+
+        {revisions.length === 0 ? (
+          <p className="text-gray-500 py-8 text-center">수정 기록이 없습니다.</p>
+        ) : (
+          <div className="grid gap-8 lg:grid-cols-[1fr_18rem]">
+            <section aria-label="리비전 비교">
+              <div className="flex flex-wrap items-end gap-4 mb-4">
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="revision-base" className="text-sm font-medium">
+                    이전
+                  </label>
+                  <select
+                    id="revision-base"
+                    value={baseId ?? ''}
+                    onChange={(e) => setSelectedBaseId(Number(e.target.value))}
+                    className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    {revisions.map((revision) => (
+                      <option key={revision.id} value={revision.id}>
+                        {formatRevisionLabel(revision)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex flex-col gap-1">
+                  <label htmlFor="revision-target" className="text-sm font-medium">
+                    이후
+                  </label>
+                  <select
+                    id="revision-target"
+                    value={targetId ?? ''}
+                    onChange={(e) => setSelectedTargetId(Number(e.target.value))}
+                    className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    {revisions.map((revision) => (
+                      <option key={revision.id} value={revision.id}>
+                        {formatRevisionLabel(revision)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <Tabs value={mode} onValueChange={(value) => setMode(value as RevisionDiffMode)} className="ml-auto">
+                  <TabsList aria-label="비교 방식">
+                    <TabsTrigger value="split">나란히</TabsTrigger>
+                    <TabsTrigger value="inline">한 줄</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+
+              {isBaseLoading || isTargetLoading || !base || !target ? (
+                <div className="space-y-2" role="status" aria-label="리비전 내용 로딩 중">
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-full" />
+                  <Skeleton className="h-4 w-2/3" />
+                </div>
+              ) : (
+                <div className="rounded-md border overflow-x-auto">
+                  {base.title !== target.title && (
+                    <div className="border-b px-4 py-2 text-sm">
+                      <span className="font-medium">제목 변경: </span>
+                      <del className="text-red-700 dark:text-red-300">{base.title}</del>
+                      {' → '}
+                      <ins className="text-green-700 dark:text-green-300 no-underline">{target.title}</ins>
+                    </div>
+                  )}
+                  <RevisionDiff
+                    oldText={base.contentMarkdown ?? ''}
+                    newText={target.contentMarkdown ?? ''}
+                    mode={mode}
+                  />
+                </div>
+              )}
+            </section>
+
+            <aside aria-label="리비전 목록">
+              <h2 className="text-lg font-semibold mb-3">리비전</h2>
+              <ol className="space-y-2">
+                {revisions.map((revision) => (
+                  <li key={revision.id} className="rounded-md border p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">
+                        #{revision.revisionNumber}
+                        {revision.id === latestId && <span className="ml-2 text-xs text-gray-500">현재</span>}
+                      </span>
+                      {isAuthor && revision.id !== latestId && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRestoreTarget(revision)}
+                          aria-label={`리비전 #${revision.revisionNumber}(으)로 복원`}
+                        >
+                          복원
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-gray-500 mt-1">
+                      {format(new Date(revision.createdAt), 'yyyy.MM.dd HH:mm')} · {revision.editor.name}
+                    </p>
+                    <p className="truncate mt-1">{revision.title}</p>
+                  </li>
+                ))}
+              </ol>
+            </aside>
+          </div>
+        )}
+
+        <AlertDialog open={restoreTarget !== null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>리비전 복원 확인</AlertDialogTitle>
+              <AlertDialogDescription>
+                리비전 #{restoreTarget?.revisionNumber}의 내용으로 게시글을 되돌리시겠습니까?
+                <span className="text-sm text-gray-500 mt-2 block">
+                  현재 내용은 수정 기록에 남아 있으며, 복원도 새 리비전으로 기록됩니다.
+                </span>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={restoreMutation.isPending}>취소</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestoreConfirm} disabled={restoreMutation.isPending}>
+                {restoreMutation.isPending ? '복원 중...' : '복원'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </ErrorBoundary>
+  );
+}
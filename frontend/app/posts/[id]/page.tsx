@@ -3,6 +3,7 @@
 import { use, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import Link from 'next/link';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -10,19 +11,51 @@ import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { usePost, useDeletePost } from '@/lib/hooks/usePosts';
 import { useAuth } from '@/lib/hooks/useAuth';
 import { DeleteConfirmDialog } from '@/components/posts/DeleteConfirmDialog';
+import { CommentSection } from '@/components/comments/CommentSection';
+import { RelatedPosts } from '@/components/posts/RelatedPosts';
+import { HashtagBadge } from '@/components/posts/HashtagBadge';
 import { format } from 'date-fns';
 import MarkdownViewer from '@/components/ui/MarkdownViewer';
+import { isApiError } from '@/lib/api/errors';
+import { sanitizePostHtml } from '@/lib/html/sanitize';
+import { parseSearchParams, type RawSearchParams } from '@/lib/url/searchParams';
+import { postDetailParamsSchema } from '@/lib/posts/searchParams';
+
+/**
+ * 게시글 조회 실패 시 에러 코드별 안내 문구
+ */
+function getLoadErrorMessage(error: Error | null): { title: string; description: string } {
+  if (!isApiError(error) || isApiError(error, 'POST_NOT_FOUND', 'NOT_FOUND')) {
+    return {
+      title: '게시글을 찾을 수 없습니다',
+      description: '요청하신 게시글이 존재하지 않거나 삭제되었습니다.',
+    };
+  }
+
+  switch (error.code) {
+    case 'FORBIDDEN':
+      return { title: '접근 권한이 없습니다', description: error.message };
+    case 'UNAUTHORIZED':
+      return { title: '로그인이 필요합니다', description: error.message };
+    default:
+      return { title: '게시글을 불러오지 못했습니다', description: error.message };
+  }
+}
 
 export default function PostDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string }>;
+  searchParams: Promise<RawSearchParams>;
 }) {
   const { id } = use(params);
+  // 검색 결과 "본문에서 보기"로 들어온 경우 강조할 구절
+  const { passage } = parseSearchParams(postDetailParamsSchema, use(searchParams));
   const router = useRouter();
   const postId = parseInt(id, 10);
 
-  const { data: post, isLoading, error } = usePost(postId);
+  const { data: post, isLoading, error, refetch } = usePost(postId);
   const { data: user } = useAuth();
   const deletePostMutation = useDeletePost();
 
@@ -44,8 +77,8 @@ export default function PostDetailPage({
         toast.success('게시글이 삭제되었습니다');
         router.push('/posts');
       },
-      onError: (error) => {
-        toast.error(error instanceof Error ? error.message : '게시글 삭제에 실패했습니다');
+      onError: () => {
+        // 실패 안내 토스트는 useDeletePost 롤백 시 표시
         setDeleteDialogOpen(false);
       },
     });
@@ -54,44 +87,56 @@ export default function PostDetailPage({
   if (isLoading) {
     return (
       <main className="container mx-auto px-4 py-8 max-w-6xl" role="status" aria-label="게시글 로딩 중">
-        <article>
-          <header className="mb-8">
-            <Skeleton className="h-10 w-3/4 mb-4" />
-            <div className="flex items-center gap-4 mb-4">
-              <Skeleton className="w-12 h-12 rounded-full" />
-              <div className="space-y-2">
-                <Skeleton className="h-4 w-24" />
-                <Skeleton className="h-3 w-32" />
+        <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_280px]">
+          <article className="min-w-0">
+            <header className="mb-8">
+              <Skeleton className="h-10 w-3/4 mb-4" />
+              <div className="flex items-center gap-4 mb-4">
+                <Skeleton className="w-12 h-12 rounded-full" />
+                <div className="space-y-2">
+                  <Skeleton className="h-4 w-24" />
+                  <Skeleton className="h-3 w-32" />
+                </div>
               </div>
-            </div>
-            <div className="flex gap-2">
-              <Skeleton className="h-6 w-16" />
-              <Skeleton className="h-6 w-16" />
-            </div>
-          </header>
-          <section className="space-y-3">
-            <Skeleton className="h-4 w-full" />
-            <Skeleton className="h-4 w-full" />
-            <Skeleton className="h-4 w-5/6" />
-            <Skeleton className="h-4 w-full" />
-            <Skeleton className="h-4 w-4/5" />
-          </section>
-        </article>
+              <div className="flex gap-2">
+                <Skeleton className="h-6 w-16" />
+                <Skeleton className="h-6 w-16" />
+              </div>
+            </header>
+            <section className="space-y-3">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-5/6" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-4/5" />
+            </section>
+          </article>
+
+          {/* 관련 게시글 (넓은 화면에서는 본문 옆 사이드바) */}
+          <div className="lg:sticky lg:top-8 lg:self-start">
+            <RelatedPosts postId={postId} />
+          </div>
+        </div>
       </main>
     );
   }
 
   if (error || !post) {
+    const { title, description } = getLoadErrorMessage(error);
+
     return (
       <main className="container mx-auto px-4 py-8 max-w-6xl">
-        <section className="text-center py-16">
-          <h1 className="text-2xl font-bold text-red-600 mb-4">
-            게시글을 찾을 수 없습니다
-          </h1>
-          <p className="text-gray-600 mb-6">
-            요청하신 게시글이 존재하지 않거나 삭제되었습니다.
-          </p>
-          <Button onClick={() => router.push('/posts')}>목록으로 돌아가기</Button>
+        <section className="text-center py-16" role="alert">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">{title}</h1>
+          <p className="text-gray-600 mb-6">{description}</p>
+          <div className="flex gap-2 justify-center">
+            {isApiError(error, 'NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'SERVICE_UNAVAILABLE') && (
+              <Button variant="outline" onClick={() => refetch()}>
+                다시 시도
+              </Button>
+            )}
+            <Button onClick={() => router.push('/posts')}>목록으로 돌아가기</Button>
+          </div>
         </section>
       </main>
     );
@@ -119,7 +164,14 @@ export default function PostDetailPage({
                   <p className="font-semibold">{post.author.name}</p>
                   <p className="text-sm text-gray-500">
                     {format(new Date(post.createdAt), 'yyyy년 MM월 dd일 HH:mm')}
-                    {post.updatedAt && ' (수정됨)'}
+                    {post.updatedAt && (
+                      <>
+                        {' (수정됨) · '}
+                        <Link href={`/posts/${postId}/history`} className="underline hover:text-gray-700">
+                          수정 기록
+                        </Link>
+                      </>
+                    )}
                   </p>
                 </div>
               </div>
@@ -146,26 +198,23 @@ export default function PostDetailPage({
             </div>
 
             {post.hashtags.length > 0 && (
-              <div className="flex flex-wrap gap-2" role="list" aria-label="해시태그 목록">
-                {post.hashtags.map((tag, index) => (
-                  <span
-                    key={index}
-                    className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm"
-                    role="listitem"
-                  >
-                    #{tag}
-                  </span>
+              <ul className="flex flex-wrap gap-2" aria-label="해시태그 목록">
+                {post.hashtags.map((tag) => (
+                  <li key={tag}>
+                    <HashtagBadge tag={tag} className="px-3 py-1 text-sm" />
+                  </li>
                 ))}
-              </div>
+              </ul>
             )}
           </header>
 
           <section className="mt-8">
             {post.contentMarkdown ? (
-              <MarkdownViewer content={post.contentMarkdown} />
+              <MarkdownViewer content={post.contentMarkdown} highlightPassage={passage} />
             ) : post.contentHtml ? (
               <div className="prose prose-slate dark:prose-invert max-w-none">
-                <div dangerouslySetInnerHTML={{ __html: post.contentHtml }} />
+                {/* 저장 시 정제되지만 이전 데이터/우회 저장 대비 렌더링 직전에도 허용 목록 정제 */}
+                <div dangerouslySetInnerHTML={{ __html: sanitizePostHtml(post.contentHtml) }} />
               </div>
             ) : (
               <div className="whitespace-pre-wrap text-gray-500">
@@ -175,6 +224,8 @@ export default function PostDetailPage({
           </section>
         </article>
 
+        <CommentSection postId={postId} currentUserId={user?.id} />
+
         <footer className="mt-12 pt-6 border-t">
           <Button variant="outline" onClick={() => router.back()} aria-label="뒤로 가기">
             목록으로
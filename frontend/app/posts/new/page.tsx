@@ -1,14 +1,28 @@
 'use client';
 
-import { useState } from 'react';
+import { use, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { PostFormError } from '@/components/posts/PostFormError';
+import { AutosaveIndicator } from '@/components/drafts/AutosaveIndicator';
+import { DraftRestoreDialog } from '@/components/drafts/DraftRestoreDialog';
 import { useCreatePost } from '@/lib/hooks/usePosts';
+import {
+  createDraftKey,
+  useDiscardDraft,
+  useDraftAutosave,
+  useDraftRecovery,
+  type DraftContent,
+  type DraftRecoveryCandidate,
+} from '@/lib/hooks/useDrafts';
+import { HashtagInput } from '@/components/posts/HashtagInput';
+import { HashtagRecommendations } from '@/components/posts/HashtagRecommendations';
 
 /**
  * T094: Tiptap 에디터 지연 로딩 최적화
@@ -22,21 +36,70 @@ const RichTextEditor = dynamic(
   }
 );
 
+// 새 글의 비교 기준 (빈 폼)
+const EMPTY_CONTENT: DraftContent = { title: '', contentHtml: '', hashtags: [] };
+
 /**
  * 게시글 작성 페이지
  * T090: Error Boundary 적용
  *
+ * 작성 중인 내용은 ?draft={draftKey} 초안으로 자동 저장 (새로고침/재로그인 후 복원)
+ *
  * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
  * Constitution Principle VIII: content (HTML) + plainContent (Plain Text) 분리 저장
  * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
  */
-export default function NewPostPage() {
+export default function NewPostPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ draft?: string }>;
+}) {
+  const { draft } = use(searchParams);
   const router = useRouter();
   const { mutate: createPost, isPending, error } = useCreatePost();
+  const { mutate: discardDraft } = useDiscardDraft();
 
   const [title, setTitle] = useState('');
   const [contentHtml, setContentHtml] = useState('');
-  const [hashtags, setHashtags] = useState('');
+  const [hashtags, setHashtags] = useState<string[]>([]);
+
+  // 초안 키는 처음 열 때 한 번만 결정 (URL에 있으면 이어쓰기, 없으면 새로 생성)
+  const [draftKey] = useState(() => draft ?? createDraftKey());
+  const [shouldRecover] = useState(draft !== undefined);
+  const [recoveryResolved, setRecoveryResolved] = useState(false);
+
+  const { data: recoveryCandidates, isFetched: isRecoveryFetched } = useDraftRecovery(
+    shouldRecover ? draftKey : null,
+    EMPTY_CONTENT
+  );
+  const pendingCandidates = recoveryResolved ? [] : recoveryCandidates ?? [];
+  const isRecoveryDecided = !shouldRecover || (isRecoveryFetched && pendingCandidates.length === 0);
+
+  const { status: autosaveStatus, lastSavedAt, clear: clearDraft } = useDraftAutosave(
+    draftKey,
+    null,
+    { title, contentHtml, hashtags },
+    { enabled: isRecoveryDecided && !isPending }
+  );
+
+  // 새로고침/재로그인 후에도 같은 초안을 이어가도록 URL에 초안 키 기록
+  useEffect(() => {
+    if (draft !== draftKey) {
+      router.replace(`/posts/new?draft=${draftKey}`, { scroll: false });
+    }
+  }, [draft, draftKey, router]);
+
+  const handleRestore = (candidate: DraftRecoveryCandidate) => {
+    setTitle(candidate.content.title);
+    setContentHtml(candidate.content.contentHtml);
+    setHashtags(candidate.content.hashtags);
+    setRecoveryResolved(true);
+  };
+
+  const handleDiscard = () => {
+    discardDraft(draftKey);
+    setRecoveryResolved(true);
+  };
 
   const handleEditorChange = (html: string) => {
     setContentHtml(html);
@@ -55,25 +118,21 @@ export default function NewPostPage() {
       return;
     }
 
-    const hashtagArray = hashtags
-      .split(/[\s,]+/)
-      .filter((tag) => tag.trim().length > 0)
-      .slice(0, 10);
-
     createPost(
       {
         title: title.trim(),
         contentHtml: contentHtml,
-        hashtags: hashtagArray,
+        hashtags,
       },
       {
         onSuccess: (data) => {
+          void clearDraft();
           toast.success('게시글이 작성되었습니다!');
           router.push(`/posts/${data.id}`);
         },
         onError: (err) => {
+          // 실패 안내 토스트는 useCreatePost 롤백 시 표시
           console.error('게시글 작성 실패:', err);
-          toast.error(err instanceof Error ? err.message : '게시글 작성에 실패했습니다.');
         },
       }
     );
@@ -82,7 +141,21 @@ export default function NewPostPage() {
   return (
     <ErrorBoundary>
       <main className="container mx-auto px-4 py-8 max-w-6xl">
-        <h1 className="text-3xl font-bold mb-8">새 게시글 작성</h1>
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-bold">새 게시글 작성</h1>
+          <div className="flex items-center gap-4">
+            <AutosaveIndicator status={autosaveStatus} lastSavedAt={lastSavedAt} />
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/drafts">초안 목록</Link>
+            </Button>
+          </div>
+        </div>
+
+        <DraftRestoreDialog
+          candidates={pendingCandidates}
+          onRestore={handleRestore}
+          onDiscard={handleDiscard}
+        />
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
@@ -111,7 +184,7 @@ export default function NewPostPage() {
               내용 <span className="text-red-500">*</span>
             </label>
             <RichTextEditor
-              content=""
+              content={contentHtml}
               onChange={handleEditorChange}
               placeholder="게시글 내용을 작성하세요. 마크다운 문법을 지원합니다."
             />
@@ -125,29 +198,26 @@ export default function NewPostPage() {
             >
               해시태그 (선택)
             </label>
-            <Input
+            <HashtagInput
               id="hashtags"
-              type="text"
               value={hashtags}
-              onChange={(e) => setHashtags(e.target.value)}
-              placeholder="태그를 입력하세요 (공백 또는 쉼표로 구분, 최대 10개)"
+              onChange={setHashtags}
+              disabled={isPending}
+            />
+            <HashtagRecommendations
+              title={title}
+              contentHtml={contentHtml}
+              value={hashtags}
+              onChange={setHashtags}
               disabled={isPending}
             />
-            <p className="text-sm text-gray-500 mt-1">
-              예: Next.js React TypeScript 또는 Next.js, React, TypeScript
-            </p>
           </div>
 
           {error && (
-            <div
-              className="p-4 bg-red-50 border border-red-200 rounded-md"
-              role="alert"
-              aria-live="polite"
-            >
-              <p className="text-red-800 text-sm">
-                게시글 작성에 실패했습니다. 다시 시도해주세요.
-              </p>
-            </div>
+            <PostFormError
+              error={error}
+              fallbackMessage="게시글 작성에 실패했습니다. 다시 시도해주세요."
+            />
           )}
 
           <div className="flex gap-3 justify-end">
@@ -1,10 +1,11 @@
 /**
  * 게시글 목록 페이지
  * T072: PostList + SearchBar 통합
- * T073: 페이지네이션 UI 구현
+ * T073: 페이지네이션 UI 구현 (커서 기반 무한 스크롤)
  * T075: 검색 결과에 유사도 점수 표시
  * T090: Error Boundary 적용
  * T095: 벡터 검색 코드 스플리팅
+ * 목록/검색 상태는 URL 쿼리스트링으로 관리 (lib/posts/searchParams.ts)
  *
  * Constitution Principle X: semantic HTML, Error Boundary 적용
  * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
@@ -12,17 +13,32 @@
 
 'use client';
 
-import { useState } from 'react';
+import { use } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
-import { usePosts, useSearchPosts } from '@/lib/hooks/usePosts';
+import { toast } from 'sonner';
+import { useInfinitePosts, useSearchPosts } from '@/lib/hooks/usePosts';
 import { PostList } from '@/components/posts/PostList';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
-import { ChevronLeft, ChevronRight, AlertCircle, PenSquare } from 'lucide-react';
+import { useUrlState } from '@/lib/hooks/useUrlState';
+import { parseSearchParams, type RawSearchParams } from '@/lib/url/searchParams';
+import {
+  POSTS_LIST_DEFAULTS,
+  SEARCH_MODE_LABELS,
+  postsHashtagHref,
+  postsListParamsSchema,
+  type PostsListMode,
+  type PostsListParams,
+} from '@/lib/posts/searchParams';
+import { PostSearchResultItem } from '@/components/posts/PostSearchResultItem';
+import { HashtagFilterBar } from '@/components/posts/HashtagFilterBar';
+import { addHashtag, describeHashtagFilter, parseHashtags } from '@/lib/posts/hashtags';
+import type { HashtagFilter } from '@/types/api/post';
+import { AlertCircle, PenSquare } from 'lucide-react';
 
 /**
  * T095: SearchBar 컴포넌트 지연 로딩
@@ -36,56 +52,74 @@ const SearchBar = dynamic(
   }
 );
 
-export default function PostsPage() {
-  // 클라이언트 상태 (React 19)
-  const [page, setPage] = useState(0);
-  const [pageSize] = useState(20);
-  const [hashtag, setHashtag] = useState<string | undefined>(undefined);
-  const [searchMode, setSearchMode] = useState<'normal' | 'vector'>('normal');
-  const [vectorQuery, setVectorQuery] = useState('');
-  const [vectorThreshold, setVectorThreshold] = useState(0.6);
+export default function PostsPage({
+  searchParams,
+}: {
+  searchParams: Promise<RawSearchParams>;
+}) {
+  // 목록/검색 상태는 URL 쿼리스트링에서 읽음 (새로고침/공유/뒤로 가기 시 유지)
+  const params = parseSearchParams(postsListParamsSchema, use(searchParams));
+  const navigate = useUrlState<PostsListParams>(POSTS_LIST_DEFAULTS);
+
+  const pageSize = 20;
+  const hashtagFilter: HashtagFilter | undefined =
+    params.mode === 'normal' && params.hashtags ? { hashtags: params.hashtags, match: params.match } : undefined;
+  const searchMode = params.mode;
+  const isSearch = searchMode !== 'normal';
+  const searchQuery = params.q ?? '';
+  const threshold = params.threshold;
 
   // 서버 상태 (TanStack Query)
   const {
-    data: postsData,
+    data: feedData,
     isLoading: isLoadingPosts,
     error: postsError,
-  } = usePosts(page, pageSize, hashtag);
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfinitePosts(pageSize, hashtagFilter, !isSearch);
 
   const {
     data: searchData,
-    refetch: refetchSearch,
     isLoading: isLoadingSearch,
     error: searchError,
   } = useSearchPosts(
-    { query: vectorQuery, threshold: vectorThreshold, limit: 20 },
-    false // 수동 실행
+    { query: searchQuery, threshold, limit: 20, mode: isSearch ? searchMode : undefined },
+    isSearch && searchQuery.length > 0
   );
 
-  const handleSearch = (query: string, vectorSearch: boolean, threshold: number) => {
-    if (vectorSearch) {
-      // 벡터 검색 모드
-      setSearchMode('vector');
-      setVectorQuery(query);
-      setVectorThreshold(threshold);
-      refetchSearch();
+  const handleSearch = (query: string, mode: PostsListMode, nextThreshold: number) => {
+    if (mode !== 'normal') {
+      // 키워드/의미/하이브리드 검색
+      navigate({ mode, q: query, threshold: nextThreshold, match: params.match, hashtags: undefined });
     } else {
-      // 일반 검색 모드 (해시태그 필터링)
-      setSearchMode('normal');
-      setHashtag(query);
-      setPage(0); // 첫 페이지로 리셋
+      // 해시태그 방식: 입력한 태그를 현재 필터에 추가
+      const result = parseHashtags(query, hashtagFilter?.hashtags ?? []);
+      if (result.error) toast.error(result.error);
+      applyHashtagFilter({ hashtags: result.tags, match: params.match });
     }
   };
 
+  const applyHashtagFilter = (filter: HashtagFilter) => {
+    navigate({
+      ...POSTS_LIST_DEFAULTS,
+      match: filter.match,
+      hashtags: filter.hashtags.length > 0 ? filter.hashtags : undefined,
+      q: undefined,
+    });
+  };
+
+  // 목록의 해시태그 배지는 현재 필터에 태그를 더한 목록으로 이동
+  const hashtagHref = (tag: string) =>
+    postsHashtagHref(addHashtag(hashtagFilter?.hashtags ?? [], tag).tags, params.match);
+
   const handleResetSearch = () => {
-    setSearchMode('normal');
-    setHashtag(undefined);
-    setVectorQuery('');
-    setPage(0);
+    navigate({ ...POSTS_LIST_DEFAULTS, hashtags: undefined, q: undefined });
   };
 
-  const isLoading = isLoadingPosts || isLoadingSearch;
-  const error = postsError || searchError;
+  // 검색 모드에서는 피드를 보여주지 않으므로 검색 query 상태만 사용
+  const isLoading = isSearch ? isLoadingSearch : isLoadingPosts;
+  const error = isSearch ? searchError : postsError;
 
   // 에러 표시
   if (error) {
@@ -104,12 +138,11 @@ export default function PostsPage() {
 
   // 현재 표시할 게시글 데이터
   const currentPosts =
-    searchMode === 'vector'
+    isSearch
       ? searchData?.results.map((r) => r.post) || []
-      : postsData?.posts || [];
+      : feedData?.pages.flatMap((page) => page.posts) || [];
 
-  const pagination = postsData?.pagination;
-  const vectorResults = searchData?.results || [];
+  const searchResults = searchData?.results || [];
 
   return (
     <ErrorBoundary>
@@ -118,10 +151,10 @@ export default function PostsPage() {
           <div>
             <h1 className="text-4xl font-bold mb-2">게시글 목록</h1>
             <p className="text-muted-foreground">
-              {searchMode === 'vector'
-                ? '벡터 검색 결과'
-                : hashtag
-                  ? `#${hashtag} 태그 게시글`
+              {isSearch
+                ? `${SEARCH_MODE_LABELS[searchMode]} 검색 결과`
+                : hashtagFilter
+                  ? describeHashtagFilter(hashtagFilter)
                   : '모든 게시글'}
             </p>
           </div>
@@ -135,16 +168,31 @@ export default function PostsPage() {
 
         {/* 검색 바 */}
         <div className="mb-6">
-          <SearchBar onSearch={handleSearch} isLoading={isLoading} />
+          {/* URL 상태가 바뀌면(뒤로 가기 등) 입력값도 다시 맞추도록 재마운트 */}
+          <SearchBar
+            key={`${searchMode}:${searchQuery}:${hashtagFilter?.hashtags.join(',') ?? ''}:${threshold}`}
+            onSearch={handleSearch}
+            isLoading={isLoading}
+            defaultQuery={isSearch ? searchQuery : ''}
+            defaultMode={searchMode}
+            defaultThreshold={threshold}
+          />
         </div>
 
-        {/* 검색 필터 표시 */}
-        {(searchMode === 'vector' || hashtag) && (
+        {/* 해시태그 필터 (태그 칩 + AND/OR) */}
+        {hashtagFilter && (
+          <div className="mb-4">
+            <HashtagFilterBar filter={hashtagFilter} onChange={applyHashtagFilter} onClear={handleResetSearch} />
+          </div>
+        )}
+
+        {/* 검색 조건 표시 */}
+        {isSearch && (
           <div className="mb-4 flex items-center gap-2">
             <Badge variant="outline">
-              {searchMode === 'vector'
-                ? `벡터 검색: "${vectorQuery}" (임계값: ${vectorThreshold.toFixed(2)})`
-                : `해시태그: #${hashtag}`}
+              {`${SEARCH_MODE_LABELS[searchMode]} 검색: "${searchQuery}"${
+                searchMode === 'keyword' ? '' : ` (임계값: ${threshold.toFixed(2)})`
+              }`}
             </Badge>
             <Button
               variant="ghost"
@@ -158,12 +206,12 @@ export default function PostsPage() {
         )}
 
         {/* 게시글 목록 */}
-        {searchMode === 'vector' ? (
-          // 벡터 검색 결과 (유사도 점수 포함)
+        {isSearch ? (
+          // 검색 결과 (신호별 기여도 + 매칭 구절 스니펫)
           <div className="space-y-4" role="list" aria-label="검색 결과">
             {isLoading ? (
               <PostList posts={[]} isLoading={true} />
-            ) : vectorResults.length === 0 ? (
+            ) : searchResults.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <p className="text-lg">검색 결과가 없습니다.</p>
                 <p className="text-sm mt-2">
@@ -171,56 +219,26 @@ export default function PostsPage() {
                 </p>
               </div>
             ) : (
-              vectorResults.map((result) => (
-                <div key={result.post.id} className="relative">
-                  {/* 유사도 점수 표시 */}
-                  <div className="absolute top-4 right-4 z-10">
-                    <Badge variant="secondary" className="font-mono">
-                      {(result.similarityScore * 100).toFixed(1)}%
-                    </Badge>
-                  </div>
-                  <PostList posts={[result.post]} isLoading={false} />
+              searchResults.map((result) => (
+                <div key={result.post.id} role="listitem">
+                  <PostSearchResultItem item={result} query={searchQuery} mode={searchMode} />
                 </div>
               ))
             )}
           </div>
         ) : (
-          // 일반 목록 (페이지네이션)
-          <>
-            <PostList posts={currentPosts} isLoading={isLoading} />
-
-            {/* 페이지네이션 */}
-            {pagination && pagination.totalPages > 1 && (
-              <nav
-                className="mt-8 flex items-center justify-center gap-2"
-                aria-label="페이지네이션"
-              >
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setPage(page - 1)}
-                  disabled={page === 0 || isLoading}
-                  aria-label="이전 페이지"
-                >
-                  <ChevronLeft className="w-4 h-4" />
-                </Button>
-
-                <span className="text-sm text-muted-foreground px-4">
-                  {page + 1} / {pagination.totalPages}
-                </span>
-
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setPage(page + 1)}
-                  disabled={page >= pagination.totalPages - 1 || isLoading}
-                  aria-label="다음 페이지"
-                >
-                  <ChevronRight className="w-4 h-4" />
-                </Button>
-              </nav>
-            )}
-          </>
+          // 일반 목록 (무한 스크롤)
+          <PostList
+            posts={currentPosts}
+            isLoading={isLoading}
+            hashtagHref={hashtagHref}
+            infinite={{
+              hasNextPage,
+              isFetchingNextPage,
+              onLoadMore: () => void fetchNextPage(),
+              scrollRestorationKey: `posts-feed:${hashtagFilter ? `${hashtagFilter.match}:${hashtagFilter.hashtags.join(',')}` : ''}`,
+            }}
+          />
         )}
       </div>
     </ErrorBoundary>
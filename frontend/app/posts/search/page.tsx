@@ -1,30 +1,40 @@
 'use client';
 
-import { useState } from 'react';
+import { use } from 'react';
 import { usePostSearch } from '@/lib/hooks/usePosts';
+import { useUrlState } from '@/lib/hooks/useUrlState';
+import { parseSearchParams, type RawSearchParams } from '@/lib/url/searchParams';
+import { postSearchParamsSchema, type PostSearchParams } from '@/lib/posts/searchParams';
 import { PostSearchFilter } from '@/components/posts/PostSearchFilter';
 import { PostSearchResults } from '@/components/posts/PostSearchResults';
 import { PostSearchSkeleton } from '@/components/posts/PostSearchSkeleton';
 import { PostSearchErrorBoundary } from '@/components/posts/PostSearchErrorBoundary';
 import type { PostSearchField } from '@/types/api/post';
 
-export default function PostSearchPage() {
-  const [searchParams, setSearchParams] = useState<{
-    query: string;
-    fields?: PostSearchField[];
-  } | null>(null);
+/**
+ * 게시글 검색 페이지
+ *
+ * 검색어/검색 범위는 URL 쿼리스트링으로 관리 (/posts/search?q=...&fields=title,content)
+ */
+export default function PostSearchPage({
+  searchParams: searchParamsPromise,
+}: {
+  searchParams: Promise<RawSearchParams>;
+}) {
+  const searchParams = parseSearchParams(postSearchParamsSchema, use(searchParamsPromise));
+  const navigate = useUrlState<PostSearchParams>();
 
   const { data, isLoading, error, refetch } = usePostSearch(
     {
-      query: searchParams?.query || '',
-      fields: searchParams?.fields,
+      query: searchParams.q || '',
+      fields: searchParams.fields,
       limit: 20,
     },
-    !!searchParams?.query
+    !!searchParams.q
   );
 
   const handleSearch = (query: string, fields?: PostSearchField[]) => {
-    setSearchParams({ query, fields });
+    navigate({ q: query.trim(), fields });
   };
 
   return (
@@ -39,7 +49,14 @@ export default function PostSearchPage() {
         </div>
 
         {/* 검색 필터 */}
-        <PostSearchFilter onSearch={handleSearch} isLoading={isLoading} />
+        {/* URL 상태가 바뀌면(뒤로 가기 등) 입력값도 다시 맞추도록 재마운트 */}
+        <PostSearchFilter
+          key={`${searchParams.q ?? ''}:${searchParams.fields?.join(',') ?? ''}`}
+          onSearch={handleSearch}
+          isLoading={isLoading}
+          defaultQuery={searchParams.q}
+          defaultFields={searchParams.fields}
+        />
 
         {/* 검색 결과 */}
         <div>
@@ -56,10 +73,11 @@ export default function PostSearchPage() {
             <PostSearchResults
               results={data.results}
               totalResults={data.totalResults}
+              query={searchParams.q}
             />
           )}
 
-          {!searchParams && !isLoading && (
+          {!searchParams.q && !isLoading && (
             <div className="text-center py-12 text-muted-foreground">
               <p>검색어를 입력하고 검색 버튼을 눌러주세요.</p>
             </div>
@@ -0,0 +1,151 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { PostList } from '@/components/posts/PostList';
+import { TagSparkline } from '@/components/tags/TagSparkline';
+import { useInfinitePosts } from '@/lib/hooks/usePosts';
+import { useTagDetail } from '@/lib/hooks/useTags';
+import { isApiError } from '@/lib/api/errors';
+import { postsHashtagHref, tagPageHref } from '@/lib/posts/searchParams';
+
+/**
+ * 경로 세그먼트를 태그 표기로 복원 (잘못된 인코딩은 그대로 사용)
+ */
+function decodeTag(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * 태그 페이지
+ *
+ * 태그 사용 현황(게시글 수, 최근 90일 활동), 함께 쓰인 태그, 해당 태그 게시글 목록 제공
+ * 게시글 목록은 게시판 목록과 같은 무한 스크롤 피드 (hashtags 필터)
+ *
+ * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
+ */
+export default function TagPage({ params }: { params: Promise<{ tag: string }> }) {
+  const tag = decodeTag(use(params).tag);
+
+  const { data: detail, isLoading: isLoadingDetail, error: detailError } = useTagDetail(tag);
+  const {
+    data: feedData,
+    isLoading: isLoadingPosts,
+    error: postsError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfinitePosts(20, { hashtags: [tag], match: 'all' });
+
+  const posts = feedData?.pages.flatMap((page) => page.posts) || [];
+
+  if (isApiError(detailError, 'NOT_FOUND')) {
+    return (
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="text-center py-12">
+          <h1 className="text-2xl font-bold mb-2">태그를 찾을 수 없습니다</h1>
+          <p className="text-muted-foreground mb-6">#{tag} 태그를 사용한 게시글이 없습니다.</p>
+          <Button asChild variant="outline">
+            <Link href="/tags">태그 목록으로</Link>
+          </Button>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <header className="space-y-4">
+          <Link
+            href="/tags"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+            태그 목록
+          </Link>
+
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">#{tag}</h1>
+              {isLoadingDetail ? (
+                <Skeleton className="h-5 w-32" />
+              ) : (
+                detail && (
+                  <p className="text-muted-foreground tabular-nums">게시글 {detail.postCount}개</p>
+                )
+              )}
+            </div>
+            {detail && <TagSparkline data={detail.activity} width={240} height={48} />}
+          </div>
+
+          {detailError && (
+            <Alert variant="destructive">
+              <AlertTitle>태그 정보를 불러오지 못했습니다</AlertTitle>
+              <AlertDescription>{detailError.message}</AlertDescription>
+            </Alert>
+          )}
+        </header>
+
+        {detail && detail.relatedTags.length > 0 && (
+          <section aria-labelledby="related-tags-heading" className="space-y-3">
+            <h2 id="related-tags-heading" className="text-lg font-semibold">
+              함께 쓰인 태그
+            </h2>
+            <ul className="flex flex-wrap gap-2">
+              {detail.relatedTags.map((usage) => (
+                <li key={usage.tag}>
+                  <Badge variant="secondary" asChild>
+                    <Link href={tagPageHref(usage.tag)} aria-label={`#${usage.tag}, 함께 쓰인 게시글 ${usage.count}개`}>
+                      #{usage.tag}
+                      <span className="text-muted-foreground tabular-nums">{usage.count}</span>
+                    </Link>
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section aria-labelledby="tag-posts-heading" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 id="tag-posts-heading" className="text-lg font-semibold">
+              게시글
+            </h2>
+            <Button asChild variant="ghost" size="sm">
+              <Link href={postsHashtagHref([tag])}>게시판에서 보기</Link>
+            </Button>
+          </div>
+
+          {postsError ? (
+            <Alert variant="destructive">
+              <AlertTitle>게시글을 불러오지 못했습니다</AlertTitle>
+              <AlertDescription>{postsError.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <PostList
+              posts={posts}
+              isLoading={isLoadingPosts}
+              infinite={{
+                hasNextPage,
+                isFetchingNextPage,
+                onLoadMore: () => void fetchNextPage(),
+                scrollRestorationKey: `tag-feed:${tag}`,
+              }}
+            />
+          )}
+        </section>
+      </main>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { TagSparkline } from '@/components/tags/TagSparkline';
+import { TrendingTags } from '@/components/tags/TrendingTags';
+import { useTagDirectory } from '@/lib/hooks/useTags';
+import { hashtagKey } from '@/lib/posts/hashtags';
+import { tagPageHref } from '@/lib/posts/searchParams';
+
+/**
+ * 태그 목록 페이지
+ *
+ * 게시판의 모든 해시태그를 사용 게시글 수순으로 보여주고, 최근 90일 활동과 이번 주 인기 태그 제공
+ * 목록 필터는 대소문자·문장부호를 무시하고 부분 일치 (자동완성과 같은 정규화 키)
+ *
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트 우선 아키텍처
+ * Constitution Principle X: Semantic HTML, ARIA, Error Boundary
+ */
+export default function TagsPage() {
+  const { data, isLoading, error } = useTagDirectory();
+  const [filter, setFilter] = useState('');
+
+  const filterKey = hashtagKey(filter);
+  const tags = (data?.tags ?? []).filter((stats) => hashtagKey(stats.tag).includes(filterKey));
+
+  return (
+    <ErrorBoundary>
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        <header>
+          <h1 className="text-3xl font-bold mb-2">태그</h1>
+          <p className="text-muted-foreground">게시판에서 다루는 주제를 둘러보세요.</p>
+        </header>
+
+        <TrendingTags limit={10} />
+
+        <section aria-labelledby="all-tags-heading" className="space-y-4">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <h2 id="all-tags-heading" className="text-lg font-semibold">
+              전체 태그{data && ` (${data.tags.length})`}
+            </h2>
+            <div className="sm:w-64">
+              <Label htmlFor="tag-filter" className="sr-only">
+                태그 찾기
+              </Label>
+              <Input
+                id="tag-filter"
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="태그 찾기"
+              />
+            </div>
+          </div>
+
+          {isLoading && (
+            <div className="grid gap-3 sm:grid-cols-2" role="status" aria-label="태그 목록 로딩 중">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-16 w-full" />
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>태그 목록을 불러오지 못했습니다</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          {data && tags.length === 0 && (
+            <p className="text-center py-12 text-muted-foreground">
+              {data.tags.length === 0 ? '아직 사용된 태그가 없습니다.' : '일치하는 태그가 없습니다.'}
+            </p>
+          )}
+
+          {tags.length > 0 && (
+            <ul className="grid gap-3 sm:grid-cols-2" aria-labelledby="all-tags-heading">
+              {tags.map(({ tag, postCount, activity }) => (
+                <li key={tag}>
+                  <Card className="relative hover:bg-accent/50 transition-colors">
+                    <CardContent className="flex items-center justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        {/* 카드 전체를 덮는 링크 */}
+                        <Link href={tagPageHref(tag)} className="font-medium truncate block after:absolute after:inset-0">
+                          #{tag}
+                        </Link>
+                        <p className="text-sm text-muted-foreground tabular-nums">게시글 {postCount}개</p>
+                      </div>
+                      <TagSparkline data={activity} className="shrink-0" />
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </ErrorBoundary>
+  );
+}
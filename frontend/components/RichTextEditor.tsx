@@ -22,6 +22,9 @@ import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight'
 import { common, createLowlight } from 'lowlight'
 import MenuBar from './editor/MenuBar'
 import SimpleBubbleMenu from './editor/SimpleBubbleMenu'
+import ImageUpload from './editor/ImageUpload'
+import SlashCommand from './editor/SlashCommand'
+import { uploadsApi } from '@/lib/api/uploads'
 import { FileText } from 'lucide-react'
 
 const lowlight = createLowlight(common)
@@ -65,6 +68,15 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ content, onChange, plac
           class: 'max-w-full h-auto rounded-lg my-4'
         }
       }),
+      // 붙여넣기 / 드래그 앤 드롭 / 파일 선택 이미지 업로드
+      ImageUpload.configure({
+        upload: async (file, filename, onProgress) => {
+          const { url } = await uploadsApi.uploadImage(file, filename, { onProgress })
+          return url
+        }
+      }),
+      // '/' 입력 시 블록 명령어 메뉴
+      SlashCommand,
       TextAlign.configure({
         types: ['heading', 'paragraph']
       }),
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useMergeTags } from '@/lib/hooks/useTagAdmin';
+import { useTagDirectory } from '@/lib/hooks/useTags';
+import { hashtagKey, normalizeHashtag } from '@/lib/posts/hashtags';
+
+// 검색 결과로 보여줄 최대 태그 수
+const MAX_CANDIDATES = 20;
+
+/**
+ * 태그 병합(이름 변경) 폼
+ *
+ * 기존 태그를 표기 그대로(대소문자 구분) 골라 새 태그로 교체
+ * - 태그 하나만 고르면 이름 변경, 여러 개면 병합
+ * - 자동완성 입력(HashtagInput)은 같은 키의 태그를 대표 표기로 바꾸므로 쓰지 않고 목록에서 선택
+ * - 게시글 수정과 같이 리비전이 남고 재인덱싱되므로 실행 전 확인
+ *
+ * Constitution Principle X: fieldset/legend, 선택 개수 aria-live 안내
+ */
+export function TagMergeForm() {
+  const { data } = useTagDirectory();
+  const { mutate: mergeTags, isPending } = useMergeTags();
+
+  const [query, setQuery] = useState('');
+  const [sources, setSources] = useState<string[]>([]);
+  const [target, setTarget] = useState('');
+  const [addSynonyms, setAddSynonyms] = useState(true);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const tags = data?.tags ?? [];
+  const queryKey = hashtagKey(query);
+  const candidates = queryKey
+    ? tags.filter((stats) => hashtagKey(stats.tag).includes(queryKey)).slice(0, MAX_CANDIDATES)
+    : [];
+
+  const postCounts = new Map(tags.map((stats) => [stats.tag, stats.postCount]));
+  // 여러 태그가 같이 달린 게시글은 중복 집계되므로 최대값
+  const maxAffected = sources.reduce((sum, tag) => sum + (postCounts.get(tag) ?? 0), 0);
+
+  const normalizedTarget = normalizeHashtag(target);
+  const isSameAsTarget = sources.length === 1 && sources[0] === normalizedTarget;
+  const canSubmit = sources.length > 0 && hashtagKey(normalizedTarget).length > 0 && !isSameAsTarget && !isPending;
+
+  const toggleSource = (tag: string, checked: boolean) => {
+    setSources((prev) => (checked ? [...prev, tag] : prev.filter((source) => source !== tag)));
+  };
+
+  const handleConfirm = () => {
+    mergeTags(
+      { sources, target: normalizedTarget, addSynonyms },
+      {
+        onSuccess: (result) => {
+          toast.success(`게시글 ${result.updatedPostCount}개의 태그를 #${result.target}(으)로 바꿨습니다`);
+          setSources([]);
+          setTarget('');
+          setQuery('');
+          setConfirmOpen(false);
+        },
+        onError: (err) => {
+          toast.error(err instanceof Error ? err.message : '태그 병합에 실패했습니다.');
+          setConfirmOpen(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) setConfirmOpen(true);
+      }}
+    >
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium mb-2">바꿀 태그</legend>
+        <Label htmlFor="merge-source-query" className="sr-only">
+          태그 찾기
+        </Label>
+        <Input
+          id="merge-source-query"
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="태그 찾기 (예: react)"
+          disabled={isPending}
+        />
+
+        {candidates.length > 0 && (
+          <ul className="grid gap-2 sm:grid-cols-2" aria-label="찾은 태그">
+            {candidates.map(({ tag, postCount }) => (
+              <li key={tag} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`merge-source-${tag}`}
+                  checked={sources.includes(tag)}
+                  onCheckedChange={(checked) => toggleSource(tag, checked === true)}
+                  disabled={isPending}
+                />
+                <Label htmlFor={`merge-source-${tag}`} className="text-sm font-normal cursor-pointer">
+                  #{tag}
+                  <span className="text-muted-foreground tabular-nums">게시글 {postCount}개</span>
+                </Label>
+              </li>
+            ))}
+          </ul>
+        )}
+        {queryKey && candidates.length === 0 && (
+          <p className="text-sm text-muted-foreground">일치하는 태그가 없습니다.</p>
+        )}
+
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          {sources.length > 0
+            ? `선택: ${sources.map((tag) => `#${tag}`).join(', ')}`
+            : '대소문자까지 같은 태그만 바뀝니다. 표기가 다른 태그를 모두 선택하세요.'}
+        </p>
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label htmlFor="merge-target">새 태그</Label>
+        <Input
+          id="merge-target"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder="예: React"
+          maxLength={51}
+          disabled={isPending}
+        />
+        {isSameAsTarget && <p className="text-sm text-destructive">바꿀 태그와 새 태그가 같습니다.</p>}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="merge-add-synonyms"
+          checked={addSynonyms}
+          onCheckedChange={(checked) => setAddSynonyms(checked === true)}
+          disabled={isPending}
+        />
+        <Label htmlFor="merge-add-synonyms" className="text-sm font-normal cursor-pointer">
+          바꾼 태그를 동의어로 등록 (기존 표기로 필터·검색해도 찾을 수 있음)
+        </Label>
+      </div>
+
+      <Button type="submit" disabled={!canSubmit}>
+        {sources.length > 1 ? '태그 병합' : '이름 변경'}
+      </Button>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>태그를 바꾸시겠습니까?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {sources.map((tag) => `#${tag}`).join(', ')} 태그를 <strong>#{normalizedTarget}</strong>(으)로
+              바꿉니다.
+              <span className="text-sm mt-2 block">
+                최대 {maxAffected}개 게시글의 태그가 수정 기록에 남고 검색 인덱스가 다시 생성됩니다.
+              </span>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>취소</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} disabled={isPending}>
+              {isPending ? '바꾸는 중...' : '바꾸기'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </form>
+  );
+}
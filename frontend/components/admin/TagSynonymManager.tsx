@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useCreateTagSynonym, useDeleteTagSynonym, useTagSynonyms } from '@/lib/hooks/useTagAdmin';
+import { normalizeHashtag } from '@/lib/posts/hashtags';
+
+/**
+ * 태그 동의어 관리
+ *
+ * 동의어로 필터·검색하면 대표 태그 게시글도 함께 찾음 (게시글 태그는 바뀌지 않음)
+ * 동의어끼리 연결하거나 대표 태그를 동의어로 지정하는 등의 검증은 Backend에서 400으로 반환
+ *
+ * Constitution Principle X: table caption/scope, 삭제 버튼 aria-label
+ */
+export function TagSynonymManager() {
+  const { data, isLoading, error, refetch } = useTagSynonyms();
+  const { mutate: createSynonym, isPending: isCreating } = useCreateTagSynonym();
+  const { mutate: deleteSynonym, isPending: isDeleting } = useDeleteTagSynonym();
+
+  const [synonym, setSynonym] = useState('');
+  const [canonical, setCanonical] = useState('');
+
+  const synonyms = data?.synonyms ?? [];
+  const normalizedSynonym = normalizeHashtag(synonym);
+  const normalizedCanonical = normalizeHashtag(canonical);
+  const canSubmit = normalizedSynonym.length > 0 && normalizedCanonical.length > 0 && !isCreating;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    createSynonym(
+      { synonym: normalizedSynonym, canonical: normalizedCanonical },
+      {
+        onSuccess: (created) => {
+          toast.success(`#${created.synonym}을(를) #${created.canonical}의 동의어로 등록했습니다`);
+          setSynonym('');
+          setCanonical('');
+        },
+        onError: (err) => {
+          toast.error(err instanceof Error ? err.message : '동의어 등록에 실패했습니다.');
+        },
+      }
+    );
+  };
+
+  const handleDelete = (id: number, label: string) => {
+    deleteSynonym(id, {
+      onSuccess: () => {
+        toast.success(`동의어 #${label}을(를) 삭제했습니다`);
+      },
+      onError: (err) => {
+        toast.error(err instanceof Error ? err.message : '동의어 삭제에 실패했습니다.');
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <form className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end" onSubmit={handleSubmit}>
+        <div className="space-y-2">
+          <Label htmlFor="synonym-input">동의어</Label>
+          <Input
+            id="synonym-input"
+            value={synonym}
+            onChange={(e) => setSynonym(e.target.value)}
+            placeholder="예: 리액트"
+            maxLength={51}
+            disabled={isCreating}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="synonym-canonical">대표 태그</Label>
+          <Input
+            id="synonym-canonical"
+            value={canonical}
+            onChange={(e) => setCanonical(e.target.value)}
+            placeholder="예: React"
+            maxLength={51}
+            disabled={isCreating}
+          />
+        </div>
+        <Button type="submit" disabled={!canSubmit}>
+          {isCreating ? '등록 중...' : '동의어 등록'}
+        </Button>
+      </form>
+
+      {isLoading && <Skeleton className="h-32 w-full" />}
+
+      {error && (
+        <div
+          className="p-4 bg-red-50 border border-red-200 rounded-md flex items-center justify-between"
+          role="alert"
+          aria-live="polite"
+        >
+          <p className="text-red-800 text-sm">동의어 목록을 불러오지 못했습니다. {error.message}</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            다시 시도
+          </Button>
+        </div>
+      )}
+
+      {data && synonyms.length === 0 && (
+        <p className="text-center text-muted-foreground py-8">등록된 동의어가 없습니다.</p>
+      )}
+
+      {synonyms.length > 0 && (
+        <table className="w-full text-sm">
+          <caption className="sr-only">태그 동의어 목록</caption>
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th scope="col" className="pb-2 pr-4 font-medium">동의어</th>
+              <th scope="col" className="pb-2 pr-4 font-medium">대표 태그</th>
+              <th scope="col" className="pb-2 font-medium sr-only">작업</th>
+            </tr>
+          </thead>
+          <tbody>
+            {synonyms.map((item) => (
+              <tr key={item.id} className="border-b last:border-0">
+                <td className="py-2 pr-4">#{item.synonym}</td>
+                <td className="py-2 pr-4">#{item.canonical}</td>
+                <td className="py-2 text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(item.id, item.synonym)}
+                    disabled={isDeleting}
+                    aria-label={`동의어 #${item.synonym} 삭제`}
+                  >
+                    <Trash2 size={16} aria-hidden="true" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
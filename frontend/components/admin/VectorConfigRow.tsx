@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useUpdateVectorConfig } from '@/lib/hooks/useVectorConfigs';
+import { VECTOR_CONFIG_BOUNDS } from '@/types/api/vectorConfig';
+import type { VectorConfigResponse } from '@/types/api/vectorConfig';
+
+interface VectorConfigRowProps {
+  config: VectorConfigResponse;
+}
+
+/**
+ * 입력값을 범위 내 숫자로 검증
+ *
+ * @returns 에러 메시지 (유효하면 null)
+ */
+function validateBounded(
+  value: string,
+  label: string,
+  bounds: { min: number; max: number }
+): string | null {
+  if (value.trim() === '') {
+    return `${label}을(를) 입력하세요`;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    return `${label}은(는) 숫자여야 합니다`;
+  }
+  if (parsed < bounds.min || parsed > bounds.max) {
+    return `${label}은(는) ${bounds.min.toFixed(1)} ~ ${bounds.max.toFixed(1)} 범위여야 합니다`;
+  }
+  return null;
+}
+
+/**
+ * 벡터 설정 인라인 편집 행
+ *
+ * weight/threshold는 로컬 draft로 편집 후 저장, enabled는 토글 즉시 저장
+ * 저장된 weight/threshold가 바뀔 때만 draft를 서버 값으로 초기화
+ * (enabled 토글로 updatedAt만 바뀌면 저장하지 않은 입력 유지)
+ *
+ * Constitution Principle X: Semantic HTML, ARIA
+ */
+export function VectorConfigRow({ config }: VectorConfigRowProps) {
+  const { mutate: updateConfig, isPending } = useUpdateVectorConfig();
+
+  const [weight, setWeight] = useState(config.weight.toString());
+  const [threshold, setThreshold] = useState(config.threshold.toString());
+  const [savedWeight, setSavedWeight] = useState(config.weight);
+  const [savedThreshold, setSavedThreshold] = useState(config.threshold);
+
+  // 렌더 중 이전 저장값과 비교해 draft 동기화 (useEffect 없이 한 번의 렌더로 반영)
+  if (config.weight !== savedWeight || config.threshold !== savedThreshold) {
+    setSavedWeight(config.weight);
+    setSavedThreshold(config.threshold);
+    setWeight(config.weight.toString());
+    setThreshold(config.threshold.toString());
+  }
+
+  const weightError = validateBounded(weight, '가중치', VECTOR_CONFIG_BOUNDS.weight);
+  const thresholdError = validateBounded(threshold, '임계값', VECTOR_CONFIG_BOUNDS.threshold);
+
+  const isDirty =
+    Number(weight) !== config.weight || Number(threshold) !== config.threshold;
+  const canSave = isDirty && !weightError && !thresholdError && !isPending;
+
+  const handleSave = () => {
+    if (!canSave) return;
+
+    updateConfig(
+      {
+        id: config.id,
+        request: { weight: Number(weight), threshold: Number(threshold) },
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${config.entityType}.${config.fieldName} 설정이 저장되었습니다`);
+        },
+        onError: (err) => {
+          toast.error(err instanceof Error ? err.message : '설정 저장에 실패했습니다.');
+        },
+      }
+    );
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    updateConfig(
+      { id: config.id, request: { enabled } },
+      {
+        onSuccess: () => {
+          toast.success(
+            `${config.entityType}.${config.fieldName} ${enabled ? '활성화' : '비활성화'}되었습니다`
+          );
+        },
+        onError: (err) => {
+          toast.error(err instanceof Error ? err.message : '설정 변경에 실패했습니다.');
+        },
+      }
+    );
+  };
+
+  const handleReset = () => {
+    setWeight(config.weight.toString());
+    setThreshold(config.threshold.toString());
+  };
+
+  const weightId = `weight-${config.id}`;
+  const thresholdId = `threshold-${config.id}`;
+
+  return (
+    <tr className="border-b last:border-0 align-top">
+      <td className="py-3 pr-4 font-mono text-sm">{config.fieldName}</td>
+      <td className="py-3 pr-4">
+        <label htmlFor={weightId} className="sr-only">
+          {config.fieldName} 가중치
+        </label>
+        <Input
+          id={weightId}
+          type="number"
+          inputMode="decimal"
+          min={VECTOR_CONFIG_BOUNDS.weight.min}
+          max={VECTOR_CONFIG_BOUNDS.weight.max}
+          step={VECTOR_CONFIG_BOUNDS.weight.step}
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          disabled={isPending}
+          aria-invalid={!!weightError}
+          aria-describedby={weightError ? `${weightId}-error` : undefined}
+          className="w-28"
+        />
+        {weightError && (
+          <p id={`${weightId}-error`} className="text-xs text-destructive mt-1" role="alert">
+            {weightError}
+          </p>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        <label htmlFor={thresholdId} className="sr-only">
+          {config.fieldName} 임계값
+        </label>
+        <Input
+          id={thresholdId}
+          type="number"
+          inputMode="decimal"
+          min={VECTOR_CONFIG_BOUNDS.threshold.min}
+          max={VECTOR_CONFIG_BOUNDS.threshold.max}
+          step={VECTOR_CONFIG_BOUNDS.threshold.step}
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          disabled={isPending}
+          aria-invalid={!!thresholdError}
+          aria-describedby={thresholdError ? `${thresholdId}-error` : undefined}
+          className="w-28"
+        />
+        {thresholdError && (
+          <p id={`${thresholdId}-error`} className="text-xs text-destructive mt-1" role="alert">
+            {thresholdError}
+          </p>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={handleToggle}
+          disabled={isPending}
+          aria-label={`${config.fieldName} 활성화`}
+        />
+      </td>
+      <td className="py-3 text-right whitespace-nowrap">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleReset}
+          disabled={!isDirty || isPending}
+          aria-label={`${config.fieldName} 변경 취소`}
+        >
+          취소
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!canSave}
+          aria-label={`${config.fieldName} 저장`}
+        >
+          {isPending ? '저장 중...' : '저장'}
+        </Button>
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { hasRequiredRole } from '@/lib/constants/routes';
+import { useAuth } from '@/lib/hooks/useAuth';
+import type { UserRole } from '@/types/api/user';
+
+interface RequireRoleProps {
+  /** 허용 역할 (가장 낮은 역할 이상이면 허용, ADMIN ⊃ MODERATOR ⊃ USER) */
+  roles: readonly UserRole[];
+  children: React.ReactNode;
+  /** 권한이 없을 때 표시할 UI (기본값: 접근 권한 안내 카드) */
+  fallback?: React.ReactNode;
+}
+
+/**
+ * 역할 기반 렌더링 가드
+ *
+ * Middleware가 JWT role 클레임으로 1차 차단하고, 이 컴포넌트는 /api/auth/me의 최신 역할로
+ * 페이지/섹션 단위를 2차 보호 (역할 변경 후 토큰 재발급 전 구간 포함)
+ *
+ * Constitution Principle X: role="alert"로 권한 부족 안내
+ *
+ * @example
+ * <RequireRole roles={['ADMIN']}>
+ *   <VectorConfigTable />
+ * </RequireRole>
+ */
+export function RequireRole({ roles, children, fallback }: RequireRoleProps) {
+  const { data: user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-4" aria-busy="true">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (!hasRequiredRole(user?.role, roles)) {
+    return fallback ?? <ForbiddenNotice />;
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * 접근 권한 없음 안내 (RequireRole 기본 fallback, /forbidden 페이지 공용)
+ */
+export function ForbiddenNotice() {
+  return (
+    <main className="container mx-auto px-4 py-16 max-w-md">
+      <Card role="alert">
+        <CardHeader className="text-center">
+          <ShieldAlert className="w-12 h-12 mx-auto text-red-500 mb-2" aria-hidden="true" />
+          <CardTitle>접근 권한이 없습니다</CardTitle>
+          <CardDescription>
+            이 페이지는 관리자만 이용할 수 있습니다. 권한이 필요하면 관리자에게 문의해주세요.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          <Button asChild>
+            <Link href="/posts">게시판으로 이동</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+// Backend CreateCommentRequest/UpdateCommentRequest @Size(max = 5000)와 동기화
+export const COMMENT_MAX_LENGTH = 5000;
+
+/**
+ * 댓글 작성/수정 폼
+ *
+ * Markdown으로 입력하며 MarkdownViewer와 동일하게 렌더링됨
+ * Constitution Principle X: ARIA 레이블 및 Semantic HTML 구현
+ */
+interface CommentFormProps {
+  onSubmit: (content: string) => Promise<unknown>;
+  onCancel?: () => void;
+  initialContent?: string;
+  submitLabel?: string;
+  placeholder?: string;
+  isSubmitting?: boolean;
+  autoFocus?: boolean;
+}
+
+export function CommentForm({
+  onSubmit,
+  onCancel,
+  initialContent = '',
+  submitLabel = '댓글 작성',
+  placeholder = '댓글을 입력하세요 (Markdown 지원)',
+  isSubmitting = false,
+  autoFocus = false,
+}: CommentFormProps) {
+  const [content, setContent] = useState(initialContent);
+
+  const trimmed = content.trim();
+  const isOverLimit = content.length > COMMENT_MAX_LENGTH;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || isOverLimit) return;
+
+    try {
+      await onSubmit(trimmed);
+      setContent('');
+    } catch {
+      // 실패 시 입력 내용 유지 (에러 토스트는 호출부에서 처리)
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2" aria-label={submitLabel}>
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        aria-invalid={isOverLimit}
+        disabled={isSubmitting}
+        autoFocus={autoFocus}
+        rows={3}
+      />
+      <div className="flex items-center justify-between">
+        <span className={`text-xs ${isOverLimit ? 'text-red-600' : 'text-gray-500'}`}>
+          {content.length} / {COMMENT_MAX_LENGTH}
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              취소
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={!trimmed || isOverLimit || isSubmitting}>
+            {isSubmitting ? '저장 중...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
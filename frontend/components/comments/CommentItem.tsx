@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import MarkdownViewer from '@/components/ui/MarkdownViewer';
+import { useCreateComment, useDeleteComment, useUpdateComment } from '@/lib/hooks/useComments';
+import type { CommentNode } from '@/types/api/comment';
+import { CommentForm } from './CommentForm';
+
+/**
+ * 들여쓰기 최대 깊이 (이보다 깊은 답글은 같은 깊이로 표시하여 모바일 가독성 유지)
+ */
+const MAX_INDENT_DEPTH = 4;
+
+/**
+ * 댓글 단일 항목 (답글 재귀 렌더링)
+ *
+ * Constitution Principle X: ARIA 레이블 및 Semantic HTML 구현
+ */
+interface CommentItemProps {
+  comment: CommentNode;
+  postId: number;
+  currentUserId?: number;
+  depth?: number;
+}
+
+export function CommentItem({ comment, postId, currentUserId, depth = 0 }: CommentItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const createComment = useCreateComment(postId);
+  const updateComment = useUpdateComment(postId);
+  const deleteComment = useDeleteComment(postId);
+
+  const isAuthor = !comment.deleted && currentUserId !== undefined && comment.author?.id === currentUserId;
+
+  const handleReply = (content: string) =>
+    createComment.mutateAsync(
+      { content, parentId: comment.id },
+      {
+        onSuccess: () => {
+          setIsReplying(false);
+          toast.success('답글이 등록되었습니다');
+        },
+        onError: (error) => toast.error(error.message || '답글 등록에 실패했습니다'),
+      }
+    );
+
+  const handleUpdate = (content: string) =>
+    updateComment.mutateAsync(
+      { commentId: comment.id, request: { content } },
+      {
+        onSuccess: () => {
+          setIsEditing(false);
+          toast.success('댓글이 수정되었습니다');
+        },
+        onError: (error) => toast.error(error.message || '댓글 수정에 실패했습니다'),
+      }
+    );
+
+  const handleDeleteConfirm = () => {
+    deleteComment.mutate(comment.id, {
+      onSuccess: () => {
+        setDeleteDialogOpen(false);
+        toast.success('댓글이 삭제되었습니다');
+      },
+      onError: (error) => {
+        setDeleteDialogOpen(false);
+        toast.error(error.message || '댓글 삭제에 실패했습니다');
+      },
+    });
+  };
+
+  return (
+    <li className="space-y-3" aria-label={comment.deleted ? '삭제된 댓글' : `${comment.author?.name}님의 댓글`}>
+      <article className="rounded-md border p-4">
+        {comment.deleted ? (
+          <p className="text-sm italic text-gray-500">삭제된 댓글입니다.</p>
+        ) : (
+          <>
+            <header className="flex items-center gap-3 mb-2">
+              {comment.author?.profileImageUrl && (
+                <Image
+                  src={comment.author.profileImageUrl}
+                  alt={`${comment.author.name} 프로필`}
+                  width={32}
+                  height={32}
+                  className="rounded-full"
+                />
+              )}
+              <div>
+                <p className="text-sm font-semibold">{comment.author?.name}</p>
+                <p className="text-xs text-gray-500">
+                  <time dateTime={comment.createdAt}>
+                    {format(new Date(comment.createdAt), 'yyyy년 MM월 dd일 HH:mm')}
+                  </time>
+                  {comment.updatedAt && ' (수정됨)'}
+                </p>
+              </div>
+            </header>
+
+            {isEditing ? (
+              <CommentForm
+                initialContent={comment.content}
+                submitLabel="수정 완료"
+                onSubmit={handleUpdate}
+                onCancel={() => setIsEditing(false)}
+                isSubmitting={updateComment.isPending}
+                autoFocus
+              />
+            ) : (
+              <MarkdownViewer content={comment.content} className="text-sm" />
+            )}
+
+            {!isEditing && (
+              <div className="flex gap-1 mt-2">
+                {currentUserId !== undefined && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsReplying((prev) => !prev)}
+                    aria-expanded={isReplying}
+                  >
+                    답글
+                  </Button>
+                )}
+                {isAuthor && (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} aria-label="댓글 수정">
+                      수정
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => setDeleteDialogOpen(true)}
+                      aria-label="댓글 삭제"
+                    >
+                      삭제
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </article>
+
+      {isReplying && (
+        <div className="ml-6">
+          <CommentForm
+            submitLabel="답글 작성"
+            placeholder="답글을 입력하세요 (Markdown 지원)"
+            onSubmit={handleReply}
+            onCancel={() => setIsReplying(false)}
+            isSubmitting={createComment.isPending}
+            autoFocus
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul
+          className={depth < MAX_INDENT_DEPTH ? 'ml-6 border-l pl-4 space-y-3' : 'space-y-3'}
+          aria-label="답글 목록"
+        >
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              postId={postId}
+              currentUserId={currentUserId}
+              depth={depth + 1}
+            />
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>댓글 삭제 확인</AlertDialogTitle>
+            <AlertDialogDescription>
+              이 댓글을 삭제하시겠습니까? 답글이 있으면 &ldquo;삭제된 댓글입니다&rdquo;로 표시됩니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteComment.isPending}>취소</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              disabled={deleteComment.isPending}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {deleteComment.isPending ? '삭제 중...' : '삭제'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </li>
+  );
+}
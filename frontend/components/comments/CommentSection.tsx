@@ -0,0 +1,105 @@
+'use client';
+
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useComments, useCreateComment } from '@/lib/hooks/useComments';
+import type { CommentDto, CommentNode } from '@/types/api/comment';
+import { CommentForm } from './CommentForm';
+import { CommentItem } from './CommentItem';
+
+/**
+ * 평면 댓글 목록 → 스레드 트리 변환
+ *
+ * - parentId로 답글을 부모 아래에 배치 (작성순 유지)
+ * - 답글이 모두 사라진 삭제 댓글은 표시할 필요가 없으므로 제거
+ */
+function buildCommentTree(comments: CommentDto[]): CommentNode[] {
+  const nodes = new Map<number, CommentNode>();
+  comments.forEach((comment) => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const prune = (list: CommentNode[]): CommentNode[] =>
+    list
+      .map((node) => ({ ...node, replies: prune(node.replies) }))
+      .filter((node) => !node.deleted || node.replies.length > 0);
+
+  return prune(roots);
+}
+
+/**
+ * 게시글 하단 댓글 섹션
+ *
+ * Constitution Principle X: ARIA 레이블 및 Semantic HTML 구현
+ */
+interface CommentSectionProps {
+  postId: number;
+  currentUserId?: number;
+}
+
+export function CommentSection({ postId, currentUserId }: CommentSectionProps) {
+  const { data: comments, isLoading, error, refetch } = useComments(postId);
+  const createComment = useCreateComment(postId);
+
+  const tree = comments ? buildCommentTree(comments) : [];
+  const activeCount = comments?.filter((comment) => !comment.deleted).length ?? 0;
+
+  const handleCreate = (content: string) =>
+    createComment.mutateAsync(
+      { content },
+      {
+        onSuccess: () => toast.success('댓글이 등록되었습니다'),
+        onError: (error) => toast.error(error.message || '댓글 등록에 실패했습니다'),
+      }
+    );
+
+  return (
+    <section className="mt-12 pt-6 border-t" aria-labelledby="comments-heading">
+      <h2 id="comments-heading" className="text-xl font-semibold mb-4">
+        댓글 {activeCount > 0 && <span className="text-gray-500">{activeCount}</span>}
+      </h2>
+
+      {currentUserId !== undefined && (
+        <div className="mb-6">
+          <CommentForm onSubmit={handleCreate} isSubmitting={createComment.isPending} />
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3" role="status" aria-label="댓글 로딩 중">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-6" role="alert">
+          <p className="text-sm text-gray-600 mb-3">{error.message}</p>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            다시 시도
+          </Button>
+        </div>
+      ) : tree.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">첫 댓글을 남겨보세요.</p>
+      ) : (
+        <ul className="space-y-4" aria-label="댓글 목록">
+          {tree.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              postId={postId}
+              currentUserId={currentUserId}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Cloud, CloudOff, Loader2 } from 'lucide-react';
+import type { AutosaveStatus } from '@/lib/hooks/useDrafts';
+
+/**
+ * 자동 저장 상태 표시
+ *
+ * Constitution Principle X: aria-live로 저장 상태 변경 안내
+ */
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  lastSavedAt: number | null;
+}
+
+export function AutosaveIndicator({ status, lastSavedAt }: AutosaveIndicatorProps) {
+  if (status === 'idle') {
+    return null;
+  }
+
+  return (
+    <p className="flex items-center gap-1 text-sm text-gray-500" role="status" aria-live="polite">
+      {status === 'saving' && (
+        <>
+          <Loader2 size={14} className="animate-spin" aria-hidden="true" />
+          서버에 저장 중...
+        </>
+      )}
+      {status === 'saved' && lastSavedAt && (
+        <>
+          <Cloud size={14} aria-hidden="true" />
+          {format(lastSavedAt, 'HH:mm:ss')} 초안 저장됨
+        </>
+      )}
+      {status === 'offline' && (
+        <>
+          <CloudOff size={14} aria-hidden="true" />
+          이 기기에만 저장됨 (서버 저장 재시도 중)
+        </>
+      )}
+    </p>
+  );
+}
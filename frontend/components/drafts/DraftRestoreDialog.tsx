@@ -0,0 +1,82 @@
+'use client';
+
+import { format } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import type { DraftRecoveryCandidate } from '@/lib/hooks/useDrafts';
+
+/**
+ * 초안 복원 다이얼로그
+ *
+ * 열었을 때 현재 내용과 다른 초안이 있으면 복원할 버전을 선택
+ * 이 기기(IndexedDB)와 서버 초안이 서로 다르면 두 버전을 모두 보여줌
+ *
+ * Constitution Principle VI: shadcn/ui AlertDialog 컴포넌트 활용
+ */
+interface DraftRestoreDialogProps {
+  candidates: DraftRecoveryCandidate[];
+  onRestore: (candidate: DraftRecoveryCandidate) => void;
+  onDiscard: () => void;
+}
+
+const SOURCE_LABELS: Record<DraftRecoveryCandidate['source'], string> = {
+  local: '이 기기',
+  server: '서버',
+};
+
+function toExcerpt(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80);
+}
+
+export function DraftRestoreDialog({ candidates, onRestore, onDiscard }: DraftRestoreDialogProps) {
+  return (
+    <AlertDialog open={candidates.length > 0}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>저장된 초안이 있습니다</AlertDialogTitle>
+          <AlertDialogDescription>
+            {candidates.length > 1
+              ? '이 기기와 서버에 서로 다른 초안이 있습니다. 이어서 작성할 버전을 선택하세요.'
+              : '이전에 작성하던 내용을 이어서 작성하시겠습니까?'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className="space-y-3" aria-label="복원 가능한 초안">
+          {candidates.map((candidate) => (
+            <li
+              key={candidate.source}
+              className="flex items-start justify-between gap-4 rounded-md border p-3"
+            >
+              <div className="min-w-0">
+                <p className="text-xs text-gray-500">
+                  {SOURCE_LABELS[candidate.source]} · {format(candidate.updatedAt, 'yyyy-MM-dd HH:mm')}
+                </p>
+                <p className="font-medium truncate">{candidate.content.title || '(제목 없음)'}</p>
+                <p className="text-sm text-gray-600 truncate">{toExcerpt(candidate.content.contentHtml)}</p>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => onRestore(candidate)}
+                aria-label={`${SOURCE_LABELS[candidate.source]} 초안 복원`}
+              >
+                복원
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard}>초안 버리기</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
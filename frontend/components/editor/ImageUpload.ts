@@ -0,0 +1,192 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { EditorView } from '@tiptap/pm/view'
+import { toast } from 'sonner'
+import { ACCEPTED_IMAGE_TYPES, resizeImage } from '@/lib/image/resize'
+
+/**
+ * 에디터 이미지 업로드 (붙여넣기 / 드래그 앤 드롭 / 파일 선택)
+ *
+ * 1. 클라이언트 리사이즈 후 업로드 위치에 진행률 플레이스홀더(Decoration) 표시
+ * 2. 업로드 완료 시 플레이스홀더 위치에 image 노드 삽입
+ * 3. 실패 시 플레이스홀더 제거 + 토스트 안내
+ *
+ * 플레이스홀더는 문서 노드가 아닌 Decoration이므로 업로드 중 getHTML()에 포함되지 않음
+ */
+export interface ImageUploadOptions {
+  upload: (file: Blob, filename: string, onProgress: (percent: number) => void) => Promise<string>
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    imageUpload: {
+      /**
+       * 현재 선택 위치에 이미지 파일 업로드 후 삽입
+       */
+      uploadImages: (files: File[]) => ReturnType
+    }
+  }
+}
+
+type PlaceholderAction =
+  | { type: 'add'; id: string; pos: number; previewUrl: string }
+  | { type: 'remove'; id: string }
+
+const placeholderKey = new PluginKey<DecorationSet>('imageUploadPlaceholder')
+
+/**
+ * 업로드 진행률 표시 DOM (Decoration 재생성 없이 직접 갱신)
+ */
+const progressElements = new Map<string, HTMLElement>()
+
+function createPlaceholderElement(id: string, previewUrl: string): HTMLElement {
+  const wrapper = document.createElement('span')
+  wrapper.className = 'relative inline-block my-4'
+  wrapper.setAttribute('role', 'status')
+  wrapper.setAttribute('aria-label', '이미지 업로드 중')
+
+  const preview = document.createElement('img')
+  preview.src = previewUrl
+  preview.alt = ''
+  preview.className = 'max-w-full h-auto rounded-lg opacity-50'
+  wrapper.appendChild(preview)
+
+  const progress = document.createElement('span')
+  progress.className = 'absolute inset-x-0 bottom-0 h-1 bg-primary transition-[width]'
+  progress.style.width = '0%'
+  wrapper.appendChild(progress)
+
+  progressElements.set(id, progress)
+  return wrapper
+}
+
+function findPlaceholder(view: EditorView, id: string): number | null {
+  const decorations = placeholderKey.getState(view.state)
+  const found = decorations?.find(undefined, undefined, (spec) => spec.id === id)
+  return found?.length ? found[0].from : null
+}
+
+function isImageFile(file: File): boolean {
+  return ACCEPTED_IMAGE_TYPES.includes(file.type)
+}
+
+async function uploadImageFile(view: EditorView, file: File, pos: number, options: ImageUploadOptions) {
+  const id = `upload-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  let resized
+  try {
+    resized = await resizeImage(file)
+  } catch {
+    toast.error('이미지를 읽을 수 없습니다')
+    return
+  }
+
+  const previewUrl = URL.createObjectURL(resized.blob)
+  view.dispatch(
+    view.state.tr.setMeta(placeholderKey, { type: 'add', id, pos, previewUrl } satisfies PlaceholderAction)
+  )
+
+  try {
+    const src = await options.upload(resized.blob, resized.filename, (percent) => {
+      const progress = progressElements.get(id)
+      if (progress) progress.style.width = `${percent}%`
+    })
+
+    const placeholderPos = findPlaceholder(view, id)
+    // 업로드 중 플레이스홀더가 포함된 내용이 삭제된 경우 삽입하지 않음
+    if (placeholderPos === null) return
+
+    const imageNode = view.state.schema.nodes.image?.create({ src, alt: '' })
+    if (!imageNode) return
+
+    view.dispatch(
+      view.state.tr
+        .replaceWith(placeholderPos, placeholderPos, imageNode)
+        .setMeta(placeholderKey, { type: 'remove', id } satisfies PlaceholderAction)
+    )
+  } catch (error) {
+    view.dispatch(view.state.tr.setMeta(placeholderKey, { type: 'remove', id } satisfies PlaceholderAction))
+    toast.error(error instanceof Error ? error.message : '이미지 업로드에 실패했습니다')
+  } finally {
+    progressElements.delete(id)
+    URL.revokeObjectURL(previewUrl)
+  }
+}
+
+function uploadImageFiles(view: EditorView, files: File[], pos: number, options: ImageUploadOptions): boolean {
+  const images = files.filter(isImageFile)
+  if (images.length === 0) return false
+
+  images.forEach((file) => {
+    void uploadImageFile(view, file, pos, options)
+  })
+  return true
+}
+
+export const ImageUpload = Extension.create<ImageUploadOptions>({
+  name: 'imageUpload',
+
+  addOptions() {
+    return {
+      upload: () => Promise.reject(new Error('ImageUpload.upload이 설정되지 않았습니다')),
+    }
+  },
+
+  addCommands() {
+    return {
+      uploadImages:
+        (files) =>
+        ({ view, state }) =>
+          uploadImageFiles(view, files, state.selection.from, this.options),
+    }
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options
+
+    return [
+      new Plugin<DecorationSet>({
+        key: placeholderKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply(tr, decorations) {
+            let next = decorations.map(tr.mapping, tr.doc)
+            const action = tr.getMeta(placeholderKey) as PlaceholderAction | undefined
+
+            if (action?.type === 'add') {
+              const widget = Decoration.widget(action.pos, () => createPlaceholderElement(action.id, action.previewUrl), {
+                id: action.id,
+              })
+              next = next.add(tr.doc, [widget])
+            } else if (action?.type === 'remove') {
+              next = next.remove(next.find(undefined, undefined, (spec) => spec.id === action.id))
+            }
+
+            return next
+          },
+        },
+        props: {
+          decorations(state) {
+            return placeholderKey.getState(state)
+          },
+          handlePaste(view, event) {
+            const files = Array.from(event.clipboardData?.files ?? [])
+            return uploadImageFiles(view, files, view.state.selection.from, options)
+          },
+          handleDrop(view, event) {
+            const files = Array.from(event.dataTransfer?.files ?? [])
+            if (files.length === 0) return false
+
+            const dropPos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos
+            const handled = uploadImageFiles(view, files, dropPos ?? view.state.selection.from, options)
+            if (handled) event.preventDefault()
+            return handled
+          },
+        },
+      }),
+    ]
+  },
+})
+
+export default ImageUpload
@@ -16,6 +16,7 @@ import {
   Quote,
   Link,
   Image,
+  TextCursorInput,
   Youtube,
   Table,
   AlignLeft,
@@ -24,6 +25,7 @@ import {
   Highlighter,
   Maximize
 } from 'lucide-react'
+import { editorCommands } from './editorCommands'
 
 interface MenuBarProps {
   editor: Editor
@@ -47,22 +49,16 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
     editor.chain().focus().extendMarkRange('link').setLink({ href: url }).run()
   }
 
-  const addImage = () => {
-    const url = window.prompt('이미지 URL')
-    if (url) {
-      editor.chain().focus().setImage({ src: url }).run()
-    }
-  }
+  // 선택된 이미지의 대체 텍스트 (스크린 리더, 이미지 로드 실패 시 표시)
+  const setImageAlt = () => {
+    const previousAlt = editor.getAttributes('image').alt ?? ''
+    const alt = window.prompt('이미지 대체 텍스트', previousAlt)
 
-  const addYoutube = () => {
-    const url = window.prompt('YouTube URL')
-    if (url) {
-      editor.commands.setYoutubeVideo({ src: url })
+    if (alt === null) {
+      return
     }
-  }
 
-  const addTable = () => {
-    editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()
+    editor.chain().focus().updateAttributes('image', { alt: alt.trim() }).run()
   }
 
   return (
@@ -141,7 +137,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={() => editor.chain().focus().toggleHeading({ level: 1 }).run()}
+        onClick={() => editorCommands.heading1(editor)}
         className={`p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
           editor.isActive('heading', { level: 1 }) ? 'bg-gray-300 dark:bg-gray-600' : ''
         }`}
@@ -152,7 +148,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={() => editor.chain().focus().toggleHeading({ level: 2 }).run()}
+        onClick={() => editorCommands.heading2(editor)}
         className={`p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
           editor.isActive('heading', { level: 2 }) ? 'bg-gray-300 dark:bg-gray-600' : ''
         }`}
@@ -163,7 +159,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={() => editor.chain().focus().toggleHeading({ level: 3 }).run()}
+        onClick={() => editorCommands.heading3(editor)}
         className={`p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
           editor.isActive('heading', { level: 3 }) ? 'bg-gray-300 dark:bg-gray-600' : ''
         }`}
@@ -176,7 +172,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={() => editor.chain().focus().toggleBulletList().run()}
+        onClick={() => editorCommands.bulletList(editor)}
         className={`p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
           editor.isActive('bulletList') ? 'bg-gray-300 dark:bg-gray-600' : ''
         }`}
@@ -187,7 +183,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={() => editor.chain().focus().toggleOrderedList().run()}
+        onClick={() => editorCommands.orderedList(editor)}
         className={`p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
           editor.isActive('orderedList') ? 'bg-gray-300 dark:bg-gray-600' : ''
         }`}
@@ -198,7 +194,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={() => editor.chain().focus().toggleBlockquote().run()}
+        onClick={() => editorCommands.blockquote(editor)}
         className={`p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
           editor.isActive('blockquote') ? 'bg-gray-300 dark:bg-gray-600' : ''
         }`}
@@ -257,16 +253,26 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={addImage}
+        onClick={() => editorCommands.image(editor)}
         className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
-        title="이미지"
+        title="이미지 업로드 (붙여넣기, 드래그 앤 드롭 가능)"
       >
         <Image size={18} />
       </button>
 
       <button
         type="button"
-        onClick={addYoutube}
+        onClick={setImageAlt}
+        disabled={!editor.isActive('image')}
+        className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+        title="이미지 대체 텍스트"
+      >
+        <TextCursorInput size={18} />
+      </button>
+
+      <button
+        type="button"
+        onClick={() => editorCommands.youtube(editor)}
         className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
         title="YouTube"
       >
@@ -275,7 +281,7 @@ const MenuBar: React.FC<MenuBarProps> = ({ editor, onFullscreen }) => {
 
       <button
         type="button"
-        onClick={addTable}
+        onClick={() => editorCommands.table(editor)}
         className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
         title="표"
       >
@@ -0,0 +1,98 @@
+import { Extension } from '@tiptap/core'
+import { PluginKey } from '@tiptap/pm/state'
+import { ReactRenderer } from '@tiptap/react'
+import Suggestion, { exitSuggestion, type SuggestionOptions } from '@tiptap/suggestion'
+import { fuzzyFilter } from '@/lib/text/fuzzy'
+import { BLOCK_COMMAND_ITEMS, editorCommands, type BlockCommandItem } from './editorCommands'
+import SlashCommandMenu, { type SlashCommandMenuProps, type SlashCommandMenuRef } from './SlashCommandMenu'
+
+/**
+ * 슬래시 명령어 (`/` 입력 시 블록 명령 팔레트)
+ *
+ * - 명령 목록과 실행은 editorCommands를 사용 (MenuBar와 동일)
+ * - 검색어는 제목/별칭에 대해 퍼지 매칭
+ * - 코드 블록 안에서는 비활성화
+ */
+const slashCommandKey = new PluginKey('slashCommand')
+
+// 팔레트와 커서 사이 간격 (px)
+const MENU_OFFSET = 4
+
+function positionMenu(element: HTMLElement, clientRect: (() => DOMRect | null) | null | undefined) {
+  const rect = clientRect?.()
+  if (!rect) return
+
+  const menuHeight = element.offsetHeight
+  const fitsBelow = rect.bottom + MENU_OFFSET + menuHeight <= window.innerHeight
+
+  element.style.left = `${Math.min(rect.left, window.innerWidth - element.offsetWidth - MENU_OFFSET)}px`
+  element.style.top = fitsBelow
+    ? `${rect.bottom + MENU_OFFSET}px`
+    : `${Math.max(MENU_OFFSET, rect.top - MENU_OFFSET - menuHeight)}px`
+}
+
+const suggestion: Omit<SuggestionOptions<BlockCommandItem, BlockCommandItem>, 'editor'> = {
+  char: '/',
+  pluginKey: slashCommandKey,
+
+  allow: ({ state, range }) => !state.doc.resolve(range.from).parent.type.spec.code,
+
+  items: ({ query }) =>
+    fuzzyFilter(BLOCK_COMMAND_ITEMS, query, (item) => [item.title, item.id, ...item.keywords]),
+
+  command: ({ editor, range, props: item }) => {
+    editor.chain().focus().deleteRange(range).run()
+    editorCommands[item.id](editor)
+  },
+
+  render: () => {
+    let renderer: ReactRenderer<SlashCommandMenuRef, SlashCommandMenuProps> | null = null
+
+    return {
+      onStart: (props) => {
+        renderer = new ReactRenderer(SlashCommandMenu, { props, editor: props.editor })
+
+        const element = renderer.element as HTMLElement
+        element.style.position = 'fixed'
+        element.style.zIndex = '60'
+        document.body.appendChild(element)
+        positionMenu(element, props.clientRect)
+      },
+
+      onUpdate: (props) => {
+        renderer?.updateProps(props)
+        if (renderer) positionMenu(renderer.element as HTMLElement, props.clientRect)
+      },
+
+      onKeyDown: ({ view, event }) => {
+        if (event.key === 'Escape') {
+          exitSuggestion(view, slashCommandKey)
+          return true
+        }
+
+        return renderer?.ref?.onKeyDown(event) ?? false
+      },
+
+      onExit: () => {
+        renderer?.destroy()
+        renderer?.element.remove()
+        renderer = null
+      }
+    }
+  }
+}
+
+export const SlashCommand = Extension.create({
+  name: 'slashCommand',
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...suggestion
+      })
+    ]
+  }
+})
+
+export default SlashCommand
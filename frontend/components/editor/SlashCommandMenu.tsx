@@ -0,0 +1,103 @@
+'use client'
+
+import React, { forwardRef, useImperativeHandle, useState } from 'react'
+import type { BlockCommandItem } from './editorCommands'
+
+export interface SlashCommandMenuProps {
+  items: BlockCommandItem[]
+  command: (item: BlockCommandItem) => void
+}
+
+export interface SlashCommandMenuRef {
+  onKeyDown: (event: KeyboardEvent) => boolean
+}
+
+/**
+ * 슬래시 명령어 팔레트 (↑/↓ 이동, Enter 실행, Esc 닫기)
+ */
+const SlashCommandMenu = forwardRef<SlashCommandMenuRef, SlashCommandMenuProps>(({ items, command }, ref) => {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [previousItems, setPreviousItems] = useState(items)
+
+  // 검색어가 바뀌어 목록이 갱신되면 첫 항목부터 다시 선택
+  if (items !== previousItems) {
+    setPreviousItems(items)
+    setSelectedIndex(0)
+  }
+
+  const selectItem = (index: number) => {
+    const item = items[index]
+    if (item) {
+      command(item)
+    }
+  }
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: (event: KeyboardEvent) => {
+      if (items.length === 0) return false
+
+      if (event.key === 'ArrowUp') {
+        setSelectedIndex((selectedIndex + items.length - 1) % items.length)
+        return true
+      }
+
+      if (event.key === 'ArrowDown') {
+        setSelectedIndex((selectedIndex + 1) % items.length)
+        return true
+      }
+
+      if (event.key === 'Enter') {
+        selectItem(selectedIndex)
+        return true
+      }
+
+      return false
+    }
+  }))
+
+  return (
+    <div
+      role="listbox"
+      aria-label="명령어 메뉴"
+      className="w-64 max-h-80 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg p-1"
+    >
+      {items.length === 0 ? (
+        <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">일치하는 명령어가 없습니다</div>
+      ) : (
+        items.map((item, index) => {
+          const Icon = item.icon
+          const isSelected = index === selectedIndex
+
+          return (
+            <button
+              key={item.id}
+              type="button"
+              role="option"
+              aria-selected={isSelected}
+              ref={(element) => {
+                if (isSelected) element?.scrollIntoView({ block: 'nearest' })
+              }}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={() => selectItem(index)}
+              className={`w-full flex items-center gap-3 px-2 py-1.5 rounded text-left ${
+                isSelected ? 'bg-gray-100 dark:bg-gray-700' : ''
+              }`}
+            >
+              <span className="flex items-center justify-center w-8 h-8 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900">
+                <Icon size={16} />
+              </span>
+              <span className="flex flex-col">
+                <span className="text-sm font-medium">{item.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{item.description}</span>
+              </span>
+            </button>
+          )
+        })
+      )}
+    </div>
+  )
+})
+
+SlashCommandMenu.displayName = 'SlashCommandMenu'
+
+export default SlashCommandMenu
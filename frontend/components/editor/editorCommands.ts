@@ -0,0 +1,86 @@
+import type { Editor } from '@tiptap/react'
+import type { LucideIcon } from 'lucide-react'
+import {
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  Quote,
+  SquareCode,
+  Image,
+  Youtube,
+  Table,
+  Minus
+} from 'lucide-react'
+import { ACCEPTED_IMAGE_TYPES } from '@/lib/image/resize'
+
+/**
+ * 에디터 블록 명령어
+ *
+ * MenuBar 버튼과 슬래시 명령어 메뉴(SlashCommand)가 같은 명령을 사용하도록 한 곳에 정의
+ */
+export const editorCommands = {
+  heading1: (editor: Editor) => editor.chain().focus().toggleHeading({ level: 1 }).run(),
+  heading2: (editor: Editor) => editor.chain().focus().toggleHeading({ level: 2 }).run(),
+  heading3: (editor: Editor) => editor.chain().focus().toggleHeading({ level: 3 }).run(),
+  bulletList: (editor: Editor) => editor.chain().focus().toggleBulletList().run(),
+  orderedList: (editor: Editor) => editor.chain().focus().toggleOrderedList().run(),
+  blockquote: (editor: Editor) => editor.chain().focus().toggleBlockquote().run(),
+  codeBlock: (editor: Editor) => editor.chain().focus().toggleCodeBlock().run(),
+  horizontalRule: (editor: Editor) => editor.chain().focus().setHorizontalRule().run(),
+  table: (editor: Editor) =>
+    editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+
+  /**
+   * 파일 선택 창을 열고 선택한 이미지를 업로드 (ImageUpload 확장)
+   */
+  image: (editor: Editor) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = ACCEPTED_IMAGE_TYPES.join(',')
+    input.multiple = true
+    input.onchange = () => {
+      const files = Array.from(input.files ?? [])
+      if (files.length > 0) {
+        editor.chain().focus().uploadImages(files).run()
+      }
+    }
+    input.click()
+  },
+
+  youtube: (editor: Editor) => {
+    const url = window.prompt('YouTube URL')
+    if (url) {
+      editor.commands.setYoutubeVideo({ src: url })
+    }
+  }
+} satisfies Record<string, (editor: Editor) => unknown>
+
+export type EditorCommandId = keyof typeof editorCommands
+
+export interface BlockCommandItem {
+  id: EditorCommandId
+  title: string
+  description: string
+  // 퍼지 검색용 별칭 (영문 명령어, 마크다운 문법 등)
+  keywords: string[]
+  icon: LucideIcon
+}
+
+/**
+ * 슬래시 명령어 메뉴에 노출되는 블록 명령 (표시 순서)
+ */
+export const BLOCK_COMMAND_ITEMS: BlockCommandItem[] = [
+  { id: 'heading1', title: '제목 1', description: '큰 제목', keywords: ['h1', 'heading1', '#'], icon: Heading1 },
+  { id: 'heading2', title: '제목 2', description: '중간 제목', keywords: ['h2', 'heading2', '##'], icon: Heading2 },
+  { id: 'heading3', title: '제목 3', description: '작은 제목', keywords: ['h3', 'heading3', '###'], icon: Heading3 },
+  { id: 'bulletList', title: '목록', description: '글머리 기호 목록', keywords: ['bullet', 'list', 'ul'], icon: List },
+  { id: 'orderedList', title: '번호 목록', description: '번호가 매겨진 목록', keywords: ['ordered', 'number', 'ol'], icon: ListOrdered },
+  { id: 'codeBlock', title: '코드 블록', description: '구문 강조 코드', keywords: ['code', 'codeblock', '```'], icon: SquareCode },
+  { id: 'table', title: '표', description: '3×3 표 삽입', keywords: ['table', 'grid'], icon: Table },
+  { id: 'blockquote', title: '인용', description: '인용문', keywords: ['quote', 'blockquote', '>'], icon: Quote },
+  { id: 'image', title: '이미지', description: '이미지 파일 업로드', keywords: ['image', 'img', 'picture', 'upload'], icon: Image },
+  { id: 'youtube', title: 'YouTube', description: 'YouTube 동영상 삽입', keywords: ['youtube', 'video', '동영상'], icon: Youtube },
+  { id: 'horizontalRule', title: '구분선', description: '가로 구분선', keywords: ['divider', 'hr', 'rule', '---'], icon: Minus }
+]
@@ -20,6 +20,7 @@ import { NavigationMenu, defaultNavigationItems } from './NavigationMenu';
  *
  * 기능:
  * - 로그인 상태에 따라 사용자 정보 또는 로그인 버튼 표시
+ * - 관리자 메뉴는 ADMIN 역할 사용자에게만 표시 (NavigationMenu roles 필터)
  * - 로그아웃 버튼 클릭 시 로그아웃 처리 및 로그인 페이지로 리다이렉트
  * - 모바일 환경에서 햄버거 메뉴 표시 (< 768px)
  * - 인증이 필요한 경로에서만 useAuth 훅 실행 (무한 API 호출 방지)
@@ -40,10 +41,9 @@ export function Header() {
   /**
    * 로그아웃 처리
    *
-   * 1. useLogout 훅으로 백엔드 /api/auth/logout 호출
-   * 2. localStorage에서 access_token 제거
-   * 3. React Query 캐시 무효화
-   * 4. 로그인 페이지로 리다이렉트
+   * 1. useLogout 훅으로 백엔드 /api/auth/logout 호출 (httpOnly 인증 Cookie 만료)
+   * 2. React Query 캐시 무효화
+   * 3. 로그인 페이지로 리다이렉트
    */
   const handleLogout = () => {
     logout(undefined, {
@@ -62,7 +62,7 @@ export function Header() {
 
         {/* Desktop Navigation (>= 768px) */}
         <div className="hidden md:flex items-center gap-4">
-          <NavigationMenu items={defaultNavigationItems} />
+          <NavigationMenu items={defaultNavigationItems} userRole={user?.role} />
 
           {isLoading ? (
             <Skeleton className="h-11 w-24" />
@@ -117,7 +117,7 @@ export function Header() {
       {isMobileMenuOpen && (
         <div className="md:hidden border-t">
           <div className="container mx-auto px-4 py-4 flex flex-col gap-4">
-            <NavigationMenu items={defaultNavigationItems} className="flex-col items-start" />
+            <NavigationMenu items={defaultNavigationItems} userRole={user?.role} className="flex-col items-start" />
 
             <div className="border-t pt-4">
               {isLoading ? (
@@ -2,7 +2,9 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, FileText } from 'lucide-react';
+import { Home, FileText, FilePen, Hash, Settings2, Tags } from 'lucide-react';
+import { hasRequiredRole } from '@/lib/constants/routes';
+import type { UserRole } from '@/types/api/user';
 
 /**
  * NavigationMenu 컴포넌트
@@ -14,6 +16,7 @@ import { Home, FileText } from 'lucide-react';
  * 기능:
  * - 키보드 네비게이션 지원 (Tab 키로 이동)
  * - 현재 경로 강조 표시
+ * - 역할 기반 항목 필터링 (관리자 메뉴는 roles에 지정된 역할 이상에게만 표시)
  * - 아이콘 + 텍스트 조합
  */
 
@@ -21,15 +24,20 @@ export interface NavigationItem {
   label: string;
   href: string;
   icon?: React.ReactNode;
+  /** 표시에 필요한 역할 (없으면 모든 사용자에게 표시) */
+  roles?: UserRole[];
 }
 
 export interface NavigationMenuProps {
   items: NavigationItem[];
   className?: string;
+  /** 현재 사용자 역할 (roles가 지정된 항목 필터링용) */
+  userRole?: UserRole;
 }
 
-export function NavigationMenu({ items, className = '' }: NavigationMenuProps) {
+export function NavigationMenu({ items, className = '', userRole }: NavigationMenuProps) {
   const pathname = usePathname();
+  const visibleItems = items.filter((item) => !item.roles || hasRequiredRole(userRole, item.roles));
 
   return (
     <nav
@@ -37,7 +45,7 @@ export function NavigationMenu({ items, className = '' }: NavigationMenuProps) {
       role="navigation"
       aria-label="Site navigation"
     >
-      {items.map((item) => {
+      {visibleItems.map((item) => {
         const isActive = pathname === item.href;
 
         return (
@@ -67,7 +75,7 @@ export function NavigationMenu({ items, className = '' }: NavigationMenuProps) {
 }
 
 /**
- * 기본 네비게이션 아이템 (홈, 게시판)
+ * 기본 네비게이션 아이템 (홈, 게시판, 태그, 초안, 운영자 전용: 태그 관리, 관리자 전용: 벡터 설정)
  *
  * 참고: 검색 기능은 게시판 페이지에 통합되어 있음
  */
@@ -82,4 +90,26 @@ export const defaultNavigationItems: NavigationItem[] = [
     href: '/posts',
     icon: <FileText size={20} />,
   },
+  {
+    label: '태그',
+    href: '/tags',
+    icon: <Hash size={20} />,
+  },
+  {
+    label: '초안',
+    href: '/drafts',
+    icon: <FilePen size={20} />,
+  },
+  {
+    label: '태그 관리',
+    href: '/admin/tags',
+    icon: <Tags size={20} />,
+    roles: ['MODERATOR'],
+  },
+  {
+    label: '벡터 설정',
+    href: '/admin/vector-configs',
+    icon: <Settings2 size={20} />,
+    roles: ['ADMIN'],
+  },
 ];
@@ -0,0 +1,29 @@
+'use client';
+
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { postsHashtagHref } from '@/lib/posts/searchParams';
+
+interface HashtagBadgeProps {
+  tag: string;
+  href?: string;  // 기본값: 이 태그만 필터링한 게시글 목록
+  variant?: 'secondary' | 'outline';
+  className?: string;
+}
+
+/**
+ * 클릭 가능한 해시태그 배지 (해당 태그 게시글 목록으로 이동)
+ *
+ * 카드 전체를 덮는 링크 위에 놓일 때는 className으로 relative z-10 지정
+ *
+ * Constitution Principle X: 링크 목적을 aria-label로 명시
+ */
+export function HashtagBadge({ tag, href, variant = 'secondary', className }: HashtagBadgeProps) {
+  return (
+    <Badge asChild variant={variant} className={className}>
+      <Link href={href ?? postsHashtagHref([tag])} aria-label={`#${tag} 태그 게시글 보기`}>
+        #{tag}
+      </Link>
+    </Badge>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * HashtagFilterBar 컴포넌트
+ * 게시글 목록의 해시태그 필터 (선택한 태그 칩 + AND/OR 전환)
+ *
+ * - 태그는 목록의 해시태그 배지 클릭 또는 검색 바(해시태그 방식)로 추가
+ * - 조합 방식은 태그가 2개 이상일 때만 표시
+ *
+ * Constitution Principle X: 목록 시맨틱, 삭제 버튼 aria-label
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트, 단일 책임
+ */
+
+'use client';
+
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { HASHTAG_MATCH_LABELS } from '@/lib/posts/searchParams';
+import type { HashtagFilter, HashtagMatch } from '@/types/api/post';
+
+interface HashtagFilterBarProps {
+  filter: HashtagFilter;
+  onChange: (filter: HashtagFilter) => void;
+  onClear: () => void;
+}
+
+export function HashtagFilterBar({ filter, onChange, onClear }: HashtagFilterBarProps) {
+  const { hashtags, match } = filter;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="해시태그 필터">
+      <ul className="contents" aria-label="선택한 해시태그">
+        {hashtags.map((tag) => (
+          <li key={tag}>
+            <Badge variant="outline" className="gap-1 pr-1">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => onChange({ ...filter, hashtags: hashtags.filter((t) => t !== tag) })}
+                className="rounded-sm hover:bg-muted-foreground/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                aria-label={`#${tag} 필터 해제`}
+              >
+                <X className="h-3 w-3" aria-hidden="true" />
+              </button>
+            </Badge>
+          </li>
+        ))}
+      </ul>
+
+      {hashtags.length > 1 && (
+        <Tabs value={match} onValueChange={(value) => onChange({ ...filter, match: value as HashtagMatch })}>
+          <TabsList aria-label="해시태그 조합 방식" className="h-8">
+            {(Object.keys(HASHTAG_MATCH_LABELS) as HashtagMatch[]).map((value) => (
+              <TabsTrigger key={value} value={value} className="text-xs">
+                {HASHTAG_MATCH_LABELS[value]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
+      <Button variant="ghost" size="sm" onClick={onClear} aria-label="해시태그 필터 초기화">
+        초기화
+      </Button>
+    </div>
+  );
+}
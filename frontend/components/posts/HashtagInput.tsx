@@ -0,0 +1,236 @@
+/**
+ * HashtagInput 컴포넌트
+ * 칩 형태 해시태그 입력 + 기존 태그 자동완성
+ *
+ * - Enter / 쉼표 / 공백: 입력 중인 태그 추가 (자동완성 항목 선택 중이면 해당 태그)
+ * - Backspace (빈 입력): 마지막 태그 삭제
+ * - ↑ / ↓: 자동완성 항목 이동, Esc: 목록 닫기
+ * - 포커스를 잃으면 입력 중인 태그를 추가 (저장 시 누락 방지)
+ * - 최대 개수에 도달해도 입력은 활성 상태 유지 (Backspace로 삭제 가능, 추가는 addHashtag가 거부), 자동완성만 숨김
+ *
+ * Constitution Principle X: combobox + listbox ARIA 패턴, 개수 제한 aria-live 안내
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트, 단일 책임
+ */
+
+'use client';
+
+import { useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useDebouncedValue } from '@/lib/hooks/useDebouncedValue';
+import { useTagSuggestions } from '@/lib/hooks/useTags';
+import { MAX_HASHTAGS, addHashtag, hashtagKey, normalizeHashtag, parseHashtags } from '@/lib/posts/hashtags';
+import { cn } from '@/lib/utils';
+
+interface HashtagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+export function HashtagInput({
+  id,
+  value,
+  onChange,
+  disabled = false,
+  placeholder = '태그 입력 후 Enter',
+}: HashtagInputProps) {
+  const generatedId = useId();
+  const inputId = id ?? generatedId;
+  const listboxId = `${inputId}-suggestions`;
+  const statusId = `${inputId}-status`;
+
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const isFull = value.length >= MAX_HASHTAGS;
+  const debouncedDraft = useDebouncedValue(normalizeHashtag(draft), 200);
+
+  const { data } = useTagSuggestions(debouncedDraft, isOpen && !isFull);
+
+  // 이미 추가한 태그(같은 키)는 제외, 최대 개수에 도달하면 추천하지 않음
+  const addedKeys = new Set(value.map(hashtagKey));
+  const knownTags = data?.tags.map((usage) => usage.tag) ?? [];
+  const suggestions = isFull ? [] : (data?.tags ?? []).filter((usage) => !addedKeys.has(hashtagKey(usage.tag)));
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const commit = (input: string) => {
+    const result = addHashtag(value, input, knownTags);
+    setError(result.error);
+    if (result.tags !== value) {
+      onChange(result.tags);
+    }
+    setDraft('');
+    setActiveIndex(-1);
+  };
+
+  const removeAt = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+    setError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // IME 조합 중(한글 입력)에는 키 처리하지 않음
+    if (e.nativeEvent.isComposing) return;
+
+    switch (e.key) {
+      case 'Enter':
+      case ',':
+      case ' ': {
+        // Enter로 폼이 제출되지 않도록 항상 막음
+        e.preventDefault();
+        const active = showSuggestions ? suggestions[activeIndex] : undefined;
+        commit(active ? active.tag : draft);
+        return;
+      }
+      case 'Tab': {
+        const active = showSuggestions ? suggestions[activeIndex] : undefined;
+        if (active) {
+          e.preventDefault();
+          commit(active.tag);
+        }
+        return;
+      }
+      case 'Backspace':
+        if (draft.length === 0 && value.length > 0) {
+          e.preventDefault();
+          removeAt(value.length - 1);
+        }
+        return;
+      case 'ArrowDown':
+        if (suggestions.length > 0) {
+          e.preventDefault();
+          setIsOpen(true);
+          setActiveIndex((index) => (index + 1) % suggestions.length);
+        }
+        return;
+      case 'ArrowUp':
+        if (suggestions.length > 0) {
+          e.preventDefault();
+          setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        }
+        return;
+      case 'Escape':
+        if (isOpen) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        return;
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!/[\s,]/.test(text)) return;
+
+    // 여러 태그를 한 번에 붙여넣으면 각각 칩으로 변환
+    e.preventDefault();
+    const result = parseHashtags(`${draft} ${text}`, value, knownTags);
+    setError(result.error);
+    onChange(result.tags);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <div
+          className={cn(
+            'flex flex-wrap items-center gap-1.5 rounded-md border border-input bg-transparent px-2 py-1.5 min-h-9',
+            'focus-within:ring-[3px] focus-within:ring-ring/50 focus-within:border-ring',
+            disabled && 'opacity-50 pointer-events-none'
+          )}
+        >
+          <ul className="contents" aria-label="추가한 해시태그">
+            {value.map((tag, index) => (
+              <li key={tag}>
+                <Badge variant="secondary" className="gap-1 pr-1">
+                  #{tag}
+                  <button
+                    type="button"
+                    onClick={() => removeAt(index)}
+                    className="rounded-sm hover:bg-muted-foreground/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    aria-label={`#${tag} 삭제`}
+                    disabled={disabled}
+                  >
+                    <X className="h-3 w-3" aria-hidden="true" />
+                  </button>
+                </Badge>
+              </li>
+            ))}
+          </ul>
+
+          <input
+            id={inputId}
+            type="text"
+            role="combobox"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setIsOpen(true);
+              setActiveIndex(-1);
+              setError(null);
+            }}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => {
+              setIsOpen(false);
+              if (draft.trim()) commit(draft);
+            }}
+            placeholder={isFull ? '' : placeholder}
+            disabled={disabled}
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+            aria-controls={listboxId}
+            aria-activedescendant={showSuggestions && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+            aria-describedby={statusId}
+            className="flex-1 min-w-24 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+
+        {showSuggestions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="해시태그 추천"
+            className="absolute z-20 mt-1 w-full max-h-60 overflow-auto rounded-md border bg-popover p-1 shadow-md"
+          >
+            {suggestions.map((usage, index) => (
+              <li
+                key={usage.tag}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // 클릭 시 입력창 blur(입력값 자동 추가)가 먼저 일어나지 않도록
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => commit(usage.tag)}
+                className={cn(
+                  'flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5 text-sm',
+                  index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                )}
+              >
+                <span>#{usage.tag}</span>
+                <span className="text-xs text-muted-foreground">{usage.count}개 게시글</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div id={statusId} className="flex items-center justify-between text-sm" aria-live="polite">
+        <span className={error ? 'text-destructive' : 'text-muted-foreground'}>
+          {error ?? (isFull ? '최대 개수에 도달했습니다. 태그를 삭제하면 더 추가할 수 있습니다.' : 'Enter, 쉼표, 공백으로 추가')}
+        </span>
+        <span className={cn('tabular-nums', isFull ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+          {value.length}/{MAX_HASHTAGS}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * HashtagRecommendations 컴포넌트
+ * 작성 중인 글과 가까운 게시글들의 태그를 신뢰도와 함께 추천, 클릭 한 번으로 추가
+ *
+ * - 제목/본문이 바뀌면 디바운스 후 다시 추천 (본문이 짧으면 추천하지 않음)
+ * - 이미 추가한 태그(같은 키)는 숨김
+ * - 추천 실패는 작성에 영향이 없도록 조용히 숨김
+ *
+ * Constitution Principle X: 목록 시맨틱, 신뢰도 aria-label
+ * Constitution Principle VI: shadcn/ui 기반 컴포넌트, 단일 책임
+ */
+
+'use client';
+
+import { Plus, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useDebouncedValue } from '@/lib/hooks/useDebouncedValue';
+import { useTagRecommendations } from '@/lib/hooks/useTags';
+import { MAX_HASHTAGS, addHashtag, hashtagKey } from '@/lib/posts/hashtags';
+
+// 추천에 필요한 최소 본문 길이 (너무 짧으면 이웃이 우연에 가까움)
+const MIN_CONTENT_LENGTH = 50;
+const DEBOUNCE_MS = 800;
+
+interface HashtagRecommendationsProps {
+  title: string;
+  contentHtml: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  excludePostId?: number;
+  disabled?: boolean;
+}
+
+export function HashtagRecommendations({
+  title,
+  contentHtml,
+  value,
+  onChange,
+  excludePostId,
+  disabled = false,
+}: HashtagRecommendationsProps) {
+  const debouncedTitle = useDebouncedValue(title.trim(), DEBOUNCE_MS);
+  const debouncedHtml = useDebouncedValue(contentHtml, DEBOUNCE_MS);
+
+  const plainTextLength = debouncedHtml.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().length;
+  const isLongEnough = plainTextLength >= MIN_CONTENT_LENGTH;
+
+  const { data, isError } = useTagRecommendations(
+    { title: debouncedTitle, contentHtml: debouncedHtml, excludePostId },
+    isLongEnough
+  );
+
+  const addedKeys = new Set(value.map(hashtagKey));
+  const suggestions = (data?.suggestions ?? []).filter(
+    (suggestion) => !addedKeys.has(hashtagKey(suggestion.tag))
+  );
+
+  if (!isLongEnough || isError || suggestions.length === 0) return null;
+
+  const isFull = value.length >= MAX_HASHTAGS;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+      <span id="hashtag-recommendations-label" className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Sparkles className="h-3.5 w-3.5" aria-hidden="true" />
+        비슷한 글의 태그
+      </span>
+      <ul className="contents" aria-labelledby="hashtag-recommendations-label">
+        {suggestions.map(({ tag, confidence, postCount }) => {
+          const percent = Math.round(confidence * 100);
+          return (
+            <li key={tag}>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 gap-1 px-2 font-normal"
+                onClick={() => onChange(addHashtag(value, tag).tags)}
+                disabled={disabled || isFull}
+                aria-label={`#${tag} 추가 (신뢰도 ${percent}퍼센트, 비슷한 글 ${postCount}개)`}
+                title={`비슷한 글 ${postCount}개에서 사용`}
+              >
+                <Plus className="h-3 w-3" aria-hidden="true" />
+                #{tag}
+                <span className="font-mono text-xs text-muted-foreground">{percent}%</span>
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
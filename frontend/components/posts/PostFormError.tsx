@@ -0,0 +1,45 @@
+'use client';
+
+import { isApiError } from '@/lib/api/errors';
+
+interface PostFormErrorProps {
+  error: Error;
+  fallbackMessage: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: '제목',
+  contentHtml: '내용',
+  hashtags: '해시태그',
+};
+
+/**
+ * 게시글 작성/수정 폼 에러 표시
+ *
+ * VALIDATION_ERROR는 GlobalExceptionHandler의 필드별 메시지(details)를 목록으로 표시
+ * 그 외 ApiError는 코드별 사용자 메시지, 알 수 없는 에러는 fallbackMessage 표시
+ */
+export function PostFormError({ error, fallbackMessage }: PostFormErrorProps) {
+  const fieldErrors = isApiError(error, 'VALIDATION_ERROR') ? Object.entries(error.details) : [];
+
+  return (
+    <div
+      className="p-4 bg-red-50 border border-red-200 rounded-md"
+      role="alert"
+      aria-live="polite"
+    >
+      <p className="text-red-800 text-sm">
+        {isApiError(error) ? error.message : fallbackMessage}
+      </p>
+      {fieldErrors.length > 0 && (
+        <ul className="mt-2 list-disc pl-5 text-sm text-red-700">
+          {fieldErrors.map(([field, message]) => (
+            <li key={field}>
+              {FIELD_LABELS[field.split('[')[0]] || field}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
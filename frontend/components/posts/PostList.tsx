@@ -2,6 +2,8 @@
  * PostList 컴포넌트
  * T070: 게시글 목록 렌더링
  * T099: 게시글 상세 페이지 프리페칭
+ * 무한 스크롤 모드: IntersectionObserver sentinel + 뒤로 가기 시 스크롤 위치 복원
+ * 카드 전체는 제목 링크로 덮고, 해시태그 배지는 그 위에서 별도 링크로 동작
  *
  * Constitution Principle X: semantic HTML, ARIA, Skeleton UI 구현
  * Constitution Principle VI: shadcn/ui 기반 컴포넌트, 단일 책임
@@ -9,17 +11,33 @@
 
 'use client';
 
+import { useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { HashtagBadge } from '@/components/posts/HashtagBadge';
 import type { PostDto } from '@/types/api/post';
 import { postsApi } from '@/lib/api/posts';
+import { isOptimisticPost, postKeys } from '@/lib/hooks/usePosts';
+import { useScrollRestoration } from '@/lib/hooks/useScrollRestoration';
+
+/**
+ * 무한 스크롤 모드 설정 (useInfinitePosts 결과 연결)
+ */
+export interface PostListInfiniteOptions {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+  scrollRestorationKey: string;  // 필터별 스크롤 위치 저장 키
+}
 
 interface PostListProps {
   posts: PostDto[];
   isLoading?: boolean;
+  infinite?: PostListInfiniteOptions;
+  hashtagHref?: (tag: string) => string;  // 해시태그 배지 링크 (기본값: 해당 태그만 필터링)
 }
 
 /**
@@ -27,9 +45,39 @@ interface PostListProps {
  *
  * @param posts 게시글 요약 배열
  * @param isLoading 로딩 상태
+ * @param infinite 무한 스크롤 모드 (지정 시 목록 끝에서 다음 페이지 자동 로드)
+ * @param hashtagHref 해시태그 배지 링크 (목록 페이지에서는 현재 필터에 태그 추가)
  */
-export function PostList({ posts, isLoading = false }: PostListProps) {
+export function PostList({ posts, isLoading = false, infinite, hashtagHref }: PostListProps) {
   const queryClient = useQueryClient();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const saveScrollPosition = useScrollRestoration(
+    infinite?.scrollRestorationKey ?? 'posts',
+    !!infinite && !isLoading && posts.length > 0
+  );
+
+  const hasNextPage = infinite?.hasNextPage ?? false;
+  const isFetchingNextPage = infinite?.isFetchingNextPage ?? false;
+  const onLoadMore = infinite?.onLoadMore;
+
+  /**
+   * 목록 끝 sentinel이 화면에 가까워지면 다음 페이지 로드
+   */
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !onLoadMore || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore();
+      },
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, onLoadMore]);
 
   /**
    * T099: 게시글 상세 페이지 프리페칭
@@ -37,7 +85,7 @@ export function PostList({ posts, isLoading = false }: PostListProps) {
    */
   const handlePrefetch = (postId: number) => {
     queryClient.prefetchQuery({
-      queryKey: ['post', postId],
+      queryKey: postKeys.detail(postId),
       queryFn: () => postsApi.getPostById(postId),
       staleTime: 5 * 60 * 1000, // 5분간 캐시 유지
     });
@@ -80,45 +128,83 @@ export function PostList({ posts, isLoading = false }: PostListProps) {
   }
 
   return (
-    <div className="space-y-4" role="list" aria-label="게시글 목록">
-      {posts.map((post) => (
-        <article key={post.id} role="listitem">
-          <Link
-            href={`/posts/${post.id}`}
-            className="block"
-            onMouseEnter={() => handlePrefetch(post.id)}
-            onFocus={() => handlePrefetch(post.id)}
-          >
-            <Card className="hover:shadow-md transition-shadow cursor-pointer">
-              <CardHeader>
-                <CardTitle className="text-xl">{post.title}</CardTitle>
-                <CardDescription className="flex items-center gap-2">
-                  <span>{post.author.name}</span>
-                  <span>•</span>
-                  <time dateTime={post.createdAt}>
-                    {new Date(post.createdAt).toLocaleDateString('ko-KR', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric',
-                    })}
-                  </time>
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {post.hashtags.length > 0 && (
-                  <div className="flex gap-2 mt-4 flex-wrap" aria-label="해시태그">
-                    {post.hashtags.map((hashtag: string) => (
-                      <Badge key={hashtag} variant="secondary">
-                        #{hashtag}
-                      </Badge>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </Link>
-        </article>
-      ))}
-    </div>
+    <>
+      <div className="space-y-4" role="list" aria-label="게시글 목록">
+        {posts.map((post) => {
+          // 저장 중인 임시 게시글은 상세 페이지가 없으므로 링크/프리페칭 없이 표시
+          const isOptimistic = isOptimisticPost(post);
+
+          return (
+            <article
+              key={post.id}
+              role="listitem"
+              aria-busy={isOptimistic || undefined}
+              className={isOptimistic ? 'opacity-60 pointer-events-none' : undefined}
+            >
+              <Card className="relative hover:shadow-md transition-shadow">
+                <CardHeader>
+                  <CardTitle className="text-xl">
+                    {isOptimistic ? (
+                      post.title
+                    ) : (
+                      // 카드 전체를 덮는 링크 (해시태그 배지는 z-10으로 위에 배치)
+                      <Link
+                        href={`/posts/${post.id}`}
+                        className="after:absolute after:inset-0"
+                        onClick={infinite ? saveScrollPosition : undefined}
+                        onMouseEnter={() => handlePrefetch(post.id)}
+                        onFocus={() => handlePrefetch(post.id)}
+                      >
+                        {post.title}
+                      </Link>
+                    )}
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-2">
+                    <span>{post.author.name}</span>
+                    <span>•</span>
+                    <time dateTime={post.createdAt}>
+                      {new Date(post.createdAt).toLocaleDateString('ko-KR', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                    </time>
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {post.hashtags.length > 0 && (
+                    <div className="flex gap-2 mt-4 flex-wrap" aria-label="해시태그">
+                      {post.hashtags.map((hashtag: string) => (
+                        <HashtagBadge
+                          key={hashtag}
+                          tag={hashtag}
+                          href={hashtagHref?.(hashtag)}
+                          className="relative z-10"
+                        />
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </article>
+          );
+        })}
+      </div>
+
+      {infinite && (
+        <div ref={sentinelRef} className="py-6 flex justify-center" role="status" aria-live="polite">
+          {isFetchingNextPage ? (
+            <span className="text-sm text-muted-foreground">게시글을 불러오는 중...</span>
+          ) : hasNextPage ? (
+            // IntersectionObserver 미동작/키보드 사용자용 수동 로드
+            <Button variant="outline" size="sm" onClick={onLoadMore}>
+              더 보기
+            </Button>
+          ) : (
+            <span className="text-sm text-muted-foreground">모든 게시글을 불러왔습니다.</span>
+          )}
+        </div>
+      )}
+    </>
   );
 }
@@ -11,6 +11,8 @@ import type { PostSearchField } from '@/types/api/post';
 interface PostSearchFilterProps {
   onSearch: (query: string, fields?: PostSearchField[]) => void;
   isLoading?: boolean;
+  defaultQuery?: string;
+  defaultFields?: PostSearchField[];  // 미지정 시 전체 필드
 }
 
 const FIELD_OPTIONS: Array<{ value: PostSearchField; label: string }> = [
@@ -20,10 +22,15 @@ const FIELD_OPTIONS: Array<{ value: PostSearchField; label: string }> = [
   { value: 'author', label: '작성자' },
 ];
 
-export function PostSearchFilter({ onSearch, isLoading = false }: PostSearchFilterProps) {
-  const [query, setQuery] = useState('');
-  const [selectedFields, setSelectedFields] = useState<PostSearchField[]>([]);
-  const [isAllFields, setIsAllFields] = useState(true);
+export function PostSearchFilter({
+  onSearch,
+  isLoading = false,
+  defaultQuery = '',
+  defaultFields,
+}: PostSearchFilterProps) {
+  const [query, setQuery] = useState(defaultQuery);
+  const [selectedFields, setSelectedFields] = useState<PostSearchField[]>(defaultFields ?? []);
+  const [isAllFields, setIsAllFields] = useState(!defaultFields);
 
   const handleFieldToggle = (field: PostSearchField, checked: boolean) => {
     if (checked) {
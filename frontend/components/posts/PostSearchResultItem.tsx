@@ -3,14 +3,25 @@
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { PostSearchResultItem as SearchItem } from '@/types/api/post';
+import { HashtagBadge } from '@/components/posts/HashtagBadge';
+import { SearchSignalBadges } from '@/components/posts/SearchSignalBadges';
+import { postPassageHref } from '@/lib/posts/searchParams';
+import { extractHighlightTerms, snippetWindow, splitHighlights } from '@/lib/text/highlight';
+import type { PostSearchResultItem as SearchItem, SearchMode } from '@/types/api/post';
 
 interface PostSearchResultItemProps {
   item: SearchItem;
+  rankChange?: number;  // 기준 순위 대비 변동 (양수: 상승, 음수: 하락)
+  query?: string;       // 검색어 (스니펫 하이라이트용)
+  mode?: SearchMode;    // 검색 방식 (keyword/hybrid에서만 검색어 하이라이트)
 }
 
-export function PostSearchResultItem({ item }: PostSearchResultItemProps) {
-  const { post, totalScore, fieldScores } = item;
+export function PostSearchResultItem({ item, rankChange, query = '', mode = 'semantic' }: PostSearchResultItemProps) {
+  const { post, totalScore, fieldScores, snippet } = item;
+
+  // semantic은 단어 일치로 찾은 결과가 아니므로 하이라이트하지 않음
+  const highlightTerms = mode === 'semantic' ? [] : extractHighlightTerms(query);
+  const snippetView = snippet ? snippetWindow(snippet.text, highlightTerms) : null;
 
   const formatScore = (score: number) => score.toFixed(2);
   const formatDate = (dateStr: string) => {
@@ -24,59 +35,98 @@ export function PostSearchResultItem({ item }: PostSearchResultItemProps) {
   const FIELD_LABELS: Record<string, string> = {
     title: '제목',
     content: '내용',
+    contentText: '내용',
     hashtags: '해시태그',
     author: '작성자',
   };
 
   return (
-    <Link href={`/posts/${post.id}`}>
-      <Card className="hover:bg-accent/50 transition-colors cursor-pointer">
-        <CardHeader>
-          <div className="flex items-start justify-between gap-4">
-            <div className="flex-1 space-y-2">
-              <CardTitle className="text-xl">{post.title}</CardTitle>
-              <CardDescription>
-                {post.author.name} · {formatDate(post.createdAt)}
-              </CardDescription>
-            </div>
-            <div className="flex flex-col items-end gap-1">
-              <Badge variant="secondary" className="font-mono">
-                스코어: {formatScore(totalScore)}
+    <Card className="relative hover:bg-accent/50 transition-colors">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 space-y-2">
+            <CardTitle className="text-xl">
+              {/* 카드 전체를 덮는 링크 (스니펫 링크는 z-10으로 위에 배치) */}
+              <Link href={`/posts/${post.id}`} className="after:absolute after:inset-0">
+                {post.title}
+              </Link>
+            </CardTitle>
+            <CardDescription>
+              {post.author.name} · {formatDate(post.createdAt)}
+            </CardDescription>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant="secondary" className="font-mono">
+              스코어: {formatScore(totalScore)}
+            </Badge>
+            {rankChange !== undefined && rankChange !== 0 && (
+              <Badge
+                variant="outline"
+                className={rankChange > 0 ? 'text-green-600' : 'text-red-600'}
+                aria-label={`순위 ${Math.abs(rankChange)}단계 ${rankChange > 0 ? '상승' : '하락'}`}
+              >
+                {rankChange > 0 ? '▲' : '▼'} {Math.abs(rankChange)}
               </Badge>
-            </div>
+            )}
+            <SearchSignalBadges signals={item} />
           </div>
-        </CardHeader>
+        </div>
+      </CardHeader>
 
-        <CardContent className="space-y-3">
-          {/* 해시태그 */}
-          {post.hashtags && post.hashtags.length > 0 && (
-            <div className="flex flex-wrap gap-2">
-              {post.hashtags.map((tag) => (
-                <Badge key={tag} variant="outline">
-                  #{tag}
-                </Badge>
+      <CardContent className="space-y-3">
+        {/* 매칭 구절 스니펫 */}
+        {snippet && snippetView && (
+          <figure className="space-y-1">
+            <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground">
+              {snippetView.truncatedStart && '… '}
+              {splitHighlights(snippetView.text, highlightTerms).map((segment, index) =>
+                segment.match ? (
+                  <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-foreground rounded-sm px-0.5">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+              {snippetView.truncatedEnd && ' …'}
+            </blockquote>
+            <figcaption>
+              <Link
+                href={postPassageHref(post.id, snippet.text)}
+                className="relative z-10 text-xs text-primary hover:underline"
+              >
+                본문에서 보기
+              </Link>
+            </figcaption>
+          </figure>
+        )}
+
+        {/* 해시태그 (클릭 시 해당 태그 게시글 목록) */}
+        {post.hashtags && post.hashtags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {post.hashtags.map((tag) => (
+              <HashtagBadge key={tag} tag={tag} variant="outline" className="relative z-10" />
+            ))}
+          </div>
+        )}
+
+        {/* 필드별 스코어 (디버깅용) */}
+        {Object.keys(fieldScores).length > 0 && (
+          <details className="relative z-10 text-xs text-muted-foreground">
+            <summary className="cursor-pointer hover:text-foreground">
+              필드별 스코어 보기
+            </summary>
+            <div className="mt-2 space-y-1 pl-4">
+              {Object.entries(fieldScores).map(([field, score]) => (
+                <div key={field} className="flex justify-between">
+                  <span>{FIELD_LABELS[field] || field}:</span>
+                  <span className="font-mono">{formatScore(score)}</span>
+                </div>
               ))}
             </div>
-          )}
-
-          {/* 필드별 스코어 (디버깅용) */}
-          {Object.keys(fieldScores).length > 0 && (
-            <details className="text-xs text-muted-foreground">
-              <summary className="cursor-pointer hover:text-foreground">
-                필드별 스코어 보기
-              </summary>
-              <div className="mt-2 space-y-1 pl-4">
-                {Object.entries(fieldScores).map(([field, score]) => (
-                  <div key={field} className="flex justify-between">
-                    <span>{FIELD_LABELS[field] || field}:</span>
-                    <span className="font-mono">{formatScore(score)}</span>
-                  </div>
-                ))}
-              </div>
-            </details>
-          )}
-        </CardContent>
-      </Card>
-    </Link>
+          </details>
+        )}
+      </CardContent>
+    </Card>
   );
 }
@@ -1,14 +1,16 @@
 'use client';
 
 import { PostSearchResultItem as SearchResultItem } from './PostSearchResultItem';
-import type { PostSearchResultItem } from '@/types/api/post';
+import type { PostSearchResultItem, SearchMode } from '@/types/api/post';
 
 interface PostSearchResultsProps {
   results: PostSearchResultItem[];
   totalResults: number;
+  query?: string;      // 스니펫 하이라이트용 검색어
+  mode?: SearchMode;
 }
 
-export function PostSearchResults({ results, totalResults }: PostSearchResultsProps) {
+export function PostSearchResults({ results, totalResults, query, mode }: PostSearchResultsProps) {
   if (totalResults === 0) {
     return (
       <div className="text-center py-12">
@@ -30,7 +32,7 @@ export function PostSearchResults({ results, totalResults }: PostSearchResultsPr
 
       <div className="space-y-3">
         {results.map((item) => (
-          <SearchResultItem key={item.post.id} item={item} />
+          <SearchResultItem key={item.post.id} item={item} query={query} mode={mode} />
         ))}
       </div>
     </div>
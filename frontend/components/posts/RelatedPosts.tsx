@@ -0,0 +1,68 @@
+'use client';
+
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useRelatedPosts } from '@/lib/hooks/usePosts';
+
+interface RelatedPostsProps {
+  postId: number;
+  limit?: number;
+}
+
+/**
+ * 관련 게시글 사이드바
+ *
+ * 게시글 벡터 기준으로 가까운 게시글을 유사도와 함께 표시
+ * 추천 실패는 본문 열람에 영향이 없도록 조용히 숨김
+ *
+ * Constitution Principle X: aside + 목록 시맨틱, 유사도 aria-label
+ */
+export function RelatedPosts({ postId, limit = 5 }: RelatedPostsProps) {
+  const { data, isLoading, isError } = useRelatedPosts(postId, limit);
+
+  if (isError) return null;
+
+  const results = data?.results ?? [];
+
+  return (
+    <aside aria-labelledby="related-posts-heading" className="space-y-3">
+      <h2 id="related-posts-heading" className="text-lg font-semibold">
+        관련 게시글
+      </h2>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : results.length === 0 ? (
+        <p className="text-sm text-muted-foreground">관련 게시글이 없습니다.</p>
+      ) : (
+        <ul className="space-y-2">
+          {results.map(({ post, similarity }) => (
+            <li key={post.id}>
+              <Link
+                href={`/posts/${post.id}`}
+                className="block rounded-md border p-3 hover:bg-accent/50 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium line-clamp-2">{post.title}</span>
+                  <Badge
+                    variant="secondary"
+                    className="shrink-0 font-mono"
+                    aria-label={`유사도 ${(similarity * 100).toFixed(1)}퍼센트`}
+                  >
+                    {(similarity * 100).toFixed(1)}%
+                  </Badge>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">{post.author.name}</p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
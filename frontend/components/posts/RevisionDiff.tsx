@@ -0,0 +1,164 @@
+'use client';
+
+import { diffLines, type ChangeObject } from 'diff';
+
+/**
+ * 리비전 Markdown 비교 (줄 단위 diff)
+ *
+ * - inline: 한 열에 삭제(-)/추가(+) 줄을 순서대로 표시
+ * - split: 왼쪽(이전) / 오른쪽(이후)을 나란히 표시, 변경된 줄끼리 같은 행에 정렬
+ *
+ * Constitution Principle X: 색상 외에 +/- 기호와 sr-only 텍스트로 변경 종류 전달
+ */
+export type RevisionDiffMode = 'inline' | 'split';
+
+interface RevisionDiffProps {
+  oldText: string;
+  newText: string;
+  mode: RevisionDiffMode;
+}
+
+type LineType = 'added' | 'removed' | 'unchanged';
+
+interface DiffLine {
+  type: LineType;
+  text: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+const LINE_STYLES: Record<LineType, string> = {
+  added: 'bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-100',
+  removed: 'bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-100',
+  unchanged: '',
+};
+
+const LINE_MARKERS: Record<LineType, string> = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+const LINE_LABELS: Record<LineType, string> = {
+  added: '추가된 줄',
+  removed: '삭제된 줄',
+  unchanged: '',
+};
+
+function splitLines(value: string): string[] {
+  const lines = value.split('\n');
+  // diffLines 결과는 줄바꿈으로 끝나므로 마지막 빈 요소 제거
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function toDiffLines(changes: ChangeObject<string>[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+
+  changes.forEach((change) => {
+    const type: LineType = change.added ? 'added' : change.removed ? 'removed' : 'unchanged';
+
+    splitLines(change.value).forEach((text) => {
+      lines.push({
+        type,
+        text,
+        oldNumber: type === 'added' ? null : oldNumber++,
+        newNumber: type === 'removed' ? null : newNumber++,
+      });
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * 나란히 보기용 행 구성: 연속된 삭제/추가 블록을 같은 행에 짝지음
+ */
+function toSplitRows(lines: DiffLine[]): Array<{ left: DiffLine | null; right: DiffLine | null }> {
+  const rows: Array<{ left: DiffLine | null; right: DiffLine | null }> = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.type === 'unchanged') {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++]);
+
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+  }
+
+  return rows;
+}
+
+function LineCell({ line, number }: { line: DiffLine | null; number: number | null }) {
+  if (!line) {
+    return <td colSpan={2} className="bg-gray-50 dark:bg-gray-900" />;
+  }
+
+  return (
+    <>
+      <td className="w-12 select-none px-2 text-right text-gray-400 align-top">{number}</td>
+      <td className={`whitespace-pre-wrap break-all px-2 ${LINE_STYLES[line.type]}`}>
+        {line.type !== 'unchanged' && <span className="sr-only">{LINE_LABELS[line.type]}: </span>}
+        <span aria-hidden="true" className="select-none mr-2">
+          {LINE_MARKERS[line.type]}
+        </span>
+        {line.text}
+      </td>
+    </>
+  );
+}
+
+export function RevisionDiff({ oldText, newText, mode }: RevisionDiffProps) {
+  const lines = toDiffLines(diffLines(oldText, newText));
+
+  if (lines.every((line) => line.type === 'unchanged')) {
+    return <p className="text-sm text-gray-500 py-4">본문 변경 사항이 없습니다.</p>;
+  }
+
+  if (mode === 'inline') {
+    return (
+      <table className="w-full border-collapse font-mono text-sm" aria-label="변경 내용 (한 줄 보기)">
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={index}>
+              <td className="w-12 select-none px-2 text-right text-gray-400 align-top">{line.oldNumber}</td>
+              <LineCell line={line} number={line.newNumber} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  return (
+    <table className="w-full table-fixed border-collapse font-mono text-sm" aria-label="변경 내용 (나란히 보기)">
+      <colgroup>
+        <col className="w-12" />
+        <col />
+        <col className="w-12" />
+        <col />
+      </colgroup>
+      <tbody>
+        {toSplitRows(lines).map((row, index) => (
+          <tr key={index}>
+            <LineCell line={row.left} number={row.left?.oldNumber ?? null} />
+            <LineCell line={row.right} number={row.right?.newNumber ?? null} />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -2,6 +2,7 @@
  * SearchBar 컴포넌트
  * T071: 키워드 입력 및 벡터 검색 토글
  * T074: 임계값 슬라이더 추가
+ * 검색 방식 선택 (해시태그 / 키워드 / 의미 / 하이브리드)
  *
  * Constitution Principle X: semantic HTML, ARIA, accessible form controls
  * Constitution Principle VI: shadcn/ui 기반 컴포넌트, 단일 책임
@@ -13,30 +14,50 @@ import { useState } from 'react';
 import { Search } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SEARCH_MODE_LABELS, type PostsListMode } from '@/lib/posts/searchParams';
 
 interface SearchBarProps {
-  onSearch: (query: string, vectorSearch: boolean, threshold: number) => void;
+  onSearch: (query: string, mode: PostsListMode, threshold: number) => void;
   isLoading?: boolean;
+  defaultQuery?: string;
+  defaultMode?: PostsListMode;
+  defaultThreshold?: number;
 }
 
+const MODE_OPTIONS: { value: PostsListMode; label: string; description: string }[] = [
+  { value: 'normal', label: '해시태그', description: '입력한 해시태그를 필터에 추가 (여러 개는 공백·쉼표로 구분)' },
+  { value: 'keyword', label: SEARCH_MODE_LABELS.keyword, description: '제목·본문에 단어가 포함된 게시글 (에러 코드, 식별자 등)' },
+  { value: 'semantic', label: SEARCH_MODE_LABELS.semantic, description: '의미가 비슷한 게시글 (벡터 유사도)' },
+  { value: 'hybrid', label: SEARCH_MODE_LABELS.hybrid, description: '키워드와 의미 순위를 함께 반영' },
+];
+
 /**
  * 게시글 검색 바 컴포넌트
  *
- * @param onSearch 검색 실행 콜백 (query, vectorSearch, threshold)
+ * @param onSearch 검색 실행 콜백 (query, mode, threshold)
  * @param isLoading 검색 중 상태
+ * @param defaultQuery 초기 검색어 (URL 상태 복원용, 변경 시 key로 재마운트)
+ * @param defaultMode 초기 검색 방식
+ * @param defaultThreshold 초기 유사도 임계값
  */
-export function SearchBar({ onSearch, isLoading = false }: SearchBarProps) {
-  const [query, setQuery] = useState('');
-  const [vectorSearch, setVectorSearch] = useState(false);
-  const [threshold, setThreshold] = useState(0.6);
+export function SearchBar({
+  onSearch,
+  isLoading = false,
+  defaultQuery = '',
+  defaultMode = 'normal',
+  defaultThreshold = 0.6,
+}: SearchBarProps) {
+  const [query, setQuery] = useState(defaultQuery);
+  const [mode, setMode] = useState<PostsListMode>(defaultMode);
+  const [threshold, setThreshold] = useState(defaultThreshold);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim()) {
-      onSearch(query.trim(), vectorSearch, threshold);
+      onSearch(query.trim(), mode, threshold);
     }
   };
 
@@ -66,27 +87,24 @@ export function SearchBar({ onSearch, isLoading = false }: SearchBarProps) {
         </Button>
       </div>
 
-      {/* 벡터 검색 토글 */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-2">
-          <Switch
-            id="vector-search"
-            checked={vectorSearch}
-            onCheckedChange={setVectorSearch}
-            disabled={isLoading}
-            aria-label="벡터 검색 활성화"
-          />
-          <Label
-            htmlFor="vector-search"
-            className="text-sm font-medium cursor-pointer"
-          >
-            벡터 검색 (의미적 유사도)
-          </Label>
-        </div>
+      {/* 검색 방식 선택 */}
+      <div className="space-y-1">
+        <Tabs value={mode} onValueChange={(value) => setMode(value as PostsListMode)}>
+          <TabsList aria-label="검색 방식">
+            {MODE_OPTIONS.map((option) => (
+              <TabsTrigger key={option.value} value={option.value} disabled={isLoading}>
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <p className="text-xs text-muted-foreground">
+          {MODE_OPTIONS.find((option) => option.value === mode)?.description}
+        </p>
       </div>
 
-      {/* 임계값 슬라이더 (벡터 검색 활성화 시에만 표시) */}
-      {vectorSearch && (
+      {/* 임계값 슬라이더 (의미 신호를 쓰는 방식에서만 표시) */}
+      {(mode === 'semantic' || mode === 'hybrid') && (
         <div className="space-y-2 pt-2 border-t">
           <div className="flex items-center justify-between">
             <Label htmlFor="threshold-slider" className="text-sm">
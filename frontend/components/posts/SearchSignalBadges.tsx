@@ -0,0 +1,42 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { SearchSignals } from '@/types/api/post';
+
+/**
+ * 검색 결과별 신호 기여도 표시
+ *
+ * - 키워드/의미 각각 몇 위로 잡혔는지 (해당 신호에 없으면 표시하지 않음)
+ * - hybrid 모드에서는 RRF 점수 함께 표시
+ *
+ * Constitution Principle X: 순위 배지에 aria-label로 의미 전달
+ */
+interface SearchSignalBadgesProps {
+  signals: SearchSignals;
+  similarity?: number;  // 벡터 유사도 (의미 신호가 있을 때만 표시)
+}
+
+export function SearchSignalBadges({ signals, similarity }: SearchSignalBadgesProps) {
+  const { keywordRank, semanticRank, fusedScore } = signals;
+
+  return (
+    <div className="flex flex-wrap justify-end gap-1" aria-label="검색 신호">
+      {keywordRank !== null && (
+        <Badge variant="secondary" className="font-mono" aria-label={`키워드 검색 ${keywordRank}위`}>
+          키워드 #{keywordRank}
+        </Badge>
+      )}
+      {semanticRank !== null && (
+        <Badge variant="secondary" className="font-mono" aria-label={`의미 검색 ${semanticRank}위`}>
+          의미 #{semanticRank}
+          {similarity !== undefined && similarity > 0 && ` · ${(similarity * 100).toFixed(1)}%`}
+        </Badge>
+      )}
+      {fusedScore !== null && (
+        <Badge variant="outline" className="font-mono" title="Reciprocal Rank Fusion 점수">
+          RRF {fusedScore.toFixed(4)}
+        </Badge>
+      )}
+    </div>
+  );
+}
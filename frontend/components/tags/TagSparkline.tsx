@@ -0,0 +1,46 @@
+import { cn } from '@/lib/utils';
+
+interface TagSparklineProps {
+  data: number[];     // 일자별 게시글 수 (오래된 날 → 오늘)
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * 해시태그 활동 스파크라인 (최근 90일 일자별 게시글 수)
+ *
+ * 모든 값이 0이면 바닥선만 표시
+ *
+ * Constitution Principle X: role="img" + 합계 aria-label (그래프를 읽을 수 없는 사용자용)
+ */
+export function TagSparkline({ data, width = 120, height = 28, className }: TagSparklineProps) {
+  const total = data.reduce((sum, count) => sum + count, 0);
+  const max = Math.max(1, ...data);
+  const step = data.length > 1 ? width / (data.length - 1) : width;
+
+  // 선 두께만큼 위아래 여백
+  const points = data
+    .map((count, index) => `${(index * step).toFixed(1)},${(height - 1 - (count / max) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`최근 ${data.length}일 게시글 ${total}건`}
+      className={cn('text-primary', className)}
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
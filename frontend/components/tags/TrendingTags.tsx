@@ -0,0 +1,62 @@
+'use client';
+
+import Link from 'next/link';
+import { TrendingUp } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useTrendingTags } from '@/lib/hooks/useTags';
+import { tagPageHref } from '@/lib/posts/searchParams';
+
+interface TrendingTagsProps {
+  limit?: number;
+  headingLevel?: 'h2' | 'h3';
+}
+
+/**
+ * 이번 주 인기 급상승 해시태그
+ *
+ * 최근 7일 게시글 수가 이전 주 평균보다 크게 늘어난 태그 (메인 페이지, 태그 목록에서 사용)
+ * 조회 실패는 다른 콘텐츠에 영향이 없도록 조용히 숨김
+ *
+ * Constitution Principle X: section + 목록 시맨틱, 증가 수 aria-label
+ */
+export function TrendingTags({ limit = 5, headingLevel: Heading = 'h2' }: TrendingTagsProps) {
+  const { data, isLoading, isError } = useTrendingTags(limit);
+
+  if (isError) return null;
+
+  const tags = data?.tags ?? [];
+
+  return (
+    <section aria-labelledby="trending-tags-heading" className="space-y-3">
+      <Heading id="trending-tags-heading" className="flex items-center gap-2 text-lg font-semibold">
+        <TrendingUp className="h-5 w-5 text-primary" aria-hidden="true" />
+        이번 주 인기 태그
+      </Heading>
+
+      {isLoading ? (
+        <div className="flex flex-wrap gap-2">
+          {Array.from({ length: limit }).map((_, index) => (
+            <Skeleton key={index} className="h-8 w-24" />
+          ))}
+        </div>
+      ) : tags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">이번 주에 눈에 띄게 늘어난 태그가 없습니다.</p>
+      ) : (
+        <ol className="flex flex-wrap gap-2">
+          {tags.map(({ tag, recentCount }) => (
+            <li key={tag}>
+              <Link
+                href={tagPageHref(tag)}
+                className="inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm hover:bg-accent transition-colors"
+                aria-label={`#${tag}, 이번 주 게시글 ${recentCount}건`}
+              >
+                <span className="font-medium">#{tag}</span>
+                <span className="text-xs text-muted-foreground tabular-nums">+{recentCount}</span>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
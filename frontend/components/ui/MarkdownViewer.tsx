@@ -1,19 +1,26 @@
 'use client'
 
-import React, { useEffect } from 'react'
+import React, { useEffect, useRef } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import rehypeHighlight from 'rehype-highlight'
 import 'github-markdown-css/github-markdown.css'
 import 'highlight.js/styles/github.css'
 import 'highlight.js/styles/github-dark.css'
+import { findPassageRange } from '@/lib/text/highlight'
 
 interface MarkdownViewerProps {
   content: string
   className?: string
+  highlightPassage?: string  // 강조 후 스크롤할 구절 (검색 결과 "본문에서 보기")
 }
 
-export default function MarkdownViewer({ content, className = '' }: MarkdownViewerProps) {
+// ::highlight(search-passage) 스타일은 globals.css
+const PASSAGE_HIGHLIGHT = 'search-passage'
+
+export default function MarkdownViewer({ content, className = '', highlightPassage }: MarkdownViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
   useEffect(() => {
     const isDark = document.documentElement.classList.contains('dark')
     const lightTheme = document.querySelector('link[href*="github.css"]') as HTMLLinkElement
@@ -25,8 +32,29 @@ export default function MarkdownViewer({ content, className = '' }: MarkdownView
     }
   }, [])
 
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !highlightPassage) return
+
+    // 렌더링 차이로 전체 구절이 안 맞으면 앞부분만으로 재시도
+    const range =
+      findPassageRange(container, highlightPassage) ??
+      findPassageRange(container, highlightPassage.slice(0, 30))
+    if (!range) return
+
+    range.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+
+    // CSS Custom Highlight API 미지원 브라우저는 스크롤만
+    if (typeof CSS === 'undefined' || !('highlights' in CSS)) return
+    CSS.highlights.set(PASSAGE_HIGHLIGHT, new Highlight(range))
+    return () => {
+      CSS.highlights.delete(PASSAGE_HIGHLIGHT)
+    }
+  }, [content, highlightPassage])
+
   return (
     <div
+      ref={containerRef}
       className={`markdown-body ${className}`}
       style={{
         padding: '0',
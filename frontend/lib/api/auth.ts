@@ -1,34 +1,27 @@
-import api from './axios';
+import apiClient from './client';
+import type { RequestOptions } from './client';
 import type { UserResponse } from '@/types/api/user';
 
 /**
  * 현재 로그인한 사용자 정보 조회
  *
- * JWT 토큰이 localStorage에 저장되어 있으면 Axios 인터셉터가 자동으로 주입
+ * httpOnly access_token Cookie가 withCredentials로 자동 전송됨
  *
+ * @param options.signal 요청 취소용 AbortSignal (TanStack Query queryFn context)
  * @returns UserResponse
  * @throws 401 Unauthorized if JWT token is invalid or expired
  */
-export async function getCurrentUser(): Promise<UserResponse> {
-  const response = await api.get<UserResponse>('/api/auth/me');
+export async function getCurrentUser(options: RequestOptions = {}): Promise<UserResponse> {
+  const response = await apiClient.get<UserResponse>('/api/auth/me', { signal: options.signal });
   return response.data;
 }
 
 /**
  * 로그아웃 처리
  *
- * 클라이언트에서 JWT 토큰 삭제 (localStorage.removeItem)
- * 백엔드 /api/auth/logout 호출 (향후 JWT 블랙리스트 확장용)
- *
- * @returns { message: string }
+ * 백엔드 /api/auth/logout 호출 → access_token/refresh_token httpOnly Cookie 만료
+ * (httpOnly Cookie는 JavaScript에서 삭제할 수 없으므로 서버에서 처리)
  */
-export async function logout(): Promise<{ message: string }> {
-  const response = await api.post<{ message: string }>('/api/auth/logout');
-
-  // 로컬 스토리지에서 JWT 토큰 제거
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem('access_token');
-  }
-
-  return response.data;
+export async function logout(): Promise<void> {
+  await apiClient.post('/api/auth/logout');
 }
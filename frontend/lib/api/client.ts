@@ -1,68 +1,185 @@
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { buildLoginUrl, isProtectedRoute } from '@/lib/constants/routes';
+import type { TokenRefreshResponse } from '@/types/api/auth';
+import { ApiError } from './errors';
 
+/**
+ * API 클라이언트 설정 (Single Source of Truth)
+ *
+ * 환경 변수는 NEXT_PUBLIC_API_URL 하나만 사용 (README 참고)
+ * OAuth2 로그인 URL 등 axios 외부에서 백엔드 주소가 필요할 때도 이 값을 사용
+ */
+export const API_CONFIG = {
+  baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080',
+  timeout: 10000,
+} as const;
+
+/**
+ * API 함수 공통 옵션
+ *
+ * signal: TanStack Query의 queryFn context에서 전달되는 AbortSignal
+ * (쿼리 취소/언마운트 시 진행 중인 요청 자동 중단)
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Double Submit CSRF 설정
+ *
+ * Backend가 발급한 XSRF-TOKEN Cookie 값을 X-XSRF-TOKEN 헤더로 함께 전송
+ * withXSRFToken: Backend가 다른 origin(포트)이어도 헤더를 첨부
+ */
+const CSRF_CONFIG = {
+  xsrfCookieName: 'XSRF-TOKEN',
+  xsrfHeaderName: 'X-XSRF-TOKEN',
+  withXSRFToken: true,
+} as const;
+
+/**
+ * Axios 인스턴스 (Cookie 인증 + 토큰 재발급 + ApiError 변환)
+ *
+ * Constitution Principle IX: JWT는 Backend가 설정한 httpOnly Cookie로만 전송
+ * JavaScript에서는 토큰을 읽거나 저장하지 않음 (XSS 토큰 탈취 방지)
+ */
 const apiClient = axios.create({
-  baseURL: process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8080',
+  baseURL: API_CONFIG.baseURL,
+  timeout: API_CONFIG.timeout,
+  withCredentials: true,
+  ...CSRF_CONFIG,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// JWT 인터셉터 (Request) + Cookie 동기화
-apiClient.interceptors.request.use(
-  (config) => {
-    // localStorage에서 JWT 토큰 가져오기
-    const token = localStorage.getItem('access_token');
-
-    if (token) {
-      // 1. Authorization 헤더 설정 (API 요청용)
-      config.headers.Authorization = `Bearer ${token}`;
-
-      // 2. Cookie 동기화 (Middleware 인증용)
-      // 브라우저에서 Cookie가 없거나 만료된 경우 자동으로 재설정
-      if (typeof document !== 'undefined') {
-        const cookieValue = document.cookie
-          .split('; ')
-          .find(row => row.startsWith('access_token='))
-          ?.split('=')[1];
-
-        // Cookie가 없거나 localStorage와 다른 경우 동기화
-        if (!cookieValue || cookieValue !== token) {
-          document.cookie = `access_token=${token}; path=/; max-age=${60*60*24*7}; SameSite=Lax`;
-        }
-      }
-    }
+/**
+ * 토큰 재발급 전용 인스턴스
+ *
+ * apiClient 인터셉터를 거치지 않아 재발급 요청 자체의 401이 무한 재시도되지 않음
+ */
+const refreshClient = axios.create({
+  baseURL: API_CONFIG.baseURL,
+  timeout: API_CONFIG.timeout,
+  withCredentials: true,
+  ...CSRF_CONFIG,
+});
 
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
+/**
+ * 재시도 여부 표시가 추가된 요청 설정
+ */
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+function hasCsrfCookie(): boolean {
+  return document.cookie.split('; ').some((row) => row.startsWith(`${CSRF_CONFIG.xsrfCookieName}=`));
+}
+
+/**
+ * XSRF-TOKEN Cookie 확보
+ *
+ * XSRF-TOKEN은 세션 Cookie라 브라우저 재시작 후 사라질 수 있으므로
+ * 변경 요청 전에 없으면 /api/auth/csrf로 발급받음
+ */
+async function ensureCsrfToken(): Promise<void> {
+  if (typeof window === 'undefined' || hasCsrfCookie()) return;
+  await refreshClient.get('/api/auth/csrf');
+}
+
+// CSRF 인터셉터 (Request): 변경 요청(POST/PUT/PATCH/DELETE) 전에 XSRF-TOKEN 확보
+apiClient.interceptors.request.use(async (config) => {
+  if (!SAFE_METHODS.includes((config.method ?? 'get').toLowerCase())) {
+    await ensureCsrfToken();
   }
-);
+  return config;
+});
+
+/**
+ * 진행 중인 재발급 요청 (Single-flight)
+ *
+ * 여러 요청이 동시에 401을 받아도 /api/auth/refresh는 한 번만 호출되고,
+ * 대기 중인 요청들은 같은 Promise를 기다린 뒤 재시도됨
+ * 새 Access Token은 Backend가 httpOnly Cookie로 설정
+ */
+let refreshPromise: Promise<void> | null = null;
 
-// 응답 인터셉터 (401 처리)
+export function refreshSession(): Promise<void> {
+  if (!refreshPromise) {
+    refreshPromise = ensureCsrfToken()
+      .then(() => refreshClient.post<TokenRefreshResponse>('/api/auth/refresh'))
+      .then(() => undefined)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * 재발급 실패 시 처리: 보호된 경로에서만 /login 리다이렉트
+ *
+ * 인증 Cookie는 Backend가 재발급 실패 응답에서 만료 처리
+ * returnTo로 현재 위치를 전달하여 로그인 후 원래 페이지로 복귀
+ * /api/auth/me는 선택적 인증 (Header에서 로그인 여부 확인용)이므로 리다이렉트하지 않음
+ */
+function handleUnauthorized(requestUrl?: string) {
+  if (typeof window === 'undefined') return;
+
+  const isAuthCheck = requestUrl?.includes('/api/auth/me');
+  const currentPath = window.location.pathname;
+
+  if (!isAuthCheck && isProtectedRoute(currentPath) && currentPath !== '/login') {
+    window.location.href = buildLoginUrl(currentPath + window.location.search);
+  }
+}
+
+// 응답 인터셉터 (401 시 토큰 재발급, CSRF 403 시 토큰 재발급 후 재시도 + ApiError 변환)
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // /api/auth/me는 선택적 인증 (401을 조용히 처리)
-      const isAuthCheck = error.config?.url?.includes('/api/auth/me');
-
-      if (!isAuthCheck) {
-        // JWT 만료 시 localStorage와 Cookie 모두 제거
-        localStorage.removeItem('access_token');
-
-        if (typeof document !== 'undefined') {
-          document.cookie = 'access_token=; path=/; max-age=0; SameSite=Lax';
-        }
-
-        // 현재 페이지가 로그인 페이지가 아닐 경우에만 리다이렉션
-        if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
-          window.location.href = '/login';
-        }
+  async (error) => {
+    // AbortSignal로 취소된 요청은 그대로 전달 (TanStack Query가 취소로 처리)
+    if (axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      typeof window !== 'undefined'
+    ) {
+      originalRequest._retry = true;
+
+      try {
+        await refreshSession();
+        return apiClient(originalRequest);
+      } catch {
+        handleUnauthorized(originalRequest.url);
+      }
+    }
+
+    // XSRF-TOKEN Cookie가 만료/교체된 경우 한 번 재발급 후 재시도
+    if (
+      error.response?.status === 403 &&
+      error.response.data?.error?.code === 'INVALID_CSRF_TOKEN' &&
+      originalRequest &&
+      !originalRequest._retry &&
+      typeof window !== 'undefined'
+    ) {
+      originalRequest._retry = true;
+
+      try {
+        await refreshClient.get('/api/auth/csrf');
+        return apiClient(originalRequest);
+      } catch {
+        // 재발급 실패 시 원래 403 에러 전달
       }
     }
 
-    return Promise.reject(error);
+    return Promise.reject(ApiError.fromAxiosError(error));
   }
 );
 
@@ -0,0 +1,41 @@
+import apiClient from './client';
+import type { RequestOptions } from './client';
+import type {
+  CommentDto,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+} from '@/types/api/comment';
+
+export const commentsApi = {
+  // 게시글 댓글 목록 조회 (작성순 평면 목록, 삭제된 댓글 포함)
+  async getComments(postId: number, options: RequestOptions = {}): Promise<CommentDto[]> {
+    const response = await apiClient.get<CommentDto[]>(`/api/posts/${postId}/comments`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 댓글/답글 작성
+  async createComment(postId: number, request: CreateCommentRequest): Promise<CommentDto> {
+    const response = await apiClient.post<CommentDto>(`/api/posts/${postId}/comments`, request);
+    return response.data;
+  },
+
+  // 댓글 수정 (작성자만)
+  async updateComment(
+    postId: number,
+    commentId: number,
+    request: UpdateCommentRequest
+  ): Promise<CommentDto> {
+    const response = await apiClient.put<CommentDto>(
+      `/api/posts/${postId}/comments/${commentId}`,
+      request
+    );
+    return response.data;
+  },
+
+  // 댓글 삭제 (Soft Delete, 작성자만)
+  async deleteComment(postId: number, commentId: number): Promise<void> {
+    await apiClient.delete(`/api/posts/${postId}/comments/${commentId}`);
+  },
+};
@@ -0,0 +1,31 @@
+import apiClient from './client';
+import type { RequestOptions } from './client';
+import type { DraftDto, DraftSummaryDto, SaveDraftRequest } from '@/types/api/draft';
+
+export const draftsApi = {
+  // 내 초안 목록 (최근 수정순, 본문 제외)
+  async getDrafts(options: RequestOptions = {}): Promise<DraftSummaryDto[]> {
+    const response = await apiClient.get<DraftSummaryDto[]>('/api/drafts', {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 초안 조회 (없으면 DRAFT_NOT_FOUND)
+  async getDraft(draftKey: string, options: RequestOptions = {}): Promise<DraftDto> {
+    const response = await apiClient.get<DraftDto>(`/api/drafts/${encodeURIComponent(draftKey)}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 초안 저장 (upsert)
+  async saveDraft(draftKey: string, request: SaveDraftRequest): Promise<DraftDto> {
+    const response = await apiClient.put<DraftDto>(`/api/drafts/${encodeURIComponent(draftKey)}`, request);
+    return response.data;
+  },
+
+  async deleteDraft(draftKey: string): Promise<void> {
+    await apiClient.delete(`/api/drafts/${encodeURIComponent(draftKey)}`);
+  },
+};
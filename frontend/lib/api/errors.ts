@@ -0,0 +1,210 @@
+import axios from 'axios';
+import type {
+  ApiErrorCode,
+  ErrorResponse,
+  FieldErrors,
+  GlobalErrorResponse,
+  ServerErrorCode,
+} from '@/types/api/error';
+
+const SERVER_ERROR_CODES: readonly ServerErrorCode[] = [
+  'FORBIDDEN',
+  'POST_NOT_FOUND',
+  'COMMENT_NOT_FOUND',
+  'DRAFT_NOT_FOUND',
+  'REVISION_NOT_FOUND',
+  'USER_NOT_FOUND',
+  'UNAUTHORIZED',
+  'INVALID_REFRESH_TOKEN',
+  'INVALID_CSRF_TOKEN',
+  'VALIDATION_ERROR',
+];
+
+/**
+ * 에러 코드별 기본 사용자 메시지
+ * T097: 사용자 친화적 메시지로 API 오류 처리 추가
+ */
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  BAD_REQUEST: '잘못된 요청입니다. 입력 내용을 확인해주세요.',
+  VALIDATION_ERROR: '유효하지 않은 데이터입니다. 입력 내용을 확인해주세요.',
+  UNAUTHORIZED: '로그인이 만료되었습니다. 다시 로그인해주세요.',
+  INVALID_REFRESH_TOKEN: '로그인이 만료되었습니다. 다시 로그인해주세요.',
+  INVALID_CSRF_TOKEN: '보안 토큰이 만료되었습니다. 페이지를 새로고침해주세요.',
+  FORBIDDEN: '접근 권한이 없습니다. 작성자만 수정/삭제할 수 있습니다.',
+  NOT_FOUND: '요청하신 리소스를 찾을 수 없습니다.',
+  POST_NOT_FOUND: '게시글을 찾을 수 없습니다.',
+  COMMENT_NOT_FOUND: '댓글을 찾을 수 없습니다.',
+  DRAFT_NOT_FOUND: '초안을 찾을 수 없습니다.',
+  REVISION_NOT_FOUND: '수정 기록을 찾을 수 없습니다.',
+  USER_NOT_FOUND: '사용자를 찾을 수 없습니다.',
+  CONFLICT: '이미 존재하는 데이터입니다.',
+  RATE_LIMITED: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+  SERVER_ERROR: '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+  SERVICE_UNAVAILABLE: '서버가 일시적으로 응답하지 않습니다. 잠시 후 다시 시도해주세요.',
+  TIMEOUT: '서버 응답 시간이 초과되었습니다. 다시 시도해주세요.',
+  NETWORK_ERROR: '네트워크 연결을 확인해주세요. 서버에 접속할 수 없습니다.',
+  UNKNOWN: '오류가 발생했습니다.',
+};
+
+/**
+ * 서버 메시지를 그대로 노출해도 되는 코드 (4xx, 한글 비즈니스 메시지)
+ * 5xx는 내부 예외 메시지가 섞일 수 있으므로 기본 메시지 사용
+ */
+const SERVER_MESSAGE_CODES: readonly ApiErrorCode[] = [
+  'BAD_REQUEST',
+  'VALIDATION_ERROR',
+  'FORBIDDEN',
+  'POST_NOT_FOUND',
+  'COMMENT_NOT_FOUND',
+  'DRAFT_NOT_FOUND',
+  'REVISION_NOT_FOUND',
+  'USER_NOT_FOUND',
+  'NOT_FOUND',
+  'CONFLICT',
+];
+
+/**
+ * API 에러 (code 기반 Discriminated Union)
+ *
+ * - code로 분기: `if (isApiError(error, 'POST_NOT_FOUND')) { ... }`
+ * - VALIDATION_ERROR일 때만 details(필드별 메시지)가 존재
+ * - status 0은 서버 응답이 없는 경우 (NETWORK_ERROR, TIMEOUT)
+ */
+export class ApiError<C extends ApiErrorCode = ApiErrorCode> extends Error {
+  readonly code: C;
+  readonly status: number;
+  readonly timestamp: string;
+  readonly details: C extends 'VALIDATION_ERROR' ? FieldErrors : undefined;
+  readonly originalError: unknown;
+
+  constructor(params: {
+    code: C;
+    status: number;
+    message?: string;
+    timestamp?: string;
+    details?: C extends 'VALIDATION_ERROR' ? FieldErrors : undefined;
+    originalError?: unknown;
+  }) {
+    super(params.message || DEFAULT_MESSAGES[params.code]);
+    this.name = 'ApiError';
+    this.code = params.code;
+    this.status = params.status;
+    this.timestamp = params.timestamp ?? new Date().toISOString();
+    this.details = params.details as C extends 'VALIDATION_ERROR' ? FieldErrors : undefined;
+    this.originalError = params.originalError;
+  }
+
+  /**
+   * Axios 에러를 ApiError로 변환
+   *
+   * 중첩 형식({ error: { code } })과 GlobalExceptionHandler 평면 형식을 모두 해석
+   */
+  static fromAxiosError(error: unknown): ApiError {
+    if (!axios.isAxiosError(error) || !error.response) {
+      const isTimeout = axios.isAxiosError(error) && error.code === 'ECONNABORTED';
+      return new ApiError({
+        code: isTimeout ? 'TIMEOUT' : 'NETWORK_ERROR',
+        status: 0,
+        originalError: error,
+      });
+    }
+
+    const { status, data } = error.response;
+
+    if (isNestedErrorResponse(data)) {
+      const code = SERVER_ERROR_CODES.includes(data.error.code) ? data.error.code : codeFromStatus(status);
+      return createApiError(code, status, data.error.message, data.error.timestamp, undefined, error);
+    }
+
+    if (isGlobalErrorResponse(data)) {
+      const code = data.details ? 'VALIDATION_ERROR' : codeFromStatus(status);
+      return createApiError(code, status, data.message, data.timestamp, data.details ?? {}, error);
+    }
+
+    return createApiError(codeFromStatus(status), status, undefined, undefined, undefined, error);
+  }
+}
+
+/**
+ * 사용자 메시지 결정 후 ApiError 생성
+ */
+function createApiError(
+  code: ApiErrorCode,
+  status: number,
+  serverMessage: string | undefined,
+  timestamp: string | undefined,
+  details: FieldErrors | undefined,
+  originalError: unknown
+): ApiError {
+  const message = SERVER_MESSAGE_CODES.includes(code) && serverMessage
+    ? serverMessage
+    : DEFAULT_MESSAGES[code];
+
+  if (code === 'VALIDATION_ERROR') {
+    return new ApiError({ code, status, message, timestamp, details: details ?? {}, originalError });
+  }
+  return new ApiError({ code, status, message, timestamp, originalError });
+}
+
+/**
+ * HTTP 상태 코드로부터 에러 코드 도출 (GlobalExceptionHandler 응답 등)
+ */
+function codeFromStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 400:
+      return 'BAD_REQUEST';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 422:
+      return 'VALIDATION_ERROR';
+    case 429:
+      return 'RATE_LIMITED';
+    case 502:
+    case 503:
+      return 'SERVICE_UNAVAILABLE';
+    case 504:
+      return 'TIMEOUT';
+    default:
+      return status >= 500 ? 'SERVER_ERROR' : 'UNKNOWN';
+  }
+}
+
+function isNestedErrorResponse(data: unknown): data is ErrorResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as ErrorResponse).error === 'object' &&
+    (data as ErrorResponse).error !== null &&
+    typeof (data as ErrorResponse).error.code === 'string'
+  );
+}
+
+function isGlobalErrorResponse(data: unknown): data is GlobalErrorResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as GlobalErrorResponse).status === 'number' &&
+    typeof (data as GlobalErrorResponse).message === 'string'
+  );
+}
+
+/**
+ * ApiError 타입 가드 (code 지정 시 해당 코드로 좁힘)
+ *
+ * @example
+ * if (isApiError(error, 'VALIDATION_ERROR')) {
+ *   error.details.title; // FieldErrors
+ * }
+ */
+export function isApiError(error: unknown): error is ApiError;
+export function isApiError<C extends ApiErrorCode>(error: unknown, ...codes: C[]): error is ApiError<C>;
+export function isApiError(error: unknown, ...codes: ApiErrorCode[]): boolean {
+  if (!(error instanceof ApiError)) return false;
+  return codes.length === 0 || codes.includes(error.code);
+}
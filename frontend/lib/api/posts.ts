@@ -1,4 +1,6 @@
 import apiClient from './client';
+import type { RequestOptions } from './client';
+import { sanitizePostHtml } from '@/lib/html/sanitize';
 import type {
   PostDto,
   CreatePostRequest,
@@ -6,41 +8,95 @@ import type {
   VectorSearchRequest,
   VectorSearchResponse,
   PostListResponse,
+  PostFeedResponse,
   PostSearchRequest,
   PostSearchResponse,
+  HashtagFilter,
 } from '@/types/api/post';
 
+// 해시태그 필터 쿼리 파라미터 (태그가 없으면 생략)
+function appendHashtagFilter(params: URLSearchParams, filter?: HashtagFilter) {
+  if (!filter || filter.hashtags.length === 0) return;
+
+  params.append('hashtags', filter.hashtags.join(','));
+  params.append('match', filter.match);
+}
+
 export const postsApi = {
   // 게시글 목록 조회
-  async getPosts(page = 0, size = 20, hashtag?: string): Promise<PostListResponse> {
+  async getPosts(
+    page = 0,
+    size = 20,
+    filter?: HashtagFilter,
+    options: RequestOptions = {}
+  ): Promise<PostListResponse> {
     const params = new URLSearchParams({
       page: page.toString(),
       size: size.toString(),
     });
 
-    if (hashtag) {
-      params.append('hashtag', hashtag);
+    appendHashtagFilter(params, filter);
+
+    const response = await apiClient.get<PostListResponse>(`/api/posts?${params}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 게시글 피드 조회 (커서 기반, 첫 페이지는 cursor 없이 요청)
+  async getPostFeed(
+    cursor: string | null,
+    size = 20,
+    filter?: HashtagFilter,
+    options: RequestOptions = {}
+  ): Promise<PostFeedResponse> {
+    const params = new URLSearchParams({ size: size.toString() });
+
+    if (cursor) {
+      params.append('cursor', cursor);
     }
+    appendHashtagFilter(params, filter);
 
-    const response = await apiClient.get<PostListResponse>(`/api/posts?${params}`);
+    const response = await apiClient.get<PostFeedResponse>(`/api/posts/feed?${params}`, {
+      signal: options.signal,
+    });
     return response.data;
   },
 
   // 게시글 상세 조회
-  async getPostById(id: number): Promise<PostDto> {
-    const response = await apiClient.get<PostDto>(`/api/posts/${id}`);
+  async getPostById(id: number, options: RequestOptions = {}): Promise<PostDto> {
+    const response = await apiClient.get<PostDto>(`/api/posts/${id}`, { signal: options.signal });
     return response.data;
   },
 
   // 게시글 생성
+  // contentHtml은 허용 목록으로 정제 후 전송 (Backend에서도 동일하게 재정제)
   async createPost(request: CreatePostRequest): Promise<PostDto> {
-    const response = await apiClient.post<PostDto>('/api/posts', request);
+    const response = await apiClient.post<PostDto>('/api/posts', {
+      ...request,
+      contentHtml: sanitizePostHtml(request.contentHtml),
+    });
     return response.data;
   },
 
   // 게시글 수정
   async updatePost(id: number, request: UpdatePostRequest): Promise<PostDto> {
-    const response = await apiClient.put<PostDto>(`/api/posts/${id}`, request);
+    const response = await apiClient.put<PostDto>(`/api/posts/${id}`, {
+      ...request,
+      contentHtml: sanitizePostHtml(request.contentHtml),
+    });
+    return response.data;
+  },
+
+  // 관련 게시글 조회 (자기 자신 제외, 유사도 내림차순)
+  async getRelatedPosts(
+    id: number,
+    limit: number,
+    options: RequestOptions = {}
+  ): Promise<VectorSearchResponse> {
+    const response = await apiClient.get<VectorSearchResponse>(`/api/posts/${id}/related?limit=${limit}`, {
+      signal: options.signal,
+    });
     return response.data;
   },
 
@@ -50,14 +106,24 @@ export const postsApi = {
   },
 
   // 벡터 유사도 검색 (레거시)
-  async searchPosts(request: VectorSearchRequest): Promise<VectorSearchResponse> {
-    const response = await apiClient.post<VectorSearchResponse>('/api/posts/search', request);
+  async searchPosts(
+    request: VectorSearchRequest,
+    options: RequestOptions = {}
+  ): Promise<VectorSearchResponse> {
+    const response = await apiClient.post<VectorSearchResponse>('/api/posts/search', request, {
+      signal: options.signal,
+    });
     return response.data;
   },
 
   // 필드별 가중치 검색 (Phase 6)
-  async searchPostsByFields(request: PostSearchRequest): Promise<PostSearchResponse> {
-    const response = await apiClient.post<PostSearchResponse>('/api/posts/search', request);
+  async searchPostsByFields(
+    request: PostSearchRequest,
+    options: RequestOptions = {}
+  ): Promise<PostSearchResponse> {
+    const response = await apiClient.post<PostSearchResponse>('/api/posts/search', request, {
+      signal: options.signal,
+    });
     return response.data;
   },
 };
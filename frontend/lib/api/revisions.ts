@@ -0,0 +1,28 @@
+import apiClient from './client';
+import type { RequestOptions } from './client';
+import type { PostDto } from '@/types/api/post';
+import type { PostRevisionDto } from '@/types/api/revision';
+
+export const revisionsApi = {
+  // 게시글 수정 이력 (최신순, 본문 제외)
+  async getRevisions(postId: number, options: RequestOptions = {}): Promise<PostRevisionDto[]> {
+    const response = await apiClient.get<PostRevisionDto[]>(`/api/posts/${postId}/revisions`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 리비전 단건 조회 (Markdown/HTML 본문 포함)
+  async getRevision(postId: number, revisionId: number, options: RequestOptions = {}): Promise<PostRevisionDto> {
+    const response = await apiClient.get<PostRevisionDto>(`/api/posts/${postId}/revisions/${revisionId}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 리비전 복원 (작성자만, 복원 결과도 새 리비전으로 기록)
+  async restoreRevision(postId: number, revisionId: number): Promise<PostDto> {
+    const response = await apiClient.post<PostDto>(`/api/posts/${postId}/revisions/${revisionId}/restore`);
+    return response.data;
+  },
+};
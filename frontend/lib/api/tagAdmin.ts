@@ -0,0 +1,36 @@
+import apiClient from './client';
+import type { RequestOptions } from './client';
+import type {
+  TagMergeRequest,
+  TagMergeResponse,
+  TagSynonym,
+  TagSynonymListResponse,
+  TagSynonymRequest,
+} from '@/types/api/tag';
+
+export const tagAdminApi = {
+  // 여러 태그를 하나로 병합 (게시글 태그 교체 + 재인덱싱, 이름 변경은 source 하나)
+  async mergeTags(request: TagMergeRequest): Promise<TagMergeResponse> {
+    const response = await apiClient.post<TagMergeResponse>('/api/admin/tags/merge', request);
+    return response.data;
+  },
+
+  // 동의어 목록 (대표 태그, 동의어 순)
+  async getSynonyms(options: RequestOptions = {}): Promise<TagSynonymListResponse> {
+    const response = await apiClient.get<TagSynonymListResponse>('/api/admin/tags/synonyms', {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 동의어 등록
+  async createSynonym(request: TagSynonymRequest): Promise<TagSynonym> {
+    const response = await apiClient.post<TagSynonym>('/api/admin/tags/synonyms', request);
+    return response.data;
+  },
+
+  // 동의어 삭제
+  async deleteSynonym(id: number): Promise<void> {
+    await apiClient.delete(`/api/admin/tags/synonyms/${id}`);
+  },
+};
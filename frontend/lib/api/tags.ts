@@ -0,0 +1,63 @@
+import apiClient from './client';
+import type { RequestOptions } from './client';
+import type {
+  TagDetailResponse,
+  TagDirectoryResponse,
+  TagRecommendationRequest,
+  TagRecommendationResponse,
+  TagSuggestionResponse,
+  TrendingTagsResponse,
+} from '@/types/api/tag';
+
+export const tagsApi = {
+  // 해시태그 목록 (사용 게시글 수순, 최근 90일 활동 포함)
+  async getTags(options: RequestOptions = {}): Promise<TagDirectoryResponse> {
+    const response = await apiClient.get<TagDirectoryResponse>('/api/tags', { signal: options.signal });
+    return response.data;
+  },
+
+  // 이번 주 인기 급상승 해시태그 (로그인 불필요)
+  async getTrendingTags(limit = 10, options: RequestOptions = {}): Promise<TrendingTagsResponse> {
+    const params = new URLSearchParams({ limit: limit.toString() });
+
+    const response = await apiClient.get<TrendingTagsResponse>(`/api/tags/trending?${params}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 해시태그 상세 (게시글 수, 최근 90일 활동, 함께 쓰인 태그)
+  async getTagDetail(tag: string, relatedLimit = 10, options: RequestOptions = {}): Promise<TagDetailResponse> {
+    const params = new URLSearchParams({ tag, relatedLimit: relatedLimit.toString() });
+
+    const response = await apiClient.get<TagDetailResponse>(`/api/tags/detail?${params}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 해시태그 자동완성 (대소문자·문장부호 무시 접두어 매칭, 사용 빈도순)
+  async suggestTags(query: string, limit = 10, options: RequestOptions = {}): Promise<TagSuggestionResponse> {
+    const params = new URLSearchParams({ limit: limit.toString() });
+
+    if (query) {
+      params.append('q', query);
+    }
+
+    const response = await apiClient.get<TagSuggestionResponse>(`/api/tags/suggest?${params.toString()}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 작성 중인 글의 해시태그 추천 (가까운 게시글들의 태그 기반, 신뢰도 포함)
+  async recommendTags(
+    request: TagRecommendationRequest,
+    options: RequestOptions = {}
+  ): Promise<TagRecommendationResponse> {
+    const response = await apiClient.post<TagRecommendationResponse>('/api/tags/recommend', request, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+};
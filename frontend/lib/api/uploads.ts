@@ -0,0 +1,35 @@
+import apiClient, { API_CONFIG } from './client';
+import type { ImageUploadResponse } from '@/types/api/upload';
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (percent: number) => void;
+}
+
+export const uploadsApi = {
+  // 에디터 이미지 업로드 (multipart/form-data)
+  // 응답 url은 Backend origin 기준 경로이므로 절대 URL로 변환하여 반환
+  async uploadImage(
+    file: Blob,
+    filename: string,
+    options: UploadOptions = {}
+  ): Promise<ImageUploadResponse> {
+    const formData = new FormData();
+    formData.append('file', file, filename);
+
+    const response = await apiClient.post<ImageUploadResponse>('/api/uploads/images', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      signal: options.signal,
+      onUploadProgress: (event) => {
+        if (options.onProgress && event.total) {
+          options.onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+
+    return {
+      ...response.data,
+      url: new URL(response.data.url, API_CONFIG.baseURL).toString(),
+    };
+  },
+};
@@ -0,0 +1,67 @@
+import apiClient from './client';
+import type { RequestOptions } from './client';
+import type {
+  VectorConfigResponse,
+  VectorConfigCreateRequest,
+  VectorConfigUpdateRequest,
+} from '@/types/api/vectorConfig';
+
+export const vectorConfigsApi = {
+  // 전체 벡터 설정 조회
+  async getAll(options: RequestOptions = {}): Promise<VectorConfigResponse[]> {
+    const response = await apiClient.get<VectorConfigResponse[]>('/api/vector-configs', {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // ID로 벡터 설정 조회
+  async getById(id: number, options: RequestOptions = {}): Promise<VectorConfigResponse> {
+    const response = await apiClient.get<VectorConfigResponse>(`/api/vector-configs/${id}`, {
+      signal: options.signal,
+    });
+    return response.data;
+  },
+
+  // 엔티티 타입별 벡터 설정 조회
+  async getByEntityType(
+    entityType: string,
+    options: RequestOptions = {}
+  ): Promise<VectorConfigResponse[]> {
+    const response = await apiClient.get<VectorConfigResponse[]>(
+      `/api/vector-configs/entity/${encodeURIComponent(entityType)}`,
+      { signal: options.signal }
+    );
+    return response.data;
+  },
+
+  // 엔티티 타입 + 필드명으로 벡터 설정 조회
+  async getByEntityTypeAndField(
+    entityType: string,
+    fieldName: string,
+    options: RequestOptions = {}
+  ): Promise<VectorConfigResponse> {
+    const response = await apiClient.get<VectorConfigResponse>(
+      `/api/vector-configs/entity/${encodeURIComponent(entityType)}/field/${encodeURIComponent(fieldName)}`,
+      { signal: options.signal }
+    );
+    return response.data;
+  },
+
+  // 벡터 설정 생성
+  async create(request: VectorConfigCreateRequest): Promise<VectorConfigResponse> {
+    const response = await apiClient.post<VectorConfigResponse>('/api/vector-configs', request);
+    return response.data;
+  },
+
+  // 벡터 설정 수정 (weight, threshold, enabled)
+  async update(id: number, request: VectorConfigUpdateRequest): Promise<VectorConfigResponse> {
+    const response = await apiClient.put<VectorConfigResponse>(`/api/vector-configs/${id}`, request);
+    return response.data;
+  },
+
+  // 벡터 설정 삭제
+  async delete(id: number): Promise<void> {
+    await apiClient.delete(`/api/vector-configs/${id}`);
+  },
+};
@@ -0,0 +1,91 @@
+/**
+ * Access Token 검증 (Edge Runtime / Web Crypto)
+ *
+ * Middleware에서 access_token Cookie의 서명과 만료를 검증하기 위해 사용
+ * Backend(jjwt)와 같은 JWT_SECRET을 공유해야 함 (README 참고)
+ *
+ * jjwt는 키 길이에 따라 HS256/HS384/HS512를 선택하므로 헤더의 alg로 해시 알고리즘 결정
+ */
+
+import type { UserRole } from '@/types/api/user';
+
+export interface AccessTokenPayload {
+  sub: string;          // 사용자 ID
+  email?: string;
+  role?: UserRole;      // 'USER' | 'MODERATOR' | 'ADMIN'
+  type?: string;        // 'access' | 'refresh'
+  iat?: number;         // 발급 시각 (초)
+  exp: number;          // 만료 시각 (초)
+}
+
+const HASH_BY_ALG: Record<string, string> = {
+  HS256: 'SHA-256',
+  HS384: 'SHA-384',
+  HS512: 'SHA-512',
+};
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJson<T>(segment: string): T | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Access Token 서명/만료/타입 검증
+ *
+ * @param token - access_token Cookie 값
+ * @param secret - Backend와 공유하는 JWT_SECRET
+ * @returns 유효하면 payload, 서명 불일치/만료/Refresh Token이면 null
+ */
+export async function verifyAccessToken(
+  token: string,
+  secret: string
+): Promise<AccessTokenPayload | null> {
+  const segments = token.split('.');
+  if (segments.length !== 3) return null;
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeJson<{ alg?: string }>(encodedHeader);
+  const hash = header?.alg ? HASH_BY_ALG[header.alg] : undefined;
+  if (!hash) return null;
+
+  try {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash },
+      false,
+      ['verify']
+    );
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(encodedSignature),
+      encoder.encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!isValid) return null;
+  } catch {
+    return null;
+  }
+
+  const payload = decodeJson<AccessTokenPayload>(encodedPayload);
+  if (!payload || typeof payload.exp !== 'number' || typeof payload.sub !== 'string') return null;
+  if (payload.type !== 'access') return null;
+  if (payload.exp * 1000 <= Date.now()) return null;
+
+  return payload;
+}
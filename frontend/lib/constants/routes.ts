@@ -8,6 +8,8 @@
  * - 경로 추가 시 이 파일만 수정하면 모든 곳에 반영
  */
 
+import type { UserRole } from '@/types/api/user';
+
 /**
  * 인증 설정
  */
@@ -23,6 +25,7 @@ export const AUTH_CONFIG = {
     '/callback',      // OAuth 콜백
     '/test-editor',   // 에디터 테스트
     '/clear-auth',    // 인증 정보 초기화 (디버깅용)
+    '/forbidden',     // 역할 권한 부족 안내
   ],
 
   /**
@@ -35,7 +38,34 @@ export const AUTH_CONFIG = {
     '/posts/[id]',      // 게시글 상세 (인증 필요)
     '/posts/new',       // 게시글 작성
     '/posts/[id]/edit', // 게시글 수정
+    '/posts/[id]/history', // 게시글 수정 기록
+    '/drafts',          // 자동 저장 초안 목록
+    '/tags',            // 태그 목록
+    '/tags/[tag]',      // 태그별 게시글
+    '/admin/vector-configs', // 벡터 설정 관리
+    '/admin/search-playground', // 검색 가중치 플레이그라운드
+    '/admin/tags',      // 태그 관리
   ],
+
+  /**
+   * 경로별 필요 역할 (protected 경로 중 추가 권한이 필요한 경로)
+   * - Middleware(JWT role 클레임)와 <RequireRole>에서 검사
+   * - 상위 역할은 하위 역할 요구를 만족 (ADMIN ⊃ MODERATOR ⊃ USER)
+   */
+  roles: {
+    '/admin/vector-configs': ['ADMIN'],
+    '/admin/search-playground': ['ADMIN'],
+    '/admin/tags': ['MODERATOR'],
+  } as Record<string, UserRole[]>,
+};
+
+/**
+ * 역할 권한 수준 (Backend UserRole.ordinal과 동일)
+ */
+const ROLE_LEVEL: Record<UserRole, number> = {
+  USER: 0,
+  MODERATOR: 1,
+  ADMIN: 2,
 };
 
 /**
@@ -74,3 +104,70 @@ export function isProtectedRoute(pathname: string): boolean {
 export function isPublicRoute(pathname: string): boolean {
   return AUTH_CONFIG.public.some((pattern) => matchRoute(pathname, pattern));
 }
+
+/**
+ * 경로에 필요한 역할 조회
+ *
+ * @param pathname - 현재 경로
+ * @returns 필요 역할 목록 (역할 제한이 없으면 null)
+ */
+export function getRequiredRoles(pathname: string): UserRole[] | null {
+  const pattern = Object.keys(AUTH_CONFIG.roles).find((route) => matchRoute(pathname, route));
+  return pattern ? AUTH_CONFIG.roles[pattern] : null;
+}
+
+/**
+ * 사용자 역할이 요구 역할 중 하나 이상을 만족하는지 확인
+ *
+ * @param role - 사용자 역할 (없으면 false)
+ * @param required - 요구 역할 목록 (가장 낮은 역할 이상이면 허용)
+ */
+export function hasRequiredRole(role: UserRole | null | undefined, required: readonly UserRole[]): boolean {
+  if (!role || !(role in ROLE_LEVEL)) return false;
+  return required.some((requiredRole) => ROLE_LEVEL[role] >= ROLE_LEVEL[requiredRole]);
+}
+
+/**
+ * 로그인 후 복귀 대상에서 제외하는 경로 (인증 흐름 자체 / 부작용이 있는 페이지)
+ */
+const RETURN_TO_EXCLUDED = ['/login', '/callback', '/clear-auth'];
+
+/**
+ * 로그인 후 복귀 경로 검증
+ *
+ * 오픈 리다이렉트를 막기 위해 같은 origin의 상대 경로이면서
+ * AUTH_CONFIG에 정의된 경로(public/protected)와 일치하는 경우만 허용
+ * middleware → login → Backend OAuth state → callback 전 구간에서 동일하게 사용
+ *
+ * @param returnTo - 복귀 경로 후보 (예: '/posts/123?tab=comments')
+ * @returns 안전한 경로면 그대로, 아니면 null
+ */
+export function sanitizeReturnTo(returnTo: string | null | undefined): string | null {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+    return null;
+  }
+  // 제어 문자(탭/개행 등)는 브라우저가 제거하여 '//'로 해석될 수 있으므로 거부
+  if (/[\u0000-\u001F\u007F]/.test(returnTo)) {
+    return null;
+  }
+
+  const pathname = returnTo.split(/[?#]/)[0];
+  if (RETURN_TO_EXCLUDED.includes(pathname)) {
+    return null;
+  }
+  if (!isProtectedRoute(pathname) && !isPublicRoute(pathname)) {
+    return null;
+  }
+  return returnTo;
+}
+
+/**
+ * returnTo를 포함한 로그인 페이지 URL 생성
+ *
+ * @param returnTo - 로그인 후 복귀할 경로
+ * @returns '/login?returnTo=...' (복귀 경로가 안전하지 않으면 '/login')
+ */
+export function buildLoginUrl(returnTo?: string | null): string {
+  const safeReturnTo = sanitizeReturnTo(returnTo);
+  return safeReturnTo ? `/login?returnTo=${encodeURIComponent(safeReturnTo)}` : '/login';
+}
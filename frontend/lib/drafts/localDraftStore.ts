@@ -0,0 +1,122 @@
+/**
+ * 로컬 초안 저장소 (IndexedDB)
+ *
+ * 입력할 때마다 즉시 저장되어 새로고침, 탭 종료, 401 리다이렉트에도 작성 내용을 보존
+ * 서버 초안(/api/drafts)과 같은 draftKey를 사용하며, syncedAt으로 서버 반영 여부를 추적
+ *
+ * 브라우저를 여러 사용자가 함께 쓸 수 있으므로 초안마다 작성자(authorId)를 저장하고
+ * 조회는 현재 사용자 초안만 반환, 로그아웃 시 clear()로 전체 삭제
+ */
+
+const DB_NAME = 'moaspace';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+export interface LocalDraft {
+  draftKey: string;
+  authorId: number;            // 작성자 (현재 사용자 초안만 조회)
+  postId: number | null;
+  title: string;
+  contentHtml: string;
+  hashtags: string[];
+  updatedAt: number;           // 마지막 로컬 저장 시각 (epoch ms)
+  syncedAt: number | null;     // 마지막 서버 저장 성공 시각 (epoch ms), 미동기화면 null
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB를 사용할 수 없습니다'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'draftKey' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const localDraftStore = {
+  async get(draftKey: string, authorId: number): Promise<LocalDraft | null> {
+    const draft = await withStore<LocalDraft | undefined>('readonly', (store) => store.get(draftKey));
+    return draft?.authorId === authorId ? draft : null;
+  },
+
+  // 최근 수정순
+  async list(authorId: number): Promise<LocalDraft[]> {
+    const drafts = await withStore<LocalDraft[]>('readonly', (store) => store.getAll());
+    return drafts.filter((draft) => draft.authorId === authorId).sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  async put(draft: LocalDraft): Promise<void> {
+    await withStore('readwrite', (store) => store.put(draft));
+  },
+
+  /**
+   * 서버 저장 완료 표시 (읽기와 쓰기를 한 트랜잭션에서 처리)
+   *
+   * 저장 요청 중 더 새로운 입력이 로컬에 저장됐으면 내용은 그대로 두고 syncedAt만 보낸 시점으로 갱신
+   * (updatedAt > syncedAt이므로 미동기화 상태 유지), 그 사이 삭제됐으면 아무것도 하지 않음
+   *
+   * @param syncedUpdatedAt 서버에 보낸 초안의 updatedAt
+   */
+  async markSynced(draftKey: string, syncedUpdatedAt: number): Promise<void> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.get(draftKey);
+
+      request.onsuccess = () => {
+        const current = request.result as LocalDraft | undefined;
+        if (!current) return;
+
+        const syncedAt = current.updatedAt <= syncedUpdatedAt
+          ? Date.now()
+          : Math.max(current.syncedAt ?? 0, syncedUpdatedAt);
+        store.put({ ...current, syncedAt });
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  },
+
+  async delete(draftKey: string): Promise<void> {
+    await withStore('readwrite', (store) => store.delete(draftKey));
+  },
+
+  // 로그아웃 시 이 브라우저의 모든 로컬 초안 삭제
+  async clear(): Promise<void> {
+    await withStore('readwrite', (store) => store.clear());
+  },
+};
@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as authApi from '@/lib/api/auth';
+import { localDraftStore } from '@/lib/drafts/localDraftStore';
 import type { UserResponse } from '@/types/api/user';
-import { clearAuthCookie } from '@/lib/actions/auth';
 
 /**
  * 현재 로그인한 사용자 정보를 가져오는 커스텀 훅
@@ -14,7 +14,7 @@ import { clearAuthCookie } from '@/lib/actions/auth';
 export function useAuth(enabled: boolean = true) {
   return useQuery<UserResponse>({
     queryKey: ['auth', 'me'],
-    queryFn: authApi.getCurrentUser,
+    queryFn: ({ signal }) => authApi.getCurrentUser({ signal }),
     retry: false, // JWT 토큰이 없거나 만료된 경우 재시도하지 않음
     staleTime: 1000 * 60 * 5, // 5분간 stale 상태 유지 (캐시 유지)
     enabled, // 조건부 실행: enabled가 false면 API 호출하지 않음
@@ -28,10 +28,9 @@ export function useAuth(enabled: boolean = true) {
  * 로그아웃 기능을 제공하는 커스텀 훅
  *
  * 로그아웃 시:
- * 1. 백엔드 /api/auth/logout 호출
- * 2. localStorage에서 access_token 제거
- * 3. Cookie에서 access_token 제거 (Middleware 인증용)
- * 4. React Query 캐시 초기화
+ * 1. 백엔드 /api/auth/logout 호출 (httpOnly 인증 Cookie 만료)
+ * 2. 이 브라우저의 로컬 초안(IndexedDB) 삭제 (공용 브라우저에서 다음 사용자에게 노출 방지)
+ * 3. React Query 캐시 초기화
  *
  * @returns { mutate: (void) => void, isLoading, error }
  */
@@ -41,7 +40,7 @@ export function useLogout() {
   return useMutation({
     mutationFn: async () => {
       await authApi.logout();
-      await clearAuthCookie();
+      await localDraftStore.clear().catch(() => {});
     },
     onSuccess: () => {
       // 모든 쿼리 캐시 무효화 (사용자 정보, 게시글 등)
@@ -0,0 +1,94 @@
+/**
+ * Comments 커스텀 훅 (TanStack Query)
+ *
+ * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { commentsApi } from '@/lib/api/comments';
+import type { CreateCommentRequest, UpdateCommentRequest } from '@/types/api/comment';
+
+/**
+ * Query keys for cache management
+ */
+export const commentKeys = {
+  all: ['comments'] as const,
+  lists: () => [...commentKeys.all, 'list'] as const,
+  list: (postId: number) => [...commentKeys.lists(), postId] as const,
+};
+
+/**
+ * 게시글 댓글 목록 query
+ *
+ * @param postId 게시글 ID
+ * @param enabled 쿼리 활성화 여부 (기본값: true)
+ *
+ * @example
+ * const { data: comments, isLoading } = useComments(123);
+ */
+export function useComments(postId: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: commentKeys.list(postId),
+    queryFn: ({ signal }) => commentsApi.getComments(postId, { signal }),
+    enabled,
+  });
+}
+
+/**
+ * 댓글/답글 작성 mutation
+ *
+ * @example
+ * const { mutate } = useCreateComment(123);
+ * mutate({ content: "좋은 글이네요", parentId: 45 });
+ */
+export function useCreateComment(postId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateCommentRequest) => commentsApi.createComment(postId, request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(postId) });
+    },
+  });
+}
+
+/**
+ * 댓글 수정 mutation
+ *
+ * @example
+ * const { mutate } = useUpdateComment(123);
+ * mutate({ commentId: 45, request: { content: "수정된 댓글" } });
+ */
+export function useUpdateComment(postId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, request }: { commentId: number; request: UpdateCommentRequest }) =>
+      commentsApi.updateComment(postId, commentId, request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(postId) });
+    },
+  });
+}
+
+/**
+ * 댓글 삭제 mutation (소프트 삭제)
+ *
+ * 답글이 있는 댓글은 "삭제된 댓글입니다"로 남고, 답글이 없으면 목록에서 사라짐
+ *
+ * @example
+ * const { mutate } = useDeleteComment(123);
+ * mutate(45);
+ */
+export function useDeleteComment(postId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (commentId: number) => commentsApi.deleteComment(postId, commentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.list(postId) });
+    },
+  });
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * 값이 delay 동안 바뀌지 않으면 반영 (입력 중 요청 폭주 방지)
+ *
+ * @example
+ * const debouncedQuery = useDebouncedValue(query, 200);
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,386 @@
+/**
+ * Drafts 커스텀 훅 (게시글 자동 저장 초안)
+ *
+ * 저장 흐름:
+ * - 입력 변경 → LOCAL_SAVE_DELAY_MS 후 IndexedDB 저장 (localDraftStore)
+ * - SERVER_SYNC_INTERVAL_MS 주기로 변경분만 서버 저장 (/api/drafts/{draftKey})
+ * - 탭이 숨겨지면(닫기/전환) 즉시 서버 저장 시도
+ * - 발행 성공 시 clear()로 로컬/서버 초안 모두 삭제
+ * - 로컬 초안은 현재 사용자(useAuth) 것만 읽고 쓰며, 로그아웃 시 useLogout에서 전체 삭제
+ *
+ * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { draftsApi } from '@/lib/api/drafts';
+import { isApiError } from '@/lib/api/errors';
+import { useAuth } from '@/lib/hooks/useAuth';
+import { localDraftStore, type LocalDraft } from '@/lib/drafts/localDraftStore';
+
+const LOCAL_SAVE_DELAY_MS = 500;
+const SERVER_SYNC_INTERVAL_MS = 10_000;
+
+/**
+ * Query keys for cache management
+ */
+export const draftKeys = {
+  all: ['drafts'] as const,
+  lists: () => [...draftKeys.all, 'list'] as const,
+  list: (authorId: number) => [...draftKeys.lists(), authorId] as const,
+  recovery: (draftKey: string) => [...draftKeys.all, 'recovery', draftKey] as const,
+};
+
+/**
+ * 초안 내용 (폼 상태와 1:1)
+ */
+export interface DraftContent {
+  title: string;
+  contentHtml: string;
+  hashtags: string[];
+}
+
+/**
+ * 초안 목록 항목 (서버 + 로컬 병합)
+ */
+export interface DraftListItem {
+  draftKey: string;
+  postId: number | null;
+  title: string;
+  excerpt: string;
+  updatedAt: number;           // epoch ms
+  // 서버에 반영되지 않은 로컬 변경이 있는지 (오프라인, 세션 만료 등)
+  hasLocalChanges: boolean;
+}
+
+/**
+ * 복원 후보 (열었을 때 현재 내용과 다른 초안)
+ */
+export interface DraftRecoveryCandidate {
+  source: 'local' | 'server';
+  content: DraftContent;
+  updatedAt: number;           // epoch ms
+}
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline';
+
+/**
+ * 새 글 초안 키 생성
+ */
+export function createDraftKey(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 기존 게시글 수정 초안 키 (게시글당 하나)
+ */
+export function draftKeyForPost(postId: number): string {
+  return `post-${postId}`;
+}
+
+function isSameContent(a: DraftContent, b: DraftContent): boolean {
+  return (
+    a.title === b.title &&
+    a.contentHtml === b.contentHtml &&
+    a.hashtags.join('\u0000') === b.hashtags.join('\u0000')
+  );
+}
+
+// 에디터 초기값('<p></p>')처럼 텍스트가 없는 본문도 빈 초안으로 간주
+function isEmptyContent(content: DraftContent): boolean {
+  const text = content.contentHtml.replace(/<[^>]*>/g, '').trim();
+  const hasMedia = /<(img|iframe|table)\b/i.test(content.contentHtml);
+  return content.title.trim() === '' && text === '' && !hasMedia && content.hashtags.length === 0;
+}
+
+function htmlToExcerpt(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 120);
+}
+
+// 서버 초안이 없으면(DRAFT_NOT_FOUND) null, 그 외 오류는 그대로 전파
+async function fetchServerDraft(draftKey: string, signal?: AbortSignal) {
+  try {
+    return await draftsApi.getDraft(draftKey, { signal });
+  } catch (error) {
+    if (isApiError(error, 'DRAFT_NOT_FOUND', 'NOT_FOUND')) return null;
+    throw error;
+  }
+}
+
+// 로컬 저장소를 사용할 수 없는 환경(사생활 보호 모드 등)에서는 서버 초안만 사용
+async function readLocalDrafts(authorId: number): Promise<LocalDraft[]> {
+  try {
+    return await localDraftStore.list(authorId);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 내 초안 목록 query (서버 초안 + 이 기기에만 있는 로컬 초안)
+ *
+ * @example
+ * const { data: drafts, isLoading } = useDrafts();
+ */
+export function useDrafts() {
+  const { data: user } = useAuth();
+  const authorId = user?.id;
+
+  return useQuery({
+    queryKey: draftKeys.list(authorId ?? 0),
+    queryFn: async ({ signal }): Promise<DraftListItem[]> => {
+      const [serverDrafts, localDrafts] = await Promise.all([
+        draftsApi.getDrafts({ signal }),
+        readLocalDrafts(authorId!),
+      ]);
+
+      const items = new Map<string, DraftListItem>();
+
+      serverDrafts.forEach((draft) => {
+        items.set(draft.draftKey, {
+          draftKey: draft.draftKey,
+          postId: draft.postId,
+          title: draft.title,
+          excerpt: draft.excerpt,
+          updatedAt: new Date(draft.updatedAt).getTime(),
+          hasLocalChanges: false,
+        });
+      });
+
+      localDrafts.forEach((draft) => {
+        const server = items.get(draft.draftKey);
+        const hasLocalChanges = draft.syncedAt === null || draft.updatedAt > draft.syncedAt;
+
+        if (!server || hasLocalChanges) {
+          items.set(draft.draftKey, {
+            draftKey: draft.draftKey,
+            postId: draft.postId,
+            title: draft.title,
+            excerpt: htmlToExcerpt(draft.contentHtml),
+            updatedAt: Math.max(draft.updatedAt, server?.updatedAt ?? 0),
+            hasLocalChanges,
+          });
+        }
+      });
+
+      return [...items.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    enabled: authorId !== undefined,
+  });
+}
+
+/**
+ * 초안 삭제 mutation (로컬 + 서버)
+ *
+ * @example
+ * const { mutate } = useDiscardDraft();
+ * mutate('post-123');
+ */
+export function useDiscardDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (draftKey: string) => discardDraft(draftKey),
+    onSuccess: (_, draftKey) => {
+      queryClient.invalidateQueries({ queryKey: draftKeys.lists() });
+      queryClient.removeQueries({ queryKey: draftKeys.recovery(draftKey) });
+    },
+  });
+}
+
+async function discardDraft(draftKey: string): Promise<void> {
+  await localDraftStore.delete(draftKey).catch(() => {});
+  try {
+    await draftsApi.deleteDraft(draftKey);
+  } catch (error) {
+    if (!isApiError(error, 'DRAFT_NOT_FOUND', 'NOT_FOUND')) throw error;
+  }
+}
+
+/**
+ * 페이지를 열 때 복원할 초안 조회
+ *
+ * 로컬/서버 초안 중 현재 내용(새 글: 빈 내용, 수정: 게시글 원본)과 다른 것만 후보로 반환
+ * 로컬과 서버가 같은 내용이면 하나로 합치고, 다르면 둘 다 반환하여 사용자가 선택
+ *
+ * @param draftKey 초안 키
+ * @param current 현재 폼 내용 (null이면 아직 준비되지 않음 → 조회 보류)
+ */
+export function useDraftRecovery(draftKey: string | null, current: DraftContent | null) {
+  const { data: user } = useAuth();
+  const authorId = user?.id;
+
+  return useQuery({
+    queryKey: draftKeys.recovery(draftKey ?? ''),
+    queryFn: async ({ signal }): Promise<DraftRecoveryCandidate[]> => {
+      const [local, server] = await Promise.all([
+        localDraftStore.get(draftKey!, authorId!).catch(() => null),
+        fetchServerDraft(draftKey!, signal).catch(() => null),
+      ]);
+
+      const candidates: DraftRecoveryCandidate[] = [];
+
+      if (local) {
+        candidates.push({
+          source: 'local',
+          content: { title: local.title, contentHtml: local.contentHtml, hashtags: local.hashtags },
+          updatedAt: local.updatedAt,
+        });
+      }
+
+      if (server) {
+        const serverCandidate: DraftRecoveryCandidate = {
+          source: 'server',
+          content: { title: server.title, contentHtml: server.contentHtml, hashtags: server.hashtags },
+          updatedAt: new Date(server.updatedAt).getTime(),
+        };
+
+        // 서버 저장 시 HTML이 정제되어 표기가 달라질 수 있으므로, 로컬이 동기화된 이후 변경이 없으면 같은 초안으로 간주
+        const localInSync = local && local.syncedAt !== null && local.updatedAt <= local.syncedAt;
+        if (!localInSync && !(local && isSameContent(candidates[0].content, serverCandidate.content))) {
+          candidates.push(serverCandidate);
+        }
+      }
+
+      return candidates
+        .filter((candidate) => !isEmptyContent(candidate.content) && !isSameContent(candidate.content, current!))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    enabled: draftKey !== null && current !== null && authorId !== undefined,
+    staleTime: Infinity,
+    gcTime: 0,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+}
+
+/**
+ * 폼 내용 자동 저장
+ *
+ * @param draftKey 초안 키 (null이면 저장하지 않음)
+ * @param postId 수정 초안 대상 게시글 ID (새 글이면 null)
+ * @param content 현재 폼 내용
+ * @param options.enabled 자동 저장 활성화 (복원 여부 결정 전, 제출 중에는 false)
+ * @param options.baseline 기준 내용 (같으면 저장하지 않음, 수정 페이지의 게시글 원본)
+ *
+ * @example
+ * const { status, lastSavedAt, clear } = useDraftAutosave(draftKey, null, { title, contentHtml, hashtags }, { enabled });
+ */
+export function useDraftAutosave(
+  draftKey: string | null,
+  postId: number | null,
+  content: DraftContent,
+  options: { enabled: boolean; baseline?: DraftContent | null }
+) {
+  const queryClient = useQueryClient();
+  const { data: user } = useAuth();
+  const authorId = user?.id;
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  // 주기적 서버 저장에서 읽는 최신 로컬 초안 (렌더링과 무관하므로 ref)
+  const pendingRef = useRef<LocalDraft | null>(null);
+  const syncingRef = useRef(false);
+  const clearedRef = useRef(false);
+
+  const { title, contentHtml, hashtags } = content;
+  const { enabled, baseline } = options;
+  const hashtagsKey = hashtags.join('\u0000');
+
+  // 1. 입력 변경 → IndexedDB 저장 (디바운스)
+  useEffect(() => {
+    if (!enabled || !draftKey || authorId === undefined || clearedRef.current) return;
+
+    const current: DraftContent = { title, contentHtml, hashtags: hashtagsKey ? hashtagsKey.split('\u0000') : [] };
+    if (isEmptyContent(current) || (baseline && isSameContent(current, baseline))) return;
+
+    const timer = setTimeout(async () => {
+      const previous = await localDraftStore.get(draftKey, authorId).catch(() => null);
+      const draft: LocalDraft = {
+        draftKey,
+        authorId,
+        postId,
+        ...current,
+        updatedAt: Date.now(),
+        syncedAt: previous?.syncedAt ?? null,
+      };
+
+      pendingRef.current = draft;
+      try {
+        await localDraftStore.put(draft);
+      } catch {
+        // IndexedDB를 사용할 수 없으면 서버 저장만 진행
+      }
+      setStatus('saved');
+      setLastSavedAt(draft.updatedAt);
+    }, LOCAL_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [enabled, draftKey, authorId, postId, title, contentHtml, hashtagsKey, baseline]);
+
+  // 2. 변경분 서버 저장
+  const syncToServer = useCallback(async () => {
+    const draft = pendingRef.current;
+    if (!draft || syncingRef.current || clearedRef.current) return;
+
+    syncingRef.current = true;
+    setStatus('saving');
+    try {
+      await draftsApi.saveDraft(draft.draftKey, {
+        postId: draft.postId,
+        title: draft.title,
+        contentHtml: draft.contentHtml,
+        hashtags: draft.hashtags,
+      });
+
+      // 저장 중 추가 입력이 없었을 때만 pending 해제
+      if (pendingRef.current === draft) {
+        pendingRef.current = null;
+      }
+      // 보낸 스냅샷을 다시 쓰지 않고 현재 로컬 초안의 syncedAt만 갱신 (저장 중 입력·삭제된 내용 보존)
+      if (!clearedRef.current) {
+        await localDraftStore.markSynced(draft.draftKey, draft.updatedAt).catch(() => {});
+      }
+      queryClient.invalidateQueries({ queryKey: draftKeys.lists() });
+      setStatus('saved');
+    } catch {
+      // 로컬 초안은 남아 있으므로 다음 주기에 재시도
+      setStatus('offline');
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (!enabled || !draftKey) return;
+
+    const interval = setInterval(syncToServer, SERVER_SYNC_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        void syncToServer();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled, draftKey, syncToServer]);
+
+  /**
+   * 발행 성공 후 초안 삭제 (이후 자동 저장 중단)
+   */
+  const clear = useCallback(async () => {
+    if (!draftKey) return;
+
+    clearedRef.current = true;
+    pendingRef.current = null;
+    await discardDraft(draftKey).catch(() => {});
+    queryClient.invalidateQueries({ queryKey: draftKeys.lists() });
+  }, [draftKey, queryClient]);
+
+  return { status, lastSavedAt, clear };
+}
@@ -7,14 +7,30 @@
 
 'use client';
 
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { postsApi } from '@/lib/api/posts';
 import type {
   CreatePostRequest,
   UpdatePostRequest,
   VectorSearchRequest,
   PostSearchRequest,
+  PostDto,
+  PostListResponse,
+  PostFeedResponse,
+  SearchMode,
+  HashtagFilter,
 } from '@/types/api/post';
+import { matchesHashtagFilter } from '@/lib/posts/hashtags';
+import type { UserResponse } from '@/types/api/user';
 
 /**
  * Query keys for cache management
@@ -22,30 +38,156 @@ import type {
 export const postKeys = {
   all: ['posts'] as const,
   lists: () => [...postKeys.all, 'list'] as const,
-  list: (page: number, size: number, hashtag?: string) =>
-    [...postKeys.lists(), { page, size, hashtag }] as const,
+  list: (page: number, size: number, filter?: HashtagFilter) =>
+    [...postKeys.lists(), { page, size, filter }] as const,
+  feeds: () => [...postKeys.all, 'feed'] as const,
+  feed: (size: number, filter?: HashtagFilter) => [...postKeys.feeds(), { size, filter }] as const,
   details: () => [...postKeys.all, 'detail'] as const,
   detail: (id: number) => [...postKeys.details(), id] as const,
-  search: (query: string) => [...postKeys.all, 'search', query] as const,
-  fieldSearch: (query: string, fields?: string[]) =>
-    [...postKeys.all, 'field-search', query, fields?.sort().join(',') || 'all'] as const,
+  relatedAll: (id: number) => [...postKeys.detail(id), 'related'] as const,
+  related: (id: number, limit: number) => [...postKeys.relatedAll(id), limit] as const,
+  search: (query: string, threshold?: number, mode?: SearchMode) =>
+    [...postKeys.all, 'search', mode ?? 'semantic', query, threshold ?? 'default'] as const,
+  fieldSearch: (query: string, fields?: string[], threshold?: number) =>
+    [...postKeys.all, 'field-search', query, fields?.sort().join(',') || 'all', threshold ?? 'default'] as const,
 };
 
+/**
+ * 낙관적 업데이트 이전 캐시 스냅샷 (실패 시 롤백용)
+ */
+interface PostCacheSnapshot {
+  entries: Array<[QueryKey, unknown]>;
+}
+
+/**
+ * 진행 중인 게시글 목록/피드/상세 요청을 취소하고 현재 캐시를 스냅샷
+ *
+ * 취소하지 않으면 늦게 도착한 이전 응답이 낙관적 업데이트를 덮어씀
+ */
+async function snapshotPostCache(queryClient: QueryClient, id?: number): Promise<PostCacheSnapshot> {
+  const keys: QueryKey[] = [postKeys.lists(), postKeys.feeds(), ...(id !== undefined ? [postKeys.detail(id)] : [])];
+
+  await Promise.all(keys.map((queryKey) => queryClient.cancelQueries({ queryKey })));
+
+  return {
+    entries: keys.flatMap((queryKey) => queryClient.getQueriesData({ queryKey })),
+  };
+}
+
+function restorePostCache(queryClient: QueryClient, snapshot: PostCacheSnapshot | undefined) {
+  snapshot?.entries.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+}
+
+interface CachedPostsContext {
+  filter?: HashtagFilter;
+  isFirstPage: boolean;
+}
+
+/**
+ * 캐시된 모든 게시글 목록 페이지와 무한 스크롤 피드에 변경 적용
+ *
+ * 목록(오프셋)은 페이지 크기를 유지하고 전체 개수를 증감된 만큼 보정
+ */
+function updateCachedPosts(
+  queryClient: QueryClient,
+  updater: (posts: PostDto[], context: CachedPostsContext) => PostDto[]
+) {
+  queryClient
+    .getQueriesData<PostListResponse>({ queryKey: postKeys.lists() })
+    .forEach(([queryKey, data]) => {
+      if (!data) return;
+      const { page, filter } = queryKey[2] as { page: number; filter?: HashtagFilter };
+      const posts = updater(data.posts, { filter, isFirstPage: page === 0 });
+      const delta = posts.length - data.posts.length;
+
+      queryClient.setQueryData<PostListResponse>(queryKey, {
+        posts: posts.slice(0, data.pagination.size),
+        pagination: {
+          ...data.pagination,
+          totalElements: Math.max(0, data.pagination.totalElements + delta),
+        },
+      });
+    });
+
+  queryClient
+    .getQueriesData<InfiniteData<PostFeedResponse>>({ queryKey: postKeys.feeds() })
+    .forEach(([queryKey, data]) => {
+      if (!data) return;
+      const { filter } = queryKey[2] as { size: number; filter?: HashtagFilter };
+
+      queryClient.setQueryData<InfiniteData<PostFeedResponse>>(queryKey, {
+        ...data,
+        pages: data.pages.map((page, index) => ({
+          ...page,
+          posts: updater(page.posts, { filter, isFirstPage: index === 0 }),
+        })),
+      });
+    });
+}
+
+/**
+ * 서버 응답 전 목록에 표시되는 임시 게시글 여부 (상세 페이지가 아직 없음)
+ */
+export function isOptimisticPost(post: PostDto): boolean {
+  return post.id < 0;
+}
+
+function notifyRollback(error: unknown, fallback: string) {
+  toast.error(error instanceof Error ? error.message : fallback, {
+    description: '변경 사항을 되돌렸습니다.',
+  });
+}
+
 /**
  * 게시글 생성 mutation
  *
+ * 첫 페이지 목록/피드에 임시 게시글(음수 ID)을 먼저 추가하고, 완료 후 서버 데이터로 재조회
+ *
  * @example
  * const { mutate, isPending, error } = useCreatePost();
- * mutate({ title: "제목", content: "<p>내용</p>", plainContent: "내용", hashtags: ["태그"] });
+ * mutate({ title: "제목", contentHtml: "<p>내용</p>", hashtags: ["태그"] });
  */
 export function useCreatePost() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (request: CreatePostRequest) => postsApi.createPost(request),
-    onSuccess: () => {
-      // 게시글 목록 캐시 무효화 (새 게시글 반영)
+    onMutate: async (request) => {
+      const snapshot = await snapshotPostCache(queryClient);
+      const user = queryClient.getQueryData<UserResponse>(['auth', 'me']);
+
+      if (user) {
+        const optimisticPost: PostDto = {
+          id: -Date.now(),
+          title: request.title,
+          contentMarkdown: '',
+          contentHtml: request.contentHtml,
+          author: { id: user.id, name: user.name, profileImageUrl: user.profileImageUrl ?? null },
+          hashtags: request.hashtags,
+          createdAt: new Date().toISOString(),
+        };
+
+        updateCachedPosts(queryClient, (posts, { filter, isFirstPage }) => {
+          if (!isFirstPage || !matchesHashtagFilter(request.hashtags, filter)) return posts;
+          return [optimisticPost, ...posts];
+        });
+      }
+
+      return { snapshot };
+    },
+    onError: (error, _, context) => {
+      restorePostCache(queryClient, context?.snapshot);
+      notifyRollback(error, '게시글 작성에 실패했습니다.');
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(postKeys.detail(data.id), data);
+    },
+    onSettled: () => {
+      // 임시 게시글 교체 및 페이지 경계 재계산
       queryClient.invalidateQueries({ queryKey: postKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postKeys.feeds() });
     },
   });
 }
@@ -62,39 +204,81 @@ export function useCreatePost() {
 export function usePost(id: number, enabled: boolean = true) {
   return useQuery({
     queryKey: postKeys.detail(id),
-    queryFn: () => postsApi.getPostById(id),
+    queryFn: ({ signal }) => postsApi.getPostById(id, { signal }),
     enabled,
   });
 }
 
+/**
+ * 관련 게시글 조회 query (게시글 벡터 기준 최근접)
+ *
+ * 서버에서 게시글별로 캐시되므로 클라이언트도 길게 유지
+ *
+ * @param id 기준 게시글 ID
+ * @param limit 최대 개수 (1~10)
+ *
+ * @example
+ * const { data } = useRelatedPosts(123);
+ */
+export function useRelatedPosts(id: number, limit: number = 5) {
+  return useQuery({
+    queryKey: postKeys.related(id, limit),
+    queryFn: ({ signal }) => postsApi.getRelatedPosts(id, limit, { signal }),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 /**
  * 게시글 목록 조회 query (페이지네이션)
  *
  * @param page 페이지 번호 (0부터 시작)
  * @param size 페이지 크기
- * @param hashtag 해시태그 필터 (선택)
+ * @param filter 해시태그 필터 (선택)
  *
  * @example
  * const { data, isLoading, error } = usePosts(0, 20);
- * const { data } = usePosts(1, 20, "Next.js");
+ * const { data } = usePosts(1, 20, { hashtags: ["Next.js", "React"], match: "all" });
  */
 export function usePosts(
   page: number = 0,
   size: number = 20,
-  hashtag?: string
+  filter?: HashtagFilter
 ) {
   return useQuery({
-    queryKey: postKeys.list(page, size, hashtag),
-    queryFn: () => postsApi.getPosts(page, size, hashtag),
+    queryKey: postKeys.list(page, size, filter),
+    queryFn: ({ signal }) => postsApi.getPosts(page, size, filter, { signal }),
+  });
+}
+
+/**
+ * 게시글 피드 무한 스크롤 query (커서 기반)
+ *
+ * @param size 페이지 크기
+ * @param filter 해시태그 필터 (선택)
+ * @param enabled 쿼리 활성화 여부 (기본값: true, 검색 모드처럼 피드를 보여주지 않을 때 false)
+ *
+ * @example
+ * const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfinitePosts(20);
+ * const posts = data?.pages.flatMap((page) => page.posts) ?? [];
+ */
+export function useInfinitePosts(size: number = 20, filter?: HashtagFilter, enabled: boolean = true) {
+  return useInfiniteQuery({
+    queryKey: postKeys.feed(size, filter),
+    queryFn: ({ pageParam, signal }) => postsApi.getPostFeed(pageParam, size, filter, { signal }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
   });
 }
 
 /**
  * 게시글 수정 mutation
  *
+ * 상세 캐시와 목록의 해당 게시글을 먼저 갱신하고, 실패 시 스냅샷으로 롤백
+ *
  * @example
  * const { mutate } = useUpdatePost();
- * mutate({ id: 123, request: { title: "수정", content: "<p>수정</p>", plainContent: "수정", hashtags: [] } });
+ * mutate({ id: 123, request: { title: "수정", contentHtml: "<p>수정</p>", hashtags: [] } });
  */
 export function useUpdatePost() {
   const queryClient = useQueryClient();
@@ -102,11 +286,37 @@ export function useUpdatePost() {
   return useMutation({
     mutationFn: ({ id, request }: { id: number; request: UpdatePostRequest }) =>
       postsApi.updatePost(id, request),
+    onMutate: async ({ id, request }) => {
+      const snapshot = await snapshotPostCache(queryClient, id);
+      const applyUpdate = (post: PostDto): PostDto => ({
+        ...post,
+        title: request.title,
+        contentHtml: request.contentHtml,
+        hashtags: request.hashtags,
+        updatedAt: new Date().toISOString(),
+      });
+
+      queryClient.setQueryData<PostDto>(postKeys.detail(id), (post) => (post ? applyUpdate(post) : post));
+      updateCachedPosts(queryClient, (posts) =>
+        posts.map((post) => (post.id === id ? applyUpdate(post) : post))
+      );
+
+      return { snapshot };
+    },
+    onError: (error, _, context) => {
+      restorePostCache(queryClient, context?.snapshot);
+      notifyRollback(error, '게시글 수정에 실패했습니다.');
+    },
     onSuccess: (data) => {
-      // 해당 게시글 상세 캐시 업데이트
+      // 서버가 변환한 Markdown 등 최종 데이터로 교체
       queryClient.setQueryData(postKeys.detail(data.id), data);
-      // 게시글 목록 캐시 무효화 (수정된 내용 반영)
+      // 재인덱싱으로 서버 캐시가 무효화되므로 관련 게시글도 재조회
+      queryClient.invalidateQueries({ queryKey: postKeys.relatedAll(data.id) });
+    },
+    onSettled: () => {
+      // 해시태그 필터 목록 등 포함 여부가 바뀔 수 있으므로 재조회
       queryClient.invalidateQueries({ queryKey: postKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postKeys.feeds() });
     },
   });
 }
@@ -114,6 +324,9 @@ export function useUpdatePost() {
 /**
  * 게시글 삭제 mutation (소프트 삭제)
  *
+ * 목록/피드에서 먼저 제거하고, 실패 시 스냅샷으로 롤백
+ * 상세 캐시는 상세 페이지가 빈 상태로 깜빡이지 않도록 성공 후 제거
+ *
  * @example
  * const { mutate } = useDeletePost();
  * mutate(123);
@@ -123,11 +336,24 @@ export function useDeletePost() {
 
   return useMutation({
     mutationFn: (id: number) => postsApi.deletePost(id),
+    onMutate: async (id) => {
+      const snapshot = await snapshotPostCache(queryClient, id);
+
+      updateCachedPosts(queryClient, (posts) => posts.filter((post) => post.id !== id));
+
+      return { snapshot };
+    },
+    onError: (error, _, context) => {
+      restorePostCache(queryClient, context?.snapshot);
+      notifyRollback(error, '게시글 삭제에 실패했습니다.');
+    },
     onSuccess: (_, id) => {
-      // 삭제된 게시글 캐시 제거
       queryClient.removeQueries({ queryKey: postKeys.detail(id) });
-      // 게시글 목록 캐시 무효화 (삭제 반영)
+    },
+    onSettled: () => {
+      // 다음 페이지 게시글이 앞으로 당겨지도록 재조회
       queryClient.invalidateQueries({ queryKey: postKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postKeys.feeds() });
     },
   });
 }
@@ -147,8 +373,8 @@ export function useSearchPosts(
   enabled: boolean = false
 ) {
   return useQuery({
-    queryKey: postKeys.search(request.query),
-    queryFn: () => postsApi.searchPosts(request),
+    queryKey: postKeys.search(request.query, request.threshold, request.mode),
+    queryFn: ({ signal }) => postsApi.searchPosts(request, { signal }),
     enabled,
   });
 }
@@ -171,8 +397,8 @@ export function usePostSearch(
   enabled: boolean = false
 ) {
   return useQuery({
-    queryKey: postKeys.fieldSearch(request.query, request.fields),
-    queryFn: () => postsApi.searchPostsByFields(request),
+    queryKey: postKeys.fieldSearch(request.query, request.fields, request.threshold),
+    queryFn: ({ signal }) => postsApi.searchPostsByFields(request, { signal }),
     enabled,
   });
 }
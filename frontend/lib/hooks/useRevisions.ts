@@ -0,0 +1,74 @@
+/**
+ * Post Revisions 커스텀 훅 (TanStack Query)
+ *
+ * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { revisionsApi } from '@/lib/api/revisions';
+import { postKeys } from '@/lib/hooks/usePosts';
+
+/**
+ * Query keys for cache management
+ */
+export const revisionKeys = {
+  all: ['revisions'] as const,
+  lists: () => [...revisionKeys.all, 'list'] as const,
+  list: (postId: number) => [...revisionKeys.lists(), postId] as const,
+  details: () => [...revisionKeys.all, 'detail'] as const,
+  detail: (postId: number, revisionId: number) => [...revisionKeys.details(), postId, revisionId] as const,
+};
+
+/**
+ * 게시글 수정 이력 query (최신순)
+ *
+ * @example
+ * const { data: revisions } = useRevisions(123);
+ */
+export function useRevisions(postId: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: revisionKeys.list(postId),
+    queryFn: ({ signal }) => revisionsApi.getRevisions(postId, { signal }),
+    enabled,
+  });
+}
+
+/**
+ * 리비전 본문 query (리비전은 불변이므로 캐시를 만료시키지 않음)
+ *
+ * @param revisionId 리비전 ID (null이면 조회하지 않음)
+ */
+export function useRevision(postId: number, revisionId: number | null) {
+  return useQuery({
+    queryKey: revisionKeys.detail(postId, revisionId ?? 0),
+    queryFn: ({ signal }) => revisionsApi.getRevision(postId, revisionId!, { signal }),
+    enabled: revisionId !== null,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * 리비전 복원 mutation
+ *
+ * 복원은 일반 수정 경로를 거치므로 게시글 상세/목록과 이력 목록을 함께 갱신
+ *
+ * @example
+ * const { mutate } = useRestoreRevision(123);
+ * mutate(45);
+ */
+export function useRestoreRevision(postId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (revisionId: number) => revisionsApi.restoreRevision(postId, revisionId),
+    onSuccess: (data) => {
+      queryClient.setQueryData(postKeys.detail(postId), data);
+      queryClient.invalidateQueries({ queryKey: postKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: postKeys.feeds() });
+      queryClient.invalidateQueries({ queryKey: revisionKeys.list(postId) });
+      queryClient.invalidateQueries({ queryKey: postKeys.relatedAll(postId) });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * 목록 스크롤 위치 복원 훅
+ *
+ * 상세 페이지로 이동하기 직전 스크롤 위치를 sessionStorage에 저장하고,
+ * 뒤로 가기로 돌아와 목록 데이터가 준비되면 한 번만 복원
+ * (무한 스크롤 페이지는 TanStack Query 캐시에 남아 있어 같은 높이로 다시 렌더링됨)
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+const STORAGE_PREFIX = 'scroll-position:';
+
+/**
+ * @param key 목록 식별자 (필터가 다르면 다른 키 사용)
+ * @param ready 목록 렌더링 완료 여부 (false인 동안은 복원하지 않음)
+ * @returns 이동 직전에 호출할 위치 저장 함수
+ *
+ * @example
+ * const saveScrollPosition = useScrollRestoration('posts-feed', posts.length > 0);
+ * <Link href={`/posts/${id}`} onClick={saveScrollPosition}>...</Link>
+ */
+export function useScrollRestoration(key: string, ready: boolean) {
+  const storageKey = `${STORAGE_PREFIX}${key}`;
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    if (!ready || restoredRef.current) return;
+    restoredRef.current = true;
+
+    const saved = sessionStorage.getItem(storageKey);
+    if (saved === null) return;
+
+    sessionStorage.removeItem(storageKey);
+    // 레이아웃 계산이 끝난 다음 프레임에 이동
+    requestAnimationFrame(() => window.scrollTo(0, Number(saved)));
+  }, [ready, storageKey]);
+
+  return useCallback(() => {
+    sessionStorage.setItem(storageKey, String(window.scrollY));
+  }, [storageKey]);
+}
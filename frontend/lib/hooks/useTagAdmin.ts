@@ -0,0 +1,97 @@
+/**
+ * TagAdmin 커스텀 훅 (TanStack Query)
+ *
+ * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
+ * 운영자 화면에서 태그 병합(이름 변경)과 동의어를 관리하기 위한 훅
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { tagAdminApi } from '@/lib/api/tagAdmin';
+import { postKeys } from '@/lib/hooks/usePosts';
+import { tagKeys } from '@/lib/hooks/useTags';
+import type { TagMergeRequest, TagSynonymRequest } from '@/types/api/tag';
+
+/**
+ * Query keys for cache management
+ */
+export const tagAdminKeys = {
+  all: ['tag-admin'] as const,
+  synonyms: () => [...tagAdminKeys.all, 'synonyms'] as const,
+};
+
+/**
+ * 동의어 목록 query
+ *
+ * @example
+ * const { data, isLoading } = useTagSynonyms();
+ */
+export function useTagSynonyms() {
+  return useQuery({
+    queryKey: tagAdminKeys.synonyms(),
+    queryFn: ({ signal }) => tagAdminApi.getSynonyms({ signal }),
+  });
+}
+
+/**
+ * 태그 병합(이름 변경) mutation
+ *
+ * 게시글 태그와 동의어가 함께 바뀌므로 태그/게시글/동의어 캐시 모두 무효화
+ *
+ * @example
+ * const { mutate } = useMergeTags();
+ * mutate({ sources: ['react', '리액트'], target: 'React', addSynonyms: true });
+ */
+export function useMergeTags() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: TagMergeRequest) => tagAdminApi.mergeTags(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      queryClient.invalidateQueries({ queryKey: postKeys.all });
+      queryClient.invalidateQueries({ queryKey: tagAdminKeys.all });
+    },
+  });
+}
+
+/**
+ * 동의어 등록 mutation
+ *
+ * 해시태그 필터/키워드 검색 결과가 달라지므로 게시글 캐시도 무효화
+ *
+ * @example
+ * const { mutate } = useCreateTagSynonym();
+ * mutate({ synonym: '리액트', canonical: 'React' });
+ */
+export function useCreateTagSynonym() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: TagSynonymRequest) => tagAdminApi.createSynonym(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagAdminKeys.synonyms() });
+      queryClient.invalidateQueries({ queryKey: postKeys.all });
+    },
+  });
+}
+
+/**
+ * 동의어 삭제 mutation
+ *
+ * @example
+ * const { mutate } = useDeleteTagSynonym();
+ * mutate(1);
+ */
+export function useDeleteTagSynonym() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => tagAdminApi.deleteSynonym(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagAdminKeys.synonyms() });
+      queryClient.invalidateQueries({ queryKey: postKeys.all });
+    },
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Tags 커스텀 훅 (TanStack Query)
+ *
+ * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
+ */
+
+'use client';
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { tagsApi } from '@/lib/api/tags';
+import type { TagRecommendationRequest } from '@/types/api/tag';
+
+/**
+ * Query keys for cache management
+ */
+export const tagKeys = {
+  all: ['tags'] as const,
+  directory: () => [...tagKeys.all, 'directory'] as const,
+  trending: (limit: number) => [...tagKeys.all, 'trending', limit] as const,
+  detail: (tag: string) => [...tagKeys.all, 'detail', tag] as const,
+  suggestions: () => [...tagKeys.all, 'suggest'] as const,
+  suggestion: (query: string) => [...tagKeys.suggestions(), query] as const,
+  recommendations: () => [...tagKeys.all, 'recommend'] as const,
+  recommendation: (request: TagRecommendationRequest) => [...tagKeys.recommendations(), request] as const,
+};
+
+/**
+ * 해시태그 자동완성 query
+ *
+ * 입력이 바뀌는 동안 이전 목록을 유지해 깜빡임 방지 (디바운스는 호출 측에서)
+ *
+ * @example
+ * const { data } = useTagSuggestions(debouncedQuery);
+ */
+export function useTagSuggestions(query: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: tagKeys.suggestion(query),
+    queryFn: ({ signal }) => tagsApi.suggestTags(query, 10, { signal }),
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+    enabled,
+  });
+}
+
+/**
+ * 작성 중인 글의 해시태그 추천 query
+ *
+ * 본문이 바뀌는 동안 이전 추천을 유지 (디바운스는 호출 측에서)
+ *
+ * @example
+ * const { data } = useTagRecommendations({ title, contentHtml: debouncedHtml });
+ */
+export function useTagRecommendations(request: TagRecommendationRequest, enabled: boolean = true) {
+  return useQuery({
+    queryKey: tagKeys.recommendation(request),
+    queryFn: ({ signal }) => tagsApi.recommendTags(request, { signal }),
+    // 비활성화(본문이 짧아짐)되면 이전 추천을 이어서 보여주지 않음
+    placeholderData: enabled ? keepPreviousData : undefined,
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+}
+
+/**
+ * 해시태그 목록 query (사용 게시글 수순, 최근 90일 활동)
+ *
+ * @example
+ * const { data, isLoading } = useTagDirectory();
+ */
+export function useTagDirectory() {
+  return useQuery({
+    queryKey: tagKeys.directory(),
+    queryFn: ({ signal }) => tagsApi.getTags({ signal }),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * 이번 주 인기 급상승 해시태그 query
+ *
+ * @example
+ * const { data } = useTrendingTags(5);
+ */
+export function useTrendingTags(limit: number = 10) {
+  return useQuery({
+    queryKey: tagKeys.trending(limit),
+    queryFn: ({ signal }) => tagsApi.getTrendingTags(limit, { signal }),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * 해시태그 상세 query (태그 페이지)
+ *
+ * @example
+ * const { data, error } = useTagDetail('Next.js');
+ */
+export function useTagDetail(tag: string) {
+  return useQuery({
+    queryKey: tagKeys.detail(tag),
+    queryFn: ({ signal }) => tagsApi.getTagDetail(tag, 10, { signal }),
+    staleTime: 5 * 60 * 1000,
+  });
+}
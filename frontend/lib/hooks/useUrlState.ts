@@ -0,0 +1,35 @@
+/**
+ * URL 쿼리스트링 상태 갱신 훅
+ *
+ * 상태를 React state 대신 URL에 두고 Next router로 이동 (읽기는 페이지 searchParams + 스키마 검증)
+ * 변경마다 히스토리에 남겨 뒤로 가기로 이전 검색/필터로 돌아갈 수 있음
+ */
+
+'use client';
+
+import { useCallback } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { buildQueryString } from '@/lib/url/searchParams';
+
+type UrlStateValues = Record<string, string | number | boolean | string[] | undefined>;
+
+/**
+ * @param defaults 생략할 기본값 (기본값과 같으면 URL에 쓰지 않음)
+ * @returns 다음 상태로 URL을 갱신하는 함수
+ *
+ * @example
+ * const navigate = useUrlState(POSTS_LIST_DEFAULTS);
+ * navigate({ ...params, hashtags: ['React'] });
+ */
+export function useUrlState<T extends UrlStateValues>(defaults: Partial<T> = {}) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return useCallback(
+    (next: T) => {
+      const query = buildQueryString(next, defaults);
+      router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [router, pathname, defaults]
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * VectorConfigs 커스텀 훅 (TanStack Query)
+ *
+ * Constitution Principle VII: TanStack Query (서버) + React 19 (클라이언트) 상태 분리
+ * 벡터 가중치/임계값 설정을 관리자 화면에서 조회/수정하기 위한 훅
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { vectorConfigsApi } from '@/lib/api/vectorConfigs';
+import type {
+  VectorConfigCreateRequest,
+  VectorConfigResponse,
+  VectorConfigUpdateRequest,
+} from '@/types/api/vectorConfig';
+
+/**
+ * Query keys for cache management
+ */
+export const vectorConfigKeys = {
+  all: ['vector-configs'] as const,
+  lists: () => [...vectorConfigKeys.all, 'list'] as const,
+  entity: (entityType: string) => [...vectorConfigKeys.all, 'entity', entityType] as const,
+  details: () => [...vectorConfigKeys.all, 'detail'] as const,
+  detail: (id: number) => [...vectorConfigKeys.details(), id] as const,
+};
+
+/**
+ * 전체 벡터 설정 조회 query
+ *
+ * @example
+ * const { data: configs, isLoading } = useVectorConfigs();
+ */
+export function useVectorConfigs() {
+  return useQuery({
+    queryKey: vectorConfigKeys.lists(),
+    queryFn: ({ signal }) => vectorConfigsApi.getAll({ signal }),
+  });
+}
+
+/**
+ * 엔티티 타입별 벡터 설정 조회 query
+ *
+ * @param entityType 엔티티 타입 (예: "Post")
+ * @param enabled 쿼리 활성화 여부 (기본값: true)
+ *
+ * @example
+ * const { data } = useVectorConfigsByEntity("Post");
+ */
+export function useVectorConfigsByEntity(entityType: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: vectorConfigKeys.entity(entityType),
+    queryFn: ({ signal }) => vectorConfigsApi.getByEntityType(entityType, { signal }),
+    enabled: enabled && entityType.length > 0,
+  });
+}
+
+/**
+ * 벡터 설정 생성 mutation
+ *
+ * @example
+ * const { mutate } = useCreateVectorConfig();
+ * mutate({ entityType: "Post", fieldName: "title", weight: 2.0 });
+ */
+export function useCreateVectorConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: VectorConfigCreateRequest) => vectorConfigsApi.create(request),
+    onSuccess: () => {
+      // 목록 + 엔티티별 캐시 모두 무효화
+      queryClient.invalidateQueries({ queryKey: vectorConfigKeys.all });
+    },
+  });
+}
+
+/**
+ * 벡터 설정 수정 mutation (weight, threshold, enabled)
+ *
+ * @example
+ * const { mutate } = useUpdateVectorConfig();
+ * mutate({ id: 1, request: { weight: 1.5 } });
+ */
+export function useUpdateVectorConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, request }: { id: number; request: VectorConfigUpdateRequest }) =>
+      vectorConfigsApi.update(id, request),
+    onSuccess: (data) => {
+      // 목록 캐시의 해당 항목만 교체 (재조회 없이 즉시 반영)
+      queryClient.setQueryData<VectorConfigResponse[]>(vectorConfigKeys.lists(), (old) =>
+        old?.map((config) => (config.id === data.id ? data : config))
+      );
+      queryClient.setQueryData(vectorConfigKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: vectorConfigKeys.entity(data.entityType) });
+    },
+  });
+}
+
+/**
+ * 벡터 설정 삭제 mutation
+ *
+ * @example
+ * const { mutate } = useDeleteVectorConfig();
+ * mutate(1);
+ */
+export function useDeleteVectorConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => vectorConfigsApi.delete(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: vectorConfigKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: vectorConfigKeys.all });
+    },
+  });
+}
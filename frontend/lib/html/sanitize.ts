@@ -0,0 +1,80 @@
+import sanitizeHtml from 'sanitize-html';
+
+/**
+ * 게시글 HTML 허용 목록 (Allow-list)
+ *
+ * RichTextEditor(Tiptap)가 생성할 수 있는 노드/마크만 허용
+ * - StarterKit: 문단, 제목(h1~h3), 목록, 인용, 코드, 구분선, 굵게/기울임/취소선
+ * - Link, Image, Underline, Highlight(mark), Color/TextStyle(span), Sub/Superscript
+ * - Table(colgroup/col 포함), CodeBlockLowlight(pre > code.language-*), Youtube(iframe)
+ *
+ * Constitution Principle IX: Backend security/HtmlSanitizer.kt(jsoup Safelist)와 수동 동기화 필요
+ */
+export const HTML_ALLOWLIST = {
+  tags: [
+    'p', 'br', 'h1', 'h2', 'h3', 'blockquote', 'hr',
+    'ul', 'ol', 'li',
+    'strong', 'b', 'em', 'i', 's', 'u', 'code', 'pre', 'mark', 'span', 'sub', 'sup',
+    'a', 'img',
+    'table', 'colgroup', 'col', 'thead', 'tbody', 'tr', 'th', 'td',
+    'div', 'iframe',
+  ],
+  attributes: {
+    '*': ['class', 'style'],
+    a: ['href', 'target', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    ol: ['start', 'type'],
+    mark: ['data-color'],
+    th: ['colspan', 'rowspan', 'colwidth'],
+    td: ['colspan', 'rowspan', 'colwidth'],
+    div: ['data-youtube-video'],
+    iframe: ['src', 'width', 'height', 'allowfullscreen', 'frameborder'],
+  } as Record<string, string[]>,
+  schemes: ['http', 'https', 'mailto'],
+  /** iframe은 YouTube 임베드만 허용 */
+  iframeHostnames: ['www.youtube.com', 'youtube.com', 'www.youtube-nocookie.com', 'youtube-nocookie.com'],
+  /** style 속성은 TextAlign, Color, Highlight, 표 너비에 필요한 속성만 허용 */
+  styles: {
+    'text-align': /^(left|right|center|justify)$/,
+    color: /^(#[0-9a-fA-F]{3,8}|rgba?\([\d\s.,%]+\))$/,
+    'background-color': /^(#[0-9a-fA-F]{3,8}|rgba?\([\d\s.,%]+\))$/,
+    width: /^\d+(\.\d+)?(px|%)$/,
+    'min-width': /^\d+(\.\d+)?(px|%)$/,
+  } as Record<string, RegExp>,
+};
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: HTML_ALLOWLIST.tags,
+  allowedAttributes: HTML_ALLOWLIST.attributes,
+  allowedSchemes: HTML_ALLOWLIST.schemes,
+  allowedSchemesByTag: { img: ['http', 'https'], iframe: ['https'] },
+  allowProtocolRelative: false,
+  allowedIframeHostnames: HTML_ALLOWLIST.iframeHostnames,
+  allowedStyles: { '*': Object.fromEntries(
+    Object.entries(HTML_ALLOWLIST.styles).map(([property, pattern]) => [property, [pattern]])
+  ) },
+  // 허용되지 않은 태그는 내용만 남기고, script/style 등은 내용까지 제거 (sanitize-html 기본값)
+  disallowedTagsMode: 'discard',
+  transformTags: {
+    // 새 창 링크는 opener 접근 차단
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: attribs.target === '_blank'
+        ? { ...attribs, rel: 'noopener noreferrer nofollow' }
+        : attribs,
+    }),
+  },
+};
+
+/**
+ * 게시글 HTML 정제 (렌더링 직전 + 저장 요청 전)
+ *
+ * Backend가 저장 시 동일한 허용 목록으로 다시 정제하므로 이 함수는 방어 계층 중 하나
+ * SSR/CSR 모두에서 동작 (DOM 비의존 파서 사용)
+ *
+ * @param html - RichTextEditor 출력 또는 저장된 contentHtml
+ * @returns 허용 목록 밖의 태그/속성/URL이 제거된 HTML
+ */
+export function sanitizePostHtml(html: string): string {
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
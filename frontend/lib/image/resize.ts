@@ -0,0 +1,61 @@
+/**
+ * 업로드 전 클라이언트 이미지 리사이즈
+ *
+ * 스크린샷/카메라 원본은 수 MB이므로 긴 변 기준으로 축소 후 WebP로 재인코딩
+ * - GIF: 애니메이션 보존을 위해 원본 유지
+ * - 이미 충분히 작은 이미지: 원본 유지 (재인코딩 화질 손실 방지)
+ */
+export const IMAGE_RESIZE_CONFIG = {
+  maxDimension: 1920,
+  quality: 0.85,
+  outputType: 'image/webp',
+  /** 이 크기 이하이면서 maxDimension 이내면 원본 업로드 */
+  passthroughBytes: 300 * 1024,
+} as const;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export interface ResizedImage {
+  blob: Blob;
+  filename: string;
+}
+
+export async function resizeImage(file: File): Promise<ResizedImage> {
+  if (file.type === 'image/gif') {
+    return { blob: file, filename: file.name };
+  }
+
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const { maxDimension, quality, outputType, passthroughBytes } = IMAGE_RESIZE_CONFIG;
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+    if (scale === 1 && file.size <= passthroughBytes) {
+      return { blob: file, filename: file.name };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return { blob: file, filename: file.name };
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, outputType, quality));
+
+    // WebP 인코딩 미지원 브라우저는 PNG로 폴백되므로 원본보다 크면 원본 사용
+    if (!blob || blob.size >= file.size) {
+      return { blob: file, filename: file.name };
+    }
+
+    const extension = blob.type.split('/')[1] ?? 'webp';
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    return { blob, filename: `${baseName}.${extension}` };
+  } finally {
+    bitmap.close();
+  }
+}
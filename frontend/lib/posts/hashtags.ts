@@ -0,0 +1,119 @@
+/**
+ * 해시태그 입력 처리
+ *
+ * Backend CreatePostRequest/UpdatePostRequest 제약과 동기화 (최대 10개, 태그당 50자)
+ */
+import type { HashtagFilter } from '@/types/api/post';
+
+export const MAX_HASHTAGS = 10;
+export const MAX_HASHTAG_LENGTH = 50;
+
+// Backend TagService.normalizeKey와 같은 범위 (공백 + ASCII 문장부호)
+const IGNORED_CHARS = /[\s!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/g;
+
+/**
+ * 입력값을 저장할 태그 표기로 정리
+ *
+ * - 앞의 '#' 제거, 내부 공백 제거, 50자 제한
+ *
+ * @example normalizeHashtag(' #Next js ') // 'Nextjs'
+ */
+export function normalizeHashtag(input: string): string {
+  return input
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, '')
+    .slice(0, MAX_HASHTAG_LENGTH);
+}
+
+/**
+ * 중복 판단용 키 (대소문자·문장부호 무시)
+ *
+ * @example hashtagKey('Next.js') === hashtagKey('nextjs') // true
+ */
+export function hashtagKey(tag: string): string {
+  return tag.toLowerCase().replace(IGNORED_CHARS, '');
+}
+
+export interface AddHashtagResult {
+  tags: string[];
+  error: string | null;  // 추가하지 못한 이유 (사용자 안내용)
+}
+
+/**
+ * 태그 목록에 입력값 추가
+ *
+ * 기존 태그(knownTags)와 키가 같으면 기존 표기를 사용 ("nextjs" 입력 → "Next.js")
+ *
+ * @param tags 현재 태그 목록
+ * @param input 사용자 입력
+ * @param knownTags 이미 사용 중인 태그 표기 (자동완성 결과)
+ */
+export function addHashtag(tags: string[], input: string, knownTags: string[] = []): AddHashtagResult {
+  const normalized = normalizeHashtag(input);
+  if (normalized.length === 0) {
+    return { tags, error: null };
+  }
+
+  if (tags.length >= MAX_HASHTAGS) {
+    return { tags, error: `해시태그는 최대 ${MAX_HASHTAGS}개까지 추가할 수 있습니다` };
+  }
+
+  const key = hashtagKey(normalized);
+  if (key.length === 0) {
+    return { tags, error: '해시태그에는 문자나 숫자가 포함되어야 합니다' };
+  }
+
+  const duplicate = tags.find((tag) => hashtagKey(tag) === key);
+  if (duplicate) {
+    return { tags, error: `이미 추가된 해시태그입니다: #${duplicate}` };
+  }
+
+  const canonical = knownTags.find((tag) => hashtagKey(tag) === key) ?? normalized;
+  return { tags: [...tags, canonical], error: null };
+}
+
+/**
+ * 공백 또는 쉼표로 구분된 입력(붙여넣기 등)을 태그 목록에 추가
+ *
+ * 중복·초과분은 건너뛰고 마지막 안내 메시지를 반환
+ *
+ * @example parseHashtags('Next.js, React TypeScript') // ['Next.js', 'React', 'TypeScript']
+ */
+export function parseHashtags(input: string, tags: string[] = [], knownTags: string[] = []): AddHashtagResult {
+  return input
+    .split(/[\s,]+/)
+    .reduce<AddHashtagResult>(
+      (result, part) => {
+        const next = addHashtag(result.tags, part, knownTags);
+        return { tags: next.tags, error: next.error ?? result.error };
+      },
+      { tags, error: null }
+    );
+}
+
+/**
+ * 게시글 태그가 목록 필터 조건에 맞는지 (Backend PostMapper hashtagsCondition과 동일, 대소문자 구분)
+ *
+ * 필터가 없으면 항상 true
+ */
+export function matchesHashtagFilter(tags: string[], filter?: HashtagFilter): boolean {
+  if (!filter || filter.hashtags.length === 0) return true;
+
+  return filter.match === 'all'
+    ? filter.hashtags.every((tag) => tags.includes(tag))
+    : filter.hashtags.some((tag) => tags.includes(tag));
+}
+
+/**
+ * 해시태그 필터 설명 (목록 헤더용)
+ *
+ * @example describeHashtagFilter({ hashtags: ['React'], match: 'all' }) // '#React 태그 게시글'
+ * @example describeHashtagFilter({ hashtags: ['React', 'Vue'], match: 'any' }) // '#React, #Vue 중 하나 이상 포함한 게시글'
+ */
+export function describeHashtagFilter(filter: HashtagFilter): string {
+  const tags = filter.hashtags.map((tag) => `#${tag}`).join(', ');
+
+  if (filter.hashtags.length === 1) return `${tags} 태그 게시글`;
+  return filter.match === 'all' ? `${tags} 태그를 모두 포함한 게시글` : `${tags} 중 하나 이상 포함한 게시글`;
+}
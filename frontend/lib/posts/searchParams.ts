@@ -0,0 +1,139 @@
+/**
+ * 게시글 목록/검색 페이지 URL 상태 스키마
+ *
+ * 새로고침, 링크 공유, 뒤로 가기 시에도 필터와 검색 결과가 유지되도록
+ * 화면 상태를 쿼리스트링에 저장 (lib/url/searchParams.ts로 읽기/쓰기)
+ */
+import { z } from 'zod';
+import { buildQueryString } from '@/lib/url/searchParams';
+import { MAX_HASHTAGS } from '@/lib/posts/hashtags';
+import type { HashtagMatch, PostSearchField, SearchMode } from '@/types/api/post';
+
+const SEARCH_FIELDS = ['title', 'content', 'hashtags', 'author'] as const satisfies readonly PostSearchField[];
+
+const optionalText = (max: number) => z.string().trim().min(1).max(max).optional().catch(undefined);
+
+// 쉼표 구분 태그 목록 (공백 제거, 중복 제거, 최대 MAX_HASHTAGS개)
+const hashtagList = z
+  .string()
+  .transform((value) => [...new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean))].slice(0, MAX_HASHTAGS))
+  .transform((tags) => (tags.length > 0 ? tags : undefined))
+  .optional()
+  .catch(undefined);
+
+/**
+ * /posts 검색 방식 (normal: 해시태그 필터, 나머지: /api/posts/search mode)
+ */
+export type PostsListMode = 'normal' | SearchMode;
+
+export const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  keyword: '키워드',
+  semantic: '의미',
+  hybrid: '하이브리드',
+};
+
+export const HASHTAG_MATCH_LABELS: Record<HashtagMatch, string> = {
+  all: '모두 포함 (AND)',
+  any: '하나 이상 (OR)',
+};
+
+/**
+ * /posts 쿼리스트링
+ *
+ * 이전 URL의 mode=vector는 semantic으로, hashtag=(단일)는 hashtags에 합쳐 해석 (공유된 링크 호환)
+ *
+ * @example /posts?hashtags=React,Next.js&match=any
+ * @example /posts?mode=hybrid&q=ERR_CONN_RESET&threshold=0.7
+ */
+export const postsListParamsSchema = z
+  .object({
+    hashtag: optionalText(50),
+    hashtags: hashtagList,
+    match: z.enum(['all', 'any']).catch('all'),
+    mode: z
+      .preprocess((value) => (value === 'vector' ? 'semantic' : value), z.enum(['normal', 'keyword', 'semantic', 'hybrid']))
+      .catch('normal'),
+    q: optionalText(200),
+    threshold: z.coerce.number().min(0).max(1).catch(0.6),
+  })
+  .transform(({ hashtag, hashtags, ...rest }) => {
+    const merged = [...new Set([...(hashtag ? [hashtag] : []), ...(hashtags ?? [])])].slice(0, MAX_HASHTAGS);
+    return { ...rest, hashtags: merged.length > 0 ? merged : undefined };
+  });
+
+export type PostsListParams = z.output<typeof postsListParamsSchema>;
+
+export const POSTS_LIST_DEFAULTS: Pick<PostsListParams, 'mode' | 'threshold' | 'match'> = {
+  mode: 'normal',
+  threshold: 0.6,
+  match: 'all',
+};
+
+/**
+ * 해시태그 필터가 적용된 게시글 목록 링크
+ *
+ * @example postsHashtagHref(['React']) // '/posts?hashtags=React'
+ * @example postsHashtagHref(['React', 'Vue'], 'any') // '/posts?hashtags=React%2CVue&match=any'
+ */
+export function postsHashtagHref(hashtags: string[], match: HashtagMatch = 'all'): string {
+  const query = buildQueryString({ hashtags, match }, { match: POSTS_LIST_DEFAULTS.match });
+  return query ? `/posts?${query}` : '/posts';
+}
+
+/**
+ * 해시태그 페이지 링크 (태그에 '/' 등이 있어도 한 경로 세그먼트가 되도록 인코딩)
+ *
+ * @example tagPageHref('Next.js') // '/tags/Next.js'
+ */
+export function tagPageHref(tag: string): string {
+  return `/tags/${encodeURIComponent(tag)}`;
+}
+
+/**
+ * /posts/search 쿼리스트링
+ *
+ * fields는 쉼표 구분 (알 수 없는 필드는 제외, 비어 있으면 전체 필드 검색)
+ *
+ * @example /posts/search?q=Kotlin&fields=title,content
+ */
+export const postSearchParamsSchema = z.object({
+  q: optionalText(200),
+  fields: z
+    .string()
+    .transform((value) =>
+      value.split(',').filter((field): field is PostSearchField =>
+        (SEARCH_FIELDS as readonly string[]).includes(field)
+      )
+    )
+    .transform((fields) => (fields.length > 0 ? [...new Set(fields)] : undefined))
+    .optional()
+    .catch(undefined),
+});
+
+export type PostSearchParams = z.output<typeof postSearchParamsSchema>;
+
+// "본문에서 보기" 링크에 담는 구절 길이 (위치를 특정하기에 충분한 앞부분만)
+const PASSAGE_LENGTH = 80;
+
+/**
+ * /posts/[id] 쿼리스트링
+ *
+ * passage: 검색 결과 스니펫 구절 (본문에서 찾아 강조 후 스크롤)
+ *
+ * @example /posts/42?passage=프록시 뒤에서 ERR_CONN_RESET
+ */
+export const postDetailParamsSchema = z.object({
+  passage: optionalText(PASSAGE_LENGTH),
+});
+
+export type PostDetailParams = z.output<typeof postDetailParamsSchema>;
+
+/**
+ * 게시글 본문의 특정 구절로 이동하는 링크
+ */
+export function postPassageHref(postId: number, passage: string): string {
+  const params = new URLSearchParams({
+    passage: passage.replace(/\s+/g, ' ').trim().slice(0, PASSAGE_LENGTH),
+  });
+  return `/posts/${postId}?${params}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * 퍼지 매칭 (부분 수열 매칭)
+ *
+ * 검색어의 모든 문자가 대상 문자열에 순서대로 포함되면 매칭으로 간주
+ * 예: "hd1" → "heading1", "번목" → "번호 목록"
+ *
+ * 점수가 높을수록 관련도가 높음:
+ * - 연속 매칭 보너스 (검색어가 그대로 포함될수록 유리)
+ * - 단어 시작 위치 매칭 보너스
+ * - 대상 문자열이 짧을수록 유리
+ *
+ * @returns 매칭 점수, 매칭되지 않으면 null
+ */
+export function fuzzyScore(query: string, target: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '')
+  const t = target.toLowerCase()
+
+  if (q.length === 0) return 0
+
+  let score = 0
+  let queryIndex = 0
+  let previousMatch = -2
+
+  for (let i = 0; i < t.length && queryIndex < q.length; i++) {
+    if (t[i] !== q[queryIndex]) continue
+
+    score += 1
+    if (i === previousMatch + 1) score += 2
+    if (i === 0 || /[\s\-_]/.test(t[i - 1])) score += 3
+
+    previousMatch = i
+    queryIndex++
+  }
+
+  if (queryIndex < q.length) return null
+
+  return score - t.length * 0.01
+}
+
+/**
+ * 여러 후보 문자열 중 가장 높은 퍼지 점수로 항목을 필터링/정렬
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getCandidates: (item: T) => string[]): T[] {
+  if (query.trim().length === 0) return items
+
+  return items
+    .map((item, index) => {
+      const scores = getCandidates(item)
+        .map((candidate) => fuzzyScore(query, candidate))
+        .filter((score): score is number => score !== null)
+
+      return { item, index, score: scores.length > 0 ? Math.max(...scores) : null }
+    })
+    .filter((entry): entry is { item: T; index: number; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.item)
+}
@@ -0,0 +1,125 @@
+/**
+ * 검색어 하이라이트 / 본문 구절 찾기
+ *
+ * - 검색 결과 스니펫에서 검색어 위치 표시
+ * - 게시글 본문(렌더링된 DOM)에서 스니펫 구절 위치 찾기 ("본문에서 보기")
+ */
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// websearch_to_tsquery 연산자 (or, -제외어)는 하이라이트 대상에서 제외
+const QUERY_OPERATORS = new Set(['or', 'and'])
+
+/**
+ * 검색어를 하이라이트 단어 목록으로 분리
+ *
+ * 예: '"connection reset" -proxy ERR_CONN_RESET' → ['connection reset', 'err_conn_reset']
+ */
+export function extractHighlightTerms(query: string): string[] {
+  const terms: string[] = []
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g
+
+  for (const match of query.matchAll(pattern)) {
+    const excluded = match[1] === '-' || match[3] === '-'
+    const term = (match[2] ?? match[4] ?? '').trim().toLowerCase()
+
+    if (excluded || term.length === 0 || QUERY_OPERATORS.has(term)) continue
+    if (!terms.includes(term)) terms.push(term)
+  }
+
+  // 긴 단어 우선 (겹치는 경우 긴 쪽으로 표시)
+  return terms.sort((a, b) => b.length - a.length)
+}
+
+/**
+ * 텍스트를 하이라이트 구간/일반 구간으로 분리 (대소문자 무시)
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0) return [{ text, match: false }]
+
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi')
+
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
+
+/**
+ * 스니펫 표시 구간 (첫 하이라이트 단어가 보이도록 maxLength 이내로 자름)
+ *
+ * @returns 잘린 텍스트와 앞/뒤 생략 여부
+ */
+export function snippetWindow(
+  text: string,
+  terms: string[],
+  maxLength = 200
+): { text: string; truncatedStart: boolean; truncatedEnd: boolean } {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+
+  if (normalized.length <= maxLength) {
+    return { text: normalized, truncatedStart: false, truncatedEnd: false }
+  }
+
+  const lower = normalized.toLowerCase()
+  const firstMatch = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0]
+
+  // 매칭 위치 앞쪽 1/4 지점부터 표시
+  const start = firstMatch === undefined
+    ? 0
+    : Math.max(0, Math.min(firstMatch - Math.floor(maxLength / 4), normalized.length - maxLength))
+  const end = start + maxLength
+
+  return {
+    text: normalized.slice(start, end),
+    truncatedStart: start > 0,
+    truncatedEnd: end < normalized.length,
+  }
+}
+
+/**
+ * 렌더링된 본문에서 구절 위치 찾기
+ *
+ * 스니펫은 순수 텍스트(contentText) 기준이라 Markdown 렌더링 결과와 공백/줄바꿈이 다를 수 있음
+ * → 공백을 모두 제거한 문자열끼리 비교하고 원래 텍스트 노드 위치로 되돌림
+ *
+ * @param root 본문 컨테이너
+ * @param passage 찾을 구절 (앞부분만으로도 충분)
+ * @returns 구절을 감싸는 Range, 찾지 못하면 null
+ */
+export function findPassageRange(root: HTMLElement, passage: string): Range | null {
+  const needle = passage.replace(/\s+/g, '').toLowerCase()
+  if (needle.length === 0) return null
+
+  // 공백 제외 문자별 (텍스트 노드, 오프셋)
+  const positions: { node: Text; offset: number }[] = []
+  let haystack = ''
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const value = node.data
+    for (let i = 0; i < value.length; i++) {
+      if (/\s/.test(value[i])) continue
+      haystack += value[i].toLowerCase()
+      positions.push({ node, offset: i })
+    }
+  }
+
+  const index = haystack.indexOf(needle)
+  if (index < 0) return null
+
+  const start = positions[index]
+  const end = positions[index + needle.length - 1]
+
+  const range = document.createRange()
+  range.setStart(start.node, start.offset)
+  range.setEnd(end.node, end.offset + 1)
+  return range
+}
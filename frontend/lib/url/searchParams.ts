@@ -0,0 +1,60 @@
+/**
+ * URL 쿼리스트링 ↔ 화면 상태 변환 유틸
+ *
+ * - 읽기: Next.js 페이지 searchParams를 zod 스키마로 검증 (잘못된 값은 필드별 기본값으로 대체)
+ * - 쓰기: 기본값과 같은 값은 생략해 짧고 공유하기 쉬운 URL 생성
+ */
+import type { z } from 'zod';
+
+/**
+ * Next.js 페이지 props의 searchParams 형태
+ */
+export type RawSearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * 쿼리스트링으로 표현 가능한 값 (배열은 쉼표로 연결)
+ */
+type SearchParamValue = string | number | boolean | string[] | undefined;
+
+/**
+ * searchParams를 스키마로 검증
+ *
+ * 같은 키가 여러 번 오면 첫 번째 값만 사용
+ * 스키마의 각 필드는 .catch()로 기본값을 지정해 검증 실패 시에도 예외 없이 동작해야 함
+ */
+export function parseSearchParams<Schema extends z.ZodType>(
+  schema: Schema,
+  raw: RawSearchParams
+): z.output<Schema> {
+  const normalized = Object.fromEntries(
+    Object.entries(raw).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value])
+  );
+  return schema.parse(normalized);
+}
+
+/**
+ * 상태를 쿼리스트링으로 변환 (빈 값, 기본값과 같은 값은 생략)
+ *
+ * @example
+ * buildQueryString({ mode: 'vector', q: 'react', threshold: 0.6 }, { mode: 'normal', threshold: 0.6 })
+ * // 'mode=vector&q=react'
+ */
+export function buildQueryString<T extends Record<string, SearchParamValue>>(
+  values: T,
+  defaults: Partial<T> = {}
+): string {
+  const params = new URLSearchParams();
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined || value === '') return;
+
+    const serialized = Array.isArray(value) ? value.join(',') : String(value);
+    const defaultValue = defaults[key];
+    const serializedDefault = Array.isArray(defaultValue) ? defaultValue.join(',') : defaultValue?.toString();
+
+    if (serialized === '' || serialized === serializedDefault) return;
+    params.set(key, serialized);
+  });
+
+  return params.toString();
+}
@@ -1,29 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { isProtectedRoute, isPublicRoute } from '@/lib/constants/routes';
+import { verifyAccessToken } from '@/lib/auth/jwt';
+import type { AccessTokenPayload } from '@/lib/auth/jwt';
+import {
+  buildLoginUrl,
+  getRequiredRoles,
+  hasRequiredRole,
+  isProtectedRoute,
+  isPublicRoute,
+  sanitizeReturnTo,
+} from '@/lib/constants/routes';
 
 /**
  * Next.js Middleware - 인증 기반 경로 보호
  *
  * 역할:
  * 1. routes.ts의 protected 경로에 인증 없이 접근 시 /login으로 리다이렉트
- * 2. 로그인된 사용자가 /login 접근 시 /posts로 리다이렉트
+ * 2. AUTH_CONFIG.roles 경로에 역할 권한 없이 접근 시 /forbidden으로 리다이렉트
+ * 3. 로그인된 사용자가 /login 접근 시 returnTo 또는 /posts로 리다이렉트
  *
- * JWT 토큰은 Cookie에서 확인 (localStorage는 서버에서 접근 불가)
+ * JWT 토큰은 Backend가 설정한 httpOnly access_token Cookie에서 확인하고,
+ * 존재 여부가 아닌 서명·만료까지 검증 (JWT_SECRET은 서버 전용 환경 변수)
  * routes.ts에서 경로 정의 변경 시 자동 반영됨
  */
 
-export function middleware(request: NextRequest) {
-  const path = request.nextUrl.pathname;
+async function getAccessTokenPayload(request: NextRequest): Promise<AccessTokenPayload | null> {
   const token = request.cookies.get('access_token')?.value;
+  const secret = process.env.JWT_SECRET;
+
+  if (!token) return null;
+  if (!secret) {
+    console.error('[middleware] JWT_SECRET이 설정되지 않아 토큰을 검증할 수 없습니다.');
+    return null;
+  }
+
+  return verifyAccessToken(token, secret);
+}
+
+export async function middleware(request: NextRequest) {
+  const path = request.nextUrl.pathname;
+  const payload = await getAccessTokenPayload(request);
+  const authenticated = payload !== null;
+
+  // 보호된 경로에 인증 없이 접근 시 /login으로 리다이렉트 (returnTo로 원래 경로 전달)
+  if (isProtectedRoute(path) && !authenticated) {
+    const loginUrl = buildLoginUrl(path + request.nextUrl.search);
+    return NextResponse.redirect(new URL(loginUrl, request.url));
+  }
 
-  // 보호된 경로에 인증 없이 접근 시 /login으로 리다이렉트
-  if (isProtectedRoute(path) && !token) {
-    return NextResponse.redirect(new URL('/login', request.url));
+  // 역할이 필요한 경로에 권한 없이 접근 시 /forbidden으로 리다이렉트
+  const requiredRoles = getRequiredRoles(path);
+  if (requiredRoles && !hasRequiredRole(payload?.role, requiredRoles)) {
+    return NextResponse.redirect(new URL('/forbidden', request.url));
   }
 
-  // 로그인된 사용자가 /login 접근 시 /posts로 리다이렉트
-  if (isPublicRoute(path) && token && path === '/login') {
-    return NextResponse.redirect(new URL('/posts', request.url));
+  // 로그인된 사용자가 /login 접근 시 returnTo 또는 /posts로 리다이렉트
+  if (isPublicRoute(path) && authenticated && path === '/login') {
+    const returnTo = sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo'));
+    return NextResponse.redirect(new URL(returnTo ?? '/posts', request.url));
   }
 
   return NextResponse.next();
@@ -1,17 +1,26 @@
 import type { NextConfig } from "next";
 
+// 업로드 이미지는 Backend가 /uploads 경로로 제공 (backend application.yml upload.public-path와 동기화)
+const apiUrl = new URL(process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080');
+
 const nextConfig: NextConfig = {
   experimental: {
     // React Compiler 활성화 (React 19)
     reactCompiler: true,
   },
   images: {
-    // 외부 이미지 도메인 허용 (Google OAuth 프로필 이미지)
+    // 외부 이미지 도메인 허용 (Google OAuth 프로필 이미지, 에디터 업로드 이미지)
     remotePatterns: [
       {
         protocol: 'https',
         hostname: 'lh3.googleusercontent.com',
       },
+      {
+        protocol: apiUrl.protocol === 'https:' ? 'https' : 'http',
+        hostname: apiUrl.hostname,
+        port: apiUrl.port,
+        pathname: '/uploads/**',
+      },
     ],
   },
 };
@@ -0,0 +1,12 @@
+/**
+ * Auth API 타입 정의
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ */
+
+/**
+ * 토큰 값은 httpOnly Cookie로만 전달되며 본문에는 만료 시간만 포함
+ */
+export interface TokenRefreshResponse {
+  expiresIn: number;       // Access Token 만료까지 남은 시간 (초)
+}
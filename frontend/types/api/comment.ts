@@ -0,0 +1,33 @@
+/**
+ * Comment API 타입 정의
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ */
+import type { AuthorInfo } from './post';
+
+export interface CommentDto {
+  id: number;
+  postId: number;
+  parentId: number | null;     // 답글이면 부모 댓글 ID
+  content: string;             // Markdown 원본 (삭제된 댓글은 빈 문자열)
+  author: AuthorInfo | null;   // 삭제된 댓글은 null
+  deleted: boolean;
+  createdAt: string;           // ISO 8601
+  updatedAt: string | null;    // ISO 8601, 수정이 없으면 null
+}
+
+export interface CreateCommentRequest {
+  content: string;             // 1~5000자, 필수 (Markdown)
+  parentId?: number;           // 답글 대상 댓글 ID
+}
+
+export interface UpdateCommentRequest {
+  content: string;             // 1~5000자, 필수 (Markdown)
+}
+
+/**
+ * 스레드 렌더링용 댓글 노드 (Frontend 전용, parentId로 구성)
+ */
+export interface CommentNode extends CommentDto {
+  replies: CommentNode[];
+}
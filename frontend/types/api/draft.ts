@@ -0,0 +1,30 @@
+/**
+ * Draft API 타입 정의 (게시글 자동 저장 초안)
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ */
+
+export interface DraftDto {
+  draftKey: string;            // Frontend 생성 키 (새 글: UUID, 수정: post-{postId})
+  postId: number | null;       // 수정 초안이면 대상 게시글 ID
+  title: string;
+  contentHtml: string;         // Backend HtmlSanitizer로 정제된 HTML
+  hashtags: string[];
+  createdAt: string;           // ISO 8601
+  updatedAt: string;           // ISO 8601
+}
+
+export interface DraftSummaryDto {
+  draftKey: string;
+  postId: number | null;
+  title: string;
+  excerpt: string;             // 본문 앞부분 (Plain Text, 최대 120자)
+  updatedAt: string;           // ISO 8601
+}
+
+export interface SaveDraftRequest {
+  postId?: number | null;      // 최초 저장 시에만 반영 (작성자 본인 게시글만)
+  title: string;               // 최대 200자, 빈 문자열 허용
+  contentHtml: string;
+  hashtags: string[];          // 최대 10개
+}
@@ -0,0 +1,60 @@
+/**
+ * API 에러 타입 정의
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ * Backend는 두 가지 에러 응답 형식을 사용:
+ * - Controller @ExceptionHandler / RestAuthenticationEntryPoint: { error: { code, message, timestamp } }
+ * - GlobalExceptionHandler.ErrorResponse: { timestamp, status, error, message, details }
+ */
+
+/**
+ * Backend가 명시적으로 내려주는 에러 코드 (중첩 형식)
+ */
+export type ServerErrorCode =
+  | 'FORBIDDEN'
+  | 'POST_NOT_FOUND'
+  | 'COMMENT_NOT_FOUND'
+  | 'DRAFT_NOT_FOUND'
+  | 'REVISION_NOT_FOUND'
+  | 'USER_NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'INVALID_REFRESH_TOKEN'
+  | 'INVALID_CSRF_TOKEN'
+  | 'VALIDATION_ERROR';
+
+/**
+ * 프론트엔드에서 사용하는 전체 에러 코드
+ * (GlobalExceptionHandler 응답, 네트워크 오류는 HTTP 상태로부터 도출)
+ */
+export type ApiErrorCode =
+  | ServerErrorCode
+  | 'BAD_REQUEST'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'SERVICE_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'UNKNOWN';
+
+/**
+ * 필드별 검증 오류 메시지 (필드명 -> 메시지)
+ */
+export type FieldErrors = Record<string, string>;
+
+export interface ErrorResponse {
+  error: {
+    code: ServerErrorCode;
+    message: string;           // 에러 메시지 (한글)
+    timestamp: string;         // 에러 발생 시각 (ISO 8601)
+  };
+}
+
+export interface GlobalErrorResponse {
+  timestamp: string;           // ISO 8601
+  status: number;              // HTTP 상태 코드
+  error: string;               // 예: "Not Found", "Validation Failed", "Conflict"
+  message: string;             // 에러 메시지 (한글)
+  details?: FieldErrors | null; // @Valid 검증 실패 시 필드별 메시지
+}
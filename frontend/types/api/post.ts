@@ -27,17 +27,52 @@ export interface UpdatePostRequest {
   hashtags: string[];          // 해시태그 배열, 기본값 [] (Backend 요구사항)
 }
 
+/**
+ * 검색 방식 (Backend SearchMode)
+ * - keyword: 전문 검색 + 제목 trigram (정확한 식별자)
+ * - semantic: 벡터 유사도 (기본값)
+ * - hybrid: keyword/semantic 순위를 Reciprocal Rank Fusion으로 결합
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 export interface VectorSearchRequest {
   query: string;           // 검색어, 필수
-  threshold?: number;      // 유사도 임계값 (0.0~1.0), 기본값 0.0
+  threshold?: number;      // 유사도 임계값 (0.0~1.0), 기본값 0.0 (semantic 신호에만 적용)
   limit?: number;          // 결과 개수 (1~100), 기본값 10
+  mode?: SearchMode;       // 검색 방식, 기본값 'semantic'
+}
+
+/**
+ * 검색 결과별 신호 기여도 (어느 검색 방식에서 몇 위로 잡혔는지)
+ */
+export interface SearchSignals {
+  keywordRank: number | null;    // 키워드 순위 (1부터, 키워드 결과에 없으면 null)
+  keywordScore: number | null;   // 키워드 관련도 (ts_rank_cd + 제목 trigram)
+  semanticRank: number | null;   // 의미 순위 (1부터, 임계값 미달/미사용 시 null)
+  fusedScore: number | null;     // RRF 점수 (hybrid 모드에서만)
+}
+
+/**
+ * 검색 결과 스니펫 (본문에서 가장 잘 맞는 청크)
+ */
+export interface SearchSnippet {
+  text: string;            // 청크 원문 (최대 500자)
+  chunkIndex: number;      // 청크 순서 (0부터)
+  startPosition: number;   // 본문 텍스트 기준 시작 위치
+  endPosition: number;     // 본문 텍스트 기준 끝 위치
+}
+
+export interface VectorSearchResultItem extends SearchSignals {
+  post: PostDto;                         // 게시글 정보
+  similarity: number;                    // 최대 벡터 유사도 (0.0~1.0, keyword 모드에서는 0)
+  totalScore: number;                    // 모드별 정렬 기준 스코어
+  fieldScores: Record<string, number>;   // 필드별 원본 유사도
+  snippet: SearchSnippet | null;         // 본문 청크가 없으면 null
 }
 
 export interface VectorSearchResponse {
-  results: Array<{
-    post: PostDto;             // 게시글 정보
-    similarityScore: number;   // 유사도 점수 (0.0~1.0)
-  }>;
+  results: VectorSearchResultItem[];
+  totalResults: number;
 }
 
 export type PostSearchField = 'title' | 'content' | 'hashtags' | 'author';
@@ -45,13 +80,16 @@ export type PostSearchField = 'title' | 'content' | 'hashtags' | 'author';
 export interface PostSearchRequest {
   query: string;                    // 검색어, 필수
   fields?: PostSearchField[];       // 검색 대상 필드 (미지정 시 모든 필드)
+  threshold?: number;               // 유사도 임계값 (0.0~1.0), 기본값 0.6
   limit?: number;                   // 최대 결과 개수 (1~100), 기본값 10
+  mode?: SearchMode;                // 검색 방식, 기본값 'semantic'
 }
 
-export interface PostSearchResultItem {
+export interface PostSearchResultItem extends SearchSignals {
   post: PostDto;                    // 게시글 정보
-  totalScore: number;               // 전체 가중 합산 스코어
-  fieldScores: Record<string, number>;  // 필드별 유사도 스코어 (디버깅용)
+  totalScore: number;               // 전체 가중 합산 스코어 (vector_configs 가중치·임계값 적용)
+  fieldScores: Record<string, number>;  // 필드별 원본 유사도 스코어 (가중치 미적용)
+  snippet: SearchSnippet | null;    // 본문 청크가 없으면 null
 }
 
 export interface PostSearchResponse {
@@ -59,6 +97,18 @@ export interface PostSearchResponse {
   totalResults: number;             // 총 결과 개수
 }
 
+/**
+ * 목록/피드 해시태그 조합 방식 (Backend HashtagMatch)
+ * - all: 모든 태그 포함 (기본값)
+ * - any: 하나 이상 포함
+ */
+export type HashtagMatch = 'all' | 'any';
+
+export interface HashtagFilter {
+  hashtags: string[];      // 최대 10개, 저장된 표기 그대로 (대소문자 구분)
+  match: HashtagMatch;
+}
+
 export interface PostListResponse {
   posts: PostDto[];          // 게시글 목록
   pagination: {
@@ -69,10 +119,7 @@ export interface PostListResponse {
   };
 }
 
-export interface ErrorResponse {
-  error: {
-    code: 'FORBIDDEN' | 'POST_NOT_FOUND' | 'VALIDATION_ERROR' | 'UNAUTHORIZED';
-    message: string;           // 에러 메시지 (한글)
-    timestamp: string;         // 에러 발생 시각 (ISO 8601)
-  };
+export interface PostFeedResponse {
+  posts: PostDto[];            // 게시글 목록 (최신순)
+  nextCursor: string | null;   // 다음 페이지 커서 (null이면 마지막 페이지)
 }
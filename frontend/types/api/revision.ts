@@ -0,0 +1,18 @@
+/**
+ * Post Revision API 타입 정의 (게시글 수정 이력)
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ */
+import type { AuthorInfo } from './post';
+
+export interface PostRevisionDto {
+  id: number;
+  postId: number;
+  revisionNumber: number;        // 게시글별 1부터 증가 (가장 큰 번호가 현재 내용)
+  title: string;
+  contentMarkdown: string | null; // 목록 조회에서는 null (단건 조회에서만 포함)
+  contentHtml: string | null;     // 목록 조회에서는 null
+  hashtags: string[];
+  editor: AuthorInfo;
+  createdAt: string;             // ISO 8601
+}
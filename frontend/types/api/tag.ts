@@ -0,0 +1,96 @@
+/**
+ * Tag API 타입 정의 (해시태그 자동완성, 작성 중 추천, 목록/인기 급상승/태그 페이지)
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ */
+
+export interface TagUsage {
+  tag: string;     // 저장된 표기 그대로 (예: "Next.js")
+  count: number;   // 사용 게시글 수 (삭제 게시글 제외)
+}
+
+export interface TagSuggestionResponse {
+  tags: TagUsage[];  // 사용 게시글 수 내림차순
+}
+
+export interface TagRecommendationRequest {
+  title: string;
+  contentHtml: string;
+  excludePostId?: number;  // 수정 중인 게시글 (자기 자신은 이웃에서 제외)
+  limit?: number;          // 1~10, 기본 5
+}
+
+export interface TagRecommendation {
+  tag: string;         // 이웃 게시글에 저장된 표기
+  confidence: number;  // 0.0~1.0 (이 태그를 가진 이웃 유사도 합 / 전체 이웃 유사도 합)
+  postCount: number;   // 이 태그를 가진 이웃 게시글 수
+}
+
+export interface TagRecommendationResponse {
+  suggestions: TagRecommendation[];  // 신뢰도 내림차순
+}
+
+/**
+ * 해시태그 사용 현황 (목록)
+ * activity: 최근 90일 일자별 작성 게시글 수 (오래된 날 → 오늘)
+ */
+export interface TagStats {
+  tag: string;
+  postCount: number;
+  activity: number[];
+}
+
+export interface TagDirectoryResponse {
+  tags: TagStats[];  // 사용 게시글 수 내림차순
+}
+
+export interface TrendingTag {
+  tag: string;
+  recentCount: number;    // 최근 7일 작성 게시글 수
+  weeklyAverage: number;  // 그 이전 기간의 주 평균 게시글 수
+  growth: number;         // 증가폭 점수 (정렬용)
+}
+
+export interface TrendingTagsResponse {
+  tags: TrendingTag[];  // 증가폭 내림차순
+}
+
+export interface TagDetailResponse {
+  tag: string;
+  postCount: number;
+  activity: number[];       // 최근 90일 일자별 작성 게시글 수
+  relatedTags: TagUsage[];  // 함께 쓰인 게시글 수 내림차순
+}
+
+/**
+ * 해시태그 관리 (운영자)
+ * Backend TagAdminController (/api/admin/tags, MODERATOR 이상)
+ */
+export interface TagSynonym {
+  id: number;
+  synonym: string;    // 이 태그로 찾으면
+  canonical: string;  // 대표 태그도 함께 찾음
+  createdAt: string;
+}
+
+export interface TagSynonymListResponse {
+  synonyms: TagSynonym[];  // 대표 태그, 동의어 순
+}
+
+export interface TagSynonymRequest {
+  synonym: string;
+  canonical: string;
+}
+
+export interface TagMergeRequest {
+  sources: string[];      // 교체할 태그 (저장된 표기 그대로, 최대 20개)
+  target: string;
+  addSynonyms?: boolean;  // sources를 target의 동의어로 등록
+}
+
+export interface TagMergeResponse {
+  target: string;
+  sources: string[];
+  updatedPostCount: number;  // 태그를 교체하고 재인덱싱한 게시글 수
+  addedSynonyms: string[];
+}
@@ -0,0 +1,11 @@
+/**
+ * Upload API 타입 정의
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ */
+
+export interface ImageUploadResponse {
+  url: string;          // Backend origin 기준 공개 경로 (예: "/uploads/2026/10/uuid.webp")
+  contentType: string;  // 시그니처로 판별된 MIME 타입
+  size: number;         // 저장된 바이트 수
+}
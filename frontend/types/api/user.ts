@@ -4,10 +4,16 @@
  * Constitution Principle IX: Backend DTO와 수동 동기화 필요
  */
 
+/**
+ * 사용자 역할 (Backend UserRole enum과 동기화, 권한 수준 오름차순)
+ */
+export type UserRole = 'USER' | 'MODERATOR' | 'ADMIN';
+
 export interface UserResponse {
   id: number;
   email: string;
   name: string;
   profileImageUrl?: string;
+  role: UserRole;
   createdAt: string;
 }
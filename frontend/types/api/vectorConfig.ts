@@ -0,0 +1,39 @@
+/**
+ * VectorConfig API 타입 정의
+ *
+ * Constitution Principle IX: Backend DTO와 수동 동기화 필요
+ * (VectorConfigResponse, VectorConfigCreateRequest, VectorConfigUpdateRequest)
+ */
+
+export interface VectorConfigResponse {
+  id: number;
+  entityType: string;      // 엔티티 타입 (예: Post, User)
+  fieldName: string;       // 벡터화 대상 필드명 (예: title, contentText)
+  weight: number;          // 검색 가중치 (0.1~10.0)
+  threshold: number;       // 유사도 스코어 최소 임계값 (0.0~1.0)
+  enabled: boolean;        // 활성화 여부
+  createdAt: string;       // ISO 8601
+  updatedAt: string;       // ISO 8601
+}
+
+export interface VectorConfigCreateRequest {
+  entityType: string;      // 1~100자, 필수
+  fieldName: string;       // 1~100자, 필수
+  weight?: number;         // 0.1~10.0, 기본값 1.0
+  threshold?: number;      // 0.0~1.0, 기본값 0.0
+  enabled?: boolean;       // 기본값 true
+}
+
+export interface VectorConfigUpdateRequest {
+  weight?: number;         // 0.1~10.0 (entityType, fieldName은 변경 불가)
+  threshold?: number;      // 0.0~1.0
+  enabled?: boolean;
+}
+
+/**
+ * Backend VectorConfigCreateRequest/UpdateRequest 검증 범위
+ */
+export const VECTOR_CONFIG_BOUNDS = {
+  weight: { min: 0.1, max: 10.0, step: 0.1 },
+  threshold: { min: 0.0, max: 1.0, step: 0.05 },
+} as const;